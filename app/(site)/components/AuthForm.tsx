@@ -43,7 +43,7 @@ import Button from '@/app/components/Button';
 import AuthSocialButton from './AuthSocialButton';
 import { toast } from 'react-hot-toast';
 import { signIn, useSession } from 'next-auth/react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 /**
  * Authentication Form Variant Type
@@ -177,6 +177,19 @@ const AuthForm = () => {
    */
   const router = useRouter();
 
+  /**
+   * Post-Sign-In Destination
+   *
+   * The middleware passes the page a signed-out visitor tried to open, such
+   * as a group invite link, as callbackUrl. Only paths on this site are
+   * followed, so the parameter cannot send people to another origin;
+   * everyone else lands on /users as before.
+   */
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams?.get('callbackUrl');
+  const redirectTo =
+    callbackUrl && /^\/(?![\/\\])/.test(callbackUrl) ? callbackUrl : '/users';
+
   /**
    * Authentication Form Variant State
    *
@@ -240,7 +253,7 @@ const AuthForm = () => {
    *
    * What this does:
    * - Session monitoring: Watches for authentication status changes
-   * - Automatic redirect: Redirects to /users when authenticated
+   * - Automatic redirect: Redirects to /users, or the callbackUrl, when authenticated
    * - User experience: Prevents authenticated users from seeing auth form
    * - Navigation flow: Ensures proper post-authentication routing
    * - State synchronization: Real-time session status updates
@@ -258,9 +271,9 @@ const AuthForm = () => {
    */
   useEffect(() => {
     if (session?.status === 'authenticated') {
-      router.push('/users');
+      router.push(redirectTo);
     }
-  }, [session?.status, router]);
+  }, [session?.status, router, redirectTo]);
 
   /**
    * Form Variant Toggle Function
@@ -379,7 +392,7 @@ const AuthForm = () => {
 
           if (callback?.ok && !callback?.error) {
             toast.success('Logged in!');
-            router.push('/users');
+            router.push(redirectTo);
           }
         })
         .finally(() => setIsLoading(false));
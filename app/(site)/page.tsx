@@ -32,6 +32,7 @@
  */
 
 import Image from 'next/image';
+import { Suspense } from 'react';
 import AuthForm from './components/AuthForm';
 
 /**
@@ -127,7 +128,10 @@ const Auth = () => {
           Sign into your account
         </h2>
       </div>
-      <AuthForm />
+      {/* AuthForm reads the callbackUrl search parameter */}
+      <Suspense>
+        <AuthForm />
+      </Suspense>
     </div>
   );
 };
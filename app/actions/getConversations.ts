@@ -72,7 +72,13 @@
  * ```
  */
 import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { readWatermarkSelect } from '@/app/libs/readWatermarks';
 import getCurrentUser from './getCurrentUser';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
 
 const getConversations = async () => {
   /**
@@ -187,10 +193,13 @@ const getConversations = async () => {
       include: {
         users: true,
         messages: {
-          include: {
-            sender: true,
-            seen: true,
+          where: {
+            AND: [liveMessageFilter, visibleToUserFilter(currentUser.id)],
           },
+          include: fullMessageInclude,
+        },
+        readStates: {
+          select: readWatermarkSelect,
         },
       },
     });
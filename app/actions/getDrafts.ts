@@ -0,0 +1,64 @@
+/**
+ * Drafts Retrieval for Dex Real-Time Messenger
+ *
+ * This file provides a server action that loads the current user's synced
+ * drafts for our Next.js 14 real-time messaging application. The sidebar
+ * hands them to the client, which merges them with the drafts kept in the
+ * browser, so a draft started on another device shows up here as well.
+ *
+ * Key Features:
+ * - Cleared drafts included, so they can override older local copies
+ * - Timestamps as ISO strings, ready to pass to client components
+ * - Graceful fallback to no drafts on any error
+ *
+ * @fileoverview Drafts retrieval server action for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import { DraftUpdate } from '@/app/types';
+import getCurrentUser from './getCurrentUser';
+
+/**
+ * Get Drafts
+ *
+ * @returns {Promise<DraftUpdate[]>} The user's drafts, or an empty array
+ * @throws Never throws - Returns an empty array for any errors
+ *
+ * @example
+ * ```typescript
+ * // In Sidebar
+ * const drafts = await getDrafts();
+ * return <DraftStatus initialDrafts={drafts} />;
+ * ```
+ */
+const getDrafts = async (): Promise<DraftUpdate[]> => {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id) {
+      return [];
+    }
+
+    const drafts = await prisma.draft.findMany({
+      where: {
+        userId: currentUser.id,
+      },
+      select: {
+        conversationId: true,
+        body: true,
+        updatedAt: true,
+      },
+    });
+
+    return drafts.map((draft) => ({
+      ...draft,
+      updatedAt: draft.updatedAt.toISOString(),
+    }));
+  } catch (error: any) {
+    return [];
+  }
+};
+
+export default getDrafts;
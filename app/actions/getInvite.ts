@@ -0,0 +1,86 @@
+/**
+ * Get Invite Server Action for Dex Real-Time Messenger
+ *
+ * This file provides the server action behind the /join/[token] page of our
+ * Next.js 14 real-time messaging application. It looks up an invite link and
+ * returns a preview of its group, so people can see what they are joining
+ * before they become members.
+ *
+ * Key Features:
+ * - Link status and whether the current user already belongs to the group
+ * - Preview limited to the group's name, photo, description and size
+ * - Null for unknown tokens and signed-out users
+ *
+ * @fileoverview Get invite server action for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import { getInviteStatus } from '@/app/libs/inviteLinks';
+import { InvitePreview } from '@/app/types';
+import getCurrentUser from './getCurrentUser';
+
+/**
+ * Get Invite
+ *
+ * @param {string} token - Invite token from the URL
+ * @returns {Promise<InvitePreview | null>} Preview of the invite, or null
+ *
+ * @example
+ * ```typescript
+ * const invite = await getInvite(params.token);
+ * ```
+ */
+const getInvite = async (token: string): Promise<InvitePreview | null> => {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id) {
+      return null;
+    }
+
+    const inviteLink = await prisma.inviteLink.findUnique({
+      where: {
+        token,
+      },
+      include: {
+        conversation: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+            description: true,
+            userIds: true,
+            users: {
+              select: {
+                id: true,
+                image: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!inviteLink) {
+      return null;
+    }
+
+    const { userIds, users, ...conversation } = inviteLink.conversation;
+
+    return {
+      status: getInviteStatus(inviteLink),
+      isMember: userIds.includes(currentUser.id),
+      conversation: {
+        ...conversation,
+        memberCount: userIds.length,
+        users: users.slice(0, 3),
+      },
+    };
+  } catch (error: any) {
+    return null;
+  }
+};
+
+export default getInvite;
@@ -1,155 +1,101 @@
 /**
  * Get Messages by Conversation ID
  *
- * Retrieves all messages for a specific conversation with sender and read receipt
- * information. This server action implements message retrieval functionality with
- * basic database querying and error handling that ensures proper message access
- * for conversation display and real-time messaging operations.
+ * Retrieves one page of messages for a specific conversation with sender and
+ * read receipt information. This server action shares its cursor pagination
+ * with the GET /api/messages/[conversationId] route, so long-lived
+ * conversations are never loaded in a single query.
  *
  * Key Capabilities:
  * - Server-side message retrieval by conversation ID
- * - Sender and read receipt information inclusion
- * - Chronological message ordering for conversation display
+ * - Cursor pagination with before/after message IDs and a page size
+ * - Sender, reply, reaction and read receipt information inclusion
+ * - Chronological message ordering within each page
  * - Error handling with graceful fallbacks
- * - Integration with conversation management system
  *
  * Message Retrieval Features:
- * - All messages for specified conversation
+ * - Latest page by default, older or newer pages with a cursor
  * - Message metadata (body, image, createdAt, updatedAt)
  * - Sender information for message attribution
  * - Read receipt data for message status tracking
- * - Chronological ordering for proper conversation flow
+ * - hasMoreBefore/hasMoreAfter flags for infinite scrolling
+ * - Messages the current user deleted "for me" are excluded
  *
  * Usage Patterns:
- * - Conversation display: Message history for conversation viewing
- * - Message loading: Initial message data for conversation interface
+ * - Conversation display: Initial page for conversation viewing
+ * - Message loading: Older pages as the user scrolls up
  * - Real-time updates: Base data for Pusher real-time message updates
- * - Message management: Message data for conversation components
  * - API integration: Server-side message data fetching
  *
- * Database Query Features:
- * - Prisma message.findMany: Efficient message collection retrieval
- * - Conversation ID filtering: Messages for specific conversation
- * - Sender includes: User information for message attribution
- * - Seen includes: Read receipt data for message status
- * - Chronological ordering: Messages in conversation flow order
- *
  * Security Considerations:
- * - Basic database querying without user validation
- * - No conversation access verification
+ * - Requires a signed-in user
+ * - Only conversations the user participates in are readable
  * - Error handling prevents information leakage
  * - Graceful fallbacks maintain application stability
- * - Note: Missing user-specific conversation access validation (security gap)
- *
- * Performance Features:
- * - Server-side fetching: Optimal performance with pre-loaded data
- * - Database optimization: Efficient message collection lookup
- * - Error handling: Prevents application crashes
- * - Caching: Server-side rendering benefits
- * - Type safety: Prisma-generated TypeScript types
- *
- * Security Note:
- * This function currently lacks user-specific conversation access validation,
- * which means it could potentially return messages from conversations the user
- * doesn't have access to. Consider adding conversation access verification
- * for enhanced security, similar to the API route implementation.
- *
- * This function is useful for our messaging app because it provides the
- * message retrieval functionality that enables conversation display and
- * message management, though it should be enhanced with proper security
- * validation for production use.
  *
  * @param {string} conversationId - The unique identifier for the conversation to retrieve messages from
- * @returns {Promise<FullMessageType[]>} Array of message objects with sender and read receipt data, or empty array on error
- * @throws Never throws - Returns empty array for any errors to maintain graceful degradation
+ * @param {Object} [options] - Optional before/after cursor and limit page size
+ * @returns {Promise<MessagePage>} Page of messages, oldest first, or an empty page on error
+ * @throws Never throws - Returns an empty page for any errors to maintain graceful degradation
  *
  * @example
  * ```typescript
- * // Basic message retrieval
- * const messages = await getMessages('conversation-id-123');
- * if (messages.length > 0) {
- *   console.log('Messages found:', messages.length);
- * }
+ * // Latest page
+ * const { messages, hasMoreBefore } = await getMessages('conversation-id-123');
  *
- * // In server components
- * const messages = await getMessages(params.conversationId);
- * return <MessageList messages={messages} />;
+ * // The page before the oldest loaded message
+ * const older = await getMessages(params.conversationId, {
+ *   before: messages[0].id,
+ *   limit: 30,
+ * });
  * ```
  */
-import prisma from '@/app/libs/prismadb';
+import getCurrentUser from './getCurrentUser';
+import {
+  getMessagePage,
+  MessagePageOptions,
+} from '@/app/libs/messagePagination';
+import { MessagePage } from '@/app/types';
+
+/**
+ * Empty Page
+ *
+ * Returned for signed-out users, inaccessible conversations and errors.
+ */
+const emptyPage: MessagePage = {
+  messages: [],
+  hasMoreBefore: false,
+  hasMoreAfter: false,
+};
+
+const getMessages = async (
+  conversationId: string,
+  options: Pick<MessagePageOptions, 'before' | 'after' | 'limit'> = {}
+): Promise<MessagePage> => {
+  const currentUser = await getCurrentUser();
+
+  if (!currentUser?.id) {
+    return emptyPage;
+  }
 
-const getMessages = async (conversationId: string) => {
   try {
     /**
-     * Database Message Query
-     *
-     * Queries the database for all messages belonging to a specific conversation.
-     * This query implements efficient message collection lookup with sender and
-     * read receipt information that provides the message data needed for
-     * conversation display and real-time messaging.
-     *
-     * Query Features:
-     * - findMany: Retrieves all matching message records
-     * - Conversation ID filtering: Messages for specific conversation
-     * - Sender includes: User information for message attribution
-     * - Seen includes: Read receipt data for message status tracking
-     * - Chronological ordering: Messages in conversation flow order
-     * - Prisma ORM: Type-safe database access
-     * - MongoDB integration: Efficient NoSQL querying
-     *
-     * Why findMany for messages?
-     * - Message collection: Retrieves all messages for conversation
-     * - User experience: Complete message history for conversation display
-     * - Real-time updates: Base data for Pusher real-time message updates
-     * - Performance: Efficient collection lookup
-     * - Consistency: Predictable message retrieval behavior
-     *
-     * Why filter by conversationId?
-     * - Conversation scope: Messages belong to specific conversation
-     * - Data integrity: Prevents cross-conversation message mixing
-     * - User experience: Relevant messages for conversation display
-     * - Performance: Efficient database filtering
-     * - Security: Conversation-specific message access
-     *
-     * Why include sender and seen?
-     * - Message attribution: Sender information for message display
-     * - Read receipts: User read status for message status tracking
-     * - UI rendering: All data needed for message components
-     * - User experience: Complete message context and status
-     * - Performance: Reduces additional database queries
-     *
-     * Why order by createdAt asc?
-     * - Conversation flow: Messages in chronological order
-     * - User experience: Natural conversation reading order
-     * - Message threading: Proper message sequence for replies
-     * - Performance: Efficient database sorting
-     * - Consistency: Predictable message ordering
+     * Paginated Message Query
      *
-     * Security Note:
-     * This query currently lacks user-specific conversation access validation,
-     * which means it could potentially return messages from conversations the
-     * user doesn't have access to. For enhanced security, consider adding
-     * conversation access verification before querying messages.
+     * Delegates to the shared cursor pagination used by the messages API
+     * route, so server-rendered and client-fetched pages are identical.
+     * The query is scoped to conversations the current user participates in
+     * and excludes messages they deleted "for me".
      *
-     * This database query is useful for our messaging app because
-     * it provides the message data that enables conversation display
-     * and message management, though it should be enhanced with proper
-     * security validation for production use.
+     * An invalid cursor or inaccessible conversation yields an empty page.
      */
-    const messages = await prisma.message.findMany({
-      where: {
-        conversationId: conversationId,
-      },
-      include: {
-        sender: true,
-        seen: true,
-      },
-      orderBy: {
-        createdAt: 'asc',
-      },
+    const page = await getMessagePage({
+      conversationId,
+      userId: currentUser.id,
+      ...options,
     });
 
-    return messages;
+    return page ?? emptyPage;
   } catch (error: any) {
     /**
      * Error Handling
@@ -167,7 +113,7 @@ const getMessages = async (conversationId: string) => {
      * - Database schema changes
      * - MongoDB connection timeouts
      *
-     * Why return empty array for errors?
+     * Why return an empty page for errors?
      * - Graceful degradation: Prevents application crashes
      * - User experience: Maintains consistent UI behavior
      * - Security: Prevents error information leakage
@@ -187,7 +133,7 @@ const getMessages = async (conversationId: string) => {
      * even when database operations fail, maintaining user experience
      * and application reliability throughout the platform.
      */
-    return [];
+    return emptyPage;
   }
 };
 
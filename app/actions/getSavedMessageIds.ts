@@ -0,0 +1,58 @@
+/**
+ * Saved Message IDs Retrieval for Dex Real-Time Messenger
+ *
+ * This file provides a server action that loads the IDs of the messages the
+ * current user saved, for our Next.js 14 real-time messaging application.
+ * The sidebar renders them into the client store that decides whether a
+ * message shows a filled star, after which saved:update events keep the
+ * store current.
+ *
+ * Key Features:
+ * - IDs only, since message boxes already have the messages themselves
+ * - Graceful fallback to no saved messages on any error
+ *
+ * @fileoverview Saved message IDs retrieval server action for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import getCurrentUser from './getCurrentUser';
+
+/**
+ * Get Saved Message IDs
+ *
+ * @returns {Promise<string[]>} IDs of the user's saved messages, or an empty array
+ * @throws Never throws - Returns an empty array for any errors
+ *
+ * @example
+ * ```typescript
+ * // In Sidebar
+ * const savedMessageIds = await getSavedMessageIds();
+ * return <SavedStatus initialIds={savedMessageIds} />;
+ * ```
+ */
+const getSavedMessageIds = async (): Promise<string[]> => {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id) {
+      return [];
+    }
+
+    const savedMessages = await prisma.savedMessage.findMany({
+      where: {
+        userId: currentUser.id,
+      },
+      select: {
+        messageId: true,
+      },
+    });
+
+    return savedMessages.map((savedMessage) => savedMessage.messageId);
+  } catch (error: any) {
+    return [];
+  }
+};
+
+export default getSavedMessageIds;
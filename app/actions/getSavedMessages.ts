@@ -0,0 +1,87 @@
+/**
+ * Saved Messages Retrieval for Dex Real-Time Messenger
+ *
+ * This file provides the server action behind the Saved page of our Next.js
+ * 14 real-time messaging application. It loads the messages the current user
+ * starred, together with the conversations they belong to, so the page can
+ * group them and link back into each timeline.
+ *
+ * Key Features:
+ * - Most recently saved first
+ * - Only conversations the user still belongs to
+ * - Messages deleted since, or deleted by the user for themselves, left out
+ * - Graceful fallback to an empty list on any error
+ *
+ * @fileoverview Saved messages retrieval server action for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
+import { SavedMessageWithContext } from '@/app/types';
+import getCurrentUser from './getCurrentUser';
+
+/**
+ * Get Saved Messages
+ *
+ * @returns {Promise<SavedMessageWithContext[]>} The user's bookmarks, or an empty array
+ * @throws Never throws - Returns an empty array for any errors
+ *
+ * @example
+ * ```typescript
+ * // In the Saved layout
+ * const savedMessages = await getSavedMessages();
+ * return <SavedList items={savedMessages} />;
+ * ```
+ */
+const getSavedMessages = async (): Promise<SavedMessageWithContext[]> => {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id) {
+      return [];
+    }
+
+    return await prisma.savedMessage.findMany({
+      where: {
+        userId: currentUser.id,
+        message: {
+          AND: [
+            {
+              conversation: {
+                userIds: {
+                  has: currentUser.id,
+                },
+              },
+            },
+            liveMessageFilter,
+            visibleToUserFilter(currentUser.id),
+          ],
+        },
+      },
+      include: {
+        message: {
+          include: {
+            sender: true,
+            conversation: {
+              include: {
+                users: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  } catch (error: any) {
+    return [];
+  }
+};
+
+export default getSavedMessages;
@@ -0,0 +1,49 @@
+/**
+ * Unread Counts Retrieval for Dex Real-Time Messenger
+ *
+ * This file provides a server action that loads the current user's unread
+ * counters for our Next.js 14 real-time messaging application. The sidebar
+ * renders them into the client store that drives unread badges, after which
+ * Pusher events keep the store current.
+ *
+ * Key Features:
+ * - Server-side loading of unread counters for the authenticated user
+ * - Only conversations with unread messages are returned
+ * - Graceful fallback to no unread messages on any error
+ *
+ * @fileoverview Unread counts retrieval server action for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { getUnreadCountsForUser } from '@/app/libs/unreadCounts';
+import getCurrentUser from './getCurrentUser';
+
+/**
+ * Get Unread Counts
+ *
+ * @returns {Promise<Record<string, number>>} Unread count keyed by conversation ID, or an empty object
+ * @throws Never throws - Returns an empty object for any errors
+ *
+ * @example
+ * ```typescript
+ * // In Sidebar
+ * const unreadCounts = await getUnreadCounts();
+ * return <UnreadStatus initialCounts={unreadCounts} />;
+ * ```
+ */
+const getUnreadCounts = async (): Promise<Record<string, number>> => {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id) {
+      return {};
+    }
+
+    return await getUnreadCountsForUser(currentUser.id);
+  } catch (error: any) {
+    return {};
+  }
+};
+
+export default getUnreadCounts;
@@ -0,0 +1,151 @@
+/**
+ * Draft API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint that syncs the current user's draft of a
+ * conversation to the server in our Next.js 14 real-time messaging
+ * application, so it follows them to their other devices. The browser
+ * keeps its own copy; this is only called shortly after typing stops.
+ *
+ * Key Features:
+ * - PUT: Save or clear (empty body) the draft
+ * - Updates older than the stored draft are ignored
+ * - draft:update on the user's own channel
+ * - Members only
+ *
+ * @fileoverview Draft API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import { DraftUpdate } from '@/app/types';
+
+/**
+ * Conversation Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the draft belongs to
+ */
+interface IParams {
+  conversationId?: string;
+}
+
+/**
+ * Save Draft API Endpoint
+ *
+ * updatedAt comes from the device the text was typed on. Requests can
+ * arrive out of order, e.g. a delayed save after the message was already
+ * sent and the draft cleared, so only a newer update replaces the stored
+ * draft; the response is always the draft as stored.
+ *
+ * API Integration:
+ * - PUT /api/conversations/{conversationId}/draft
+ * - Request body: { body, updatedAt }
+ * - Response: { conversationId, body, updatedAt }
+ * - Real-time events: draft:update on the user's own channel
+ * - Error responses: 400 (Invalid ID or data), 401 (Unauthorized),
+ *   500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request with the draft
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} The stored draft or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.put(`/api/conversations/${conversationId}/draft`, {
+ *   body: 'Half-written reply',
+ *   updatedAt: new Date().toISOString(),
+ * });
+ * ```
+ */
+export async function PUT(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { body, updatedAt } = await request.json();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        id: params.conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    const updatedAtDate = new Date(updatedAt);
+
+    if (
+      typeof body !== 'string' ||
+      body.length > 4096 ||
+      Number.isNaN(updatedAtDate.getTime())
+    ) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    const where = {
+      userId_conversationId: {
+        userId: currentUser.id,
+        conversationId: conversation.id,
+      },
+    };
+
+    const existing = await prisma.draft.findUnique({ where });
+
+    if (existing && existing.updatedAt >= updatedAtDate) {
+      return NextResponse.json<DraftUpdate>({
+        conversationId: conversation.id,
+        body: existing.body,
+        updatedAt: existing.updatedAt.toISOString(),
+      });
+    }
+
+    await prisma.draft.upsert({
+      where,
+      create: {
+        body,
+        updatedAt: updatedAtDate,
+        user: {
+          connect: {
+            id: currentUser.id,
+          },
+        },
+        conversation: {
+          connect: {
+            id: conversation.id,
+          },
+        },
+      },
+      update: {
+        body,
+        updatedAt: updatedAtDate,
+      },
+    });
+
+    const update: DraftUpdate = {
+      conversationId: conversation.id,
+      body,
+      updatedAt: updatedAtDate.toISOString(),
+    };
+
+    await pusherServer.trigger(currentUser.email, 'draft:update', update);
+
+    return NextResponse.json(update);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
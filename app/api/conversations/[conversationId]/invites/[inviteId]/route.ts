@@ -0,0 +1,109 @@
+/**
+ * Group Invite Link API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint for revoking a single invite link of a
+ * group conversation in our Next.js 14 real-time messaging application.
+ * Revoked links stop letting people in immediately but stay in the group's
+ * list, so admins can tell which links were shared.
+ *
+ * Key Features:
+ * - Owner and admins only, for groups they belong to
+ * - Revocation recorded with a timestamp rather than deleting the link
+ *
+ * @fileoverview Group invite link API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { canManageGroup, getMemberRole } from '@/app/libs/conversationRoles';
+
+/**
+ * Invite Link Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Group the link belongs to
+ * @property {string} [inviteId] - Link to revoke
+ */
+interface IParams {
+  conversationId?: string;
+  inviteId?: string;
+}
+
+/**
+ * Revoke Invite Link API Endpoint
+ *
+ * Revoking a link that is already revoked keeps the original timestamp.
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId and inviteId
+ * @returns {Promise<NextResponse>} The revoked link or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(
+ *   `/api/conversations/${conversationId}/invites/${inviteId}`
+ * );
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const inviteLink = await prisma.inviteLink.findFirst({
+      where: {
+        id: params.inviteId,
+        conversationId: params.conversationId,
+        conversation: {
+          userIds: {
+            has: currentUser.id,
+          },
+        },
+      },
+      include: {
+        conversation: true,
+      },
+    });
+
+    if (!inviteLink) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    if (
+      !canManageGroup(getMemberRole(inviteLink.conversation, currentUser.id))
+    ) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const revokedLink = await prisma.inviteLink.update({
+      where: {
+        id: inviteLink.id,
+      },
+      data: {
+        revokedAt: inviteLink.revokedAt ?? new Date(),
+      },
+      include: {
+        createdBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(revokedLink);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Group Invite Links API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for listing and creating the invite links
+ * of a group conversation in our Next.js 14 real-time messaging application.
+ * Anyone who opens a link and signs in can join the group through
+ * /join/[token], without an admin picking them from the member list.
+ *
+ * Key Features:
+ * - Owner and admins only, for groups they belong to
+ * - Optional expiry and usage limit chosen from fixed presets
+ * - Random, URL-safe tokens
+ * - Revoked, expired and used-up links stay listed for reference
+ *
+ * @fileoverview Group invite links API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { randomBytes } from 'crypto';
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { canManageGroup, getMemberRole } from '@/app/libs/conversationRoles';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+} from '@/app/libs/inviteLinks';
+
+/**
+ * Conversation Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Group the invite links belong to
+ */
+interface IParams {
+  conversationId?: string;
+}
+
+const createdBySelect = {
+  name: true,
+  email: true,
+};
+
+/**
+ * Managed Group Check
+ *
+ * @param {string | undefined} conversationId - Group to look up
+ * @param {string} userId - Acting user
+ * @returns {Promise<NextResponse | null>} Error response, or null when the user manages the group
+ */
+const checkManagedGroup = async (
+  conversationId: string | undefined,
+  userId: string
+) => {
+  const conversation = await prisma.conversation.findUnique({
+    where: {
+      id: conversationId,
+      userIds: {
+        has: userId,
+      },
+    },
+  });
+
+  if (!conversation) {
+    return new NextResponse('Invalid ID', { status: 400 });
+  }
+
+  if (!conversation.isGroup) {
+    return new NextResponse('Not a group', { status: 400 });
+  }
+
+  if (!canManageGroup(getMemberRole(conversation, userId))) {
+    return new NextResponse('Forbidden', { status: 403 });
+  }
+
+  return null;
+};
+
+/**
+ * List Invite Links API Endpoint
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} The group's links, newest first
+ *
+ * @example
+ * ```typescript
+ * const { data } = await axios.get<InviteLinkWithCreator[]>(
+ *   `/api/conversations/${conversationId}/invites`
+ * );
+ * ```
+ */
+export async function GET(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const error = await checkManagedGroup(
+      params.conversationId,
+      currentUser.id
+    );
+
+    if (error) {
+      return error;
+    }
+
+    const inviteLinks = await prisma.inviteLink.findMany({
+      where: {
+        conversationId: params.conversationId,
+      },
+      include: {
+        createdBy: {
+          select: createdBySelect,
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return NextResponse.json(inviteLinks);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Create Invite Link API Endpoint
+ *
+ * Request body: { expiresIn, maxUses }, each the value of one of the
+ * INVITE_EXPIRY_OPTIONS and INVITE_MAX_USES_OPTIONS presets.
+ *
+ * @param {Request} request - HTTP request with the link's limits
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} The created link or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/conversations/${conversationId}/invites`, {
+ *   expiresIn: '7d',
+ *   maxUses: '10',
+ * });
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const body = await request.json();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const expiry = INVITE_EXPIRY_OPTIONS.find(
+      (option) => option.value === body.expiresIn
+    );
+    const usage = INVITE_MAX_USES_OPTIONS.find(
+      (option) => option.value === body.maxUses
+    );
+
+    if (!expiry || !usage) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    const error = await checkManagedGroup(
+      params.conversationId,
+      currentUser.id
+    );
+
+    if (error) {
+      return error;
+    }
+
+    const inviteLink = await prisma.inviteLink.create({
+      data: {
+        token: randomBytes(18).toString('base64url'),
+        expiresAt: expiry.ms ? new Date(Date.now() + expiry.ms) : null,
+        maxUses: usage.uses,
+        conversation: {
+          connect: {
+            id: params.conversationId,
+          },
+        },
+        createdBy: {
+          connect: {
+            id: currentUser.id,
+          },
+        },
+      },
+      include: {
+        createdBy: {
+          select: createdBySelect,
+        },
+      },
+    });
+
+    return NextResponse.json(inviteLink);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
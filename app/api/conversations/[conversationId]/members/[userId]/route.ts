@@ -0,0 +1,322 @@
+/**
+ * Group Member API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for a single member of a group
+ * conversation in our Next.js 14 real-time messaging application: taking
+ * them out of the group (removing another member, or leaving when the member
+ * is the current user), and changing their role. Before it existed, the only
+ * way out of a group was deleting it for everyone.
+ *
+ * Key Features:
+ * - Group-only, and only for members of the group
+ * - Admins remove members; the owner removes admins and changes roles
+ * - Ownership handed on when the owner leaves
+ * - The removed member's read state is dropped along with their membership
+ * - conversation:remove for the removed member, conversation:update for the rest
+ * - "Alice removed Bob", "Carol left" or "Alice made Bob an admin" in the timeline
+ * - A group whose last member leaves is deleted
+ *
+ * @fileoverview Group member API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import {
+  canRemoveMember,
+  getMemberRole,
+  pickNextOwner,
+} from '@/app/libs/conversationRoles';
+import { broadcastMembership } from '@/app/libs/groupMembership';
+import { createSystemMessage } from '@/app/libs/systemMessages';
+
+/**
+ * Member Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Group the member belongs to
+ * @property {string} [userId] - Member to remove or change; the current user to leave
+ */
+interface IParams {
+  conversationId?: string;
+  userId?: string;
+}
+
+/**
+ * Group Member Lookup
+ *
+ * Shared by both handlers: the group must exist, include the current user
+ * and include the member the route points at.
+ *
+ * @param {IParams} params - Route parameters
+ * @param {string} currentUserId - Acting user
+ * @returns {Promise<NextResponse | Object>} Error response, or the group and member
+ */
+const findGroupMember = async (params: IParams, currentUserId: string) => {
+  const conversation = await prisma.conversation.findUnique({
+    where: {
+      id: params.conversationId,
+      userIds: {
+        has: currentUserId,
+      },
+    },
+    include: {
+      users: true,
+    },
+  });
+
+  if (!conversation) {
+    return new NextResponse('Invalid ID', { status: 400 });
+  }
+
+  if (!conversation.isGroup) {
+    return new NextResponse('Not a group', { status: 400 });
+  }
+
+  const member = conversation.users.find((user) => user.id === params.userId);
+
+  if (!member) {
+    return new NextResponse('Not a member', { status: 400 });
+  }
+
+  return { conversation, member };
+};
+
+/**
+ * Remove Group Member API Endpoint
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId and userId
+ * @returns {Promise<NextResponse>} Updated conversation, or null once deleted
+ *
+ * @example
+ * ```typescript
+ * // Remove someone else
+ * await axios.delete(`/api/conversations/${conversationId}/members/${userId}`);
+ *
+ * // Leave the group
+ * await axios.delete(
+ *   `/api/conversations/${conversationId}/members/${currentUser.id}`
+ * );
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const lookup = await findGroupMember(params, currentUser.id);
+
+    if (lookup instanceof NextResponse) {
+      return lookup;
+    }
+
+    const { conversation, member } = lookup;
+    const isLeaving = member.id === currentUser.id;
+
+    if (
+      !isLeaving &&
+      !canRemoveMember(
+        getMemberRole(conversation, currentUser.id),
+        getMemberRole(conversation, member.id)
+      )
+    ) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    /**
+     * Last Member Leaving
+     *
+     * Nobody would be left to see the group, so it is deleted instead,
+     * the same way DELETE /api/conversations/[conversationId] does.
+     */
+    if (conversation.users.length === 1) {
+      await prisma.conversation.delete({
+        where: {
+          id: conversation.id,
+        },
+      });
+
+      if (member.email) {
+        pusherServer.trigger(member.email, 'conversation:remove', conversation);
+      }
+
+      return NextResponse.json(null);
+    }
+
+    /**
+     * Ownership Transfer
+     *
+     * A group keeps an owner: when the owner leaves, the longest-standing
+     * admin takes over, or the longest-standing member if there are none.
+     */
+    const nextOwnerId =
+      member.id === conversation.ownerId
+        ? pickNextOwner(conversation, member.id)
+        : conversation.ownerId;
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data: {
+        users: {
+          disconnect: {
+            id: member.id,
+          },
+        },
+        ownerId: nextOwnerId,
+        adminIds: {
+          set: conversation.adminIds.filter(
+            (adminId) => adminId !== member.id && adminId !== nextOwnerId
+          ),
+        },
+      },
+      include: {
+        users: true,
+      },
+    });
+
+    // The former member no longer has an unread counter or watermark here
+    await prisma.readState.deleteMany({
+      where: {
+        conversationId: conversation.id,
+        userId: member.id,
+      },
+    });
+
+    /**
+     * Membership Notifications
+     *
+     * The removed member's list drops the group (and leaves it if open);
+     * the remaining members get the new member list and roles.
+     */
+    if (member.email) {
+      pusherServer.trigger(member.email, 'conversation:remove', conversation);
+    }
+
+    broadcastMembership(updatedConversation);
+
+    const newOwner =
+      nextOwnerId !== conversation.ownerId
+        ? updatedConversation.users.find((user) => user.id === nextOwnerId)
+        : undefined;
+
+    await createSystemMessage(
+      conversation.id,
+      currentUser,
+      isLeaving
+        ? { kind: 'MEMBER_LEFT', targets: newOwner ? [newOwner] : [] }
+        : { kind: 'MEMBER_REMOVED', targets: [member] }
+    );
+
+    return NextResponse.json(updatedConversation);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Change Member Role API Endpoint
+ *
+ * Request body: { role: 'OWNER' | 'ADMIN' | 'MEMBER' }. Only the owner
+ * changes roles. Making someone else the owner transfers ownership, and the
+ * previous owner stays on as an admin.
+ *
+ * @param {Request} request - HTTP request with the new role
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId and userId
+ * @returns {Promise<NextResponse>} Updated conversation or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.patch(`/api/conversations/${conversationId}/members/${userId}`, {
+ *   role: 'ADMIN',
+ * });
+ * ```
+ */
+export async function PATCH(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const body = await request.json();
+    const { role } = body;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (!['OWNER', 'ADMIN', 'MEMBER'].includes(role)) {
+      return new NextResponse('Invalid role', { status: 400 });
+    }
+
+    const lookup = await findGroupMember(params, currentUser.id);
+
+    if (lookup instanceof NextResponse) {
+      return lookup;
+    }
+
+    const { conversation, member } = lookup;
+
+    if (
+      getMemberRole(conversation, currentUser.id) !== 'OWNER' ||
+      member.id === currentUser.id
+    ) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    if (getMemberRole(conversation, member.id) === role) {
+      return NextResponse.json(conversation);
+    }
+
+    const otherAdminIds = conversation.adminIds.filter(
+      (adminId) => adminId !== member.id
+    );
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data:
+        role === 'OWNER'
+          ? {
+              ownerId: member.id,
+              adminIds: {
+                set: [...otherAdminIds, currentUser.id],
+              },
+            }
+          : {
+              adminIds: {
+                set:
+                  role === 'ADMIN'
+                    ? [...otherAdminIds, member.id]
+                    : otherAdminIds,
+              },
+            },
+      include: {
+        users: true,
+      },
+    });
+
+    broadcastMembership(updatedConversation);
+
+    await createSystemMessage(conversation.id, currentUser, {
+      kind: 'ROLE_CHANGED',
+      targets: [member],
+      value: role,
+    });
+
+    return NextResponse.json(updatedConversation);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
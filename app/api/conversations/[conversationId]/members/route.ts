@@ -0,0 +1,166 @@
+/**
+ * Group Members API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint for adding people to an existing group
+ * conversation in our Next.js 14 real-time messaging application. Groups
+ * were previously fixed at creation time in GroupChatModal; members can now
+ * bring others in after the fact.
+ *
+ * Key Features:
+ * - Group-only: direct conversations always have exactly two participants
+ * - Only the owner and admins can add people, and only existing users
+ * - Users already in the group are skipped rather than rejected
+ * - conversation:new for the people added, conversation:update for the rest
+ * - "Alice added Bob and Carol" posted into the timeline
+ *
+ * @fileoverview Group members API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import { readWatermarkSelect } from '@/app/libs/readWatermarks';
+import { canManageGroup, getMemberRole } from '@/app/libs/conversationRoles';
+import { broadcastMembership } from '@/app/libs/groupMembership';
+import { createSystemMessage } from '@/app/libs/systemMessages';
+
+/**
+ * Conversation Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Group the members are added to
+ */
+interface IParams {
+  conversationId?: string;
+}
+
+/**
+ * Add Group Members API Endpoint
+ *
+ * Request body: { userIds: string[] }. Responds with the updated
+ * conversation, including users and read watermarks like
+ * GET /api/conversations/[conversationId].
+ *
+ * @param {Request} request - HTTP request with the users to add
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} Updated conversation or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/conversations/${conversationId}/members`, {
+ *   userIds: ['507f1f77bcf86cd799439011'],
+ * });
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { conversationId } = params;
+    const body = await request.json();
+    const { userIds } = body;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (
+      !Array.isArray(userIds) ||
+      userIds.length === 0 ||
+      userIds.some((userId) => typeof userId !== 'string')
+    ) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    /**
+     * Group Lookup
+     *
+     * Restricted to groups the current user belongs to, so nobody can add
+     * people (or themselves) to a group they are not part of.
+     */
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        id: conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    if (!conversation.isGroup) {
+      return new NextResponse('Not a group', { status: 400 });
+    }
+
+    if (!canManageGroup(getMemberRole(conversation, currentUser.id))) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const newMembers = await prisma.user.findMany({
+      where: {
+        id: {
+          in: userIds.filter(
+            (userId: string) => !conversation.userIds.includes(userId)
+          ),
+        },
+      },
+    });
+
+    if (newMembers.length === 0) {
+      return new NextResponse('No new members', { status: 400 });
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data: {
+        users: {
+          connect: newMembers.map((member) => ({ id: member.id })),
+        },
+      },
+      include: {
+        users: true,
+        readStates: {
+          select: readWatermarkSelect,
+        },
+      },
+    });
+
+    /**
+     * Membership Notifications
+     *
+     * The people added see the group appear in their list; everyone else
+     * gets the new member list. Sent before the system message, so the new
+     * members already have the conversation when its update arrives.
+     */
+    const newMemberIds = newMembers.map((member) => member.id);
+
+    newMembers.forEach((member) => {
+      if (member.email) {
+        pusherServer.trigger(
+          member.email,
+          'conversation:new',
+          updatedConversation
+        );
+      }
+    });
+
+    broadcastMembership(updatedConversation, newMemberIds);
+
+    await createSystemMessage(conversation.id, currentUser, {
+      kind: 'MEMBERS_ADDED',
+      targets: newMembers,
+    });
+
+    return NextResponse.json(updatedConversation);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Pinned Messages API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint listing the pinned messages of a
+ * conversation in our Next.js 14 real-time messaging application. Pins can
+ * be far older than the page of messages loaded in the timeline, so the
+ * banner and the profile drawer load them separately and keep them current
+ * from message:update events afterwards.
+ *
+ * Key Features:
+ * - Members only
+ * - Most recently pinned first
+ * - Messages the user deleted for themselves are left out
+ *
+ * @fileoverview Pinned messages API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
+
+/**
+ * Conversation Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation whose pins are listed
+ */
+interface IParams {
+  conversationId?: string;
+}
+
+/**
+ * List Pinned Messages API Endpoint
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} Pinned messages, most recently pinned first
+ *
+ * @example
+ * ```typescript
+ * const { data } = await axios.get<FullMessageType[]>(
+ *   `/api/conversations/${conversationId}/pins`
+ * );
+ * ```
+ */
+export async function GET(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        id: params.conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    const pinnedMessages = await prisma.message.findMany({
+      where: {
+        AND: [
+          { conversationId: conversation.id },
+          { pinnedAt: { not: null } },
+          liveMessageFilter,
+          visibleToUserFilter(currentUser.id),
+        ],
+      },
+      include: fullMessageInclude,
+      orderBy: {
+        pinnedAt: 'desc',
+      },
+    });
+
+    return NextResponse.json(pinnedMessages);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
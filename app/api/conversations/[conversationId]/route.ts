@@ -14,8 +14,9 @@
  * - Comprehensive error handling and status responses
  *
  * Conversation Management Features:
- * - DELETE: Secure conversation deletion with user authorization
+ * - DELETE: Secure conversation deletion, limited to the owner in groups
  * - GET: Secure conversation retrieval with access validation
+ * - PATCH: Group name, photo and description, for the owner and admins
  * - Real-time notifications: Pusher integration for live updates
  * - Security validation: User-specific conversation access control
  * - Database integration: Prisma ORM with MongoDB for data operations
@@ -34,6 +35,20 @@ import getCurrentUser from '@/app/actions/getCurrentUser';
 import { NextResponse } from 'next/server';
 import prisma from '@/app/libs/prismadb';
 import { pusherServer } from '@/app/libs/pusher';
+import { readWatermarkSelect } from '@/app/libs/readWatermarks';
+import {
+  canManageGroup,
+  getMemberRole,
+  hasRole,
+} from '@/app/libs/conversationRoles';
+import {
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  GROUP_NAME_MAX_LENGTH,
+  getGroupSettingsEvents,
+  normalizeOptionalText,
+} from '@/app/libs/groupSettings';
+import { createSystemMessage } from '@/app/libs/systemMessages';
+import { GroupSettingsUpdate } from '@/app/types';
 
 /**
  * Conversation Parameters Interface
@@ -64,7 +79,7 @@ interface IParams {
  * - Comprehensive error handling and status responses
  *
  * Deletion Features:
- * - User authorization: Only conversation participants can delete
+ * - User authorization: Only the owner of a group, or either participant of a direct conversation, can delete
  * - Conversation validation: Ensures conversation exists before deletion
  * - Real-time notifications: Notifies all participants of deletion
  * - Database cleanup: Removes conversation from database
@@ -225,6 +240,20 @@ export async function DELETE(
       return new NextResponse('Invalid ID', { status: 400 });
     }
 
+    /**
+     * Role Check
+     *
+     * Deleting removes the conversation for every participant, so in a group
+     * only the owner may do it; everyone else can leave instead. Either
+     * participant of a direct conversation counts as its owner.
+     */
+    if (
+      !existingConversation.userIds.includes(currentUser.id) ||
+      !hasRole(getMemberRole(existingConversation, currentUser.id), 'OWNER')
+    ) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
     /**
      * User-Authorized Conversation Deletion
      *
@@ -555,6 +584,9 @@ export async function GET(request: Request, { params }: { params: IParams }) {
       },
       include: {
         users: true,
+        readStates: {
+          select: readWatermarkSelect,
+        },
       },
     });
 
@@ -656,3 +688,122 @@ export async function GET(request: Request, { params }: { params: IParams }) {
     return new NextResponse('Internal Error', { status: 500 });
   }
 }
+
+/**
+ * Group Settings API Endpoint
+ *
+ * Request body: { name?, image?, description? }; fields left out stay as
+ * they are, and an empty image or description clears it. Only the owner and
+ * admins of a group can change its settings. Every member receives the new
+ * details as conversation:update, and each changed field is noted in the
+ * timeline.
+ *
+ * @param {Request} request - HTTP request with the new settings
+ * @param {{ params: IParams }} params - Route parameters containing conversationId
+ * @returns {Promise<NextResponse>} Updated conversation or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.patch(`/api/conversations/${conversationId}`, {
+ *   name: 'Weekend trip',
+ *   description: 'Plans for Saturday',
+ * });
+ * ```
+ */
+export async function PATCH(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { conversationId } = params;
+    const body = await request.json();
+    const { name, image, description } = body;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (
+      (name !== undefined &&
+        (typeof name !== 'string' ||
+          !name.trim() ||
+          name.trim().length > GROUP_NAME_MAX_LENGTH)) ||
+      (image !== undefined && image !== null && typeof image !== 'string') ||
+      (description !== undefined &&
+        description !== null &&
+        (typeof description !== 'string' ||
+          description.trim().length > GROUP_DESCRIPTION_MAX_LENGTH))
+    ) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        id: conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      include: {
+        users: true,
+      },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    if (!conversation.isGroup) {
+      return new NextResponse('Not a group', { status: 400 });
+    }
+
+    if (!canManageGroup(getMemberRole(conversation, currentUser.id))) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const settings = {
+      name: name !== undefined ? name.trim() : conversation.name,
+      image:
+        image !== undefined ? normalizeOptionalText(image) : conversation.image,
+      description:
+        description !== undefined
+          ? normalizeOptionalText(description)
+          : conversation.description,
+    };
+
+    const changes = getGroupSettingsEvents(conversation, settings);
+
+    if (changes.length === 0) {
+      return NextResponse.json(conversation);
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data: settings,
+      include: {
+        users: true,
+      },
+    });
+
+    const update: GroupSettingsUpdate = {
+      id: updatedConversation.id,
+      name: updatedConversation.name,
+      image: updatedConversation.image,
+      description: updatedConversation.description,
+    };
+
+    updatedConversation.users.forEach((user) => {
+      if (user.email) {
+        pusherServer.trigger(user.email, 'conversation:update', update);
+      }
+    });
+
+    for (const change of changes) {
+      await createSystemMessage(conversation.id, currentUser, change);
+    }
+
+    return NextResponse.json(updatedConversation);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Scheduled Message API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for editing and cancelling one of the
+ * current user's scheduled messages in our Next.js 14 real-time messaging
+ * application. Once a dispatcher run has claimed the message it is on its
+ * way and can no longer be changed.
+ *
+ * Key Features:
+ * - PATCH: Change the text and/or the send time
+ * - DELETE: Cancel the message
+ * - Sender only, and only while the message is still pending
+ *
+ * @fileoverview Scheduled message API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import {
+  broadcastScheduledRemove,
+  broadcastScheduledUpdate,
+  parseSendAt,
+  unclaimedFilter,
+} from '@/app/libs/scheduledMessages';
+
+/**
+ * Scheduled Message Route Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the message is scheduled in
+ * @property {string} [scheduledId] - Scheduled message being changed
+ */
+interface IParams {
+  conversationId?: string;
+  scheduledId?: string;
+}
+
+/**
+ * Own Scheduled Message Lookup
+ *
+ * @param {IParams} params - Route parameters
+ * @param {string} userId - ID of the current user
+ * @returns {Promise<ScheduledMessage | null>} The message, if the user scheduled it
+ */
+const findOwnScheduledMessage = (params: IParams, userId: string) =>
+  prisma.scheduledMessage.findFirst({
+    where: {
+      id: params.scheduledId,
+      conversationId: params.conversationId,
+      senderId: userId,
+    },
+  });
+
+/**
+ * Edit Scheduled Message API Endpoint
+ *
+ * Both fields are optional; whatever is left out keeps its current value.
+ * An image message may have its caption cleared, a text message may not
+ * end up empty.
+ *
+ * API Integration:
+ * - PATCH /api/conversations/{conversationId}/scheduled/{scheduledId}
+ * - Request body: { message?, sendAt? }
+ * - Response: The updated scheduled message
+ * - Real-time events: scheduled:update on the sender's own channel
+ * - Error responses: 400 (empty message or past send time),
+ *   401 (Unauthorized), 404 (Not found), 409 (already being sent),
+ *   500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request with the changes
+ * @param {Object} context - Route context with conversation and scheduled message IDs
+ * @returns {Promise<NextResponse>} The updated scheduled message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.patch(
+ *   `/api/conversations/${conversationId}/scheduled/${scheduledId}`,
+ *   { message: 'Updated text', sendAt: sendAt.toISOString() }
+ * );
+ * ```
+ */
+export async function PATCH(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { message, sendAt } = await request.json();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const existing = await findOwnScheduledMessage(params, currentUser.id);
+
+    if (!existing) {
+      return new NextResponse('Scheduled message not found', { status: 404 });
+    }
+
+    const data: { body?: string | null; sendAt?: Date } = {};
+
+    if (message !== undefined) {
+      const body = typeof message === 'string' ? message.trim() : '';
+
+      if (!body && !existing.image) {
+        return new NextResponse('Invalid data', { status: 400 });
+      }
+
+      data.body = body || null;
+    }
+
+    if (sendAt !== undefined) {
+      const sendAtDate = parseSendAt(sendAt);
+
+      if (!sendAtDate) {
+        return new NextResponse('Invalid send time', { status: 400 });
+      }
+
+      data.sendAt = sendAtDate;
+    }
+
+    const { count } = await prisma.scheduledMessage.updateMany({
+      where: {
+        AND: [{ id: existing.id }, unclaimedFilter()],
+      },
+      data,
+    });
+
+    if (count === 0) {
+      return new NextResponse('Already sending', { status: 409 });
+    }
+
+    const scheduledMessage = await prisma.scheduledMessage.findUniqueOrThrow({
+      where: {
+        id: existing.id,
+      },
+    });
+
+    await broadcastScheduledUpdate(currentUser.email, scheduledMessage);
+
+    return NextResponse.json(scheduledMessage);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Cancel Scheduled Message API Endpoint
+ *
+ * API Integration:
+ * - DELETE /api/conversations/{conversationId}/scheduled/{scheduledId}
+ * - Response: { id, conversationId } of the cancelled message
+ * - Real-time events: scheduled:remove on the sender's own channel
+ * - Error responses: 401 (Unauthorized), 404 (Not found),
+ *   409 (already being sent), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} context - Route context with conversation and scheduled message IDs
+ * @returns {Promise<NextResponse>} The cancelled message's IDs or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(
+ *   `/api/conversations/${conversationId}/scheduled/${scheduledId}`
+ * );
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const existing = await findOwnScheduledMessage(params, currentUser.id);
+
+    if (!existing) {
+      return new NextResponse('Scheduled message not found', { status: 404 });
+    }
+
+    const { count } = await prisma.scheduledMessage.deleteMany({
+      where: {
+        AND: [{ id: existing.id }, unclaimedFilter()],
+      },
+    });
+
+    if (count === 0) {
+      return new NextResponse('Already sending', { status: 409 });
+    }
+
+    await broadcastScheduledRemove(currentUser.email, existing);
+
+    return NextResponse.json({
+      id: existing.id,
+      conversationId: existing.conversationId,
+    });
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
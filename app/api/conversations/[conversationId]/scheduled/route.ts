@@ -0,0 +1,208 @@
+/**
+ * Scheduled Messages API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for listing and creating the current
+ * user's scheduled messages in a conversation in our Next.js 14 real-time
+ * messaging application. Scheduled messages are private to their sender
+ * until the dispatcher sends them.
+ *
+ * Key Features:
+ * - GET: The user's pending messages, next to be sent first
+ * - POST: Schedule a text or image message, optionally as a quoted reply
+ * - Members only
+ *
+ * @fileoverview Scheduled messages API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import {
+  broadcastScheduledUpdate,
+  parseSendAt,
+  unclaimedFilter,
+} from '@/app/libs/scheduledMessages';
+
+/**
+ * Conversation Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the messages are scheduled in
+ */
+interface IParams {
+  conversationId?: string;
+}
+
+/**
+ * Member Conversation Lookup
+ *
+ * @param {string} [conversationId] - Conversation from the URL
+ * @param {string} userId - ID of the current user
+ * @returns {Promise<{ id: string } | null>} The conversation, if the user is a member
+ */
+const findMemberConversation = (
+  conversationId: string | undefined,
+  userId: string
+) =>
+  prisma.conversation.findUnique({
+    where: {
+      id: conversationId,
+      userIds: {
+        has: userId,
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+/**
+ * List Scheduled Messages API Endpoint
+ *
+ * Messages a dispatcher run is sending right now are left out; they arrive
+ * in the timeline moments later.
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} Pending messages, next to be sent first
+ *
+ * @example
+ * ```typescript
+ * const { data } = await axios.get<ScheduledMessage[]>(
+ *   `/api/conversations/${conversationId}/scheduled`
+ * );
+ * ```
+ */
+export async function GET(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const conversation = await findMemberConversation(
+      params.conversationId,
+      currentUser.id
+    );
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    const scheduledMessages = await prisma.scheduledMessage.findMany({
+      where: {
+        AND: [
+          { conversationId: conversation.id },
+          { senderId: currentUser.id },
+          unclaimedFilter(),
+        ],
+      },
+      orderBy: {
+        sendAt: 'asc',
+      },
+    });
+
+    return NextResponse.json(scheduledMessages);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Schedule Message API Endpoint
+ *
+ * Validates the same reply rules as POST /api/messages; the reply target is
+ * checked again when the message is sent.
+ *
+ * API Integration:
+ * - POST /api/conversations/{conversationId}/scheduled
+ * - Request body: { message?, image?, sendAt, replyToId? }
+ * - Response: The created scheduled message
+ * - Real-time events: scheduled:update on the sender's own channel
+ * - Error responses: 400 (Invalid ID, empty message, malformed image, past
+ *   send time or invalid reply target), 401 (Unauthorized), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request with the message and its send time
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the conversationId
+ * @returns {Promise<NextResponse>} The scheduled message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/conversations/${conversationId}/scheduled`, {
+ *   message: 'Happy birthday!',
+ *   sendAt: sendAt.toISOString(),
+ * });
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { message, image, sendAt, replyToId } = await request.json();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const conversation = await findMemberConversation(
+      params.conversationId,
+      currentUser.id
+    );
+
+    if (!conversation) {
+      return new NextResponse('Invalid ID', { status: 400 });
+    }
+
+    const body = typeof message === 'string' ? message.trim() : '';
+
+    if (image !== undefined && (typeof image !== 'string' || !image)) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    if (!body && !image) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    const sendAtDate = parseSendAt(sendAt);
+
+    if (!sendAtDate) {
+      return new NextResponse('Invalid send time', { status: 400 });
+    }
+
+    if (replyToId) {
+      const replyTarget = await prisma.message.findFirst({
+        where: {
+          id: replyToId,
+          conversationId: conversation.id,
+        },
+        select: { id: true, type: true },
+      });
+
+      if (!replyTarget || replyTarget.type === 'SYSTEM') {
+        return new NextResponse('Invalid reply target', { status: 400 });
+      }
+    }
+
+    const scheduledMessage = await prisma.scheduledMessage.create({
+      data: {
+        body: body || null,
+        image: image || null,
+        replyToId: replyToId || null,
+        sendAt: sendAtDate,
+        claimedAt: null,
+        conversationId: conversation.id,
+        senderId: currentUser.id,
+      },
+    });
+
+    await broadcastScheduledUpdate(currentUser.email, scheduledMessage);
+
+    return NextResponse.json(scheduledMessage);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
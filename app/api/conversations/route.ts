@@ -1,7 +1,25 @@
+import getConversations from "@/app/actions/getConversations";
 import getCurrentUser from "@/app/actions/getCurrentUser";
 import { NextResponse } from "next/server";
 import prisma from "@/app/libs/prismadb";
 import { pusherServer } from "@/app/libs/pusher";
+import { readWatermarkSelect } from "@/app/libs/readWatermarks";
+
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const conversations = await getConversations();
+
+    return NextResponse.json(conversations);
+  } catch (error: any) {
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
 
 export async function POST(request: Request) {
   try {
@@ -22,6 +40,7 @@ export async function POST(request: Request) {
         data: {
           name,
           isGroup,
+          ownerId: currentUser.id,
           users: {
             connect: [
               ...members.map((member: { value: string }) => ({
@@ -35,6 +54,9 @@ export async function POST(request: Request) {
         },
         include: {
           users: true,
+          readStates: {
+            select: readWatermarkSelect,
+          },
         },
       });
 
@@ -85,6 +107,9 @@ export async function POST(request: Request) {
       },
       include: {
         users: true,
+        readStates: {
+          select: readWatermarkSelect,
+        },
       },
     });
 
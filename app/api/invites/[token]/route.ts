@@ -0,0 +1,163 @@
+/**
+ * Join by Invite API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint behind the Join button of the /join/[token]
+ * page in our Next.js 14 real-time messaging application. It adds the
+ * signed-in user to the group an invite link belongs to, as long as the link
+ * is still active.
+ *
+ * Key Features:
+ * - Expired, used-up and revoked links are refused
+ * - Usage limits enforced atomically, so a last use cannot be taken twice
+ * - Joining a group one already belongs to succeeds without using the link
+ * - conversation:new for the new member, conversation:update for the rest
+ * - "Bob joined using an invite link" posted into the timeline
+ *
+ * @fileoverview Join by invite API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import { readWatermarkSelect } from '@/app/libs/readWatermarks';
+import { getInviteStatus } from '@/app/libs/inviteLinks';
+import { broadcastMembership } from '@/app/libs/groupMembership';
+import { createSystemMessage } from '@/app/libs/systemMessages';
+
+/**
+ * Invite Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [token] - Invite token from the link
+ */
+interface IParams {
+  token?: string;
+}
+
+/**
+ * Join Group API Endpoint
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} params - Route parameters
+ * @param {IParams} params.params - Contains the token
+ * @returns {Promise<NextResponse>} The joined conversation or error status
+ *
+ * @example
+ * ```typescript
+ * const { data: conversation } = await axios.post(`/api/invites/${token}`);
+ * router.push(`/conversations/${conversation.id}`);
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const inviteLink = await prisma.inviteLink.findUnique({
+      where: {
+        token: params.token,
+      },
+      include: {
+        conversation: true,
+      },
+    });
+
+    if (!inviteLink) {
+      return new NextResponse('Invite not found', { status: 404 });
+    }
+
+    const { conversation } = inviteLink;
+
+    if (conversation.userIds.includes(currentUser.id)) {
+      return NextResponse.json(conversation);
+    }
+
+    if (getInviteStatus(inviteLink) !== 'ACTIVE') {
+      return new NextResponse('Invite link is no longer valid', {
+        status: 410,
+      });
+    }
+
+    /**
+     * Use Counting
+     *
+     * The limit is part of the update's filter, so of two people taking the
+     * last use at the same moment only one gets in. Revocation and expiry
+     * are checked again there too, in case either happened since the read.
+     */
+    const { count } = await prisma.inviteLink.updateMany({
+      where: {
+        id: inviteLink.id,
+        AND: [
+          {
+            OR: [{ revokedAt: null }, { revokedAt: { isSet: false } }],
+          },
+          {
+            OR: [
+              { expiresAt: null },
+              { expiresAt: { isSet: false } },
+              { expiresAt: { gt: new Date() } },
+            ],
+          },
+        ],
+        ...(inviteLink.maxUses !== null && {
+          useCount: {
+            lt: inviteLink.maxUses,
+          },
+        }),
+      },
+      data: {
+        useCount: {
+          increment: 1,
+        },
+      },
+    });
+
+    if (count === 0) {
+      return new NextResponse('Invite link is no longer valid', {
+        status: 410,
+      });
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data: {
+        users: {
+          connect: {
+            id: currentUser.id,
+          },
+        },
+      },
+      include: {
+        users: true,
+        readStates: {
+          select: readWatermarkSelect,
+        },
+      },
+    });
+
+    pusherServer.trigger(
+      currentUser.email,
+      'conversation:new',
+      updatedConversation
+    );
+
+    broadcastMembership(updatedConversation, [currentUser.id]);
+
+    await createSystemMessage(conversation.id, currentUser, {
+      kind: 'MEMBER_JOINED',
+    });
+
+    return NextResponse.json(updatedConversation);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
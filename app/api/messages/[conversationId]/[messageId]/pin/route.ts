@@ -0,0 +1,210 @@
+/**
+ * Message Pin API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for pinning a message to the top of its
+ * conversation and unpinning it again in our Next.js 14 real-time messaging
+ * application. Pinned messages are shown in the banner under the header and
+ * listed in the profile drawer.
+ *
+ * Key Features:
+ * - POST: Pin the message, recording who pinned it (idempotent)
+ * - DELETE: Unpin the message (idempotent)
+ * - Restricted to the owner and admins in groups
+ * - Deleted and system messages cannot be pinned
+ * - Real-time delivery through the existing message:update Pusher event
+ *
+ * @fileoverview Message pin API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { pusherServer } from '@/app/libs/pusher';
+import { canPinMessages, getMemberRole } from '@/app/libs/conversationRoles';
+
+/**
+ * Pin Route Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the message belongs to
+ * @property {string} [messageId] - Message being pinned or unpinned
+ */
+interface IParams {
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Pinnable Message Lookup
+ *
+ * Loads the message only if it belongs to the conversation from the URL, the
+ * user participates in that conversation and their role allows pinning.
+ *
+ * @param {IParams} params - Route parameters
+ * @param {string} userId - ID of the current user
+ * @returns {Promise<NextResponse | { id: string }>} Error response or the message ID
+ */
+const findPinnableMessage = async (params: IParams, userId: string) => {
+  const existingMessage = await prisma.message.findFirst({
+    where: {
+      id: params.messageId,
+      conversationId: params.conversationId,
+      conversation: {
+        userIds: {
+          has: userId,
+        },
+      },
+    },
+    select: {
+      id: true,
+      type: true,
+      deletedAt: true,
+      conversation: {
+        select: {
+          isGroup: true,
+          ownerId: true,
+          adminIds: true,
+        },
+      },
+    },
+  });
+
+  if (!existingMessage) {
+    return new NextResponse('Message not found', { status: 404 });
+  }
+
+  if (!canPinMessages(getMemberRole(existingMessage.conversation, userId))) {
+    return new NextResponse('Forbidden', { status: 403 });
+  }
+
+  if (existingMessage.deletedAt) {
+    return new NextResponse('Deleted messages cannot be pinned', {
+      status: 400,
+    });
+  }
+
+  if (existingMessage.type === 'SYSTEM') {
+    return new NextResponse('System messages cannot be pinned', {
+      status: 400,
+    });
+  }
+
+  return { id: existingMessage.id };
+};
+
+/**
+ * Pin State Update
+ *
+ * Writes the pin fields and sends the message on the conversation channel,
+ * where Body.tsx replaces its copy and usePinnedMessages updates the banner.
+ *
+ * @param {string} conversationId - Conversation channel to broadcast on
+ * @param {string} messageId - Message being pinned or unpinned
+ * @param {string | null} pinnedById - Pinning user, or null to unpin
+ * @returns {Promise<NextResponse>} JSON response with the updated message
+ */
+const setPinned = async (
+  conversationId: string,
+  messageId: string,
+  pinnedById: string | null
+) => {
+  const updatedMessage = await prisma.message.update({
+    where: {
+      id: messageId,
+    },
+    data: {
+      pinnedAt: pinnedById ? new Date() : null,
+      pinnedById,
+    },
+    include: fullMessageInclude,
+  });
+
+  await pusherServer.trigger(conversationId, 'message:update', updatedMessage);
+
+  return NextResponse.json(updatedMessage);
+};
+
+/**
+ * Pin Message API Endpoint
+ *
+ * Pinning a message that is already pinned moves it to the front of the
+ * pins again.
+ *
+ * API Integration:
+ * - POST /api/messages/{conversationId}/{messageId}/pin
+ * - Response: Updated message
+ * - Error responses: 400 (deleted or system message), 401 (Unauthorized),
+ *   403 (Forbidden), 404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the updated message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/messages/${conversationId}/${messageId}/pin`);
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const message = await findPinnableMessage(params, currentUser.id);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    return await setPinned(params.conversationId!, message.id, currentUser.id);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Unpin Message API Endpoint
+ *
+ * API Integration:
+ * - DELETE /api/messages/{conversationId}/{messageId}/pin
+ * - Response: Updated message
+ * - Error responses: 400 (deleted or system message), 401 (Unauthorized),
+ *   403 (Forbidden), 404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the updated message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(`/api/messages/${conversationId}/${messageId}/pin`);
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const message = await findPinnableMessage(params, currentUser.id);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    return await setPinned(params.conversationId!, message.id, null);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
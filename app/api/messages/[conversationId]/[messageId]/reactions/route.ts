@@ -0,0 +1,245 @@
+/**
+ * Message Reactions API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for adding and removing emoji reactions on
+ * a message in our Next.js 14 real-time messaging application. Together they
+ * form the toggle used by the reaction bar: the client adds an emoji the user
+ * has not used yet and removes one they have.
+ *
+ * Key Features:
+ * - POST: Add a reaction for the current user (idempotent)
+ * - DELETE: Remove the current user's reaction (idempotent)
+ * - Membership check against the conversation from the URL
+ * - Emoji restricted to the shared reaction palette
+ * - Real-time delivery through the existing message:update Pusher event
+ *
+ * @fileoverview Message reactions API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { pusherServer } from '@/app/libs/pusher';
+import { isSupportedReaction } from '@/app/libs/reactions';
+
+/**
+ * Reaction Route Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the message belongs to
+ * @property {string} [messageId] - Message being reacted to
+ */
+interface IParams {
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Reactable Message Lookup
+ *
+ * Loads the message only if it belongs to the conversation from the URL and
+ * the user participates in that conversation. Tombstones cannot be reacted
+ * to, which is reported separately so the client can show a clear error.
+ *
+ * @param {IParams} params - Route parameters
+ * @param {string} userId - ID of the current user
+ * @returns {Promise<NextResponse | { id: string }>} Error response or the message ID
+ */
+const findReactableMessage = async (params: IParams, userId: string) => {
+  const existingMessage = await prisma.message.findFirst({
+    where: {
+      id: params.messageId,
+      conversationId: params.conversationId,
+      conversation: {
+        userIds: {
+          has: userId,
+        },
+      },
+    },
+    select: {
+      id: true,
+      type: true,
+      deletedAt: true,
+    },
+  });
+
+  if (!existingMessage) {
+    return new NextResponse('Message not found', { status: 404 });
+  }
+
+  if (existingMessage.deletedAt) {
+    return new NextResponse('Deleted messages cannot be reacted to', {
+      status: 400,
+    });
+  }
+
+  if (existingMessage.type === 'SYSTEM') {
+    return new NextResponse('System messages cannot be reacted to', {
+      status: 400,
+    });
+  }
+
+  return { id: existingMessage.id };
+};
+
+/**
+ * Reaction Broadcast
+ *
+ * Reloads the message with its full relations and sends it on the
+ * conversation channel, where Body.tsx replaces its copy of the message.
+ *
+ * @param {string} conversationId - Conversation channel to broadcast on
+ * @param {string} messageId - Message whose reactions changed
+ * @returns {Promise<NextResponse>} JSON response with the updated message
+ */
+const broadcastReactions = async (
+  conversationId: string,
+  messageId: string
+) => {
+  const updatedMessage = await prisma.message.findUnique({
+    where: {
+      id: messageId,
+    },
+    include: fullMessageInclude,
+  });
+
+  await pusherServer.trigger(conversationId, 'message:update', updatedMessage);
+
+  return NextResponse.json(updatedMessage);
+};
+
+/**
+ * Add Reaction API Endpoint
+ *
+ * Adds the given emoji for the current user. Adding a reaction the user has
+ * already left is a no-op, so double clicks and retries are harmless.
+ *
+ * API Integration:
+ * - POST /api/messages/{conversationId}/{messageId}/reactions
+ * - Request body: { emoji }
+ * - Response: Updated message including reactions
+ * - Error responses: 400 (Invalid emoji / deleted message), 401 (Unauthorized),
+ *   404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request containing the emoji
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the updated message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/messages/${conversationId}/${messageId}/reactions`, {
+ *   emoji: '👍',
+ * });
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const body = await request.json();
+    const { emoji } = body;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (!isSupportedReaction(emoji)) {
+      return new NextResponse('Invalid emoji', { status: 400 });
+    }
+
+    const message = await findReactableMessage(params, currentUser.id);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    await prisma.reaction.upsert({
+      where: {
+        messageId_userId_emoji: {
+          messageId: message.id,
+          userId: currentUser.id,
+          emoji,
+        },
+      },
+      create: {
+        emoji,
+        message: {
+          connect: {
+            id: message.id,
+          },
+        },
+        user: {
+          connect: {
+            id: currentUser.id,
+          },
+        },
+      },
+      update: {},
+    });
+
+    return await broadcastReactions(params.conversationId!, message.id);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Remove Reaction API Endpoint
+ *
+ * Removes the given emoji for the current user. Removing a reaction that
+ * does not exist is a no-op.
+ *
+ * API Integration:
+ * - DELETE /api/messages/{conversationId}/{messageId}/reactions?emoji=👍
+ * - Response: Updated message including reactions
+ * - Error responses: 400 (Invalid emoji / deleted message), 401 (Unauthorized),
+ *   404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request with the emoji in the query string
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the updated message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(`/api/messages/${conversationId}/${messageId}/reactions`, {
+ *   params: { emoji: '👍' },
+ * });
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    const emoji = new URL(request.url).searchParams.get('emoji');
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (!isSupportedReaction(emoji)) {
+      return new NextResponse('Invalid emoji', { status: 400 });
+    }
+
+    const message = await findReactableMessage(params, currentUser.id);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    await prisma.reaction.deleteMany({
+      where: {
+        messageId: message.id,
+        userId: currentUser.id,
+        emoji,
+      },
+    });
+
+    return await broadcastReactions(params.conversationId!, message.id);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * Individual Message API Route for Dex Real-Time Messenger
+ *
+ * This file provides the per-message API endpoints for our Next.js 14 real-time
+ * messaging application. It implements message editing and deletion with
+ * ownership checks, a configurable edit window, edit history tracking and
+ * real-time broadcasting so every participant sees the change immediately.
+ *
+ * Key Features:
+ * - PATCH: Edit the body of a text message sent by the current user
+ * - DELETE: Hide a message for the caller or tombstone it for everyone
+ * - Edit window enforcement shared with the client via messageEditing
+ * - Previous versions stored in the embedded editHistory list
+ * - Real-time delivery through the existing message:update Pusher event
+ * - Conversation list previews refreshed when the last message changes
+ * - Conversation.messagesIds and lastMessageAt kept in sync on deletion
+ *
+ * @fileoverview Individual message API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { pusherServer } from '@/app/libs/pusher';
+import { isWithinEditWindow } from '@/app/libs/messageEditing';
+import { getMessageType } from '@/app/libs/systemEvents';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
+import { recountUnreadCounts } from '@/app/libs/unreadCounts';
+
+/**
+ * Message Route Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the message belongs to
+ * @property {string} [messageId] - Message being operated on
+ */
+interface IParams {
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Message Edit API Endpoint
+ *
+ * Handles PATCH requests that replace the body of an existing text message.
+ * Only the sender may edit, only text messages can be edited, and only while
+ * the message is inside the configured edit window.
+ *
+ * Edit Flow:
+ * - Authenticate the user and validate the new body
+ * - Load the message scoped to the conversation from the URL
+ * - Reject edits from other users, on image messages or after the window
+ * - Push the previous body onto editHistory and stamp editedAt
+ * - Broadcast message:update on the conversation channel
+ * - Refresh conversation list previews if this is the latest message
+ *
+ * API Integration:
+ * - PATCH /api/messages/{conversationId}/{messageId}
+ * - Request body: { message }
+ * - Response: Updated message with sender and seen information
+ * - Error responses: 400 (Invalid data), 401 (Unauthorized),
+ *   403 (Forbidden / not a member / window expired), 404 (Not found),
+ *   500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request containing the new message body
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the updated message or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.patch(`/api/messages/${conversationId}/${messageId}`, {
+ *   message: 'Fixed the typo',
+ * });
+ * ```
+ */
+export async function PATCH(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { conversationId, messageId } = params;
+    const body = await request.json();
+    const { message } = body;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    /**
+     * Body Validation
+     *
+     * Mirrors the MessageInput constraints: a non-empty body no longer than
+     * 4096 characters.
+     */
+    if (
+      typeof message !== 'string' ||
+      !message.trim() ||
+      message.length > 4096
+    ) {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
+
+    /**
+     * Conversation Membership
+     *
+     * Leaving a group ends the right to edit what was said there, otherwise
+     * a former member could keep rewriting messages the group still sees.
+     */
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!conversation) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const existingMessage = await prisma.message.findUnique({
+      where: {
+        id: messageId,
+      },
+    });
+
+    if (!existingMessage || existingMessage.conversationId !== conversationId) {
+      return new NextResponse('Message not found', { status: 404 });
+    }
+
+    /**
+     * Edit Permission Checks
+     *
+     * - Membership: checked above
+     * - Ownership: only the sender can rewrite their own words
+     * - Content type: image and system messages have no editable body
+     * - Forwarded copies: the words are someone else's, shown under a
+     *   "Forwarded" label
+     * - Edit window: keeps history trustworthy once a conversation moves on
+     */
+    if (existingMessage.senderId !== currentUser.id) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    if (existingMessage.deletedAt) {
+      return new NextResponse('Deleted messages cannot be edited', {
+        status: 400,
+      });
+    }
+
+    if (getMessageType(existingMessage) !== 'TEXT') {
+      return new NextResponse('Only text messages can be edited', {
+        status: 400,
+      });
+    }
+
+    if (existingMessage.forwardedFromId) {
+      return new NextResponse('Forwarded messages cannot be edited', {
+        status: 400,
+      });
+    }
+
+    if (!isWithinEditWindow(existingMessage.createdAt)) {
+      return new NextResponse('Edit window has expired', { status: 403 });
+    }
+
+    /**
+     * Message Update with Edit History
+     *
+     * The outgoing body is appended to editHistory together with the time it
+     * was written, so the history always reads oldest-to-newest and the
+     * current body remains the single source of truth for display.
+     */
+    const updatedMessage = await prisma.message.update({
+      where: {
+        id: existingMessage.id,
+      },
+      data: {
+        body: message,
+        editedAt: new Date(),
+        editHistory: {
+          push: {
+            body: existingMessage.body,
+            createdAt: existingMessage.editedAt ?? existingMessage.createdAt,
+          },
+        },
+      },
+      include: fullMessageInclude,
+    });
+
+    /**
+     * Real-Time Edit Broadcasting
+     *
+     * Body.tsx already replaces messages in place when it receives
+     * message:update, so edits appear without any additional client wiring.
+     */
+    await pusherServer.trigger(
+      conversationId!,
+      'message:update',
+      updatedMessage
+    );
+
+    /**
+     * Conversation Preview Refresh
+     *
+     * ConversationBox previews the latest message, so participants' lists
+     * only need an update when the edited message is the newest one.
+     */
+    const latestMessage = await prisma.message.findFirst({
+      where: {
+        conversationId,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (latestMessage?.id === updatedMessage.id) {
+      const conversation = await prisma.conversation.findUnique({
+        where: {
+          id: conversationId,
+        },
+        include: {
+          users: true,
+        },
+      });
+
+      conversation?.users.forEach((user) => {
+        if (user.email) {
+          pusherServer.trigger(user.email, 'conversation:update', {
+            id: conversationId,
+            messages: [updatedMessage],
+          });
+        }
+      });
+    }
+
+    return NextResponse.json(updatedMessage);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Message Deletion API Endpoint
+ *
+ * Handles DELETE requests for individual messages in one of two modes:
+ *
+ * - "me": Hides the message for the caller only by adding them to
+ *   hiddenForIds. Any participant can do this for any message.
+ * - "everyone": Replaces the message with a tombstone for all participants
+ *   by clearing its content and stamping deletedAt. Sender only.
+ *
+ * Conversation Consistency:
+ * - A tombstoned message is pulled from Conversation.messagesIds
+ * - If it was the latest message, lastMessageAt falls back to the newest
+ *   remaining live message (or the conversation creation time)
+ * - Conversation list previews are refreshed with the new latest message
+ *
+ * Real-Time Events:
+ * - message:update on the conversation channel carries the tombstone
+ * - message:remove on the caller's channel removes a hidden message
+ * - conversation:update refreshes ConversationBox previews
+ *
+ * API Integration:
+ * - DELETE /api/messages/{conversationId}/{messageId}?mode=me|everyone
+ * - Response: Tombstoned message ("everyone") or hidden message ID ("me")
+ * - Error responses: 400 (Invalid mode), 401 (Unauthorized),
+ *   403 (Forbidden), 404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request whose query string carries the mode
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the deletion result or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(`/api/messages/${conversationId}/${messageId}`, {
+ *   params: { mode: 'everyone' },
+ * });
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { conversationId, messageId } = params;
+    const mode = new URL(request.url).searchParams.get('mode') || 'me';
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (mode !== 'me' && mode !== 'everyone') {
+      return new NextResponse('Invalid mode', { status: 400 });
+    }
+
+    /**
+     * Conversation and Message Lookup
+     *
+     * The conversation is loaded scoped to the current user so that only
+     * participants can hide or delete its messages.
+     */
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        id: conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      include: {
+        users: true,
+      },
+    });
+
+    const existingMessage = await prisma.message.findUnique({
+      where: {
+        id: messageId,
+      },
+    });
+
+    if (
+      !conversation ||
+      !existingMessage ||
+      existingMessage.conversationId !== conversation.id
+    ) {
+      return new NextResponse('Message not found', { status: 404 });
+    }
+
+    /**
+     * Delete For Me
+     *
+     * Only the caller's view changes, so every event goes to their personal
+     * channel. The preview is recomputed from the messages they can still
+     * see, and so is their unread counter if the message was still unread.
+     */
+    if (mode === 'me') {
+      let unreadCount: number | undefined;
+
+      if (!existingMessage.hiddenForIds.includes(currentUser.id)) {
+        await prisma.message.update({
+          where: {
+            id: existingMessage.id,
+          },
+          data: {
+            hiddenForIds: {
+              push: currentUser.id,
+            },
+          },
+        });
+
+        if (existingMessage.senderId !== currentUser.id) {
+          const unreadCounts = await recountUnreadCounts(
+            conversation.id,
+            existingMessage,
+            [currentUser.id]
+          );
+
+          unreadCount = unreadCounts.get(currentUser.id);
+        }
+      }
+
+      await pusherServer.trigger(currentUser.email, 'message:remove', {
+        id: existingMessage.id,
+        conversationId: conversation.id,
+      });
+
+      const latestVisibleMessage = await prisma.message.findFirst({
+        where: {
+          conversationId: conversation.id,
+          AND: [liveMessageFilter, visibleToUserFilter(currentUser.id)],
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        include: fullMessageInclude,
+      });
+
+      await pusherServer.trigger(currentUser.email, 'conversation:update', {
+        id: conversation.id,
+        messages: latestVisibleMessage ? [latestVisibleMessage] : [],
+        ...(unreadCount !== undefined && { unreadCount }),
+      });
+
+      return NextResponse.json({ id: existingMessage.id });
+    }
+
+    /**
+     * Delete For Everyone
+     *
+     * Restricted to the sender, and not available for system messages, which
+     * record what happened in the group rather than what someone wrote. The
+     * message becomes a tombstone: content, edit history and reactions are
+     * cleared so nothing of the original remains readable, and a pin on it
+     * is dropped.
+     */
+    if (
+      existingMessage.senderId !== currentUser.id ||
+      existingMessage.type === 'SYSTEM'
+    ) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const wasDeleted = Boolean(existingMessage.deletedAt);
+
+    const deletedMessage = await prisma.message.update({
+      where: {
+        id: existingMessage.id,
+      },
+      data: {
+        body: null,
+        image: null,
+        deletedAt: new Date(),
+        pinnedAt: null,
+        pinnedById: null,
+        editHistory: {
+          set: [],
+        },
+        reactions: {
+          deleteMany: {},
+        },
+      },
+      include: fullMessageInclude,
+    });
+
+    await pusherServer.trigger(
+      conversation.id,
+      'message:update',
+      deletedMessage
+    );
+
+    /**
+     * Conversation Bookkeeping
+     *
+     * messagesIds only tracks live messages. When the tombstoned message was
+     * the newest one, lastMessageAt moves back to the newest live message so
+     * conversation ordering matches what the preview shows. Recipients who
+     * had not read it yet get their unread counter recounted without it.
+     */
+    const latestLiveMessage = await prisma.message.findFirst({
+      where: {
+        conversationId: conversation.id,
+        ...liveMessageFilter,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      include: fullMessageInclude,
+    });
+
+    const wasLatest =
+      !latestLiveMessage ||
+      latestLiveMessage.createdAt <= existingMessage.createdAt;
+
+    const lastMessageAt =
+      latestLiveMessage?.createdAt ?? conversation.createdAt;
+
+    await prisma.conversation.update({
+      where: {
+        id: conversation.id,
+      },
+      data: {
+        messagesIds: {
+          set: conversation.messagesIds.filter(
+            (id) => id !== existingMessage.id
+          ),
+        },
+        ...(wasLatest && { lastMessageAt }),
+      },
+    });
+
+    const unreadCounts = wasDeleted
+      ? new Map<string, number>()
+      : await recountUnreadCounts(
+          conversation.id,
+          existingMessage,
+          conversation.userIds.filter(
+            (userId) =>
+              userId !== currentUser.id &&
+              !existingMessage.hiddenForIds.includes(userId)
+          )
+        );
+
+    conversation.users.forEach((user) => {
+      const unreadCount = unreadCounts.get(user.id);
+
+      if (!user.email || (!wasLatest && unreadCount === undefined)) {
+        return;
+      }
+
+      pusherServer.trigger(user.email, 'conversation:update', {
+        id: conversation.id,
+        ...(wasLatest && {
+          lastMessageAt,
+          messages: latestLiveMessage ? [latestLiveMessage] : [],
+        }),
+        ...(unreadCount !== undefined && { unreadCount }),
+      });
+    });
+
+    return NextResponse.json(deletedMessage);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Saved Message API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoints for starring a message into the current
+ * user's personal saved list and removing it again in our Next.js 14
+ * real-time messaging application. Unlike pins, saves are private: nothing
+ * is broadcast to the other participants.
+ *
+ * Key Features:
+ * - POST: Save the message for the current user (idempotent)
+ * - DELETE: Remove it from the saved list (idempotent)
+ * - Membership check against the conversation from the URL
+ * - saved:update on the user's own channel to sync their other tabs
+ *
+ * @fileoverview Saved message API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import { SavedUpdate } from '@/app/types';
+
+/**
+ * Saved Message Route Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} [conversationId] - Conversation the message belongs to
+ * @property {string} [messageId] - Message being saved or unsaved
+ */
+interface IParams {
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Savable Message Lookup
+ *
+ * The message must belong to the conversation from the URL, the user must
+ * participate in it and must not have deleted the message for themselves.
+ * Removing a save only needs the message to exist, so a bookmark on a
+ * message deleted since can still be cleared.
+ *
+ * @param {IParams} params - Route parameters
+ * @param {string} userId - ID of the current user
+ * @param {boolean} isSaving - Whether the message is being saved
+ * @returns {Promise<NextResponse | { id: string }>} Error response or the message ID
+ */
+const findSavableMessage = async (
+  params: IParams,
+  userId: string,
+  isSaving: boolean
+) => {
+  const existingMessage = await prisma.message.findFirst({
+    where: {
+      id: params.messageId,
+      conversationId: params.conversationId,
+      conversation: {
+        userIds: {
+          has: userId,
+        },
+      },
+    },
+    select: {
+      id: true,
+      type: true,
+      deletedAt: true,
+      hiddenForIds: true,
+    },
+  });
+
+  if (!existingMessage) {
+    return new NextResponse('Message not found', { status: 404 });
+  }
+
+  if (
+    isSaving &&
+    (existingMessage.deletedAt ||
+      existingMessage.type === 'SYSTEM' ||
+      existingMessage.hiddenForIds.includes(userId))
+  ) {
+    return new NextResponse('Message cannot be saved', { status: 400 });
+  }
+
+  return { id: existingMessage.id };
+};
+
+/**
+ * Saved State Broadcast
+ *
+ * @param {string} email - The user's own channel
+ * @param {SavedUpdate} update - Message and its new saved state
+ * @returns {Promise<NextResponse>} JSON response with the same update
+ */
+const broadcastSaved = async (email: string, update: SavedUpdate) => {
+  await pusherServer.trigger(email, 'saved:update', update);
+
+  return NextResponse.json(update);
+};
+
+/**
+ * Save Message API Endpoint
+ *
+ * API Integration:
+ * - POST /api/messages/{conversationId}/{messageId}/save
+ * - Response: { messageId, saved: true }
+ * - Error responses: 400 (deleted, hidden or system message),
+ *   401 (Unauthorized), 404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the saved state or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.post(`/api/messages/${conversationId}/${messageId}/save`);
+ * ```
+ */
+export async function POST(request: Request, { params }: { params: IParams }) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const message = await findSavableMessage(params, currentUser.id, true);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    await prisma.savedMessage.upsert({
+      where: {
+        userId_messageId: {
+          userId: currentUser.id,
+          messageId: message.id,
+        },
+      },
+      create: {
+        message: {
+          connect: {
+            id: message.id,
+          },
+        },
+        user: {
+          connect: {
+            id: currentUser.id,
+          },
+        },
+      },
+      update: {},
+    });
+
+    return await broadcastSaved(currentUser.email, {
+      messageId: message.id,
+      saved: true,
+    });
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
+
+/**
+ * Unsave Message API Endpoint
+ *
+ * API Integration:
+ * - DELETE /api/messages/{conversationId}/{messageId}/save
+ * - Response: { messageId, saved: false }
+ * - Error responses: 401 (Unauthorized), 404 (Not found), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request
+ * @param {Object} context - Route context with conversation and message IDs
+ * @returns {Promise<NextResponse>} JSON response with the saved state or error status
+ *
+ * @example
+ * ```typescript
+ * await axios.delete(`/api/messages/${conversationId}/${messageId}/save`);
+ * ```
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: IParams }
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const message = await findSavableMessage(params, currentUser.id, false);
+
+    if (message instanceof NextResponse) {
+      return message;
+    }
+
+    await prisma.savedMessage.deleteMany({
+      where: {
+        userId: currentUser.id,
+        messageId: message.id,
+      },
+    });
+
+    return await broadcastSaved(currentUser.email, {
+      messageId: message.id,
+      saved: false,
+    });
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
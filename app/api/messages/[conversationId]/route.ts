@@ -11,10 +11,11 @@
  * - Conversation access validation to prevent unauthorized message access
  * - Complete message data with sender and read receipt information
  * - Chronological message ordering for proper conversation flow
+ * - Cursor pagination with before/after message IDs and a page size
  * - Comprehensive error handling and status responses
  *
  * Message Retrieval Features:
- * - All messages for a specific conversation
+ * - One page of messages for a specific conversation
  * - Sender information for message attribution
  * - Read receipt data for message status tracking
  * - Chronological ordering for conversation flow
@@ -33,6 +34,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/app/libs/prismadb';
 import getCurrentUser from '@/app/actions/getCurrentUser';
+import { getMessagePage } from '@/app/libs/messagePagination';
 
 /**
  * Conversation Parameters Interface
@@ -78,8 +80,10 @@ interface IParams {
  *
  * API Integration:
  * - GET /api/messages/{conversationId}: Primary message retrieval endpoint
- * - Request: No body required, conversationId from URL parameters
- * - Response: Array of message objects with sender and read receipt data
+ * - Request: conversationId from URL parameters; optional before, after or
+ *   around (message IDs) and limit (page size, max 100) query parameters
+ * - Response: MessagePage { messages, hasMoreBefore, hasMoreAfter }
+ * - Error responses: 400 (Invalid cursor), 401, 404, 500
  * - Authentication: getCurrentUser action for user validation
  * - Security: User-specific conversation access validation
  *
@@ -95,22 +99,20 @@ interface IParams {
  * conversation messages while maintaining proper security and data integrity
  * throughout our messaging platform.
  *
- * @param {Request} request - HTTP request object (unused in this implementation)
+ * @param {Request} request - HTTP request object carrying the pagination query string
  * @param {{ params: IParams }} params - Route parameters containing conversationId
- * @returns {Promise<NextResponse>} JSON response with array of message objects or error status
+ * @returns {Promise<NextResponse>} JSON response with a MessagePage or error status
  *
  * @example
  * ```typescript
- * // Retrieve conversation messages
+ * // Latest page of the conversation
  * const response = await fetch('/api/messages/conversation-id');
- * const messages = await response.json();
+ * const { messages, hasMoreBefore } = await response.json();
  *
- * // Response: Array of message objects with sender and read receipt data
- * if (response.ok) {
- *   messages.forEach(message => {
- *     console.log(message.body, message.sender.name);
- *   });
- * }
+ * // The page before the oldest loaded message
+ * const older = await fetch(
+ *   `/api/messages/conversation-id?before=${messages[0].id}&limit=30`
+ * );
  * ```
  */
 export async function GET(request: Request, { params }: { params: IParams }) {
@@ -267,57 +269,35 @@ export async function GET(request: Request, { params }: { params: IParams }) {
     }
 
     /**
-     * Message Data Retrieval with Complete Information
-     *
-     * Retrieves all messages for the conversation with sender and read receipt
-     * information using Prisma ORM. This retrieval provides comprehensive
-     * message data for proper conversation display and real-time functionality.
-     *
-     * What this retrieves:
-     * - All messages for the specified conversation
-     * - Sender information for message attribution
-     * - Read receipt data for message status tracking
-     * - Chronological message ordering for conversation flow
-     * - Complete message data for UI rendering
-     *
-     * Why comprehensive message data is essential:
-     * - User experience: Provides complete message context for display
-     * - Message attribution: Sender information for proper message identification
-     * - Read receipts: User read status for message status tracking
-     * - Conversation flow: Chronological ordering for natural conversation reading
-     * - Real-time updates: Base data for Pusher real-time message synchronization
-     *
-     * Message Retrieval Logic:
-     * - Prisma findMany: prisma.message.findMany() for message collection retrieval
-     * - Conversation filtering: where: { conversationId } for conversation-specific messages
-     * - Sender inclusion: include: { sender: true } for user information
-     * - Read receipt inclusion: include: { seen: true } for read status data
-     * - Chronological ordering: orderBy: { createdAt: 'asc' } for conversation flow
-     *
-     * Why chronological ordering is essential:
-     * - Conversation flow: Messages in natural reading order
-     * - User experience: Proper conversation sequence for understanding
-     * - Message threading: Correct order for replies and responses
-     * - Real-time updates: Consistent message ordering across clients
-     * - Performance: Efficient database sorting for message display
-     *
-     * This message retrieval is essential for our messaging app because
-     * it provides the complete message data that enables proper conversation
-     * display and real-time messaging functionality throughout our messaging platform.
+     * Cursor-Paginated Message Retrieval
+     *
+     * Loads a single page of the timeline instead of the whole conversation.
+     * The query string selects the page:
+     * - No cursor: the latest `limit` messages
+     * - before=<messageId>: the `limit` messages older than that message
+     * - after=<messageId>: the `limit` messages newer than that message
+     * - around=<messageId>: that message with about `limit` messages around
+     *   it, used when jumping to a search hit that is not loaded yet
+     *
+     * Messages hidden by the user with "delete for me" are excluded, and the
+     * page is ordered oldest first so the client can prepend or append it.
+     * An unknown cursor, or both cursors at once, is rejected with 400.
      */
-    const messages = await prisma.message.findMany({
-      where: {
-        conversationId: conversationId,
-      },
-      include: {
-        sender: true,
-        seen: true,
-      },
-      orderBy: {
-        createdAt: 'asc',
-      },
+    const { searchParams } = new URL(request.url);
+
+    const page = await getMessagePage({
+      conversationId,
+      userId: currentUser.id,
+      before: searchParams.get('before'),
+      after: searchParams.get('after'),
+      around: searchParams.get('around'),
+      limit: searchParams.get('limit'),
     });
 
+    if (!page) {
+      return new NextResponse('Invalid cursor', { status: 400 });
+    }
+
     /**
      * Success Response with Message Data
      *
@@ -326,7 +306,7 @@ export async function GET(request: Request, { params }: { params: IParams }) {
      * This response enables proper client-side message rendering and state management.
      *
      * What this returns:
-     * - Array of message objects with complete data
+     * - MessagePage with messages and hasMoreBefore/hasMoreAfter flags
      * - Sender information for message attribution
      * - Read receipt data for message status tracking
      * - Chronologically ordered messages for conversation flow
@@ -350,7 +330,7 @@ export async function GET(request: Request, { params }: { params: IParams }) {
      * it provides the complete message data that enables proper conversation
      * display and real-time messaging functionality throughout our messaging platform.
      */
-    return NextResponse.json(messages);
+    return NextResponse.json(page);
   } catch (error: any) {
     /**
      * Error Handling and Response
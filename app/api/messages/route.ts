@@ -12,11 +12,15 @@
  * - Real-time message delivery via Pusher integration
  * - Conversation updates with last message tracking
  * - User authentication and authorization
+ * - Only members of the conversation can send to it
  * - Support for both text and image messages
+ * - Per-recipient unread counters maintained on every new message
+ * - Forwarding a message from another conversation the sender belongs to
+ * - Idempotent sends: a repeated clientMessageId returns the original message
  *
  * Message Creation Features:
  * - Text and image message support with Cloudinary integration
- * - Automatic read receipt tracking for message sender
+ * - Sender's read watermark moved to the new message
  * - Conversation last message timestamp updates
  * - Real-time message broadcasting to all conversation participants
  * - Transaction conflict handling with intelligent retry logic
@@ -35,7 +39,10 @@
 import getCurrentUser from '@/app/actions/getCurrentUser';
 import { NextResponse } from 'next/server';
 import prisma from '@/app/libs/prismadb';
-import { pusherServer } from '@/app/libs/pusher';
+import {
+  deliverMessage,
+  findMessageByClientId,
+} from '@/app/libs/messageDelivery';
 
 /**
  * Message Creation API Endpoint
@@ -54,7 +61,7 @@ import { pusherServer } from '@/app/libs/pusher';
  *
  * Message Creation Features:
  * - Text and image message support with Cloudinary integration
- * - Automatic read receipt tracking for message sender
+ * - Sender's read watermark moved to the new message
  * - Conversation last message timestamp updates
  * - Real-time message broadcasting to all conversation participants
  * - Transaction conflict handling with intelligent retry logic
@@ -69,15 +76,19 @@ import { pusherServer } from '@/app/libs/pusher';
  *
  * API Integration:
  * - POST /api/messages: Primary message creation endpoint
- * - Request body: { message, image, conversationId }
- * - Response: Created message with sender and seen information
+ * - Request body: { message, image, conversationId, replyToId?, forwardedFromId?, clientMessageId? }
+ * - Response: Created message with sender, quote and reaction data
  * - Real-time events: messages:new and conversation:update via Pusher
- * - Error responses: 401 (Unauthorized), 500 (Internal Error)
+ * - Replays: a clientMessageId the sender already used returns that message
+ *   again, without creating or broadcasting anything
+ * - Error responses: 400 (Invalid data / reply target / forward source), 401 (Unauthorized),
+ *   403 (Forbidden, the sender is not in the conversation), 500 (Internal Error)
  *
  * Security Features:
  * - User authentication via getCurrentUser action
  * - Authorization checks for user ID and email validation
- * - Conversation access validation through Prisma relationships
+ * - Sender must be in the conversation's userIds, which excludes former
+ *   group members
  * - Secure message creation with proper user context
  * - Error handling without sensitive information exposure
  *
@@ -126,7 +137,7 @@ export async function POST(request: Request) {
      * - Current user identification and validation
      * - User context for message creation
      * - Authorization for message creation operations
-     * - User data for sender and seen relationships
+     * - User data for the sender relationship
      * - Security validation for API access
      *
      * Why authentication is essential:
@@ -149,298 +160,145 @@ export async function POST(request: Request) {
      */
     const currentUser = await getCurrentUser();
     const body = await request.json();
-    const { message, image, conversationId } = body;
+    const {
+      message,
+      image,
+      conversationId,
+      replyToId,
+      forwardedFromId,
+      clientMessageId,
+    } = body;
 
     if (!currentUser?.id || !currentUser?.email) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
     /**
-     * Message Creation with Retry Logic
+     * Conversation Membership
      *
-     * Implements a robust message creation function with retry logic and exponential
-     * backoff to handle transaction conflicts in high-concurrency scenarios. This
-     * function ensures message creation reliability even under heavy load.
-     *
-     * What this function provides:
-     * - Message creation with Prisma ORM integration
-     * - Retry logic for transaction conflicts (P2034 error code)
-     * - Exponential backoff for retry delays
-     * - Error handling for non-retryable errors
-     * - Fallback error handling for maximum retry exhaustion
-     *
-     * Why retry logic is essential:
-     * - Concurrency handling: Manages transaction conflicts in high-traffic scenarios
-     * - Reliability: Ensures message creation success under load
-     * - User experience: Prevents message loss during temporary conflicts
-     * - Performance: Exponential backoff prevents overwhelming the database
-     * - Data integrity: Ensures consistent message creation across retries
-     *
-     * Retry Logic Features:
-     * - Transaction conflict detection: P2034 error code from Prisma
-     * - Exponential backoff: 100ms * 2^retries delay between attempts
-     * - Maximum retries: 3 attempts before giving up
-     * - Error propagation: Non-retryable errors are immediately thrown
-     * - Fallback handling: Clear error message after maximum retries
-     *
-     * This retry logic is essential for our messaging app because it provides
-     * the reliability that ensures message creation success even under
-     * high-concurrency scenarios throughout our messaging platform.
-     *
-     * @param {any} data - Prisma message creation data object
-     * @param {number} maxRetries - Maximum number of retry attempts (default: 3)
-     * @returns {Promise<any>} Created message object or throws error
+     * Checked for every send, replays included: someone who left or was
+     * removed from a group keeps the conversation ID but may no longer post.
      */
-    const createMessageWithRetry = async (
-      data: any,
-      maxRetries = 3
-    ): Promise<any> => {
-      let retries = 0;
+    if (typeof conversationId !== 'string') {
+      return new NextResponse('Invalid data', { status: 400 });
+    }
 
-      while (retries < maxRetries) {
-        try {
-          return await prisma.message.create(data);
-        } catch (error: any) {
-          // Only retry on transaction conflicts (P2034)
-          if (error.code === 'P2034' && retries < maxRetries - 1) {
-            retries++;
-            // Wait a bit before retrying (exponential backoff)
-            await new Promise((resolve) =>
-              setTimeout(resolve, 100 * Math.pow(2, retries))
-            );
-            continue;
-          }
-          throw error;
-        }
-      }
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        userIds: {
+          has: currentUser.id,
+        },
+      },
+      select: { id: true },
+    });
 
-      // Fallback in case we exhaust retries without returning or throwing
-      throw new Error('Failed to create message after maximum retries');
-    };
+    if (!conversation) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
 
     /**
-     * Message Creation with Database Integration
-     *
-     * Creates a new message in the database with proper relationships to conversation,
-     * sender, and read receipt tracking. This creation includes comprehensive data
-     * relationships and ensures proper message context for real-time updates.
+     * Replay Detection
      *
-     * What this creates:
-     * - Message record with body and image content
-     * - Conversation relationship via conversationId
-     * - Sender relationship via currentUser.id
-     * - Read receipt tracking for message sender
-     * - Complete message data with sender and seen information
-     *
-     * Why comprehensive relationships are essential:
-     * - Data integrity: Ensures proper message-conversation relationships
-     * - User context: Provides sender information for message display
-     * - Read receipts: Enables read status tracking for message sender
-     * - Real-time updates: Provides complete message data for Pusher events
-     * - Query efficiency: Includes related data to avoid additional queries
-     *
-     * Message Creation Logic:
-     * - Body content: Text message content from request body
-     * - Image content: Image URL from Cloudinary upload (optional)
-     * - Conversation connection: Links message to specific conversation
-     * - Sender connection: Links message to current user as sender
-     * - Seen connection: Marks message as seen by sender immediately
-     * - Include relationships: Fetches sender and seen user data
+     * The outbox retries sends whose response it never saw, so the message
+     * may already exist. Returning it lets the client reconcile its
+     * optimistic copy without a duplicate reaching anyone.
+     */
+    if (clientMessageId !== undefined && clientMessageId !== null) {
+      if (
+        typeof clientMessageId !== 'string' ||
+        !clientMessageId ||
+        clientMessageId.length > 64
+      ) {
+        return new NextResponse('Invalid data', { status: 400 });
+      }
+
+      const existingMessage = await findMessageByClientId(
+        currentUser.id,
+        clientMessageId
+      );
+
+      if (existingMessage) {
+        return NextResponse.json(existingMessage);
+      }
+    }
+
+    /**
+     * Reply Target Validation
      *
-     * This message creation is essential for our messaging app because it provides
-     * the message data that enables proper message display, real-time updates,
-     * and read receipt tracking throughout our messaging platform.
+     * A quoted reply may only point at a message from the same conversation,
+     * otherwise the quote would leak content from a conversation the
+     * recipients are not part of. Events in the timeline cannot be replied to.
      */
-    const newMessage = await createMessageWithRetry({
-      data: {
-        body: message,
-        image: image,
-        conversation: {
-          connect: {
-            id: conversationId,
-          },
-        },
-        sender: {
-          connect: {
-            id: currentUser.id,
-          },
+    if (replyToId) {
+      const replyTarget = await prisma.message.findFirst({
+        where: {
+          id: replyToId,
+          conversationId,
         },
-        seen: {
-          connect: {
-            id: currentUser.id,
-          },
-        },
-      },
-      include: {
-        seen: true,
-        sender: true,
-      },
-    });
+        select: { id: true, type: true },
+      });
 
-    if (!newMessage) {
-      return new NextResponse('Failed to create message', { status: 500 });
+      if (!replyTarget || replyTarget.type === 'SYSTEM') {
+        return new NextResponse('Invalid reply target', { status: 400 });
+      }
     }
 
     /**
-     * Conversation Update with Last Message Tracking
-     *
-     * Updates the conversation record with the new message and updates the
-     * lastMessageAt timestamp to reflect the most recent activity. This update
-     * ensures conversation ordering and provides context for conversation lists.
+     * Forward Source Validation
      *
-     * What this updates:
-     * - Conversation lastMessageAt timestamp to current time
-     * - Conversation messages relationship with new message
-     * - Complete conversation data with users and messages
-     * - Message data with read receipt information
-     * - Conversation state for real-time updates
-     *
-     * Why conversation updates are essential:
-     * - Conversation ordering: Enables proper conversation list sorting
-     * - Last message display: Shows most recent message in conversation lists
-     * - Real-time updates: Provides conversation context for Pusher events
-     * - Data consistency: Maintains conversation-message relationships
-     * - User experience: Enables proper conversation state management
-     *
-     * Conversation Update Logic:
-     * - lastMessageAt: Updates to current timestamp for sorting
-     * - Messages connection: Links new message to conversation
-     * - Users inclusion: Fetches all conversation participants
-     * - Messages inclusion: Fetches all messages with read receipt data
-     * - Complete data: Provides full conversation context for updates
-     *
-     * This conversation update is essential for our messaging app because it provides
-     * the conversation state that enables proper conversation ordering and
-     * real-time updates throughout our messaging platform.
+     * A forward copies the content of a message the sender can see into the
+     * conversation checked above. The content is read from the original
+     * rather than taken from the request, so a forward cannot be used to
+     * put words in someone else's message.
      */
-    const updatedConversation = await prisma.conversation.update({
-      where: {
-        id: conversationId,
-      },
-      data: {
-        lastMessageAt: new Date(),
-        messages: {
-          connect: {
-            id: newMessage.id,
+    let forwardSource: { body: string | null; image: string | null } | null =
+      null;
+
+    if (forwardedFromId) {
+      const source = await prisma.message.findFirst({
+        where: {
+          id: forwardedFromId,
+          conversation: {
+            userIds: {
+              has: currentUser.id,
+            },
           },
         },
-      },
-      include: {
-        users: true,
-        messages: {
-          include: {
-            seen: true,
-          },
+        select: {
+          type: true,
+          body: true,
+          image: true,
+          deletedAt: true,
+          hiddenForIds: true,
         },
-      },
-    });
+      });
 
-    /**
-     * Real-Time Message Broadcasting
-     *
-     * Broadcasts the new message to all conversation participants via Pusher
-     * for real-time message delivery. This broadcasting ensures immediate
-     * message visibility across all connected clients.
-     *
-     * What this broadcasts:
-     * - New message event to conversation channel
-     * - Message data with sender and read receipt information
-     * - Real-time message delivery to all participants
-     * - Immediate message visibility across clients
-     * - Live message updates in conversation views
-     *
-     * Why real-time broadcasting is essential:
-     * - User experience: Provides immediate message delivery
-     * - Real-time updates: Enables live conversation functionality
-     * - Multi-client sync: Keeps all clients in sync with new messages
-     * - Live messaging: Provides instant communication experience
-     * - Engagement: Maintains real-time conversation flow
-     *
-     * Broadcasting Logic:
-     * - Channel targeting: Uses conversationId as Pusher channel
-     * - Event type: 'messages:new' for new message events
-     * - Message data: Complete message object with relationships
-     * - Real-time delivery: Immediate broadcast to all subscribers
-     * - Client integration: Works with Body component message handlers
-     *
-     * This real-time broadcasting is essential for our messaging app because
-     * it provides the live messaging experience that enables instant
-     * communication and real-time updates throughout our messaging platform.
-     */
-    await pusherServer.trigger(conversationId, 'messages:new', newMessage);
+      if (
+        !source ||
+        source.deletedAt ||
+        source.type === 'SYSTEM' ||
+        source.hiddenForIds.includes(currentUser.id)
+      ) {
+        return new NextResponse('Invalid forward source', { status: 400 });
+      }
 
-    /**
-     * Last Message Extraction for Conversation Updates
-     *
-     * Extracts the last message from the updated conversation for individual
-     * user conversation updates. This extraction provides the most recent
-     * message data for conversation list updates.
-     *
-     * What this extracts:
-     * - Last message from updated conversation messages array
-     * - Complete message data with sender and read receipt information
-     * - Message data for individual user conversation updates
-     * - Recent message context for conversation lists
-     * - Message data for Pusher conversation:update events
-     *
-     * Why last message extraction is essential:
-     * - Conversation lists: Provides recent message for conversation display
-     * - User updates: Enables individual user conversation updates
-     * - Real-time sync: Keeps conversation lists updated with new messages
-     * - Performance: Provides specific message data without full conversation
-     * - User experience: Enables proper conversation list management
-     *
-     * Extraction Logic:
-     * - Array access: Gets last element from messages array
-     * - Message data: Complete message object with relationships
-     * - User updates: Provides message data for individual user events
-     * - Conversation context: Enables conversation list updates
-     * - Real-time integration: Works with Pusher conversation events
-     *
-     * This last message extraction is essential for our messaging app because
-     * it provides the message data that enables conversation list updates
-     * and individual user real-time synchronization throughout our messaging platform.
-     */
-    const lastMessage =
-      updatedConversation.messages[updatedConversation.messages.length - 1];
+      forwardSource = { body: source.body, image: source.image };
+    }
+
+    const content = forwardSource ?? { body: message, image };
 
     /**
-     * Individual User Conversation Updates
-     *
-     * Sends individual conversation update events to each conversation participant
-     * via Pusher for real-time conversation list updates. This ensures each user
-     * receives personalized conversation updates with their specific context.
-     *
-     * What this sends:
-     * - Individual conversation:update events to each user
-     * - User-specific conversation updates via email channels
-     * - Last message data for conversation list updates
-     * - Real-time conversation state synchronization
-     * - Personalized conversation updates for each participant
+     * Message Delivery
      *
-     * Why individual updates are essential:
-     * - User experience: Provides personalized conversation updates
-     * - Real-time sync: Keeps individual conversation lists updated
-     * - Multi-user support: Handles different user contexts and states
-     * - Conversation management: Enables proper conversation list ordering
-     * - Live updates: Provides immediate conversation state changes
-     *
-     * Individual Update Logic:
-     * - User iteration: Maps through all conversation participants
-     * - Email targeting: Uses user.email as Pusher channel identifier
-     * - Event type: 'conversation:update' for conversation list updates
-     * - Message data: Sends last message for conversation display
-     * - Real-time delivery: Immediate updates to each user's conversation list
-     *
-     * This individual user conversation updates are essential for our messaging app because
-     * it provides the personalized real-time updates that enable proper
-     * conversation list management and user-specific synchronization throughout our messaging platform.
+     * Creation, conversation bookkeeping and the Pusher events live in
+     * messageDelivery so scheduled messages go out exactly the same way.
      */
-    updatedConversation.users.map((user) => {
-      pusherServer.trigger(user.email!, 'conversation:update', {
-        id: conversationId,
-        messages: [lastMessage],
-      });
+    const newMessage = await deliverMessage(conversationId, currentUser.id, {
+      ...content,
+      replyToId,
+      forwardedFromId,
+      clientMessageId,
     });
 
     /**
@@ -453,7 +311,7 @@ export async function POST(request: Request) {
      * What this returns:
      * - Created message object with all relationships
      * - Sender information for message display
-     * - Read receipt data for message status
+     * - Quoted message and reactions for the bubble
      * - Complete message context for client integration
      * - Success confirmation for message creation
      *
@@ -466,7 +324,7 @@ export async function POST(request: Request) {
      *
      * Response Features:
      * - JSON format: Standard JSON response for API consumption
-     * - Complete data: Includes sender, seen, and message content
+     * - Complete data: Includes sender, quote, reactions and message content
      * - Client ready: Data formatted for immediate client use
      * - Real-time integration: Works with Pusher event handlers
      * - Error handling: Success response confirms message creation
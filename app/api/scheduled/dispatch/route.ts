@@ -0,0 +1,56 @@
+/**
+ * Scheduled Message Dispatcher API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint a scheduler calls to send the scheduled
+ * messages that have fallen due in our Next.js 14 real-time messaging
+ * application. It is meant to be hit every minute, e.g. by Vercel Cron, and
+ * is protected by the CRON_SECRET environment variable rather than a session.
+ *
+ * Key Features:
+ * - Bearer token check against CRON_SECRET
+ * - Sends due messages exactly like POST /api/messages
+ * - Safe to call concurrently; each message is claimed before it is sent
+ *
+ * @fileoverview Scheduled message dispatcher API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { NextResponse } from 'next/server';
+import { dispatchDueScheduledMessages } from '@/app/libs/scheduledMessages';
+
+/**
+ * Dispatch Scheduled Messages API Endpoint
+ *
+ * GET is what Vercel Cron sends, with "Authorization: Bearer <CRON_SECRET>".
+ * Without CRON_SECRET configured every request is refused.
+ *
+ * API Integration:
+ * - GET /api/scheduled/dispatch
+ * - Response: { sent } with the number of messages sent
+ * - Error responses: 401 (Unauthorized), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request from the scheduler
+ * @returns {Promise<NextResponse>} Number of messages sent or error status
+ *
+ * @example
+ * ```bash
+ * curl -H "Authorization: Bearer $CRON_SECRET" \
+ *   https://<your-domain>/api/scheduled/dispatch
+ * ```
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const sent = await dispatchDueScheduledMessages();
+
+    return NextResponse.json({ sent });
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
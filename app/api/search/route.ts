@@ -0,0 +1,269 @@
+/**
+ * Message Search API Route for Dex Real-Time Messenger
+ *
+ * This file provides the server-side message search endpoint for our Next.js
+ * 14 real-time messaging application. It searches every conversation the
+ * current user belongs to, not just the messages loaded in the browser, and
+ * returns ranked results with snippets.
+ *
+ * Key Features:
+ * - Search across all of the user's conversations
+ * - Operators: from:, in:, has:image, before:YYYY-MM-DD, after:YYYY-MM-DD
+ * - Quoted operator values and phrases
+ * - Relevance ranking by term coverage, whole words, phrases and recency
+ * - Snippets centred on the first match
+ * - Deleted and "deleted for me" messages are never returned
+ * - Timeline events (joins, leaves, renames) are not searchable
+ *
+ * @fileoverview Message search API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/libs/prismadb';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
+import {
+  buildSnippet,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  scoreMessage,
+} from '@/app/libs/messageSearch';
+import { MessageSearchResponse } from '@/app/types';
+
+/**
+ * Result Limits
+ *
+ * Up to CANDIDATE_LIMIT of the most recent matching messages are ranked;
+ * the best `limit` of them (default 20, at most 50) are returned.
+ */
+const CANDIDATE_LIMIT = 200;
+const DEFAULT_RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 50;
+
+/**
+ * Case-Insensitive Fragment Match
+ *
+ * @param {string | null | undefined} value - Value to test
+ * @param {string} fragment - Fragment typed by the user
+ * @returns {boolean} Whether value contains fragment, ignoring case
+ */
+const containsFragment = (value: string | null | undefined, fragment: string) =>
+  !!value && value.toLowerCase().includes(fragment.toLowerCase());
+
+/**
+ * Message Search API Endpoint
+ *
+ * Handles GET requests with the raw query in `q`. Operators narrow the set of
+ * conversations and senders before the database query; free-text terms are
+ * matched case-insensitively against message bodies, and a message matching
+ * any term is a candidate. Candidates are ranked in memory.
+ *
+ * Search Flow:
+ * - Authenticate the user and parse the query
+ * - Load the user's conversations and apply in:
+ * - Resolve from: against participants of those conversations ("me" is the user)
+ * - Query live, visible messages with the date, image and term filters
+ * - Score, sort and trim the candidates, and attach snippets
+ *
+ * API Integration:
+ * - GET /api/search?q={query}&limit={n}
+ * - Response: MessageSearchResponse { results, terms }
+ * - Error responses: 400 (Empty query), 401 (Unauthorized), 500 (Internal Error)
+ *
+ * @param {Request} request - HTTP request with the query string
+ * @returns {Promise<NextResponse>} JSON response with ranked results or error status
+ *
+ * @example
+ * ```typescript
+ * const { data } = await axios.get<MessageSearchResponse>('/api/search', {
+ *   params: { q: 'from:jane in:design has:image logo' },
+ * });
+ * ```
+ */
+export async function GET(request: Request) {
+  try {
+    const currentUser = await getCurrentUser();
+    const { searchParams } = new URL(request.url);
+    const query = parseSearchQuery(searchParams.get('q') || '');
+    const requestedLimit = Math.floor(Number(searchParams.get('limit')));
+    const limit =
+      requestedLimit > 0
+        ? Math.min(requestedLimit, MAX_RESULT_LIMIT)
+        : DEFAULT_RESULT_LIMIT;
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    if (isEmptySearchQuery(query)) {
+      return new NextResponse('Empty query', { status: 400 });
+    }
+
+    const emptyResponse: MessageSearchResponse = {
+      results: [],
+      terms: query.terms,
+    };
+
+    /**
+     * Conversation Scope (in:)
+     *
+     * Group conversations match on their name, direct conversations on the
+     * other participant's name or email, so in:jane finds the chat with Jane.
+     */
+    const conversations = (
+      await prisma.conversation.findMany({
+        where: {
+          userIds: {
+            has: currentUser.id,
+          },
+        },
+        include: {
+          users: true,
+        },
+      })
+    ).filter((conversation) => {
+      if (!query.in) {
+        return true;
+      }
+
+      if (conversation.isGroup) {
+        return containsFragment(conversation.name, query.in);
+      }
+
+      return conversation.users.some(
+        (user) =>
+          user.id !== currentUser.id &&
+          (containsFragment(user.name, query.in!) ||
+            containsFragment(user.email, query.in!))
+      );
+    });
+
+    if (conversations.length === 0) {
+      return NextResponse.json(emptyResponse);
+    }
+
+    /**
+     * Sender Scope (from:)
+     *
+     * Only participants of the searched conversations can be senders, so the
+     * lookup never touches the global user list.
+     */
+    let senderIds: string[] | undefined;
+
+    if (query.from) {
+      const participants = conversations.flatMap(
+        (conversation) => conversation.users
+      );
+
+      senderIds = Array.from(
+        new Set(
+          participants
+            .filter((user) =>
+              query.from!.toLowerCase() === 'me'
+                ? user.id === currentUser.id
+                : containsFragment(user.name, query.from!) ||
+                  containsFragment(user.email, query.from!)
+            )
+            .map((user) => user.id)
+        )
+      );
+
+      if (senderIds.length === 0) {
+        return NextResponse.json(emptyResponse);
+      }
+    }
+
+    const filters: Prisma.MessageWhereInput[] = [
+      liveMessageFilter,
+      visibleToUserFilter(currentUser.id),
+    ];
+
+    if (query.terms.length > 0) {
+      filters.push({
+        OR: query.terms.map((term) => ({
+          body: {
+            contains: term,
+            mode: 'insensitive',
+          },
+        })),
+      });
+    }
+
+    const candidates = await prisma.message.findMany({
+      where: {
+        AND: filters,
+        type: {
+          not: 'SYSTEM',
+        },
+        conversationId: {
+          in: conversations.map((conversation) => conversation.id),
+        },
+        ...(senderIds && { senderId: { in: senderIds } }),
+        ...(query.hasImage && { image: { not: null } }),
+        ...((query.before || query.after) && {
+          createdAt: {
+            ...(query.before && { lt: query.before }),
+            ...(query.after && { gte: query.after }),
+          },
+        }),
+      },
+      include: {
+        sender: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: CANDIDATE_LIMIT,
+    });
+
+    const conversationsById = new Map(
+      conversations.map((conversation) => [conversation.id, conversation])
+    );
+    const now = Date.now();
+
+    const results = candidates
+      .map((message) => ({
+        message,
+        score: scoreMessage(message.body, message.createdAt, query.terms, now),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ message, score }) => {
+        const conversation = conversationsById.get(message.conversationId)!;
+        const name =
+          conversation.name ||
+          conversation.users
+            .filter((user) => user.id !== currentUser.id)
+            .map((user) => user.name || user.email)
+            .join(', ');
+
+        return {
+          message,
+          conversation: {
+            id: conversation.id,
+            name,
+            isGroup: !!conversation.isGroup,
+          },
+          snippet: message.body
+            ? buildSnippet(message.body, query.terms)
+            : 'Photo',
+          score,
+        };
+      });
+
+    const response: MessageSearchResponse = {
+      results,
+      terms: query.terms,
+    };
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -16,6 +16,8 @@
  * Settings Update Features:
  * - Name updates for user display in conversations
  * - Image updates for profile pictures and avatars
+ * - Last-seen privacy, which also erases the stored timestamp when hidden
+ * - Custom status and availability, pushed live to the user's contacts
  * - Authentication validation for secure access
  * - Database updates with proper user identification
  * - Response formatting for client integration
@@ -32,6 +34,13 @@
 
 import getCurrentUser from '@/app/actions/getCurrentUser';
 import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import {
+  STATUS_EMOJI_MAX_LENGTH,
+  STATUS_TEXT_MAX_LENGTH,
+} from '@/app/libs/userStatus';
+import { UserStatusUpdate } from '@/app/types';
+import { Availability } from '@prisma/client';
 import { NextResponse } from 'next/server';
 
 /**
@@ -169,7 +178,15 @@ export async function POST(request: Request) {
      * the user settings data that enables profile updates and user
      * customization throughout our messaging platform.
      */
-    const { name, image } = body;
+    const {
+      name,
+      image,
+      showLastSeen,
+      statusText,
+      statusEmoji,
+      statusExpiresAt,
+      availability,
+    } = body;
 
     /**
      * Authentication Validation
@@ -207,6 +224,39 @@ export async function POST(request: Request) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
+    /**
+     * Status Validation
+     *
+     * Status fields are optional, so older clients that only send name and
+     * image keep working; a field sent as null or an empty string clears it.
+     */
+    if (
+      availability !== undefined &&
+      !Object.values(Availability).includes(availability)
+    ) {
+      return new NextResponse('Invalid availability', { status: 400 });
+    }
+
+    if (
+      (statusText && String(statusText).length > STATUS_TEXT_MAX_LENGTH) ||
+      (statusEmoji && String(statusEmoji).length > STATUS_EMOJI_MAX_LENGTH)
+    ) {
+      return new NextResponse('Status too long', { status: 400 });
+    }
+
+    const expiresAt = statusExpiresAt ? new Date(statusExpiresAt) : null;
+
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      return new NextResponse('Invalid expiry', { status: 400 });
+    }
+
+    const isStatusUpdate = [
+      statusText,
+      statusEmoji,
+      statusExpiresAt,
+      availability,
+    ].some((value) => value !== undefined);
+
     /**
      * User Profile Database Update
      *
@@ -232,6 +282,8 @@ export async function POST(request: Request) {
      * - Prisma update: prisma.user.update() for database modification
      * - User identification: where: { id: currentUser?.id } for user-specific updates
      * - Data updates: name and image fields for profile modification
+     * - Privacy: hideLastSeen only when showLastSeen is sent as a boolean
+     * - Status: only the status fields present in the body
      * - Database integration: MongoDB via Prisma ORM
      * - Data integrity: Ensures proper user-specific updates
      *
@@ -246,9 +298,67 @@ export async function POST(request: Request) {
       data: {
         name: name,
         image: image,
+        // Hiding last seen erases the stored value, not just its display
+        ...(typeof showLastSeen === 'boolean' && {
+          hideLastSeen: !showLastSeen,
+          ...(!showLastSeen && { lastSeenAt: null }),
+        }),
+        ...(statusText !== undefined && {
+          statusText: String(statusText ?? '').trim() || null,
+        }),
+        ...(statusEmoji !== undefined && {
+          statusEmoji: String(statusEmoji ?? '').trim() || null,
+        }),
+        ...(statusExpiresAt !== undefined && { statusExpiresAt: expiresAt }),
+        ...(availability !== undefined && { availability }),
       },
     });
 
+    /**
+     * Live Status Broadcast
+     *
+     * Everyone who shares a conversation with the user gets the new status on
+     * their personal channel, as does the user for their other open tabs.
+     */
+    if (isStatusUpdate) {
+      const conversations = await prisma.conversation.findMany({
+        where: {
+          userIds: {
+            has: updatedUser.id,
+          },
+        },
+        select: {
+          users: {
+            select: {
+              email: true,
+            },
+          },
+        },
+      });
+
+      const recipients = new Set([
+        updatedUser.email,
+        ...conversations.flatMap((conversation) =>
+          conversation.users.map((user) => user.email)
+        ),
+      ]);
+
+      const statusUpdate: UserStatusUpdate = {
+        id: updatedUser.id,
+        email: updatedUser.email,
+        statusText: updatedUser.statusText,
+        statusEmoji: updatedUser.statusEmoji,
+        statusExpiresAt: updatedUser.statusExpiresAt,
+        availability: updatedUser.availability,
+      };
+
+      recipients.forEach((email) => {
+        if (email) {
+          pusherServer.trigger(email, 'user:update', statusUpdate);
+        }
+      });
+    }
+
     /**
      * Success Response with Updated User
      *
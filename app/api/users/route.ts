@@ -0,0 +1,46 @@
+/**
+ * Users API Route for Dex Real-Time Messenger
+ *
+ * This file provides the user list endpoint for our Next.js 14 real-time
+ * messaging application. Server components get the list straight from the
+ * getUsers action; client components that open later, such as the picker
+ * for adding people to a group, fetch it here instead.
+ *
+ * Key Features:
+ * - Same list as getUsers: everyone except the current user, newest first
+ * - Authentication required
+ *
+ * @fileoverview Users API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getCurrentUser from '@/app/actions/getCurrentUser';
+import getUsers from '@/app/actions/getUsers';
+import { NextResponse } from 'next/server';
+
+/**
+ * User List API Endpoint
+ *
+ * @returns {Promise<NextResponse>} All other users or error status
+ *
+ * @example
+ * ```typescript
+ * const { data: users } = await axios.get<User[]>('/api/users');
+ * ```
+ */
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser?.id || !currentUser?.email) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const users = await getUsers();
+
+    return NextResponse.json(users);
+  } catch (error: any) {
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -12,6 +12,7 @@
  * - Automatic subscription to presence-dex-messenger channel
  * - User join/leave event handling for real-time status updates
  * - Integration with Avatar components for online status indicators
+ * - Live custom status and availability updates via useUserStatusChannel
  * - Silent component that returns null (no visual output)
  *
  * Active Status Usage Patterns:
@@ -34,6 +35,7 @@
 'use client';
 
 import useActiveChannel from '../hooks/useActiveChannel';
+import useUserStatusChannel from '../hooks/useUserStatusChannel';
 
 /**
  * Active Status Component
@@ -125,6 +127,14 @@ const ActiveStatus = () => {
    */
   useActiveChannel();
 
+  /**
+   * Live Custom Statuses
+   *
+   * Availability and custom statuses change the presence dot and labels just
+   * like presence does, so their listener is mounted alongside it.
+   */
+  useUserStatusChannel();
+
   /**
    * Silent Component Return
    *
@@ -8,7 +8,7 @@
  *
  * Key Features:
  * - User profile image display with Next.js Image optimization
- * - Real-time active status indicator with green dot
+ * - Real-time active status indicator, coloured by availability mode
  * - Responsive sizing for mobile and desktop
  * - Fallback placeholder image for users without profile pictures
  * - Active status integration via useActiveList hook
@@ -37,6 +37,12 @@
 import { User } from '@prisma/client';
 import Image from 'next/image';
 import useActiveList from '../hooks/useActiveList';
+import useUserStatus from '../hooks/useUserStatus';
+import {
+  AVAILABILITY_DOT_CLASSES,
+  AVAILABILITY_LABELS,
+} from '../libs/userStatus';
+import clsx from 'clsx';
 
 /**
  * Avatar Component Props Interface
@@ -62,7 +68,7 @@ interface AvatarProps {
  *
  * Key Capabilities:
  * - User profile image display with Next.js Image optimization
- * - Real-time active status indicator with green dot
+ * - Real-time active status indicator coloured by availability mode
  * - Responsive sizing for mobile and desktop
  * - Fallback placeholder image for users without profile pictures
  * - Active status integration via useActiveList hook
@@ -129,7 +135,7 @@ const Avatar: React.FC<AvatarProps> = ({ user }) => {
    * - useActiveList hook provides real-time active user list
    * - members array contains email addresses of online users
    * - indexOf check determines if user email exists in active list
-   * - isActive boolean controls green dot indicator display
+   * - isActive boolean controls presence dot display
    *
    * Why email-based checking?
    * - Email is unique identifier across authentication providers
@@ -144,6 +150,14 @@ const Avatar: React.FC<AvatarProps> = ({ user }) => {
   const { members } = useActiveList();
   const isActive = members.indexOf(user?.email!) !== -1;
 
+  /**
+   * Availability Colour
+   *
+   * Online users who are busy, not to be disturbed or away get a dot in
+   * their mode's colour instead of green.
+   */
+  const { availability } = useUserStatus(user);
+
   return (
     <div className="relative">
       <div
@@ -167,11 +181,12 @@ const Avatar: React.FC<AvatarProps> = ({ user }) => {
       </div>
       {isActive ? (
         <span
-          className="
+          title={AVAILABILITY_LABELS[availability]}
+          className={clsx(
+            `
           absolute
           block
           rounded-full
-          bg-green-500
           ring-2
           ring-white
           top-0
@@ -180,7 +195,9 @@ const Avatar: React.FC<AvatarProps> = ({ user }) => {
           w-2
           md:h-3
           md:w-3
-        "
+        `,
+            AVAILABILITY_DOT_CLASSES[availability]
+          )}
         />
       ) : null}
     </div>
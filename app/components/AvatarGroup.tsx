@@ -9,6 +9,7 @@
  * Key Features:
  * - Group conversation user display with overlapping avatars
  * - Maximum 3 users displayed with strategic positioning
+ * - Group photo shown instead of the tiles when one is set
  * - Next.js Image optimization for performance
  * - Fallback placeholder image for users without profile pictures
  * - Responsive sizing for mobile and desktop
@@ -42,10 +43,12 @@ import Image from 'next/image';
  * and clear documentation for all available props and their purposes.
  *
  * @interface AvatarGroupProps
- * @property {User[]} [users] - Array of user objects containing profile information and images
+ * @property {Pick<User, 'id' | 'image'>[]} [users] - Users whose profile images are tiled
+ * @property {string | null} [image] - Group photo; replaces the member tiles when set
  */
 interface AvatarGroupProps {
-  users?: User[];
+  users?: Pick<User, 'id' | 'image'>[];
+  image?: string | null;
 }
 
 /**
@@ -110,10 +113,10 @@ interface AvatarGroupProps {
  * <AvatarGroup users={groupMembers} />
  *
  * // Profile drawer group info
- * <AvatarGroup users={data.users} />
+ * <AvatarGroup users={data.users} image={data.image} />
  * ```
  */
-const AvatarGroup: React.FC<AvatarGroupProps> = ({ users = [] }) => {
+const AvatarGroup: React.FC<AvatarGroupProps> = ({ users = [], image }) => {
   /**
    * User Limit and Slicing
    *
@@ -165,6 +168,23 @@ const AvatarGroup: React.FC<AvatarGroupProps> = ({ users = [] }) => {
     2: 'bottom-0 right-0',
   };
 
+  if (image) {
+    return (
+      <div
+        className="
+          relative
+          inline-block
+          rounded-full
+          overflow-hidden
+          h-11
+          w-11
+        "
+      >
+        <Image alt="Group photo" height={256} width={256} src={image} />
+      </div>
+    );
+  }
+
   return (
     <div
       className="
@@ -0,0 +1,51 @@
+/**
+ * Draft Status Component for Dex Real-Time Messenger
+ *
+ * This file provides the DraftStatus component for our Next.js 14 real-time
+ * messaging application. It renders nothing and exists to run
+ * useDraftChannel, which loads the user's drafts into the client store and
+ * keeps the browser and server copies in step.
+ *
+ * Key Features:
+ * - Hands server-rendered drafts to the client store
+ * - Silent component that returns null (no visual output)
+ *
+ * @fileoverview Draft Status component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useDraftChannel from '../hooks/useDraftChannel';
+import { DraftUpdate } from '../types';
+
+/**
+ * Draft Status Props Interface
+ *
+ * @interface DraftStatusProps
+ * @property {DraftUpdate[]} initialDrafts - The user's synced drafts
+ */
+interface DraftStatusProps {
+  initialDrafts: DraftUpdate[];
+}
+
+/**
+ * Draft Status Component
+ *
+ * @param {DraftStatusProps} props - Server-rendered drafts
+ * @returns {null} Silent component with no visual output
+ *
+ * @example
+ * ```tsx
+ * // In Sidebar
+ * <DraftStatus initialDrafts={drafts} />
+ * ```
+ */
+const DraftStatus: React.FC<DraftStatusProps> = ({ initialDrafts }) => {
+  useDraftChannel(initialDrafts);
+
+  return null;
+};
+
+export default DraftStatus;
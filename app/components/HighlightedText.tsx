@@ -0,0 +1,92 @@
+/**
+ * Highlighted Text Component for Dex Real-Time Messenger
+ *
+ * This file provides a small text renderer that wraps search matches in
+ * <mark> elements for our Next.js 14 real-time messaging application. It is
+ * used by message search results and by message bubbles while searching.
+ *
+ * Key Features:
+ * - Literal, case-insensitive matching via highlightRanges
+ * - Overlapping matches merged into a single highlight
+ * - Plain text output when there is nothing to highlight
+ *
+ * @fileoverview Highlighted text component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { highlightRanges } from '@/app/libs/messageSearch';
+import clsx from 'clsx';
+import { Fragment, useMemo } from 'react';
+
+/**
+ * Highlighted Text Props Interface
+ *
+ * @interface HighlightedTextProps
+ * @property {string} text - Text to render
+ * @property {string[]} terms - Terms to highlight
+ * @property {string} [markClassName] - Extra classes for the <mark> elements
+ */
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  markClassName?: string;
+}
+
+/**
+ * Highlighted Text Component
+ *
+ * @param {HighlightedTextProps} props - Component props for the text
+ * @returns {JSX.Element} Text with matches wrapped in <mark>
+ *
+ * @example
+ * ```tsx
+ * <HighlightedText text={result.snippet} terms={terms} />
+ * ```
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  terms,
+  markClassName,
+}) => {
+  const parts = useMemo(() => {
+    const ranges = highlightRanges(text, terms);
+    const segments: { text: string; highlighted: boolean }[] = [];
+    let cursor = 0;
+
+    ranges.forEach(([start, end]) => {
+      if (start > cursor) {
+        segments.push({ text: text.slice(cursor, start), highlighted: false });
+      }
+      segments.push({ text: text.slice(start, end), highlighted: true });
+      cursor = end;
+    });
+
+    if (cursor < text.length) {
+      segments.push({ text: text.slice(cursor), highlighted: false });
+    }
+
+    return segments;
+  }, [text, terms]);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <mark
+            key={index}
+            className={clsx('rounded-sm bg-yellow-200 px-0.5', markClassName)}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
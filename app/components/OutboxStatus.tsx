@@ -0,0 +1,39 @@
+/**
+ * Outbox Status Component for Dex Real-Time Messenger
+ *
+ * This file provides the OutboxStatus component for our Next.js 14 real-time
+ * messaging application. It renders nothing and exists to run
+ * useOutboxSender from the sidebar, so messages keep going out while the
+ * user moves between conversations.
+ *
+ * Key Features:
+ * - Sends and retries the user's unconfirmed messages
+ * - Silent component that returns null (no visual output)
+ *
+ * @fileoverview Outbox Status component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useOutboxSender from '../hooks/useOutboxSender';
+
+/**
+ * Outbox Status Component
+ *
+ * @returns {null} Silent component with no visual output
+ *
+ * @example
+ * ```tsx
+ * // In Sidebar
+ * <OutboxStatus />
+ * ```
+ */
+const OutboxStatus = () => {
+  useOutboxSender();
+
+  return null;
+};
+
+export default OutboxStatus;
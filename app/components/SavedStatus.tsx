@@ -0,0 +1,51 @@
+/**
+ * Saved Status Component for Dex Real-Time Messenger
+ *
+ * This file provides the SavedStatus component for our Next.js 14 real-time
+ * messaging application. Like UnreadStatus, it renders nothing and exists to
+ * run a hook: useSavedChannel, which keeps the saved stars on messages and
+ * the Saved page up to date.
+ *
+ * Key Features:
+ * - Hands server-rendered saved message IDs to the client store
+ * - Live updates over the user's Pusher channel
+ * - Silent component that returns null (no visual output)
+ *
+ * @fileoverview Saved Status component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useSavedChannel from '../hooks/useSavedChannel';
+
+/**
+ * Saved Status Props Interface
+ *
+ * @interface SavedStatusProps
+ * @property {string[]} initialIds - IDs of the user's saved messages
+ */
+interface SavedStatusProps {
+  initialIds: string[];
+}
+
+/**
+ * Saved Status Component
+ *
+ * @param {SavedStatusProps} props - Server-rendered saved message IDs
+ * @returns {null} Silent component with no visual output
+ *
+ * @example
+ * ```tsx
+ * // In Sidebar
+ * <SavedStatus initialIds={savedMessageIds} />
+ * ```
+ */
+const SavedStatus: React.FC<SavedStatusProps> = ({ initialIds }) => {
+  useSavedChannel(initialIds);
+
+  return null;
+};
+
+export default SavedStatus;
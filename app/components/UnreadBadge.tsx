@@ -0,0 +1,74 @@
+/**
+ * Unread Badge Component for Dex Real-Time Messenger
+ *
+ * This file provides the small counter pill used for unread messages in our
+ * Next.js 14 real-time messaging application: next to each conversation in
+ * the list and on the Chat item of the desktop sidebar and mobile footer.
+ *
+ * Key Features:
+ * - Nothing rendered while the count is zero
+ * - Counts above 99 shown as "99+"
+ * - Accessible label with the full count
+ *
+ * @fileoverview Unread badge component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import clsx from 'clsx';
+
+/**
+ * Unread Badge Props Interface
+ *
+ * @interface UnreadBadgeProps
+ * @property {number} count - Number of unread messages
+ * @property {string} [className] - Extra classes, e.g. for absolute positioning
+ */
+interface UnreadBadgeProps {
+  count: number;
+  className?: string;
+}
+
+/**
+ * Unread Badge Component
+ *
+ * @param {UnreadBadgeProps} props - Component props for the badge
+ * @returns {JSX.Element | null} Counter pill, or null when nothing is unread
+ *
+ * @example
+ * ```tsx
+ * <UnreadBadge count={unreadCount} />
+ * ```
+ */
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({ count, className }) => {
+  if (count <= 0) {
+    return null;
+  }
+
+  return (
+    <span
+      aria-label={`${count} unread ${count === 1 ? 'message' : 'messages'}`}
+      className={clsx(
+        `
+        inline-flex
+        h-5
+        min-w-[1.25rem]
+        items-center
+        justify-center
+        rounded-full
+        bg-sky-500
+        px-1.5
+        text-xs
+        font-semibold
+        leading-none
+        text-white
+      `,
+        className
+      )}
+    >
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+};
+
+export default UnreadBadge;
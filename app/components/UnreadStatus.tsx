@@ -0,0 +1,51 @@
+/**
+ * Unread Status Component for Dex Real-Time Messenger
+ *
+ * This file provides the UnreadStatus component for our Next.js 14 real-time
+ * messaging application. Like ActiveStatus, it renders nothing and exists to
+ * run a hook: useUnreadChannel, which keeps the unread counters behind the
+ * conversation badges, the Chat item badge and the tab title up to date.
+ *
+ * Key Features:
+ * - Hands server-rendered unread counters to the client store
+ * - Live counter updates over the user's Pusher channel
+ * - Silent component that returns null (no visual output)
+ *
+ * @fileoverview Unread Status component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useUnreadChannel from '../hooks/useUnreadChannel';
+
+/**
+ * Unread Status Props Interface
+ *
+ * @interface UnreadStatusProps
+ * @property {Record<string, number>} initialCounts - Unread count keyed by conversation ID
+ */
+interface UnreadStatusProps {
+  initialCounts: Record<string, number>;
+}
+
+/**
+ * Unread Status Component
+ *
+ * @param {UnreadStatusProps} props - Server-rendered counters
+ * @returns {null} Silent component with no visual output
+ *
+ * @example
+ * ```tsx
+ * // In Sidebar
+ * <UnreadStatus initialCounts={unreadCounts} />
+ * ```
+ */
+const UnreadStatus: React.FC<UnreadStatusProps> = ({ initialCounts }) => {
+  useUnreadChannel(initialCounts);
+
+  return null;
+};
+
+export default UnreadStatus;
@@ -9,6 +9,7 @@
  *
  * Key Features:
  * - Multi-select functionality for multiple user selection
+ * - Single-choice mode for settings such as availability
  * - React-select integration with custom styling and behavior
  * - Portal-based dropdown to prevent z-index issues
  * - Accessibility features (labels, keyboard navigation, screen reader support)
@@ -46,6 +47,7 @@ import ReactSelect from 'react-select';
  * @property {(value: Record<string, any>) => void} onChange - Callback function for selection changes
  * @property {Record<string, any>[]} options - Array of available options for selection
  * @property {boolean} [disabled] - Whether the select field is disabled and non-interactive
+ * @property {boolean} [isMulti=true] - Whether several options can be selected
  */
 interface SelectProps {
   label: string;
@@ -53,6 +55,7 @@ interface SelectProps {
   onChange: (value: Record<string, any>) => void;
   options: Record<string, any>[];
   disabled?: boolean;
+  isMulti?: boolean;
 }
 
 /**
@@ -126,6 +129,7 @@ const Select: React.FC<SelectProps> = ({
   onChange,
   options,
   disabled,
+  isMulti = true,
 }) => {
   return (
     <div className="z-[100]">
@@ -144,8 +148,8 @@ const Select: React.FC<SelectProps> = ({
         <ReactSelect
           isDisabled={disabled}
           value={value}
-          onChange={onChange}
-          isMulti
+          onChange={(newValue) => onChange(newValue as Record<string, any>)}
+          isMulti={isMulti}
           options={options}
           menuPortalTarget={document.body}
           styles={{
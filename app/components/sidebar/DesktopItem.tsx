@@ -14,6 +14,7 @@
  * - Accessibility features with screen reader support
  * - Hover states and interactive feedback
  * - Next.js Link integration for client-side navigation
+ * - Optional unread badge over the icon
  *
  * Desktop Item Usage Patterns:
  * - DesktopSidebar: Navigation items in desktop sidebar
@@ -36,6 +37,7 @@
 
 import clsx from 'clsx';
 import Link from 'next/link';
+import UnreadBadge from '../UnreadBadge';
 
 /**
  * Desktop Item Component Props Interface
@@ -49,6 +51,7 @@ import Link from 'next/link';
  * @property {string} href - Navigation URL for the item (used by Next.js Link)
  * @property {() => void} [onClick] - Optional click handler for custom actions (e.g., logout)
  * @property {boolean} [active] - Whether the item is currently active/selected
+ * @property {number} [badge] - Unread count shown over the icon
  */
 interface DesktopItemProps {
   label: string;
@@ -56,6 +59,7 @@ interface DesktopItemProps {
   href: string;
   onClick?: () => void;
   active?: boolean;
+  badge?: number;
 }
 
 /**
@@ -143,6 +147,7 @@ const DesktopItem: React.FC<DesktopItemProps> = ({
   href,
   onClick,
   active,
+  badge,
 }) => {
   /**
    * Click Handler for Custom Actions
@@ -180,6 +185,7 @@ const DesktopItem: React.FC<DesktopItemProps> = ({
         href={href}
         className={clsx(
           `
+          relative
           group
           flex
           gap-x-3
@@ -196,6 +202,12 @@ const DesktopItem: React.FC<DesktopItemProps> = ({
         )}
       >
         <Icon className="h-6 w-6 shrink-0" />
+        {!!badge && (
+          <UnreadBadge
+            count={badge}
+            className="absolute right-0.5 top-0.5 ring-2 ring-white"
+          />
+        )}
         <span className="sr-only">{label}</span>
       </Link>
     </li>
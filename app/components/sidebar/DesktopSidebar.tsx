@@ -211,6 +211,7 @@ const DesktopSidebar: React.FC<DesktopSidebarProps> = ({ currentUser }) => {
                 icon={item.icon}
                 active={item.active}
                 onClick={item.onClick}
+                badge={item.badge}
               />
             ))}
           </ul>
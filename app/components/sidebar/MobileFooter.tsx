@@ -193,6 +193,7 @@ const MobileFooter = () => {
           icon={route.icon}
           active={route.active}
           onClick={route.onClick}
+          badge={route.badge}
         />
       ))}
     </div>
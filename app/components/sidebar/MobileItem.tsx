@@ -14,6 +14,7 @@
  * - Responsive design with full-width mobile layout
  * - Hover states and interactive feedback
  * - Next.js Link integration for client-side navigation
+ * - Optional unread badge over the icon
  *
  * Mobile Item Usage Patterns:
  * - MobileFooter: Navigation items in mobile footer
@@ -36,6 +37,7 @@
 
 import clsx from 'clsx';
 import Link from 'next/link';
+import UnreadBadge from '../UnreadBadge';
 
 /**
  * Mobile Item Component Props Interface
@@ -48,12 +50,14 @@ import Link from 'next/link';
  * @property {any} icon - React icon component to display in the navigation item
  * @property {boolean} [active] - Whether the item is currently active/selected
  * @property {() => void} [onClick] - Optional click handler for custom actions (e.g., logout)
+ * @property {number} [badge] - Unread count shown over the icon
  */
 interface MobileItemProps {
   href: string;
   icon: any;
   active?: boolean;
   onClick?: () => void;
+  badge?: number;
 }
 
 /**
@@ -138,6 +142,7 @@ const MobileItem: React.FC<MobileItemProps> = ({
   icon: Icon,
   active,
   onClick,
+  badge,
 }) => {
   /**
    * Click Handler for Custom Actions
@@ -175,6 +180,7 @@ const MobileItem: React.FC<MobileItemProps> = ({
       onClick={handleClick}
       className={clsx(
         `
+        relative
         group
         flex
         gap-x-3
@@ -192,6 +198,12 @@ const MobileItem: React.FC<MobileItemProps> = ({
       )}
     >
       <Icon className="h-6 w-6" />
+      {!!badge && (
+        <UnreadBadge
+          count={badge}
+          className="absolute left-1/2 top-2 ml-1 ring-2 ring-white"
+        />
+      )}
     </Link>
   );
 };
@@ -9,6 +9,8 @@
  * Key Features:
  * - User profile management with name and image editing
  * - Cloudinary image upload integration with CldUploadButton
+ * - Privacy toggle for showing the user's last seen time
+ * - Custom status with emoji and expiry, and availability mode
  * - React Hook Form integration with validation and error handling
  * - API integration with /api/settings endpoint for profile updates
  * - Modal integration with Headless UI for accessibility
@@ -41,10 +43,19 @@ import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import Modal from '../Modal';
 import Input from '../inputs/Input';
+import Select from '../inputs/Select';
 import Image from 'next/image';
 import { CldUploadButton } from 'next-cloudinary';
 import Button from '../Button';
 import clsx from 'clsx';
+import { format } from 'date-fns';
+import {
+  AVAILABILITY_OPTIONS,
+  STATUS_EXPIRY_OPTIONS,
+  getAvailability,
+  getCustomStatus,
+  getStatusExpiry,
+} from '@/app/libs/userStatus';
 
 /**
  * Settings Modal Component Props Interface
@@ -171,6 +182,24 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
    * user account management interface.
    */
   const router = useRouter();
+
+  /**
+   * Current Status Defaults
+   *
+   * An expired status starts out cleared. A status that still has a future
+   * expiry gets an extra "Until …" choice that keeps that expiry.
+   */
+  const currentStatus = getCustomStatus(currentUser);
+  const currentExpiry =
+    currentStatus && currentUser.statusExpiresAt
+      ? {
+          value: 'keep',
+          label: `Until ${format(new Date(currentUser.statusExpiresAt), 'PPp')}`,
+        }
+      : null;
+  const expiryOptions = currentExpiry
+    ? [currentExpiry, ...STATUS_EXPIRY_OPTIONS]
+    : STATUS_EXPIRY_OPTIONS;
   const [isLoading, setIsLoading] = useState(false);
 
   /**
@@ -210,6 +239,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     defaultValues: {
       name: currentUser?.name,
       image: currentUser?.image,
+      showLastSeen: !currentUser?.hideLastSeen,
+      statusEmoji: currentStatus?.emoji ?? '',
+      statusText: currentStatus?.text ?? '',
+      statusExpiry: currentExpiry ?? STATUS_EXPIRY_OPTIONS[0],
+      availability: AVAILABILITY_OPTIONS.find(
+        (option) => option.value === getAvailability(currentUser)
+      ),
     },
   });
 
@@ -240,6 +276,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
    * throughout the profile management interface.
    */
   const image = watch('image');
+  const statusExpiry = watch('statusExpiry');
+  const availability = watch('availability');
 
   /**
    * Cloudinary Image Upload Handler
@@ -301,10 +339,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
    * throughout the user account management interface.
    */
   const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    const { statusExpiry: expiry, availability: mode, ...profile } = data;
+    const hasStatus = Boolean(
+      profile.statusText?.trim() || profile.statusEmoji?.trim()
+    );
+
     setIsLoading(true);
 
     axios
-      .post('/api/settings', data)
+      .post('/api/settings', {
+        ...profile,
+        availability: mode?.value,
+        statusExpiresAt: !hasStatus
+          ? null
+          : expiry?.value === 'keep'
+            ? currentUser.statusExpiresAt
+            : getStatusExpiry(expiry?.value),
+      })
       .then(() => {
         router.refresh();
         onClose();
@@ -411,6 +462,91 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   </CldUploadButton>
                 </div>
               </div>
+              <div className="flex items-start gap-x-3">
+                <input
+                  id="showLastSeen"
+                  type="checkbox"
+                  disabled={isLoading}
+                  {...register('showLastSeen')}
+                  className="
+                    mt-1
+                    h-4
+                    w-4
+                    rounded
+                    border-gray-300
+                    text-sky-600
+                    focus:ring-sky-600
+                  "
+                />
+                <label htmlFor="showLastSeen" className="text-sm leading-6">
+                  <span className="block font-medium text-gray-900">
+                    Show when I was last seen
+                  </span>
+                  <span className="block text-gray-600">
+                    When off, others only see whether you are online.
+                  </span>
+                </label>
+              </div>
+            </div>
+          </div>
+          <div className="border-gray-900/10 pb-12">
+            <h2
+              className="
+                text-base
+                font-semibold
+                leading-7
+                text-gray-900
+              "
+            >
+              Status
+            </h2>
+            <p className="mt-1 text-sm leading-6 text-gray-600">
+              Let people in your conversations know what you are up to.
+            </p>
+            <div
+              className="
+                mt-10
+                flex
+                flex-col
+                gap-y-8
+              "
+            >
+              <div className="flex gap-x-4">
+                <div className="w-24">
+                  <Input
+                    disabled={isLoading}
+                    label="Emoji"
+                    id="statusEmoji"
+                    errors={errors}
+                    register={register}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Input
+                    disabled={isLoading}
+                    label="Status"
+                    id="statusText"
+                    errors={errors}
+                    register={register}
+                  />
+                </div>
+              </div>
+              <Select
+                disabled={isLoading}
+                label="Clear after"
+                isMulti={false}
+                options={expiryOptions}
+                onChange={(value) => setValue('statusExpiry', value)}
+                value={statusExpiry}
+              />
+              <Select
+                disabled={isLoading}
+                label="Availability"
+                isMulti={false}
+                options={AVAILABILITY_OPTIONS}
+                onChange={(value) => setValue('availability', value)}
+                value={availability}
+              />
             </div>
           </div>
           <div>
@@ -14,10 +14,14 @@
  * - Mobile footer navigation for mobile devices
  * - Main content area with proper spacing and layout
  * - Server-side user data fetching for optimal performance
+ * - Server-rendered unread counters handed to the client unread store
+ * - Server-rendered saved message IDs handed to the client saved store
+ * - Outbox sender that keeps unconfirmed messages going out on every page
  *
  * Sidebar Usage Patterns:
  * - conversations/layout.tsx: Conversation list and chat interface
  * - users/layout.tsx: User list and user management interface
+ * - saved/layout.tsx: Saved messages grouped by conversation
  * - Responsive navigation: Desktop sidebar + mobile footer
  * - User authentication: Current user data for profile and settings
  * - Layout structure: Consistent sidebar + main content layout
@@ -33,6 +37,13 @@
  */
 
 import getCurrentUser from '@/app/actions/getCurrentUser';
+import getUnreadCounts from '@/app/actions/getUnreadCounts';
+import getSavedMessageIds from '@/app/actions/getSavedMessageIds';
+import getDrafts from '@/app/actions/getDrafts';
+import UnreadStatus from '../UnreadStatus';
+import SavedStatus from '../SavedStatus';
+import DraftStatus from '../DraftStatus';
+import OutboxStatus from '../OutboxStatus';
 import DesktopSidebar from './DesktopSidebar';
 import MobileFooter from './MobileFooter';
 
@@ -134,8 +145,37 @@ async function Sidebar({ children }: { children: React.ReactNode }) {
    */
   const currentUser = await getCurrentUser();
 
+  /**
+   * Unread Counters
+   *
+   * Loaded on every server render of the sidebar so the Chat badge and the
+   * conversation badges are right on first paint; UnreadStatus keeps them
+   * current afterwards.
+   */
+  const unreadCounts = await getUnreadCounts();
+
+  /**
+   * Saved Message IDs
+   *
+   * Decide which messages show a filled star; SavedStatus keeps them in
+   * sync with the user's other tabs.
+   */
+  const savedMessageIds = await getSavedMessageIds();
+
+  /**
+   * Synced Drafts
+   *
+   * Merged with the drafts kept in the browser by DraftStatus, so a draft
+   * from another device appears in the conversation list.
+   */
+  const drafts = await getDrafts();
+
   return (
     <div className="h-full">
+      <UnreadStatus initialCounts={unreadCounts} />
+      <SavedStatus initialIds={savedMessageIds} />
+      <DraftStatus initialDrafts={drafts} />
+      <OutboxStatus />
       <DesktopSidebar currentUser={currentUser!} />
       <MobileFooter />
       <main className="lg:pl-20 h-full">{children}</main>
@@ -0,0 +1,188 @@
+/**
+ * Add Members Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the AddMembersModal component for our Next.js 14
+ * real-time messaging application. Opened from the ProfileDrawer of a group,
+ * it lets the owner and admins bring more people into the conversation, with the same
+ * member picker used by GroupChatModal.
+ *
+ * Key Features:
+ * - User list fetched when the modal opens, minus the current members
+ * - Multi-select through the shared Select input
+ * - POST /api/conversations/[conversationId]/members on submit
+ * - Member list refreshed through the conversation:update that follows
+ *
+ * @fileoverview Add members modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import Select from '@/app/components/inputs/Select';
+import { User } from '@prisma/client';
+import axios from 'axios';
+import { useEffect, useMemo, useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Add Members Modal Props Interface
+ *
+ * @interface AddMembersModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {string} conversationId - Group the members are added to
+ * @property {User[]} members - Current members, left out of the picker
+ */
+interface AddMembersModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  conversationId: string;
+  members: User[];
+}
+
+/**
+ * Add Members Modal Component
+ *
+ * @param {AddMembersModalProps} props - Component props
+ * @returns {JSX.Element} Modal with the member picker
+ *
+ * @example
+ * ```tsx
+ * <AddMembersModal
+ *   isOpen={addMembersOpen}
+ *   onClose={() => setAddMembersOpen(false)}
+ *   conversationId={data.id}
+ *   members={data.users}
+ * />
+ * ```
+ */
+const AddMembersModal: React.FC<AddMembersModalProps> = ({
+  isOpen,
+  onClose,
+  conversationId,
+  members,
+}) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { handleSubmit, setValue, watch, reset } = useForm<FieldValues>({
+    defaultValues: {
+      newMembers: [],
+    },
+  });
+
+  const newMembers = watch('newMembers');
+
+  /**
+   * User List
+   *
+   * Fetched on every opening, so people who signed up since show up too.
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    reset();
+    axios
+      .get<User[]>('/api/users')
+      .then((response) => setUsers(response.data))
+      .catch(() => toast.error('Something went wrong!'));
+  }, [isOpen, reset]);
+
+  const options = useMemo(() => {
+    const memberIds = members.map((member) => member.id);
+
+    return users
+      .filter((user) => !memberIds.includes(user.id))
+      .map((user) => ({
+        value: user.id,
+        label: user.name,
+      }));
+  }, [users, members]);
+
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    if (data.newMembers.length === 0) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    axios
+      .post(`/api/conversations/${conversationId}/members`, {
+        userIds: data.newMembers.map(
+          (member: { value: string }) => member.value
+        ),
+      })
+      .then(() => onClose())
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setIsLoading(false));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-12">
+          <div className="border-b border-gray-900/10 pb-12">
+            <h2
+              className="
+                text-base
+                font-semibold
+                leading-7
+                text-gray-900
+              "
+            >
+              Add members
+            </h2>
+            <p
+              className="
+                mt-1
+                text-sm
+                leading-6
+                text-gray-600
+              "
+            >
+              New members can read the conversation history.
+            </p>
+            <div className="mt-10">
+              <Select
+                disabled={isLoading}
+                label="Members"
+                options={options}
+                onChange={(value) => setValue('newMembers', value)}
+                value={newMembers}
+              />
+            </div>
+          </div>
+        </div>
+        <div
+          className="
+            mt-6
+            flex
+            items-center
+            justify-end
+            gap-x-6
+          "
+        >
+          <Button
+            type="button"
+            disabled={isLoading}
+            secondary
+            onClick={() => onClose()}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            Add
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default AddMembersModal;
@@ -11,16 +11,23 @@
  * - Real-time message updates via Pusher integration
  * - Automatic scroll management for new messages
  * - Message search targeting with smooth scrolling
- * - Read receipt tracking and API integration
+ * - Read watermark moved to the newest loaded message
+ * - Live "Seen by" placement from message:seen watermarks
  * - Message reference management for search functionality
+ * - Infinite scroll upwards through older message pages
+ * - Search terms highlighted in messages, with the current result marked
+ * - Windows opened around search hits, with newer pages loaded on the way
+ *   down and a shortcut back to the latest messages
+ * - Optimistic outbox messages after the timeline until the server confirms them
  *
  * Message Display Features:
  * - Individual message rendering with MessageBox components
+ * - System events as centered, muted rows instead of bubbles
  * - Real-time message updates and synchronization
  * - Message search targeting and smooth scrolling
  * - Automatic scroll to bottom for new messages
  * - Message reference tracking for search functionality
- * - Read receipt tracking and API calls
+ * - Read receipts placed under each reader's last seen message
  *
  * This component is essential for our messaging app because it provides the
  * message display and real-time messaging interface that enables users to
@@ -35,18 +42,35 @@
 'use client';
 
 import useConversation from '@/app/hooks/useConversation';
-import { FullMessageType } from '@/app/types';
+import {
+  ConversationSearchState,
+  FullMessageType,
+  ReadWatermark,
+  SeenResponse,
+  SeenUpdate,
+} from '@/app/types';
 import {
   Dispatch,
   SetStateAction,
   useCallback,
   useEffect,
+  useLayoutEffect,
+  useMemo,
   useRef,
+  useState,
 } from 'react';
 import MessageBox from './MessageBox';
+import SystemMessage from './SystemMessage';
 import axios from 'axios';
 import { pusherClient } from '@/app/libs/pusher';
 import { find } from 'lodash';
+import toast from 'react-hot-toast';
+import { useSession } from 'next-auth/react';
+import { HiArrowDown } from 'react-icons/hi2';
+import { applySeenUpdate, getReadersByMessage } from '@/app/libs/seenReceipts';
+import useOutbox from '@/app/hooks/useOutbox';
+import { User } from '@prisma/client';
+import OutboxMessageBox from './OutboxMessageBox';
 
 /**
  * Body Component Props Interface
@@ -57,14 +81,38 @@ import { find } from 'lodash';
  * @interface BodyProps
  * @property {FullMessageType[]} messages - Array of messages for display
  * @property {Dispatch<SetStateAction<FullMessageType[]>>} setMessages - Function to update messages state
+ * @property {ReadWatermark[]} readStates - Participants' read watermarks, for "Seen by"
+ * @property {Dispatch<SetStateAction<ReadWatermark[]>>} setReadStates - Function to update the watermarks
  * @property {Dispatch<SetStateAction<string>>} setSearchTargetId - Function to set search target message ID
  * @property {string} searchTargetId - ID of the message to scroll to for search targeting
+ * @property {(message: FullMessageType) => void} onReply - Starts a quoted reply to a message
+ * @property {boolean} hasMoreBefore - Whether older messages can still be loaded
+ * @property {() => Promise<void>} onLoadOlder - Loads and prepends the previous page
+ * @property {boolean} hasMoreAfter - Whether the loaded window ends before the newest message
+ * @property {() => Promise<void>} onLoadNewer - Loads and appends the next page
+ * @property {(messageId: string) => void} onJumpToMessage - Scrolls to a message, loading it if needed
+ * @property {() => Promise<void>} onJumpToLatest - Replaces the loaded window with the latest page
+ * @property {ConversationSearchState} [search] - Active in-conversation search, for highlighting
+ * @property {boolean} [canPin] - Whether the current user may pin messages here
+ * @property {User} [currentUser] - The current user, shown on unconfirmed messages
  */
 interface BodyProps {
   messages: FullMessageType[];
   setMessages: Dispatch<SetStateAction<FullMessageType[]>>;
+  readStates: ReadWatermark[];
+  setReadStates: Dispatch<SetStateAction<ReadWatermark[]>>;
   setSearchTargetId: Dispatch<SetStateAction<string>>;
   searchTargetId: string;
+  onReply: (message: FullMessageType) => void;
+  hasMoreBefore: boolean;
+  onLoadOlder: () => Promise<void>;
+  hasMoreAfter: boolean;
+  onLoadNewer: () => Promise<void>;
+  onJumpToMessage: (messageId: string) => void;
+  onJumpToLatest: () => Promise<void>;
+  search?: ConversationSearchState;
+  canPin?: boolean;
+  currentUser?: User;
 }
 
 /**
@@ -81,7 +129,8 @@ interface BodyProps {
  * - Real-time message updates via Pusher integration
  * - Automatic scroll management for new messages
  * - Message search targeting with smooth scrolling
- * - Read receipt tracking and API integration
+ * - Read watermark moved to the newest loaded message
+ * - Live "Seen by" placement from message:seen watermarks
  * - Message reference management for search functionality
  *
  * Message Display Features:
@@ -90,7 +139,7 @@ interface BodyProps {
  * - Message search targeting and smooth scrolling
  * - Automatic scroll to bottom for new messages
  * - Message reference tracking for search functionality
- * - Read receipt tracking and API calls
+ * - Read receipts placed under each reader's last seen message
  *
  * Usage Patterns:
  * - Individual conversation pages: Main message display area for conversations
@@ -121,8 +170,18 @@ interface BodyProps {
  * @param {BodyProps} props - Component props for conversation body configuration
  * @param {FullMessageType[]} props.messages - Array of messages for display
  * @param {Dispatch<SetStateAction<FullMessageType[]>>} props.setMessages - Function to update messages state
+ * @param {ReadWatermark[]} props.readStates - Participants' read watermarks, for "Seen by"
+ * @param {Dispatch<SetStateAction<ReadWatermark[]>>} props.setReadStates - Function to update the watermarks
  * @param {Dispatch<SetStateAction<string>>} props.setSearchTargetId - Function to set search target message ID
  * @param {string} props.searchTargetId - ID of the message to scroll to for search targeting
+ * @param {(message: FullMessageType) => void} props.onReply - Starts a quoted reply to a message
+ * @param {boolean} props.hasMoreBefore - Whether older messages can still be loaded
+ * @param {() => Promise<void>} props.onLoadOlder - Loads and prepends the previous page
+ * @param {boolean} props.hasMoreAfter - Whether the loaded window ends before the newest message
+ * @param {() => Promise<void>} props.onLoadNewer - Loads and appends the next page
+ * @param {(messageId: string) => void} props.onJumpToMessage - Scrolls to a message, loading it if needed
+ * @param {() => Promise<void>} props.onJumpToLatest - Replaces the loaded window with the latest page
+ * @param {ConversationSearchState} [props.search] - Active in-conversation search, for highlighting
  * @returns {JSX.Element} Conversation body with message display and real-time updates
  *
  * @example
@@ -131,8 +190,18 @@ interface BodyProps {
  * <Body
  *   messages={messages}
  *   setMessages={setMessages}
+ *   readStates={readStates}
+ *   setReadStates={setReadStates}
  *   setSearchTargetId={setSearchTargetId}
  *   searchTargetId={searchTargetId}
+ *   onReply={setReplyTo}
+ *   hasMoreBefore={hasMoreBefore}
+ *   onLoadOlder={loadOlderMessages}
+ *   hasMoreAfter={hasMoreAfter}
+ *   onLoadNewer={loadNewerMessages}
+ *   onJumpToMessage={jumpToMessage}
+ *   onJumpToLatest={jumpToLatest}
+ *   search={conversationSearch}
  * />
  *
  * // With message data from getMessages action
@@ -142,9 +211,23 @@ interface BodyProps {
 const Body: React.FC<BodyProps> = ({
   messages,
   setMessages,
+  readStates,
+  setReadStates,
   setSearchTargetId,
   searchTargetId,
+  onReply,
+  hasMoreBefore,
+  onLoadOlder,
+  hasMoreAfter,
+  onLoadNewer,
+  onJumpToMessage,
+  onJumpToLatest,
+  search,
+  canPin,
+  currentUser,
 }) => {
+  const session = useSession();
+
   /**
    * Bottom Scroll Reference
    *
@@ -172,6 +255,36 @@ const Body: React.FC<BodyProps> = ({
    */
   const bottomRef = useRef<HTMLDivElement>(null);
 
+  /**
+   * Scroll Container and Older Page State
+   *
+   * scrollRef points at the scrollable message list. scrollAnchorRef records,
+   * just before an older page is requested, the distance from the bottom of
+   * the list and the ID of the first message; once the page has been
+   * prepended the same distance is restored so the messages the user was
+   * reading stay put instead of jumping down by the height of the new page.
+   */
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<{
+    distanceFromBottom: number;
+    firstMessageId?: string;
+  } | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
+  /**
+   * Newer Page State
+   *
+   * The Pusher handlers are bound once per conversation, so they read the
+   * current window state through refs: while the window ends before the
+   * newest message, live messages are not appended (they would leave a gap),
+   * and the user's own message brings them back to the latest page.
+   */
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const hasMoreAfterRef = useRef(hasMoreAfter);
+  const jumpToLatestRef = useRef<() => void>(() => {});
+  const currentUserEmailRef = useRef<string | null | undefined>(null);
+  const scrollToBottomRef = useRef(false);
+
   /**
    * Message References Management
    *
@@ -269,38 +382,44 @@ const Body: React.FC<BodyProps> = ({
   /**
    * Read Receipt Tracking
    *
-   * Tracks read receipts for the current conversation by calling the seen API
-   * endpoint whenever the conversation changes. This tracking ensures proper
-   * read receipt management and user status updates.
+   * Moves the user's read watermark to the newest loaded message whenever it
+   * changes: on opening the conversation, when a message arrives and when a
+   * newer page is loaded. The server marks everything up to that message as
+   * seen in one go, so nothing is missed between two watermarks. While an
+   * older window is open, only what is on screen counts as read.
    *
-   * What this effect does:
-   * - Calls /api/conversations/{conversationId}/seen endpoint
-   * - Tracks read receipts for the current conversation
-   * - Updates user status and read receipt data
-   * - Provides real-time read receipt tracking
-   * - Integrates with conversation management system
-   *
-   * Why track read receipts:
-   * - User experience: Shows read status for messages
-   * - Real-time updates: Live read receipt tracking
-   * - Conversation context: Conversation-specific read tracking
-   * - API integration: Server-side read receipt management
-   * - Performance: Efficient read receipt tracking
-   *
-   * Read Receipt API Integration:
-   * - POST /api/conversations/{conversationId}/seen: Marks conversation as seen
-   * - Conversation-specific: Tracks read receipts per conversation
-   * - Real-time updates: Live read receipt synchronization
-   * - User status: Updates user read status in real-time
-   * - Performance: Efficient API calls with conversation context
-   *
-   * This read receipt tracking is essential for our messaging app because
-   * it provides the read receipt functionality that enables users to see
-   * message read status and maintain proper conversation context throughout the messaging platform.
+   * The response carries everyone's current watermark, which also refreshes
+   * read states that came from the conversation cache.
+   *
+   * The list still holds the previous conversation for a render after
+   * switching, so a message from another conversation is never sent.
    */
+  const newestMessage = messages[messages.length - 1];
+  const newestMessageId =
+    newestMessage?.conversationId === conversationId
+      ? newestMessage.id
+      : undefined;
+
   useEffect(() => {
-    axios.post(`/api/conversations/${conversationId}/seen`);
-  }, [conversationId]);
+    axios
+      .post<SeenResponse>(
+        `/api/conversations/${conversationId}/seen`,
+        newestMessageId ? { messageId: newestMessageId } : undefined
+      )
+      .then(({ data }) => setReadStates(data.readStates))
+      .catch(() => null);
+  }, [conversationId, newestMessageId, setReadStates]);
+
+  /**
+   * Readers by Message
+   *
+   * Places each reader under the newest loaded message they have seen, which
+   * is where "Seen by" is shown.
+   */
+  const readersByMessage = useMemo(
+    () => getReadersByMessage(messages, readStates, currentUser?.id),
+    [messages, readStates, currentUser?.id]
+  );
 
   /**
    * Real-Time Message Updates
@@ -314,14 +433,15 @@ const Body: React.FC<BodyProps> = ({
    * - New message handler for incoming messages
    * - Message update handler for message changes
    * - Automatic scroll to new messages
-   * - Read receipt tracking for new messages
+   * - Read watermark updates from other participants
    * - Event cleanup and channel unsubscription
    *
    * Real-Time Event Handlers:
    * - messages:new: Adds new messages to the conversation
-   * - message:update: Updates existing messages with changes
+   * - message:update: Updates existing messages with changes (edits, tombstones)
+   * - message:remove: Drops messages the user deleted "for me"
    * - Scroll management: Automatic scroll to new messages
-   * - Read receipts: Automatic read receipt tracking
+   * - message:seen: Applies another participant's read watermark
    * - Duplicate prevention: Prevents duplicate message display
    *
    * Why real-time updates are essential:
@@ -334,7 +454,7 @@ const Body: React.FC<BodyProps> = ({
    * Message Handler Logic:
    * - New message detection: Checks for duplicate messages using lodash find
    * - State updates: Adds new messages to messages array
-   * - Read receipts: Calls seen API for new messages
+   * - Read receipts: Appended messages move the watermark effect above
    * - Scroll management: Automatically scrolls to new messages
    * - Performance: Efficient message state management
    *
@@ -347,7 +467,22 @@ const Body: React.FC<BodyProps> = ({
     bottomRef?.current?.scrollIntoView();
 
     const messageHandler = (message: FullMessageType) => {
-      axios.post(`/api/conversations/${conversationId}/seen`);
+      // The echo of an optimistic message replaces it, matched on the
+      // outbox ID the message was sent with
+      if (
+        message.clientMessageId &&
+        message.sender?.email === currentUserEmailRef.current
+      ) {
+        useOutbox.getState().remove(message.clientMessageId);
+      }
+
+      if (hasMoreAfterRef.current) {
+        if (message.sender?.email === currentUserEmailRef.current) {
+          jumpToLatestRef.current();
+        }
+
+        return;
+      }
 
       setMessages((current) => {
         if (find(current, { id: message.id })) {
@@ -367,20 +502,108 @@ const Body: React.FC<BodyProps> = ({
             return newMessage;
           }
 
+          // Keep quotes of an edited or deleted message in sync
+          if (currentMessage.replyToId === newMessage.id) {
+            return { ...currentMessage, replyTo: newMessage };
+          }
+
           return currentMessage;
         })
       );
     };
 
+    /**
+     * Hidden Message Handler
+     *
+     * "Delete for me" is delivered on the user's personal channel, which is
+     * shared by every conversation, so the event is ignored unless it belongs
+     * to the conversation currently open.
+     */
+    const removeMessageHandler = (removed: {
+      id: string;
+      conversationId: string;
+    }) => {
+      if (removed.conversationId !== conversationId) {
+        return;
+      }
+
+      setMessages((current) =>
+        current.filter((currentMessage) => currentMessage.id !== removed.id)
+      );
+    };
+
+    /**
+     * Read Watermark Handler
+     *
+     * The seen route broadcasts who read up to where rather than every
+     * message it covers, so only the reader's watermark is replaced.
+     */
+    const seenHandler = (update: SeenUpdate) => {
+      if (update.conversationId !== conversationId) {
+        return;
+      }
+
+      setReadStates((current) => applySeenUpdate(current, update));
+    };
+
     pusherClient.bind('messages:new', messageHandler);
     pusherClient.bind('message:update', updateMessageHandler);
+    pusherClient.bind('message:remove', removeMessageHandler);
+    pusherClient.bind('message:seen', seenHandler);
 
     return () => {
       pusherClient.unsubscribe(conversationId);
       pusherClient.unbind('messages:new', messageHandler);
       pusherClient.unbind('message:update', updateMessageHandler);
+      pusherClient.unbind('message:remove', removeMessageHandler);
+      pusherClient.unbind('message:seen', seenHandler);
     };
-  }, [conversationId, setMessages]);
+  }, [conversationId, setMessages, setReadStates]);
+
+  /**
+   * Outbox Messages
+   *
+   * Messages sent from this conversation that the server has not confirmed
+   * yet. A confirmed message normally leaves the outbox when its echo
+   * arrives above; if the request finished first, or the echo never came,
+   * the server's copy from the response is added here instead.
+   */
+  const outbox = useOutbox((state) => state.outbox);
+  const removeFromOutbox = useOutbox((state) => state.remove);
+
+  const unconfirmedMessages = useMemo(
+    () =>
+      outbox.filter(
+        (outboxMessage) =>
+          outboxMessage.conversationId === conversationId &&
+          outboxMessage.status !== 'sent'
+      ),
+    [outbox, conversationId]
+  );
+
+  useEffect(() => {
+    outbox.forEach((outboxMessage) => {
+      const { message } = outboxMessage;
+
+      if (outboxMessage.conversationId !== conversationId || !message) {
+        return;
+      }
+
+      if (!hasMoreAfterRef.current) {
+        setMessages((current) =>
+          find(current, { id: message.id }) ? current : [...current, message]
+        );
+      }
+
+      removeFromOutbox(outboxMessage.id);
+    });
+  }, [outbox, conversationId, setMessages, removeFromOutbox]);
+
+  useEffect(() => {
+    if (unconfirmedMessages.length > 0) {
+      bottomRef.current?.scrollIntoView();
+    }
+  }, [unconfirmedMessages.length]);
 
   /**
    * Message Search Targeting
@@ -427,22 +650,200 @@ const Body: React.FC<BodyProps> = ({
     }
   }, [searchTargetId, setSearchTargetId]);
 
+  /**
+   * Older Page Request
+   *
+   * Asks the page for the previous page of messages unless one is already in
+   * flight or the start of the conversation has been reached, remembering
+   * the scroll anchor first.
+   */
+  const loadOlder = useCallback(() => {
+    const container = scrollRef.current;
+
+    if (!container || !hasMoreBefore || isLoadingOlder) {
+      return;
+    }
+
+    scrollAnchorRef.current = {
+      distanceFromBottom: container.scrollHeight - container.scrollTop,
+      firstMessageId: messages[0]?.id,
+    };
+    setIsLoadingOlder(true);
+
+    onLoadOlder()
+      .catch(() => {
+        scrollAnchorRef.current = null;
+        toast.error('Could not load earlier messages');
+      })
+      .finally(() => setIsLoadingOlder(false));
+  }, [hasMoreBefore, isLoadingOlder, messages, onLoadOlder]);
+
+  /**
+   * Newer Page Request
+   *
+   * Appending below the viewport does not move what the user is reading, so
+   * unlike older pages no scroll anchor is needed.
+   */
+  const loadNewer = useCallback(() => {
+    if (!hasMoreAfter || isLoadingNewer) {
+      return;
+    }
+
+    setIsLoadingNewer(true);
+
+    onLoadNewer()
+      .catch(() => toast.error('Could not load newer messages'))
+      .finally(() => setIsLoadingNewer(false));
+  }, [hasMoreAfter, isLoadingNewer, onLoadNewer]);
+
+  /**
+   * Return To Latest
+   *
+   * Loads the latest page and scrolls to the bottom once it has rendered.
+   */
+  const jumpToLatest = useCallback(() => {
+    scrollToBottomRef.current = true;
+
+    onJumpToLatest().catch(() => {
+      scrollToBottomRef.current = false;
+      toast.error('Could not load the latest messages');
+    });
+  }, [onJumpToLatest]);
+
+  useEffect(() => {
+    hasMoreAfterRef.current = hasMoreAfter;
+    jumpToLatestRef.current = jumpToLatest;
+    currentUserEmailRef.current = session.data?.user?.email;
+  }, [hasMoreAfter, jumpToLatest, session.data?.user?.email]);
+
+  /**
+   * Scroll Position Restoration
+   *
+   * Runs before paint whenever the message list changes. Only a change of the
+   * first message counts as a prepended page; messages appended by Pusher
+   * while the request is in flight leave the anchor untouched.
+   */
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const anchor = scrollAnchorRef.current;
+
+    if (scrollToBottomRef.current) {
+      scrollToBottomRef.current = false;
+      bottomRef.current?.scrollIntoView();
+      return;
+    }
+
+    if (!container || !anchor || messages[0]?.id === anchor.firstMessageId) {
+      return;
+    }
+
+    container.scrollTop = container.scrollHeight - anchor.distanceFromBottom;
+    scrollAnchorRef.current = null;
+  }, [messages]);
+
+  /**
+   * Short Conversation Fill
+   *
+   * A first page shorter than the viewport cannot be scrolled, so no scroll
+   * event would ever request older messages. Keep loading until the list
+   * overflows or the start of the conversation is reached.
+   */
+  useEffect(() => {
+    const container = scrollRef.current;
+
+    if (container && container.scrollHeight <= container.clientHeight) {
+      loadOlder();
+    }
+  }, [messages, loadOlder]);
+
   return (
-    <div className="flex-1 overflow-y-auto">
-      {messages.map((message, i) => (
+    <div
+      ref={scrollRef}
+      onScroll={(event) => {
+        const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+
+        if (scrollTop < 120) {
+          loadOlder();
+        }
+
+        if (scrollHeight - scrollTop - clientHeight < 120) {
+          loadNewer();
+        }
+      }}
+      className="flex-1 overflow-y-auto"
+    >
+      {isLoadingOlder && (
+        <div className="py-3 text-center text-xs text-gray-400">
+          Loading earlier messages…
+        </div>
+      )}
+      {messages.map((message) => (
         <div
           ref={(el) => setMessageRef(el, message.id)}
           key={message.id}
           className="p-0 m-0"
         >
-          <MessageBox
-            isLast={i === messages.length - 1}
-            key={message.id}
-            data={message}
-          />
+          {message.type === 'SYSTEM' ? (
+            <SystemMessage
+              data={message}
+              highlightTerms={search?.terms}
+              isSearchResult={search?.activeMessageId === message.id}
+            />
+          ) : (
+            <MessageBox
+              key={message.id}
+              data={message}
+              onReply={onReply}
+              onQuoteClick={onJumpToMessage}
+              seenBy={readersByMessage.get(message.id)}
+              highlightTerms={search?.terms}
+              isSearchResult={search?.activeMessageId === message.id}
+              canPin={canPin}
+              currentUserId={currentUser?.id}
+            />
+          )}
         </div>
       ))}
+      {isLoadingNewer && (
+        <div className="py-3 text-center text-xs text-gray-400">
+          Loading newer messages…
+        </div>
+      )}
+      {unconfirmedMessages.map((outboxMessage) => (
+        <OutboxMessageBox
+          key={outboxMessage.id}
+          data={outboxMessage}
+          sender={currentUser}
+        />
+      ))}
       <div ref={bottomRef} className="pt-4" />
+      {hasMoreAfter && (
+        <div className="pointer-events-none sticky bottom-4 flex justify-end px-4">
+          <button
+            type="button"
+            onClick={jumpToLatest}
+            className="
+              pointer-events-auto
+              flex
+              items-center
+              gap-1
+              rounded-full
+              bg-sky-500
+              px-3
+              py-2
+              text-xs
+              font-medium
+              text-white
+              shadow-md
+              hover:bg-sky-600
+              transition
+            "
+          >
+            <HiArrowDown size={14} />
+            Jump to latest
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+/**
+ * Delete Message Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the confirmation modal for deleting an individual message
+ * in our Next.js 14 real-time messaging application. It offers the two
+ * deletion modes supported by the message DELETE API route.
+ *
+ * Key Features:
+ * - "Delete for me" hides the message for the current user only
+ * - "Delete for everyone" replaces the message with a tombstone (sender only)
+ * - Loading state and toast feedback for failed deletions
+ * - Real-time refresh handled by Body.tsx via Pusher events
+ *
+ * @fileoverview Delete message modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import { FullMessageType } from '@/app/types';
+import { Dialog } from '@headlessui/react';
+import axios from 'axios';
+import { useCallback, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiAlertTriangle } from 'react-icons/fi';
+
+/**
+ * Delete Message Modal Props Interface
+ *
+ * @interface DeleteMessageModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {FullMessageType} message - Message being deleted
+ * @property {boolean} [canDeleteForEveryone] - Whether the "for everyone" option is offered
+ */
+interface DeleteMessageModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  message: FullMessageType;
+  canDeleteForEveryone?: boolean;
+}
+
+/**
+ * Delete Message Modal Component
+ *
+ * @param {DeleteMessageModalProps} props - Component props for the delete modal
+ * @returns {JSX.Element} Confirmation modal with deletion options
+ *
+ * @example
+ * ```tsx
+ * <DeleteMessageModal
+ *   message={data}
+ *   canDeleteForEveryone={isOwn}
+ *   isOpen={deleteOpen}
+ *   onClose={() => setDeleteOpen(false)}
+ * />
+ * ```
+ */
+const DeleteMessageModal: React.FC<DeleteMessageModalProps> = ({
+  isOpen,
+  onClose,
+  message,
+  canDeleteForEveryone,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Deletion Handler
+   *
+   * Calls the message DELETE route with the chosen mode. The timeline is
+   * updated by the resulting Pusher events rather than locally, so every
+   * open tab of the user stays consistent.
+   */
+  const onDelete = useCallback(
+    (mode: 'me' | 'everyone') => {
+      setIsLoading(true);
+
+      axios
+        .delete(`/api/messages/${message.conversationId}/${message.id}`, {
+          params: { mode },
+        })
+        .then(() => onClose())
+        .catch(() => toast.error('Something went wrong!'))
+        .finally(() => setIsLoading(false));
+    },
+    [message.conversationId, message.id, onClose]
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="sm:flex sm:items-start">
+        <div
+          className="
+            mx-auto
+            flex
+            h-12
+            w-12
+            flex-shrink-0
+            items-center
+            justify-center
+            rounded-full
+            bg-red-100
+            sm:mx-0
+            sm:h-10
+            sm:w-10
+          "
+        >
+          <FiAlertTriangle
+            className="
+              h-6
+              w-6
+              text-red-600
+            "
+          />
+        </div>
+        <div
+          className="
+            mt-3
+            text-center
+            sm:ml-4
+            sm:mt-0
+            sm:text-left
+          "
+        >
+          <Dialog.Title
+            as="h3"
+            className="
+              text-base
+              font-semibold
+              leading-6
+              text-gray-900
+            "
+          >
+            Delete message
+          </Dialog.Title>
+          <div className="mt-2">
+            <p className="text-sm text-gray-500">
+              {canDeleteForEveryone
+                ? 'Delete this message just for you, or for everyone in the conversation?'
+                : 'This message will be removed from your view of the conversation.'}
+            </p>
+          </div>
+        </div>
+      </div>
+      <div
+        className="
+          mt-5
+          sm:mt-4
+          sm:flex
+          sm:flex-row-reverse
+          gap-2
+        "
+      >
+        {canDeleteForEveryone && (
+          <Button
+            disabled={isLoading}
+            danger
+            onClick={() => onDelete('everyone')}
+          >
+            Delete for everyone
+          </Button>
+        )}
+        <Button disabled={isLoading} danger onClick={() => onDelete('me')}>
+          Delete for me
+        </Button>
+        <Button disabled={isLoading} secondary onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default DeleteMessageModal;
@@ -0,0 +1,92 @@
+/**
+ * Edit History Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the modal that lists every version of an edited message
+ * in our Next.js 14 real-time messaging application. It is opened from the
+ * "edited" marker rendered by MessageBox.
+ *
+ * Key Features:
+ * - Current version highlighted at the top
+ * - Previous versions from Message.editHistory, newest first
+ * - Timestamps for when each version was written
+ *
+ * @fileoverview Edit history modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Modal from '@/app/components/Modal';
+import { FullMessageType } from '@/app/types';
+import { format } from 'date-fns';
+
+/**
+ * Edit History Modal Props Interface
+ *
+ * @interface EditHistoryModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {FullMessageType} message - Edited message whose history is shown
+ */
+interface EditHistoryModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  message: FullMessageType;
+}
+
+/**
+ * Edit History Modal Component
+ *
+ * editHistory is stored oldest-first, so it is reversed for display to keep
+ * the most relevant versions closest to the current one.
+ *
+ * @param {EditHistoryModalProps} props - Component props for the history modal
+ * @returns {JSX.Element} Modal listing the message versions
+ */
+const EditHistoryModal: React.FC<EditHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  message,
+}) => {
+  const versions = [...(message.editHistory || [])].reverse();
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2
+        className="
+          text-base
+          font-semibold
+          leading-7
+          text-gray-900
+        "
+      >
+        Edit history
+      </h2>
+      <ul className="mt-4 space-y-4">
+        <li className="rounded-md bg-sky-50 px-3 py-2">
+          <div className="text-xs text-gray-500">
+            Current
+            {message.editedAt &&
+              ` · ${format(new Date(message.editedAt), 'PP p')}`}
+          </div>
+          <div className="mt-1 text-sm text-gray-900 whitespace-break-spaces break-words">
+            {message.body}
+          </div>
+        </li>
+        {versions.map((version, index) => (
+          <li key={index} className="px-3">
+            <div className="text-xs text-gray-500">
+              {format(new Date(version.createdAt), 'PP p')}
+            </div>
+            <div className="mt-1 text-sm text-gray-600 whitespace-break-spaces break-words">
+              {version.body}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Modal>
+  );
+};
+
+export default EditHistoryModal;
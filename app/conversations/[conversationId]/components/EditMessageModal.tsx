@@ -0,0 +1,185 @@
+/**
+ * Edit Message Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the modal used to edit a previously sent text message in
+ * our Next.js 14 real-time messaging application. It pre-fills the current
+ * body, submits the change to the message PATCH API route and relies on the
+ * message:update Pusher event to refresh the conversation for everyone.
+ *
+ * Key Features:
+ * - Pre-filled textarea with the current message body
+ * - React Hook Form validation matching MessageInput limits
+ * - Loading state and toast feedback for failed edits
+ * - Real-time refresh handled by Body.tsx via message:update
+ *
+ * @fileoverview Edit message modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import { FullMessageType } from '@/app/types';
+import axios from 'axios';
+import { useEffect, useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Edit Message Modal Props Interface
+ *
+ * @interface EditMessageModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {FullMessageType} message - Message being edited
+ */
+interface EditMessageModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  message: FullMessageType;
+}
+
+/**
+ * Edit Message Modal Component
+ *
+ * The form is reset to the latest body every time the modal opens so that an
+ * edit made from another device is never silently overwritten by stale text.
+ *
+ * @param {EditMessageModalProps} props - Component props for the edit modal
+ * @returns {JSX.Element} Modal with the message edit form
+ *
+ * @example
+ * ```tsx
+ * <EditMessageModal
+ *   message={data}
+ *   isOpen={editOpen}
+ *   onClose={() => setEditOpen(false)}
+ * />
+ * ```
+ */
+const EditMessageModal: React.FC<EditMessageModalProps> = ({
+  isOpen,
+  onClose,
+  message,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FieldValues>({
+    defaultValues: {
+      message: message.body || '',
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      reset({ message: message.body || '' });
+    }
+  }, [isOpen, message.body, reset]);
+
+  /**
+   * Edit Submission Handler
+   *
+   * Skips the request when nothing changed, otherwise PATCHes the message
+   * and closes the modal once the server accepts the edit.
+   */
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    if (data.message.trim() === (message.body || '').trim()) {
+      onClose();
+      return;
+    }
+
+    setIsLoading(true);
+
+    axios
+      .patch(`/api/messages/${message.conversationId}/${message.id}`, {
+        message: data.message,
+      })
+      .then(() => onClose())
+      .catch((error) => {
+        toast.error(
+          error?.response?.status === 403
+            ? 'This message can no longer be edited'
+            : 'Something went wrong!'
+        );
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <h2
+          className="
+            text-base
+            font-semibold
+            leading-7
+            text-gray-900
+          "
+        >
+          Edit message
+        </h2>
+        <div className="mt-4">
+          <textarea
+            id="message"
+            disabled={isLoading}
+            {...register('message', {
+              required: true,
+              validate: (value: string) => value.trim().length > 0,
+            })}
+            maxLength={4096}
+            rows={4}
+            className={`
+              form-textarea
+              block
+              w-full
+              rounded-md
+              border-0
+              py-1.5
+              text-gray-900
+              shadow-sm
+              ring-1
+              ring-inset
+              resize-none
+              focus:ring-2
+              focus:ring-inset
+              focus:ring-sky-600
+              sm:text-sm
+              sm:leading-6
+              ${errors.message ? 'ring-rose-500' : 'ring-gray-300'}
+            `}
+          />
+        </div>
+        <div
+          className="
+            mt-6
+            flex
+            items-center
+            justify-end
+            gap-x-6
+          "
+        >
+          <Button
+            type="button"
+            disabled={isLoading}
+            secondary
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default EditMessageModal;
@@ -13,6 +13,9 @@
  * - Form validation and error handling
  * - API integration for message sending
  * - Responsive layout with mobile and desktop optimization
+ * - Scheduling a message for later, with the pending ones listed for editing
+ * - Per-conversation drafts restored when the conversation is reopened
+ * - Optimistic sending through the outbox, which retries failed sends
  *
  * Message Composition Features:
  * - Text message input with MessageInput component
@@ -37,10 +40,32 @@
 import useConversation from '@/app/hooks/useConversation';
 import axios from 'axios';
 import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
-import { HiPaperAirplane, HiPhoto } from 'react-icons/hi2';
+import { HiClock, HiPaperAirplane, HiPhoto, HiXMark } from 'react-icons/hi2';
 import MessageInput, { MessageInputRef } from './MessageInput';
+import MessageQuote from './MessageQuote';
+import ScheduledMessagesModal from './ScheduledMessagesModal';
 import { CldUploadButton } from 'next-cloudinary';
-import { useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { FullMessageType } from '@/app/types';
+import useScheduledMessages from '@/app/hooks/useScheduledMessages';
+import useDraft from '@/app/hooks/useDraft';
+import useOutbox from '@/app/hooks/useOutbox';
+import { defaultSendAt } from '@/app/libs/scheduleTime';
+import { createOutboxId } from '@/app/libs/outbox';
+import toast from 'react-hot-toast';
+import clsx from 'clsx';
+
+/**
+ * Form Component Props Interface
+ *
+ * @interface FormProps
+ * @property {FullMessageType | null} [replyTo] - Message the next message replies to
+ * @property {() => void} [onCancelReply] - Clears the pending reply
+ */
+interface FormProps {
+  replyTo?: FullMessageType | null;
+  onCancelReply?: () => void;
+}
 
 /**
  * Message Form Component
@@ -93,6 +118,9 @@ import { useRef } from 'react';
  * both text and image messages while maintaining proper form validation
  * and user experience throughout our real-time messaging platform.
  *
+ * @param {FormProps} props - Component props for the pending reply
+ * @param {FullMessageType | null} [props.replyTo] - Message the next message replies to
+ * @param {() => void} [props.onCancelReply] - Clears the pending reply
  * @returns {JSX.Element} Message form with text input, image upload, and send button
  *
  * @example
@@ -100,12 +128,15 @@ import { useRef } from 'react';
  * // In conversation page component
  * <Form />
  *
+ * // With a pending quoted reply
+ * <Form replyTo={replyTo} onCancelReply={() => setReplyTo(null)} />
+ *
  * // Integrates with Header and Body components
  * // Provides message composition functionality
  * // Handles both text and image message creation
  * ```
  */
-const Form = () => {
+const Form: React.FC<FormProps> = ({ replyTo, onCancelReply }) => {
   /**
    * Conversation ID Integration
    *
@@ -185,8 +216,10 @@ const Form = () => {
    * Form Configuration Features:
    * - register: Field registration for form inputs
    * - handleSubmit: Form submission with validation
-   * - setValue: Programmatic form value setting
+   * - resetField: Sets the message and marks it untouched, for drafts and
+   *   clearing after a send
    * - errors: Form validation error state
+   * - dirtyFields: Whether the user has edited the message since then
    * - watch: Form value watching for real-time updates
    * - defaultValues: Initial form values for message field
    *
@@ -197,8 +230,8 @@ const Form = () => {
   const {
     register,
     handleSubmit,
-    setValue,
-    formState: { errors },
+    resetField,
+    formState: { errors, dirtyFields },
     watch,
   } = useForm<FieldValues>({
     defaultValues: {
@@ -233,6 +266,125 @@ const Form = () => {
    */
   const watchedMessage = watch('message');
 
+  /**
+   * Conversation Draft
+   *
+   * Whatever the user typed in a conversation is put back when they return
+   * to it, including after a reload or on another device. Edits are saved
+   * through MessageInput's onContentChange, so text set by the form itself,
+   * such as this restore, is not saved again.
+   *
+   * The drafts store can fill in after the form mounts (the session loads
+   * first) and changes when a draft:update arrives from another device, so
+   * later copies are applied too, as long as the user has not started
+   * editing the field.
+   */
+  const { draft, getDraft, saveDraft, clearDraft } = useDraft(conversationId);
+  const isMessageDirty = Boolean(dirtyFields.message);
+
+  useEffect(() => {
+    resetField('message', { defaultValue: getDraft() });
+  }, [getDraft, resetField]);
+
+  useEffect(() => {
+    if (!isMessageDirty) {
+      resetField('message', { defaultValue: draft });
+    }
+  }, [draft, isMessageDirty, resetField]);
+
+  /**
+   * Scheduling State
+   *
+   * sendAt holds the datetime-local value while the clock button is on and
+   * is null otherwise; the next message or image is then scheduled instead
+   * of sent. The user's pending messages come from useScheduledMessages.
+   */
+  const [sendAt, setSendAt] = useState<string | null>(null);
+  const [scheduledOpen, setScheduledOpen] = useState(false);
+  const scheduledMessages = useScheduledMessages(conversationId);
+
+  useEffect(() => {
+    setSendAt(null);
+  }, [conversationId]);
+
+  /**
+   * Schedule Message
+   *
+   * Unlike an immediate send, the request has to succeed before the input
+   * is cleared: a rejected send time should not cost the user their text.
+   * An empty or unreadable send time is reported without a request.
+   *
+   * @param {Object} content - Text or image to schedule
+   * @param {() => void} [onScheduled] - Runs once the message is scheduled
+   */
+  const scheduleMessage = (
+    content: { message?: string; image?: string },
+    onScheduled?: () => void
+  ) => {
+    const sendAtDate = new Date(sendAt ?? '');
+
+    if (Number.isNaN(sendAtDate.getTime())) {
+      toast.error('Pick a date and time to send at');
+      return;
+    }
+
+    axios
+      .post(`/api/conversations/${conversationId}/scheduled`, {
+        ...content,
+        sendAt: sendAtDate.toISOString(),
+        replyToId: replyTo?.id,
+      })
+      .then(() => {
+        toast.success('Message scheduled');
+        setSendAt(null);
+        onCancelReply?.();
+        onScheduled?.();
+      })
+      .catch((error) => {
+        toast.error(
+          error?.response?.status === 400
+            ? 'Pick a time in the future'
+            : 'Something went wrong!'
+        );
+      });
+  };
+
+  /**
+   * Reply Focus
+   *
+   * Choosing "Reply" on a message moves focus to the input so the user can
+   * start typing the reply straight away.
+   */
+  useEffect(() => {
+    if (replyTo) {
+      messageInputRef.current?.focus();
+    }
+  }, [replyTo]);
+
+  /**
+   * Queue Message
+   *
+   * Adds the message to the outbox, from where it appears in the timeline
+   * straight away and is sent, and if need be retried, by OutboxStatus.
+   *
+   * @param {Object} content - Text or image to send
+   */
+  const addToOutbox = useOutbox((state) => state.add);
+
+  const queueMessage = (content: { body?: string; image?: string }) => {
+    addToOutbox({
+      id: createOutboxId(),
+      conversationId,
+      body: content.body ?? null,
+      image: content.image ?? null,
+      replyTo: replyTo ?? null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+    });
+  };
+
   /**
    * Form Submission Handler
    *
@@ -241,8 +393,9 @@ const Form = () => {
    * complete message submission functionality with proper cleanup.
    *
    * What this handler does:
-   * - Sends message data to /api/messages endpoint
+   * - Queues the message in the outbox, which sends it to /api/messages
    * - Includes conversation ID for message routing
+   * - Includes the pending reply target, then clears it
    * - Resets form after successful submission
    * - Resets textarea height for clean UI
    * - Provides message sending functionality
@@ -255,10 +408,10 @@ const Form = () => {
    * - Real-time updates: Enables message delivery and updates
    *
    * Submission Logic:
-   * - API call: POST to /api/messages with message data and conversation ID
-   * - Form reset: setValue("message", "") to clear form field
+   * - Outbox: queueMessage shows the message at once and hands it to OutboxStatus
+   * - Form reset: resetField("message") clears the field, its error and its
+   *   dirty state, so a draft from another device can be restored again
    * - Textarea reset: messageInputRef.current?.resetTextareaHeight() for UI cleanup
-   * - Validation: shouldValidate: true for form validation
    * - Error handling: Built-in error handling from React Hook Form
    *
    * This form submission handler is essential for our messaging app because
@@ -266,11 +419,19 @@ const Form = () => {
    * create and send messages throughout the messaging interface.
    */
   const onSubmit: SubmitHandler<FieldValues> = (data) => {
-    axios.post('/api/messages', {
-      ...data,
-      conversationId,
-    });
-    setValue('message', '', { shouldValidate: true });
+    if (sendAt !== null) {
+      scheduleMessage({ message: data.message }, () => {
+        clearDraft();
+        resetField('message', { defaultValue: '' });
+        messageInputRef.current?.resetTextareaHeight();
+      });
+      return;
+    }
+
+    queueMessage({ body: data.message });
+    onCancelReply?.();
+    clearDraft();
+    resetField('message', { defaultValue: '' });
     messageInputRef.current?.resetTextareaHeight();
   };
 
@@ -284,7 +445,7 @@ const Form = () => {
    * What this handler does:
    * - Processes Cloudinary upload result
    * - Extracts secure URL from upload result
-   * - Sends image message to /api/messages endpoint
+   * - Queues the image message in the outbox
    * - Includes conversation ID for message routing
    * - Provides image message creation functionality
    *
@@ -298,7 +459,7 @@ const Form = () => {
    * Upload Logic:
    * - Cloudinary result: Processes upload result from CldUploadButton
    * - Secure URL: Extracts result?.info?.secure_url for image URL
-   * - API call: POST to /api/messages with image URL and conversation ID
+   * - Outbox: queueMessage sends the image URL like a text message
    * - Message creation: Creates image message in conversation
    * - Real-time updates: Enables image message display in conversation
    *
@@ -307,36 +468,105 @@ const Form = () => {
    * share and send images throughout the messaging interface.
    */
   const handleUpload = (result: any) => {
-    axios.post('/api/messages', {
-      image: result?.info?.secure_url,
-      conversationId,
-    });
+    if (sendAt !== null) {
+      scheduleMessage({ image: result?.info?.secure_url });
+      return;
+    }
+
+    queueMessage({ image: result?.info?.secure_url });
+    onCancelReply?.();
   };
 
   return (
-    <div
-      className="
-        py-4
-        px-4
-        bg-white
-        border-t
-        flex
-        items-center
-        gap-2
-        lg:gap-4
-        w-full
-      "
-    >
-      <CldUploadButton
-        options={{ maxFiles: 1 }}
-        onUpload={handleUpload}
-        uploadPreset={process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET}
-      >
-        <HiPhoto size={30} className="text-sky-500" />
-      </CldUploadButton>
-      <form
-        onSubmit={handleSubmit(onSubmit)}
+    <div className="bg-white border-t w-full">
+      {replyTo && (
+        <div className="flex items-center gap-2 px-4 pt-3">
+          <div className="flex-1 min-w-0 bg-gray-100 rounded-md">
+            <MessageQuote message={replyTo} />
+          </div>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+            className="
+              rounded-full
+              p-1
+              text-gray-500
+              hover:bg-gray-100
+              hover:text-gray-700
+              transition
+            "
+          >
+            <HiXMark size={20} />
+          </button>
+        </div>
+      )}
+      {(sendAt !== null || scheduledMessages.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 px-4 pt-3 text-sm">
+          {sendAt !== null && (
+            <label className="flex items-center gap-2 text-gray-700">
+              <HiClock size={18} className="text-sky-500" />
+              Send at
+              <input
+                type="datetime-local"
+                value={sendAt}
+                onChange={(event) => setSendAt(event.target.value)}
+                className="
+                  form-input
+                  rounded-md
+                  border-0
+                  py-1
+                  text-sm
+                  text-gray-900
+                  ring-1
+                  ring-inset
+                  ring-gray-300
+                  focus:ring-2
+                  focus:ring-inset
+                  focus:ring-sky-600
+                "
+              />
+            </label>
+          )}
+          {scheduledMessages.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setScheduledOpen(true)}
+              className="ml-auto font-semibold text-sky-600 hover:text-sky-700"
+            >
+              {scheduledMessages.length === 1
+                ? '1 scheduled message'
+                : `${scheduledMessages.length} scheduled messages`}
+            </button>
+          )}
+        </div>
+      )}
+      <ScheduledMessagesModal
+        scheduledMessages={scheduledMessages}
+        isOpen={scheduledOpen}
+        onClose={() => setScheduledOpen(false)}
+      />
+      <div
         className="
+          py-4
+          px-4
+          flex
+          items-center
+          gap-2
+          lg:gap-4
+          w-full
+        "
+      >
+        <CldUploadButton
+          options={{ maxFiles: 1 }}
+          onUpload={handleUpload}
+          uploadPreset={process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET}
+        >
+          <HiPhoto size={30} className="text-sky-500" />
+        </CldUploadButton>
+        <form
+          onSubmit={handleSubmit(onSubmit)}
+          className="
           flex
           items-center 
           gap-2 
@@ -344,20 +574,34 @@ const Form = () => {
           w-full
           max-h-32
         "
-      >
-        <MessageInput
-          id="message"
-          register={register}
-          errors={errors}
-          required
-          placeholder="Write a message"
-          onEnterPress={handleSubmit(onSubmit)}
-          watchedMessage={watchedMessage}
-          ref={messageInputRef}
-        />
-        <button
-          type="submit"
-          className="
+        >
+          <MessageInput
+            id="message"
+            register={register}
+            errors={errors}
+            required
+            placeholder="Write a message"
+            onEnterPress={handleSubmit(onSubmit)}
+            watchedMessage={watchedMessage}
+            onContentChange={saveDraft}
+            ref={messageInputRef}
+          />
+          <button
+            type="button"
+            onClick={() => setSendAt(sendAt === null ? defaultSendAt() : null)}
+            aria-label={sendAt === null ? 'Schedule message' : 'Send now'}
+            className={clsx(
+              'rounded-full p-2 transition',
+              sendAt === null
+                ? 'text-gray-400 hover:text-sky-500'
+                : 'bg-sky-100 text-sky-600'
+            )}
+          >
+            <HiClock size={20} />
+          </button>
+          <button
+            type="submit"
+            className="
             rounded-full
             p-2
             bg-sky-500
@@ -365,10 +609,11 @@ const Form = () => {
             hover:bg-sky-600
             transition
           "
-        >
-          <HiPaperAirplane size={18} className="text-white" />
-        </button>
-      </form>
+          >
+            <HiPaperAirplane size={18} className="text-white" />
+          </button>
+        </form>
+      </div>
     </div>
   );
 };
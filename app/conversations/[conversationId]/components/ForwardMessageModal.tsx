@@ -0,0 +1,199 @@
+/**
+ * Forward Message Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the ForwardMessageModal component for our Next.js 14
+ * real-time messaging application. Opened from the MessageMenu, it lets the
+ * user pick one or more of their other conversations and sends a copy of
+ * the message to each, marked as forwarded.
+ *
+ * Key Features:
+ * - Conversation picker built on the shared Select input
+ * - Conversations loaded from GET /api/conversations when the modal opens
+ * - One POST /api/messages per target, carrying forwardedFromId
+ *
+ * @fileoverview Forward message modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import Select from '@/app/components/inputs/Select';
+import { FullConversationType, FullMessageType } from '@/app/types';
+import axios from 'axios';
+import { useSession } from 'next-auth/react';
+import { useEffect, useMemo, useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Forward Message Modal Props Interface
+ *
+ * @interface ForwardMessageModalProps
+ * @property {FullMessageType} message - Message to forward
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ */
+interface ForwardMessageModalProps {
+  message: FullMessageType;
+  isOpen?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Forward Message Modal Component
+ *
+ * @param {ForwardMessageModalProps} props - Component props
+ * @returns {JSX.Element} Modal with the conversation picker
+ *
+ * @example
+ * ```tsx
+ * <ForwardMessageModal
+ *   message={data}
+ *   isOpen={forwardModalOpen}
+ *   onClose={() => setForwardModalOpen(false)}
+ * />
+ * ```
+ */
+const ForwardMessageModal: React.FC<ForwardMessageModalProps> = ({
+  message,
+  isOpen,
+  onClose,
+}) => {
+  const session = useSession();
+  const [conversations, setConversations] = useState<FullConversationType[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { handleSubmit, setValue, watch, reset } = useForm<FieldValues>({
+    defaultValues: {
+      targets: [],
+    },
+  });
+
+  const targets = watch('targets');
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    reset({ targets: [] });
+
+    axios
+      .get<FullConversationType[]>('/api/conversations')
+      .then((response) => setConversations(response.data))
+      .catch(() => toast.error('Something went wrong!'));
+  }, [isOpen, reset]);
+
+  /**
+   * Conversation Options
+   *
+   * Every conversation except the one the message comes from, named the
+   * way the conversation list names them.
+   */
+  const options = useMemo(
+    () =>
+      conversations
+        .filter((conversation) => conversation.id !== message.conversationId)
+        .map((conversation) => ({
+          value: conversation.id,
+          label:
+            conversation.name ||
+            conversation.users.find(
+              (user) => user.email !== session.data?.user?.email
+            )?.name ||
+            'Conversation',
+        })),
+    [conversations, message.conversationId, session.data?.user?.email]
+  );
+
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    if (!data.targets?.length) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    Promise.all(
+      data.targets.map((target: { value: string }) =>
+        axios.post('/api/messages', {
+          conversationId: target.value,
+          forwardedFromId: message.id,
+        })
+      )
+    )
+      .then(() => {
+        toast.success('Message forwarded');
+        onClose();
+      })
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setIsLoading(false));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-12">
+          <div className="border-b border-gray-900/10 pb-12">
+            <h2
+              className="
+                text-base
+                font-semibold
+                leading-7
+                text-gray-900
+              "
+            >
+              Forward message
+            </h2>
+            <p
+              className="
+                mt-1
+                text-sm
+                leading-6
+                text-gray-600
+              "
+            >
+              A copy is sent to each conversation, marked as forwarded.
+            </p>
+            <div className="mt-10">
+              <Select
+                disabled={isLoading}
+                label="Send to"
+                options={options}
+                onChange={(value) => setValue('targets', value)}
+                value={targets}
+              />
+            </div>
+          </div>
+        </div>
+        <div
+          className="
+            mt-6
+            flex
+            items-center
+            justify-end
+            gap-x-6
+          "
+        >
+          <Button
+            type="button"
+            disabled={isLoading}
+            secondary
+            onClick={() => onClose()}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading || !targets?.length}>
+            Forward
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ForwardMessageModal;
@@ -0,0 +1,322 @@
+/**
+ * Group Settings Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the GroupSettingsModal component for our Next.js 14
+ * real-time messaging application. Opened from the ProfileDrawer by the
+ * owner or an admin of a group, it edits the group's name, photo and
+ * description, which were previously fixed when GroupChatModal created it.
+ *
+ * Key Features:
+ * - Name input with the same validation as the profile name
+ * - Group photo through the Cloudinary upload flow of SettingsModal
+ * - Free-text description with a length limit
+ * - PATCH /api/conversations/[conversationId] on submit
+ * - Drawer and header refreshed through the conversation:update that follows
+ *
+ * @fileoverview Group settings modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import Input from '@/app/components/inputs/Input';
+import { GROUP_DESCRIPTION_MAX_LENGTH } from '@/app/libs/groupSettings';
+import { Conversation } from '@prisma/client';
+import axios from 'axios';
+import clsx from 'clsx';
+import { CldUploadButton } from 'next-cloudinary';
+import Image from 'next/image';
+import { useEffect, useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Group Settings Modal Props Interface
+ *
+ * @interface GroupSettingsModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {Conversation} conversation - Group whose settings are edited
+ */
+interface GroupSettingsModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  conversation: Conversation;
+}
+
+/**
+ * Group Settings Modal Component
+ *
+ * @param {GroupSettingsModalProps} props - Component props
+ * @returns {JSX.Element} Modal with the group settings form
+ *
+ * @example
+ * ```tsx
+ * <GroupSettingsModal
+ *   isOpen={settingsOpen}
+ *   onClose={() => setSettingsOpen(false)}
+ *   conversation={data}
+ * />
+ * ```
+ */
+const GroupSettingsModal: React.FC<GroupSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  conversation,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<FieldValues>({
+    defaultValues: {
+      name: conversation.name,
+      image: conversation.image,
+      description: conversation.description ?? '',
+    },
+  });
+
+  const image = watch('image');
+
+  /**
+   * Form Reset
+   *
+   * Another admin may have changed the settings since the last opening, so
+   * the form starts from the current values every time.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      reset({
+        name: conversation.name,
+        image: conversation.image,
+        description: conversation.description ?? '',
+      });
+    }
+  }, [
+    isOpen,
+    reset,
+    conversation.name,
+    conversation.image,
+    conversation.description,
+  ]);
+
+  const handleUpload = (result: any) => {
+    setValue('image', result?.info?.secure_url, {
+      shouldValidate: true,
+    });
+  };
+
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    setIsLoading(true);
+
+    axios
+      .patch(`/api/conversations/${conversation.id}`, {
+        name: data.name,
+        image: data.image || null,
+        description: data.description,
+      })
+      .then(() => onClose())
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setIsLoading(false));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-12">
+          <div className="border-b border-gray-900/10 pb-12">
+            <h2
+              className="
+                text-base
+                font-semibold
+                leading-7
+                text-gray-900
+              "
+            >
+              Group settings
+            </h2>
+            <p
+              className="
+                mt-1
+                text-sm
+                leading-6
+                text-gray-600
+              "
+            >
+              Changes are visible to everyone in the group.
+            </p>
+            <div
+              className="
+                mt-10
+                flex
+                flex-col
+                gap-y-8
+              "
+            >
+              <Input
+                disabled={isLoading}
+                label="Name"
+                id="name"
+                errors={errors}
+                required
+                register={register}
+              />
+              <div>
+                <label
+                  className="
+                    block
+                    text-sm
+                    font-medium
+                    leading-6
+                    text-gray-900
+                  "
+                >
+                  Photo
+                </label>
+                <div
+                  className="
+                    mt-2
+                    flex
+                    items-center
+                    gap-x-3
+                  "
+                  style={{
+                    pointerEvents: isLoading ? 'none' : 'auto',
+                  }}
+                >
+                  <Image
+                    width="48"
+                    height="48"
+                    className="rounded-full"
+                    src={image || '/images/placeholder.jpg'}
+                    alt="Group photo"
+                  />
+                  <CldUploadButton
+                    options={{ maxFiles: 1 }}
+                    onUpload={handleUpload}
+                    uploadPreset={
+                      process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET
+                    }
+                  >
+                    <div
+                      className={clsx(
+                        `
+                        flex
+                        justify-center
+                        px-3
+                        py-2
+                        text-sm
+                        font-semibold
+                        focus-visible:outline
+                        focus-visible:outline-2
+                        focus-visible:outline-offset-2`,
+                        isLoading
+                          ? 'opacity-50 cursor-default'
+                          : 'opacity-100 cursor-pointer'
+                      )}
+                    >
+                      Change
+                    </div>
+                  </CldUploadButton>
+                  {image && (
+                    <button
+                      type="button"
+                      disabled={isLoading}
+                      onClick={() => setValue('image', null)}
+                      className="
+                        px-3
+                        py-2
+                        text-sm
+                        font-semibold
+                        text-rose-500
+                        hover:text-rose-600
+                      "
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label
+                  htmlFor="description"
+                  className="
+                    block
+                    text-sm
+                    font-medium
+                    leading-6
+                    text-gray-900
+                  "
+                >
+                  Description
+                </label>
+                <div className="mt-2">
+                  <textarea
+                    id="description"
+                    rows={3}
+                    disabled={isLoading}
+                    maxLength={GROUP_DESCRIPTION_MAX_LENGTH}
+                    {...register('description')}
+                    className={clsx(
+                      `
+                      form-input
+                      block
+                      w-full
+                      resize-none
+                      rounded-md
+                      border-0
+                      py-1.5
+                      text-gray-900
+                      shadow-sm
+                      ring-1
+                      ring-inset
+                      ring-gray-300
+                      placeholder:text-gray-400
+                      focus:ring-2
+                      focus:ring-inset
+                      focus:ring-sky-600
+                      sm:text-sm
+                      sm:leading-6`,
+                      isLoading && 'opacity-50 cursor-default'
+                    )}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div
+          className="
+            mt-6
+            flex
+            items-center
+            justify-end
+            gap-x-6
+          "
+        >
+          <Button
+            type="button"
+            disabled={isLoading}
+            secondary
+            onClick={() => onClose()}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default GroupSettingsModal;
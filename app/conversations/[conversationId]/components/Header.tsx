@@ -50,9 +50,12 @@ import {
 import { HiChevronLeft, HiEllipsisHorizontal } from 'react-icons/hi2';
 import ProfileDrawer from './ProfileDrawer';
 import useActiveList from '@/app/hooks/useActiveList';
+import useLastSeen from '@/app/hooks/useLastSeen';
+import useUserStatus from '@/app/hooks/useUserStatus';
+import { AVAILABILITY_LABELS } from '@/app/libs/userStatus';
 import Search from './Search';
 import clsx from 'clsx';
-import { FullMessageType } from '@/app/types';
+import { ConversationSearchState, FullMessageType } from '@/app/types';
 
 /**
  * Header Component Props Interface
@@ -64,6 +67,10 @@ import { FullMessageType } from '@/app/types';
  * @property {Conversation & { users: User[] }} conversation - Conversation data with user participants
  * @property {FullMessageType[]} messages - Array of messages for search functionality
  * @property {Dispatch<SetStateAction<string>>} setSearchTargetId - Function to set search target message ID
+ * @property {(search: ConversationSearchState) => void} onSearchChange - Reports the in-conversation search terms and current result
+ * @property {FullMessageType[]} pinnedMessages - Pins listed in the profile drawer
+ * @property {boolean} canPin - Whether the current user may unpin messages
+ * @property {(messageId: string) => void} onJumpToMessage - Scrolls the timeline to a pinned message
  */
 interface HeaderProps {
   conversation: Conversation & {
@@ -71,6 +78,10 @@ interface HeaderProps {
   };
   messages: FullMessageType[];
   setSearchTargetId: Dispatch<SetStateAction<string>>;
+  onSearchChange: (search: ConversationSearchState) => void;
+  pinnedMessages: FullMessageType[];
+  canPin: boolean;
+  onJumpToMessage: (messageId: string) => void;
 }
 
 /**
@@ -130,6 +141,7 @@ interface HeaderProps {
  * @param {Conversation & { users: User[] }} props.conversation - Conversation data with user participants
  * @param {FullMessageType[]} props.messages - Array of messages for search functionality
  * @param {Dispatch<SetStateAction<string>>} props.setSearchTargetId - Function to set search target message ID
+ * @param {(search: ConversationSearchState) => void} props.onSearchChange - Reports the in-conversation search terms and current result
  * @returns {JSX.Element} Conversation header with metadata, search, and profile access
  *
  * @example
@@ -139,6 +151,7 @@ interface HeaderProps {
  *   conversation={conversation}
  *   messages={messages}
  *   setSearchTargetId={setSearchTargetId}
+ *   onSearchChange={setConversationSearch}
  * />
  *
  * // With conversation data from getConversationById action
@@ -149,6 +162,10 @@ const Header: React.FC<HeaderProps> = ({
   conversation,
   messages,
   setSearchTargetId,
+  onSearchChange,
+  pinnedMessages,
+  canPin,
+  onJumpToMessage,
 }) => {
   /**
    * Other User Identification
@@ -258,6 +275,8 @@ const Header: React.FC<HeaderProps> = ({
    */
   const { members } = useActiveList();
   const isActive = members.indexOf(otherUser?.email!) !== -1;
+  const lastSeenText = useLastSeen(otherUser);
+  const { availability, customStatus } = useUserStatus(otherUser);
 
   /**
    * Status Text Generation
@@ -284,6 +303,9 @@ const Header: React.FC<HeaderProps> = ({
    * Status Text Logic:
    * - Group conversations: Shows member count for group identification
    * - Direct conversations: Shows "Active" or "Offline" based on real-time presence
+   * - Offline users: "Last seen 10 minutes ago" instead, unless they hide it
+   * - Availability: "Busy", "Away"… instead of "Active" for online users
+   * - Custom status: Appended after the presence, e.g. "Active · 🌴 On vacation"
    * - Real-time updates: Status updates automatically when presence changes
    * - User experience: Clear indication of conversation participants and status
    *
@@ -296,8 +318,12 @@ const Header: React.FC<HeaderProps> = ({
       return `${conversation.users.length} members`;
     }
 
-    return isActive ? 'Active' : 'Offline';
-  }, [conversation, isActive]);
+    const presenceText = isActive
+      ? AVAILABILITY_LABELS[availability]
+      : (lastSeenText ?? 'Offline');
+
+    return customStatus ? `${presenceText} · ${customStatus}` : presenceText;
+  }, [conversation, isActive, lastSeenText, availability, customStatus]);
 
   /**
    * Search Toggle Handler
@@ -341,6 +367,9 @@ const Header: React.FC<HeaderProps> = ({
         data={conversation}
         isOpen={drawerOpen}
         onClose={() => setDrawerOpen(false)}
+        pinnedMessages={pinnedMessages}
+        canPin={canPin}
+        onJumpToMessage={onJumpToMessage}
       />
       <div
         className="
@@ -373,7 +402,10 @@ const Header: React.FC<HeaderProps> = ({
             <HiChevronLeft size={32} />
           </Link>
           {conversation.isGroup ? (
-            <AvatarGroup users={conversation.users} />
+            <AvatarGroup
+              users={conversation.users}
+              image={conversation.image}
+            />
           ) : (
             <Avatar user={otherUser} />
           )}
@@ -408,6 +440,7 @@ const Header: React.FC<HeaderProps> = ({
             onClose={() => setSearchBarOpen(false)}
             messages={messages}
             setSearchTargetId={setSearchTargetId}
+            onSearchChange={onSearchChange}
           />
           <HiEllipsisHorizontal
             size={32}
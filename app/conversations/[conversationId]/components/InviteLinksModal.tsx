@@ -0,0 +1,300 @@
+/**
+ * Invite Links Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the InviteLinksModal component for our Next.js 14
+ * real-time messaging application. Opened from the ProfileDrawer by the
+ * owner or an admin of a group, it creates shareable invite links and lists
+ * the group's existing ones, so they can be copied again or revoked.
+ *
+ * Key Features:
+ * - Expiry and usage limit picked from presets through the shared Select
+ * - Copy to clipboard for active links
+ * - Status, usage and expiry of every link, newest first
+ * - Revocation through DELETE /api/conversations/[conversationId]/invites/[inviteId]
+ *
+ * @fileoverview Invite links modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import Select from '@/app/components/inputs/Select';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  INVITE_STATUS_LABELS,
+  getInviteStatus,
+  getInviteUrl,
+} from '@/app/libs/inviteLinks';
+import { InviteLinkWithCreator } from '@/app/types';
+import axios from 'axios';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Invite Links Modal Props Interface
+ *
+ * @interface InviteLinksModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {string} conversationId - Group the links belong to
+ */
+interface InviteLinksModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  conversationId: string;
+}
+
+/**
+ * Invite Links Modal Component
+ *
+ * @param {InviteLinksModalProps} props - Component props
+ * @returns {JSX.Element} Modal with the link form and list
+ *
+ * @example
+ * ```tsx
+ * <InviteLinksModal
+ *   isOpen={invitesOpen}
+ *   onClose={() => setInvitesOpen(false)}
+ *   conversationId={data.id}
+ * />
+ * ```
+ */
+const InviteLinksModal: React.FC<InviteLinksModalProps> = ({
+  isOpen,
+  onClose,
+  conversationId,
+}) => {
+  const [inviteLinks, setInviteLinks] = useState<InviteLinkWithCreator[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { handleSubmit, setValue, watch } = useForm<FieldValues>({
+    defaultValues: {
+      expiresIn: INVITE_EXPIRY_OPTIONS[3],
+      maxUses: INVITE_MAX_USES_OPTIONS[0],
+    },
+  });
+
+  const expiresIn = watch('expiresIn');
+  const maxUses = watch('maxUses');
+
+  /**
+   * Link List
+   *
+   * Fetched on every opening, since other admins may have created or
+   * revoked links in the meantime.
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    axios
+      .get<InviteLinkWithCreator[]>(
+        `/api/conversations/${conversationId}/invites`
+      )
+      .then((response) => setInviteLinks(response.data))
+      .catch(() => toast.error('Something went wrong!'));
+  }, [isOpen, conversationId]);
+
+  const copyLink = (token: string) => {
+    navigator.clipboard
+      .writeText(getInviteUrl(token, window.location.origin))
+      .then(() => toast.success('Link copied'))
+      .catch(() => toast.error('Something went wrong!'));
+  };
+
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    setIsLoading(true);
+
+    axios
+      .post<InviteLinkWithCreator>(
+        `/api/conversations/${conversationId}/invites`,
+        {
+          expiresIn: data.expiresIn?.value,
+          maxUses: data.maxUses?.value,
+        }
+      )
+      .then((response) => {
+        setInviteLinks((current) => [response.data, ...current]);
+        copyLink(response.data.token);
+      })
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setIsLoading(false));
+  };
+
+  const revokeLink = (inviteId: string) => {
+    axios
+      .delete<InviteLinkWithCreator>(
+        `/api/conversations/${conversationId}/invites/${inviteId}`
+      )
+      .then((response) =>
+        setInviteLinks((current) =>
+          current.map((inviteLink) =>
+            inviteLink.id === inviteId ? response.data : inviteLink
+          )
+        )
+      )
+      .catch(() => toast.error('Something went wrong!'));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-12">
+          <div className="border-b border-gray-900/10 pb-12">
+            <h2
+              className="
+                text-base
+                font-semibold
+                leading-7
+                text-gray-900
+              "
+            >
+              Invite links
+            </h2>
+            <p
+              className="
+                mt-1
+                text-sm
+                leading-6
+                text-gray-600
+              "
+            >
+              Anyone with an active link can join the group after signing in.
+            </p>
+            <div
+              className="
+                mt-10
+                flex
+                flex-col
+                gap-y-8
+              "
+            >
+              <Select
+                disabled={isLoading}
+                label="Expires after"
+                isMulti={false}
+                options={INVITE_EXPIRY_OPTIONS}
+                onChange={(value) => setValue('expiresIn', value)}
+                value={expiresIn}
+              />
+              <Select
+                disabled={isLoading}
+                label="Maximum uses"
+                isMulti={false}
+                options={INVITE_MAX_USES_OPTIONS}
+                onChange={(value) => setValue('maxUses', value)}
+                value={maxUses}
+              />
+            </div>
+            <div className="mt-6 flex justify-end">
+              <Button type="submit" disabled={isLoading}>
+                Create link
+              </Button>
+            </div>
+            {inviteLinks.length > 0 && (
+              <ul className="mt-8 divide-y divide-gray-100">
+                {inviteLinks.map((inviteLink) => {
+                  const status = getInviteStatus(inviteLink);
+                  const isActive = status === 'ACTIVE';
+
+                  return (
+                    <li
+                      key={inviteLink.id}
+                      className="
+                        flex
+                        items-center
+                        justify-between
+                        gap-3
+                        py-3
+                        text-sm
+                      "
+                    >
+                      <div className="min-w-0">
+                        <p
+                          className={clsx(
+                            'truncate font-medium',
+                            isActive ? 'text-gray-900' : 'text-gray-400'
+                          )}
+                        >
+                          /join/{inviteLink.token}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {INVITE_STATUS_LABELS[status]} ·{' '}
+                          {inviteLink.maxUses
+                            ? `${inviteLink.useCount}/${inviteLink.maxUses} uses`
+                            : `${inviteLink.useCount} uses`}
+                          {inviteLink.expiresAt &&
+                            ` · ${isActive ? 'Expires' : 'Expiry'} ${format(
+                              new Date(inviteLink.expiresAt),
+                              'PPp'
+                            )}`}
+                          {` · by ${inviteLink.createdBy.name ?? inviteLink.createdBy.email}`}
+                        </p>
+                      </div>
+                      {isActive && (
+                        <div className="flex shrink-0 gap-3">
+                          <button
+                            type="button"
+                            onClick={() => copyLink(inviteLink.token)}
+                            className="
+                              text-xs
+                              font-semibold
+                              text-sky-500
+                              hover:text-sky-600
+                            "
+                          >
+                            Copy
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => revokeLink(inviteLink.id)}
+                            className="
+                              text-xs
+                              font-semibold
+                              text-rose-500
+                              hover:text-rose-600
+                            "
+                          >
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+        <div
+          className="
+            mt-6
+            flex
+            items-center
+            justify-end
+            gap-x-6
+          "
+        >
+          <Button
+            type="button"
+            disabled={isLoading}
+            secondary
+            onClick={() => onClose()}
+          >
+            Done
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default InviteLinksModal;
@@ -0,0 +1,156 @@
+/**
+ * Leave Group Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the LeaveGroupModal component for our Next.js 14
+ * real-time messaging application. It confirms leaving a group conversation,
+ * which unlike deleting it keeps the group going for everyone else.
+ *
+ * Key Features:
+ * - Confirmation styled like the delete ConfirmModal
+ * - DELETE /api/conversations/[conversationId]/members/[userId] for the current user
+ * - Navigation back to the conversation list once left
+ *
+ * @fileoverview Leave group modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import Modal from '@/app/components/Modal';
+import useConversation from '@/app/hooks/useConversation';
+import { Dialog } from '@headlessui/react';
+import axios from 'axios';
+import { useRouter } from 'next/navigation';
+import { useCallback, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiLogOut } from 'react-icons/fi';
+
+/**
+ * Leave Group Modal Props Interface
+ *
+ * @interface LeaveGroupModalProps
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ * @property {string} [currentUserId] - Membership to end; the button is disabled without it
+ */
+interface LeaveGroupModalProps {
+  isOpen?: boolean;
+  onClose: () => void;
+  currentUserId?: string;
+}
+
+/**
+ * Leave Group Modal Component
+ *
+ * @param {LeaveGroupModalProps} props - Component props
+ * @returns {JSX.Element} Leave confirmation modal
+ *
+ * @example
+ * ```tsx
+ * <LeaveGroupModal
+ *   isOpen={leaveOpen}
+ *   onClose={() => setLeaveOpen(false)}
+ *   currentUserId={currentMember?.id}
+ * />
+ * ```
+ */
+const LeaveGroupModal: React.FC<LeaveGroupModalProps> = ({
+  isOpen,
+  onClose,
+  currentUserId,
+}) => {
+  const router = useRouter();
+  const { conversationId } = useConversation();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const onLeave = useCallback(() => {
+    setIsLoading(true);
+
+    axios
+      .delete(`/api/conversations/${conversationId}/members/${currentUserId}`)
+      .then(() => {
+        onClose();
+        router.push('/conversations');
+        router.refresh();
+      })
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setIsLoading(false));
+  }, [conversationId, currentUserId, router, onClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="sm:flex sm:items-start">
+        <div
+          className="
+            mx-auto
+            flex
+            h-12
+            w-12
+            flex-shrink-0
+            items-center
+            justify-center
+            rounded-full
+            bg-red-100
+            sm:mx-0
+            sm:h-10
+            sm:w-10
+          "
+        >
+          <FiLogOut
+            className="
+              h-6
+              w-6
+              text-red-600
+            "
+          />
+        </div>
+        <div
+          className="
+            mt-3
+            text-center
+            sm:ml-4
+            sm:mt-0
+            sm:text-left
+          "
+        >
+          <Dialog.Title
+            as="h3"
+            className="
+              text-base
+              font-semibold
+              leading-6
+              text-gray-900
+            "
+          >
+            Leave group
+          </Dialog.Title>
+          <div className="mt-2">
+            <p className="text-sm text-gray-500">
+              You will stop receiving messages from this group. Someone in the
+              group will need to add you again to rejoin.
+            </p>
+          </div>
+        </div>
+      </div>
+      <div
+        className="
+          mt-5
+          sm:mt-4
+          sm:flex
+          sm:flex-row-reverse
+        "
+      >
+        <Button disabled={isLoading || !currentUserId} danger onClick={onLeave}>
+          Leave
+        </Button>
+        <Button disabled={isLoading} secondary onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </Modal>
+  );
+};
+
+export default LeaveGroupModal;
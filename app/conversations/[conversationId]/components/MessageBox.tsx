@@ -18,9 +18,16 @@
  * - Sender information with avatar and name display
  * - Message timestamp with formatted date/time
  * - Text and image message support
- * - Read receipt display for last message
+ * - "Seen by" under the message each reader has read up to
  * - Responsive layout with proper alignment
  * - Image modal integration for full-size viewing
+ * - Actions menu with in-window editing of own text messages
+ * - "Edited" marker that opens the message's edit history
+ * - Per-message deletion with "This message was deleted" tombstones
+ * - In-conversation search highlighting, with the selected result outlined
+ * - Pin and unpin for members allowed to, with a "Pinned" marker
+ * - Star to keep the message in the user's personal Saved list
+ * - Forwarding to other conversations, with a "Forwarded" label on copies
  *
  * This component is essential for our messaging app because it provides the
  * individual message display interface that enables users to view, interact with,
@@ -35,13 +42,37 @@
 'use client';
 
 import Avatar from '@/app/components/Avatar';
-import { FullMessageType } from '@/app/types';
+import HighlightedText from '@/app/components/HighlightedText';
+import { FullMessageType, Reader } from '@/app/types';
 import clsx from 'clsx';
 import { format } from 'date-fns';
 import { useSession } from 'next-auth/react';
 import Image from 'next/image';
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  HiArrowUturnLeft,
+  HiArrowUturnRight,
+  HiOutlineStar,
+  HiPencil,
+  HiStar,
+  HiTrash,
+} from 'react-icons/hi2';
+import { IoPin, IoPinOutline } from 'react-icons/io5';
 import ImageModal from './ImageModal';
+import MessageMenu, { MessageMenuAction } from './MessageMenu';
+import EditMessageModal from './EditMessageModal';
+import EditHistoryModal from './EditHistoryModal';
+import DeleteMessageModal from './DeleteMessageModal';
+import ForwardMessageModal from './ForwardMessageModal';
+import MessageQuote from './MessageQuote';
+import ReactionBar from './ReactionBar';
+import ReactionPicker from './ReactionPicker';
+import { isWithinEditWindow } from '@/app/libs/messageEditing';
+import { summarizeReactions } from '@/app/libs/reactions';
+import useSavedMessages from '@/app/hooks/useSavedMessages';
+import { SavedUpdate } from '@/app/types';
+import axios from 'axios';
+import toast from 'react-hot-toast';
 
 /**
  * Message Box Props Interface
@@ -51,11 +82,23 @@ import ImageModal from './ImageModal';
  *
  * @interface MessageBoxProps
  * @property {FullMessageType} data - Complete message data with sender and read receipt information
- * @property {boolean} [isLast] - Whether this is the last message in the conversation
+ * @property {Reader[]} [seenBy] - Readers whose newest seen message is this one
+ * @property {(message: FullMessageType) => void} [onReply] - Starts a quoted reply to this message
+ * @property {(messageId: string) => void} [onQuoteClick] - Scrolls to the message quoted by this one
+ * @property {string[]} [highlightTerms] - Search terms to highlight in the body
+ * @property {boolean} [isSearchResult] - Whether this is the search result currently selected
+ * @property {boolean} [canPin] - Whether the current user may pin messages here
+ * @property {string} [currentUserId] - Signed-in user, to mark their own reactions
  */
 interface MessageBoxProps {
   data: FullMessageType;
-  isLast?: boolean;
+  seenBy?: Reader[];
+  onReply?: (message: FullMessageType) => void;
+  onQuoteClick?: (messageId: string) => void;
+  highlightTerms?: string[];
+  isSearchResult?: boolean;
+  canPin?: boolean;
+  currentUserId?: string;
 }
 
 /**
@@ -79,7 +122,7 @@ interface MessageBoxProps {
  * - Sender information with avatar and name display
  * - Message timestamp with formatted date/time
  * - Text and image message support
- * - Read receipt display for last message
+ * - "Seen by" under the message each reader has read up to
  * - Responsive layout with proper alignment
  * - Image modal integration for full-size viewing
  *
@@ -94,7 +137,7 @@ interface MessageBoxProps {
  * - Message container: Flex layout with proper spacing and alignment
  * - Avatar display: Sender avatar with conditional positioning
  * - Message body: Content area with sender info and message content
- * - Read receipts: Status display for last message from current user
+ * - Read receipts: "Seen by" on any message, own or not
  * - Image support: Next.js Image component with modal integration
  *
  * Message Types:
@@ -110,7 +153,11 @@ interface MessageBoxProps {
  *
  * @param {MessageBoxProps} props - Component props for message box configuration
  * @param {FullMessageType} props.data - Complete message data with sender and read receipt information
- * @param {boolean} [props.isLast] - Whether this is the last message in the conversation
+ * @param {Reader[]} [props.seenBy] - Readers whose newest seen message is this one
+ * @param {(message: FullMessageType) => void} [props.onReply] - Starts a quoted reply to this message
+ * @param {(messageId: string) => void} [props.onQuoteClick] - Scrolls to the message quoted by this one
+ * @param {string[]} [props.highlightTerms] - Search terms to highlight in the body
+ * @param {boolean} [props.isSearchResult] - Whether this is the search result currently selected
  * @returns {JSX.Element} Individual message box with sender info, content, and read receipts
  *
  * @example
@@ -118,14 +165,23 @@ interface MessageBoxProps {
  * // In Body component
  * <MessageBox
  *   data={message}
- *   isLast={i === messages.length - 1}
+ *   seenBy={readersByMessage.get(message.id)}
  * />
  *
  * // With message data from getMessages action
- * <MessageBox data={messageData} isLast={isLastMessage} />
+ * <MessageBox data={messageData} />
  * ```
  */
-const MessageBox: React.FC<MessageBoxProps> = ({ data, isLast }) => {
+const MessageBox: React.FC<MessageBoxProps> = ({
+  data,
+  seenBy,
+  onReply,
+  onQuoteClick,
+  highlightTerms,
+  isSearchResult,
+  canPin,
+  currentUserId,
+}) => {
   /**
    * User Session Integration
    *
@@ -180,6 +236,35 @@ const MessageBox: React.FC<MessageBoxProps> = ({ data, isLast }) => {
    */
   const [imageModalOpen, setImageModalOpen] = useState(false);
 
+  /**
+   * Edit and History Modal State
+   *
+   * Controls the EditMessageModal opened from the actions menu and the
+   * EditHistoryModal opened from the "edited" marker.
+   */
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [forwardModalOpen, setForwardModalOpen] = useState(false);
+  const [isReacting, setIsReacting] = useState(false);
+
+  /**
+   * Tombstone Detection
+   *
+   * Messages deleted for everyone keep their place in the timeline but lose
+   * their content, so they render as a muted placeholder with no actions
+   * other than hiding them.
+   */
+  const isDeleted = !!data.deletedAt;
+
+  /**
+   * Quoted Reply Target
+   *
+   * The message this one replies to. Tombstones drop their quote along with
+   * the rest of their content.
+   */
+  const replyTo = data.replyTo;
+
   /**
    * Message Ownership Detection
    *
@@ -215,41 +300,162 @@ const MessageBox: React.FC<MessageBoxProps> = ({ data, isLast }) => {
   const isOwn = session?.data?.user?.email === data?.sender?.email;
 
   /**
-   * Read Receipt List Generation
+   * Pin Toggle Handler
    *
-   * Generates a formatted list of users who have seen the message,
-   * excluding the sender. This list provides read receipt information
-   * for message status tracking and user feedback.
+   * The marker and the pinned banner follow from the message:update event
+   * the pin route broadcasts.
+   */
+  const togglePin = useCallback(() => {
+    const url = `/api/messages/${data.conversationId}/${data.id}/pin`;
+
+    (data.pinnedAt ? axios.delete(url) : axios.post(url)).catch(() =>
+      toast.error('Something went wrong!')
+    );
+  }, [data.conversationId, data.id, data.pinnedAt]);
+
+  /**
+   * Saved Toggle Handler
    *
-   * What this provides:
-   * - List of users who have seen the message
-   * - Sender exclusion from read receipt list
-   * - Formatted string for display
-   * - Read receipt status information
-   * - User feedback for message delivery
-   *
-   * Why read receipts are essential:
-   * - Message status: Shows who has seen the message
-   * - User feedback: Provides delivery confirmation
-   * - User experience: Enables message status understanding
-   * - Communication context: Shows message reach and engagement
-   * - Standard behavior: Maintains expected messaging app functionality
-   *
-   * Read Receipt Logic:
-   * - Filter seen users: Excludes sender from read receipt list
-   * - Map user names: Extracts user names for display
-   * - Join formatting: Creates comma-separated string for display
-   * - Empty handling: Handles cases where no users have seen the message
-   * - Performance: Efficient array operations for read receipt processing
-   *
-   * This read receipt list generation is essential for our messaging app because
-   * it provides the message status information that enables users to
-   * understand message delivery and engagement throughout the messaging interface.
+   * Saves are personal, so the star follows the shared saved store rather
+   * than the message payload. The response updates it right away; other
+   * tabs catch up through saved:update.
+   */
+  const isSaved = useSavedMessages((state) => !!state.savedIds[data.id]);
+  const setSaved = useSavedMessages((state) => state.setSaved);
+
+  const toggleSaved = useCallback(() => {
+    const url = `/api/messages/${data.conversationId}/${data.id}/save`;
+
+    (isSaved ? axios.delete<SavedUpdate>(url) : axios.post<SavedUpdate>(url))
+      .then((response) =>
+        setSaved(response.data.messageId, response.data.saved)
+      )
+      .catch(() => toast.error('Something went wrong!'));
+  }, [data.conversationId, data.id, isSaved, setSaved]);
+
+  /**
+   * Message Actions
+   *
+   * Builds the list of actions offered in the MessageMenu. Editing is only
+   * offered for the sender's own text messages while the edit window shared
+   * with the PATCH API route is still open, so the menu never offers an
+   * action the server would reject. Replying is offered for anything that
+   * still has content, as are forwarding and saving, and pinning to
+   * members whose role allows it. Deleting is always available; the modal decides whether
+   * "for everyone" is offered.
    */
-  const seenList = (data.seen || [])
-    .filter((user) => user.email !== data?.sender?.email)
-    .map((user) => user.name)
-    .join(', ');
+  const actions = useMemo(() => {
+    const items: MessageMenuAction[] = [];
+
+    if (onReply && !isDeleted) {
+      items.push({
+        label: 'Reply',
+        icon: HiArrowUturnLeft,
+        onClick: () => onReply(data),
+      });
+    }
+
+    if (!isDeleted) {
+      items.push({
+        label: 'Forward',
+        icon: HiArrowUturnRight,
+        onClick: () => setForwardModalOpen(true),
+      });
+    }
+
+    if (
+      isOwn &&
+      !isDeleted &&
+      !data.image &&
+      !data.forwardedFromId &&
+      isWithinEditWindow(data.createdAt)
+    ) {
+      items.push({
+        label: 'Edit',
+        icon: HiPencil,
+        onClick: () => setEditModalOpen(true),
+      });
+    }
+
+    if (!isDeleted) {
+      items.push({
+        label: isSaved ? 'Unsave' : 'Save',
+        icon: isSaved ? HiStar : HiOutlineStar,
+        onClick: () => toggleSaved(),
+      });
+    }
+
+    if (canPin && !isDeleted) {
+      items.push({
+        label: data.pinnedAt ? 'Unpin' : 'Pin',
+        icon: data.pinnedAt ? IoPinOutline : IoPin,
+        onClick: () => togglePin(),
+      });
+    }
+
+    items.push({
+      label: 'Delete',
+      icon: HiTrash,
+      onClick: () => setDeleteModalOpen(true),
+      danger: true,
+    });
+
+    return items;
+  }, [
+    isOwn,
+    isDeleted,
+    data,
+    onReply,
+    canPin,
+    togglePin,
+    isSaved,
+    toggleSaved,
+  ]);
+
+  /**
+   * Reaction Summaries
+   *
+   * Groups the message's reactions per emoji and flags the ones left by the
+   * current user, which decides whether clicking a chip adds or removes.
+   */
+  const reactionSummaries = useMemo(
+    () => summarizeReactions(data.reactions || [], currentUserId),
+    [data.reactions, currentUserId]
+  );
+
+  /**
+   * Reaction Toggle Handler
+   *
+   * Removes the current user's reaction if they already used this emoji and
+   * adds it otherwise. The reaction bar itself is refreshed by the
+   * message:update event the reactions route broadcasts.
+   */
+  const toggleReaction = useCallback(
+    (emoji: string) => {
+      const url = `/api/messages/${data.conversationId}/${data.id}/reactions`;
+      const hasReacted = reactionSummaries.some(
+        (summary) => summary.emoji === emoji && summary.reactedByMe
+      );
+
+      setIsReacting(true);
+
+      (hasReacted
+        ? axios.delete(url, { params: { emoji } })
+        : axios.post(url, { emoji })
+      )
+        .catch(() => toast.error('Something went wrong!'))
+        .finally(() => setIsReacting(false));
+    },
+    [data.conversationId, data.id, reactionSummaries]
+  );
+
+  /**
+   * Read Receipt List
+   *
+   * Body works out which readers stop at this message, so a reader is only
+   * listed once in the conversation, under the newest message they have seen.
+   */
+  const seenList = (seenBy || []).map((user) => user.name).join(', ');
 
   /**
    * Message Container Styling
@@ -391,12 +597,38 @@ const MessageBox: React.FC<MessageBoxProps> = ({ data, isLast }) => {
     break-words
     whitespace-break-spaces
     `,
-    isOwn ? 'bg-sky-500 text-white' : 'bg-gray-100',
-    data.image ? 'rounded p-0' : 'rounded-2xl py-2 px-3'
+    isDeleted
+      ? 'bg-white text-gray-400 italic border border-gray-200'
+      : isOwn
+        ? 'bg-sky-500 text-white'
+        : 'bg-gray-100',
+    data.image ? 'rounded p-0' : 'rounded-2xl py-2 px-3',
+    isSearchResult && 'ring-2 ring-yellow-300 ring-offset-2'
   );
 
   return (
     <div className={container}>
+      <EditMessageModal
+        message={data}
+        isOpen={editModalOpen}
+        onClose={() => setEditModalOpen(false)}
+      />
+      <EditHistoryModal
+        message={data}
+        isOpen={historyModalOpen}
+        onClose={() => setHistoryModalOpen(false)}
+      />
+      <ForwardMessageModal
+        message={data}
+        isOpen={forwardModalOpen}
+        onClose={() => setForwardModalOpen(false)}
+      />
+      <DeleteMessageModal
+        message={data}
+        canDeleteForEveryone={isOwn && !isDeleted}
+        isOpen={deleteModalOpen}
+        onClose={() => setDeleteModalOpen(false)}
+      />
       <div className={avatar}>
         <Avatar user={data.sender} />
       </div>
@@ -406,33 +638,111 @@ const MessageBox: React.FC<MessageBoxProps> = ({ data, isLast }) => {
           <div className="text-xs text-gray-400">
             {format(new Date(data.createdAt), 'p')}
           </div>
+          {data.pinnedAt && !isDeleted && (
+            <div className="flex items-center text-xs text-gray-400">
+              <IoPin size={12} />
+              Pinned
+            </div>
+          )}
+          {isSaved && !isDeleted && (
+            <HiStar size={12} title="Saved" className="text-amber-400" />
+          )}
+          {data.editedAt && !isDeleted && (
+            <button
+              type="button"
+              onClick={() => setHistoryModalOpen(true)}
+              className="text-xs text-gray-400 hover:underline"
+            >
+              (edited)
+            </button>
+          )}
         </div>
-        <div className={message}>
-          <ImageModal
-            src={data.image}
-            isOpen={imageModalOpen}
-            onClose={() => setImageModalOpen(false)}
-          />
-          {data.image ? (
-            <Image
-              onClick={() => setImageModalOpen(true)}
-              alt="Image"
-              height="288"
-              width="288"
+        <div
+          className={clsx(
+            'group flex items-center gap-1',
+            isOwn && 'flex-row-reverse'
+          )}
+        >
+          <div className={message}>
+            {data.forwardedFromId && !isDeleted && (
+              <div
+                className={clsx(
+                  'mb-1 flex items-center gap-1 text-xs italic',
+                  isOwn ? 'text-sky-100' : 'text-gray-500',
+                  data.image && 'm-1'
+                )}
+              >
+                <HiArrowUturnRight size={12} />
+                Forwarded
+              </div>
+            )}
+            {replyTo && !isDeleted && (
+              <div className={clsx('mb-1', data.image && 'm-1')}>
+                <MessageQuote
+                  message={replyTo}
+                  isOwn={isOwn}
+                  onClick={
+                    onQuoteClick ? () => onQuoteClick(replyTo.id) : undefined
+                  }
+                />
+              </div>
+            )}
+            <ImageModal
               src={data.image}
-              className="
-                object-cover
-                cursor-pointer
-                hover:scale-110
-                transition
-                translate
-              "
+              isOpen={imageModalOpen}
+              onClose={() => setImageModalOpen(false)}
             />
-          ) : (
-            <div>{data.body}</div>
-          )}
+            {data.image ? (
+              <Image
+                onClick={() => setImageModalOpen(true)}
+                alt="Image"
+                height="288"
+                width="288"
+                src={data.image}
+                className="
+                  object-cover
+                  cursor-pointer
+                  hover:scale-110
+                  transition
+                  translate
+                "
+              />
+            ) : isDeleted ? (
+              <div>This message was deleted</div>
+            ) : (
+              <div>
+                {highlightTerms && highlightTerms.length > 0 ? (
+                  <HighlightedText
+                    text={data.body || ''}
+                    terms={highlightTerms}
+                    markClassName="text-gray-900"
+                  />
+                ) : (
+                  data.body
+                )}
+              </div>
+            )}
+          </div>
+          <div
+            className={clsx(
+              'flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition',
+              isOwn && 'flex-row-reverse'
+            )}
+          >
+            <MessageMenu actions={actions} isOwn={isOwn} />
+            {!isDeleted && (
+              <ReactionPicker isOwn={isOwn} onSelect={toggleReaction} />
+            )}
+          </div>
         </div>
-        {isLast && isOwn && seenList.length > 0 && (
+        {!isDeleted && (
+          <ReactionBar
+            reactions={reactionSummaries}
+            onToggle={toggleReaction}
+            disabled={isReacting}
+          />
+        )}
+        {seenList.length > 0 && (
           <div
             className="
               text-xs
@@ -13,6 +13,7 @@
  * - Imperative handle for external height reset control
  * - Message content synchronization with form state
  * - Character limit enforcement and validation
+ * - Typing start/stop signals for the conversation's typing indicator
  *
  * Message Input Features:
  * - Dynamic textarea resizing based on content
@@ -43,6 +44,8 @@ import {
   forwardRef,
 } from 'react';
 import { FieldErrors, FieldValues, UseFormRegister } from 'react-hook-form';
+import useConversation from '@/app/hooks/useConversation';
+import useTypingEmitter from '@/app/hooks/useTypingEmitter';
 
 /**
  * Message Input Reference Interface
@@ -54,9 +57,11 @@ import { FieldErrors, FieldValues, UseFormRegister } from 'react-hook-form';
  *
  * @interface MessageInputRef
  * @property {() => void} resetTextareaHeight - Function to reset textarea height to minimum
+ * @property {() => void} focus - Moves keyboard focus to the textarea
  */
 export interface MessageInputRef {
   resetTextareaHeight: () => void;
+  focus: () => void;
 }
 
 /**
@@ -74,6 +79,7 @@ export interface MessageInputRef {
  * @property {FieldErrors} errors - React Hook Form errors object for validation display
  * @property {() => void} onEnterPress - Function to call when Enter key is pressed
  * @property {string} watchedMessage - Current message value from form state
+ * @property {(content: string) => void} [onContentChange] - Called with the text after each user edit, e.g. to save a draft
  */
 interface MessageInputProps {
   placeholder?: string;
@@ -84,6 +90,7 @@ interface MessageInputProps {
   errors: FieldErrors;
   onEnterPress: () => void;
   watchedMessage: string;
+  onContentChange?: (content: string) => void;
 }
 
 /**
@@ -175,8 +182,18 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
       register,
       onEnterPress,
       watchedMessage,
+      onContentChange,
     } = props;
 
+    /**
+     * Typing Signals
+     *
+     * Keystrokes are reported to the other participants, throttled by the
+     * emitter; sending or clearing the message ends typing right away.
+     */
+    const { conversationId } = useConversation();
+    const { notifyTyping, stopTyping } = useTypingEmitter(conversationId);
+
     /**
      * Message Content State Management
      *
@@ -315,6 +332,16 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
       }
     };
 
+    /**
+     * Textarea Focus
+     *
+     * Focuses the textarea from the parent form, for example when the user
+     * starts a quoted reply from a message's actions menu.
+     */
+    const focus = () => {
+      document.getElementById(id)?.focus();
+    };
+
     /**
      * Keyboard Event Handler
      *
@@ -326,7 +353,8 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      * - Detects Enter key press without Shift modifier
      * - Prevents default Enter behavior (new line)
      * - Calls onEnterPress function for message submission
-     * - Clears content and resets textarea height
+     * - Leaves clearing to the form, which only resets the field once the
+     *   message is sent or scheduled
      * - Provides smooth message submission experience
      *
      * Why keyboard shortcuts are essential:
@@ -337,11 +365,11 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      * - Consistency: Standard messaging app behavior
      *
      * Keyboard Logic:
-     * - Enter key: Submits message and clears input
+     * - Enter key: Submits message
      * - Shift+Enter: Allows new lines in message
      * - Event prevention: Prevents default Enter behavior
-     * - Content clearing: Clears local content state
-     * - Height reset: Resets textarea to minimum height
+     * - Content clearing: Follows the form value through watchedMessage, so
+     *   a rejected schedule keeps the text visible
      *
      * This keyboard event handler is essential for our messaging app because
      * it provides the keyboard shortcuts that enable efficient message
@@ -351,8 +379,7 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
       if (event.key === 'Enter' && !event.shiftKey) {
         event.preventDefault();
         onEnterPress();
-        setContent('');
-        resetTextareaHeight();
+        stopTyping();
       }
     };
 
@@ -366,6 +393,7 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      * What this handler does:
      * - Updates local content state with input value
      * - Triggers textarea resizing based on content
+     * - Reports the new text to onContentChange
      * - Provides real-time content updates
      * - Enables auto-resizing behavior
      * - Maintains controlled input state
@@ -391,6 +419,13 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
     const handleInput = (event: ChangeEvent<HTMLTextAreaElement>) => {
       setContent(event.target.value);
       resizeTextarea(event.target);
+      onContentChange?.(event.target.value);
+
+      if (event.target.value.trim()) {
+        notifyTyping();
+      } else {
+        stopTyping();
+      }
     };
 
     /**
@@ -427,7 +462,12 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      */
     useEffect(() => {
       setContent(watchedMessage);
-    }, [watchedMessage]);
+
+      // Cleared by the form, e.g. after sending with the button
+      if (!watchedMessage) {
+        stopTyping();
+      }
+    }, [watchedMessage, stopTyping]);
 
     /**
      * Imperative Handle Implementation
@@ -453,6 +493,7 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      *
      * Handle Implementation:
      * - resetTextareaHeight: Exposes height reset function
+     * - focus: Exposes textarea focus for starting replies
      * - External access: Enables parent component control
      * - Form integration: Works with form submission
      * - Height management: Provides external height control
@@ -464,6 +505,7 @@ const MessageInput = forwardRef<MessageInputRef, MessageInputProps>(
      */
     useImperativeHandle(ref, () => ({
       resetTextareaHeight,
+      focus,
     }));
 
     return (
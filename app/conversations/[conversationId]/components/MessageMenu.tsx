@@ -0,0 +1,161 @@
+/**
+ * Message Actions Menu Component for Dex Real-Time Messenger
+ *
+ * This file provides the per-message actions menu for our Next.js 14 real-time
+ * messaging application. It renders a compact ellipsis button next to a
+ * message bubble that opens a dropdown of actions supplied by MessageBox.
+ *
+ * Key Features:
+ * - Headless UI Menu for accessible keyboard and screen reader support
+ * - Action list supplied by the caller so MessageBox owns the business rules
+ * - Alignment that follows message ownership (own messages open to the left)
+ * - Optional danger styling for destructive actions
+ *
+ * @fileoverview Message actions menu component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { Menu, Transition } from '@headlessui/react';
+import clsx from 'clsx';
+import { Fragment } from 'react';
+import { IconType } from 'react-icons';
+import { HiEllipsisHorizontal } from 'react-icons/hi2';
+
+/**
+ * Message Menu Action Interface
+ *
+ * Describes a single entry in the message actions menu.
+ *
+ * @interface MessageMenuAction
+ * @property {string} label - Text shown for the action
+ * @property {IconType} icon - react-icons component rendered before the label
+ * @property {() => void} onClick - Handler invoked when the action is chosen
+ * @property {boolean} [danger] - Renders the action in red for destructive operations
+ */
+export interface MessageMenuAction {
+  label: string;
+  icon: IconType;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+/**
+ * Message Menu Props Interface
+ *
+ * @interface MessageMenuProps
+ * @property {MessageMenuAction[]} actions - Actions to render in the dropdown
+ * @property {boolean} [isOwn] - Whether the message belongs to the current user
+ * @property {string} [label] - Screen reader label for the button, when the menu is not about a message
+ */
+interface MessageMenuProps {
+  actions: MessageMenuAction[];
+  isOwn?: boolean;
+  label?: string;
+}
+
+/**
+ * Message Menu Component
+ *
+ * Renders nothing when there are no actions, so MessageBox can always mount
+ * it and let its own rules decide what the user may do with a message.
+ *
+ * @param {MessageMenuProps} props - Component props for the actions menu
+ * @returns {JSX.Element | null} Dropdown menu with message actions
+ *
+ * @example
+ * ```tsx
+ * <MessageMenu
+ *   isOwn={isOwn}
+ *   actions={[{ label: 'Edit', icon: HiPencil, onClick: openEditor }]}
+ * />
+ * ```
+ */
+const MessageMenu: React.FC<MessageMenuProps> = ({
+  actions,
+  isOwn,
+  label = 'Message actions',
+}) => {
+  if (actions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Menu as="div" className="relative inline-block text-left">
+      <Menu.Button
+        className="
+          rounded-full
+          p-1
+          text-gray-400
+          hover:text-gray-600
+          hover:bg-gray-100
+          focus:outline-none
+          transition
+        "
+      >
+        <span className="sr-only">{label}</span>
+        <HiEllipsisHorizontal size={18} />
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items
+          className={clsx(
+            `
+            absolute
+            z-20
+            mt-1
+            w-44
+            rounded-md
+            bg-white
+            py-1
+            shadow-lg
+            ring-1
+            ring-black
+            ring-opacity-5
+            focus:outline-none
+            `,
+            isOwn ? 'right-0 origin-top-right' : 'left-0 origin-top-left'
+          )}
+        >
+          {actions.map(({ label, icon: Icon, onClick, danger }) => (
+            <Menu.Item key={label}>
+              {({ active }) => (
+                <button
+                  type="button"
+                  onClick={onClick}
+                  className={clsx(
+                    `
+                    flex
+                    w-full
+                    items-center
+                    gap-2
+                    px-3
+                    py-2
+                    text-sm
+                    `,
+                    active && 'bg-gray-100',
+                    danger ? 'text-rose-600' : 'text-gray-700'
+                  )}
+                >
+                  <Icon size={16} />
+                  {label}
+                </button>
+              )}
+            </Menu.Item>
+          ))}
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  );
+};
+
+export default MessageMenu;
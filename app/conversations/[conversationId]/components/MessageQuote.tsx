@@ -0,0 +1,124 @@
+/**
+ * Message Quote Component for Dex Real-Time Messenger
+ *
+ * This file provides the quote block shown for quoted replies in our Next.js
+ * 14 real-time messaging application. The same block is rendered inside reply
+ * bubbles in the timeline and in the reply preview above the message input.
+ *
+ * Key Features:
+ * - Sender name and a one-line excerpt of the quoted message
+ * - "Photo" and "Message deleted" placeholders for non-text targets
+ * - Optional click handler for jumping back to the original message
+ * - Colour variant for quotes inside the sender's own blue bubbles
+ *
+ * @fileoverview Message quote component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { Message } from '@prisma/client';
+import { PublicUser } from '@/app/types';
+import clsx from 'clsx';
+
+/**
+ * Message Quote Props Interface
+ *
+ * @interface MessageQuoteProps
+ * @property {Message & { sender: PublicUser }} message - Quoted message with its sender
+ * @property {boolean} [isOwn] - Whether the quote sits inside the current user's bubble
+ * @property {() => void} [onClick] - Called when the quote is clicked
+ */
+interface MessageQuoteProps {
+  message: Message & { sender: PublicUser };
+  isOwn?: boolean;
+  onClick?: () => void;
+}
+
+/**
+ * Message Quote Component
+ *
+ * Renders as a button when onClick is provided so the jump-to-original
+ * behaviour is keyboard accessible, and as a plain block otherwise.
+ *
+ * @param {MessageQuoteProps} props - Component props for the quote block
+ * @returns {JSX.Element} Quote block with sender name and excerpt
+ *
+ * @example
+ * ```tsx
+ * <MessageQuote
+ *   message={data.replyTo}
+ *   isOwn={isOwn}
+ *   onClick={() => onQuoteClick(data.replyTo.id)}
+ * />
+ * ```
+ */
+const MessageQuote: React.FC<MessageQuoteProps> = ({
+  message,
+  isOwn,
+  onClick,
+}) => {
+  /**
+   * Quote Excerpt
+   *
+   * Tombstones and image messages have no body worth quoting, so they are
+   * described instead of showing an empty line.
+   */
+  const excerpt = message.deletedAt
+    ? 'Message deleted'
+    : message.image
+      ? 'Photo'
+      : message.body;
+
+  const className = clsx(
+    `
+    block
+    w-full
+    min-w-0
+    text-left
+    border-l-4
+    rounded-md
+    px-2
+    py-1
+    not-italic
+    `,
+    isOwn
+      ? 'bg-sky-600/60 border-white/70 text-white'
+      : 'bg-white/70 border-sky-500 text-gray-700',
+    onClick && 'cursor-pointer hover:opacity-80 transition'
+  );
+
+  const content = (
+    <>
+      <div
+        className={clsx(
+          'text-xs font-semibold',
+          isOwn ? 'text-white' : 'text-sky-600'
+        )}
+      >
+        {message.sender?.name}
+      </div>
+      <div
+        className={clsx(
+          'text-xs truncate',
+          message.deletedAt && 'italic opacity-80'
+        )}
+      >
+        {excerpt}
+      </div>
+    </>
+  );
+
+  if (onClick) {
+    return (
+      <button type="button" onClick={onClick} className={className}>
+        {content}
+      </button>
+    );
+  }
+
+  return <div className={className}>{content}</div>;
+};
+
+export default MessageQuote;
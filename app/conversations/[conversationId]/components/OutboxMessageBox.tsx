@@ -0,0 +1,141 @@
+/**
+ * Outbox Message Box Component for Dex Real-Time Messenger
+ *
+ * This file provides the OutboxMessageBox component for our Next.js 14
+ * real-time messaging application. It renders a message the user just sent
+ * at the end of the timeline before the server has confirmed it, styled
+ * like their own MessageBox bubble but without its actions.
+ *
+ * Key Features:
+ * - Faded bubble with "Sending…" while the message is pending
+ * - "Not sent" with Retry and Discard once it has failed
+ * - Quoted reply and image shown as they will be sent
+ *
+ * @fileoverview Outbox message box component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Avatar from '@/app/components/Avatar';
+import useOutbox from '@/app/hooks/useOutbox';
+import { OutboxMessage } from '@/app/types';
+import { User } from '@prisma/client';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import Image from 'next/image';
+import MessageQuote from './MessageQuote';
+
+/**
+ * Outbox Message Box Props Interface
+ *
+ * @interface OutboxMessageBoxProps
+ * @property {OutboxMessage} data - Unconfirmed message to render
+ * @property {User} [sender] - The current user, for the avatar and name
+ */
+interface OutboxMessageBoxProps {
+  data: OutboxMessage;
+  sender?: User;
+}
+
+/**
+ * Outbox Message Box Component
+ *
+ * Retrying starts over with a fresh set of attempts.
+ *
+ * @param {OutboxMessageBoxProps} props - Component props
+ * @returns {JSX.Element} Own message bubble with its delivery state
+ *
+ * @example
+ * ```tsx
+ * {outbox.map((outboxMessage) => (
+ *   <OutboxMessageBox
+ *     key={outboxMessage.id}
+ *     data={outboxMessage}
+ *     sender={currentUser}
+ *   />
+ * ))}
+ * ```
+ */
+const OutboxMessageBox: React.FC<OutboxMessageBoxProps> = ({
+  data,
+  sender,
+}) => {
+  const { update, remove } = useOutbox();
+  const isFailed = data.status === 'failed';
+
+  const retry = () => {
+    update(data.id, { status: 'pending', attempts: 0, nextAttemptAt: null });
+  };
+
+  return (
+    <div className="flex justify-end gap-3 p-4">
+      <div className="order-2">
+        <Avatar user={sender} />
+      </div>
+      <div className="flex flex-col items-end gap-2">
+        <div className="flex items-center gap-1">
+          <div className="text-sm text-gray-500">{sender?.name}</div>
+          <div className="text-xs text-gray-400">
+            {format(new Date(data.createdAt), 'p')}
+          </div>
+        </div>
+        <div
+          className={clsx(
+            `
+            text-sm
+            max-w-2xl
+            break-words
+            whitespace-break-spaces
+            bg-sky-500
+            text-white
+            `,
+            data.image ? 'rounded p-0' : 'rounded-2xl py-2 px-3',
+            isFailed ? 'ring-2 ring-rose-400 ring-offset-2' : 'opacity-60'
+          )}
+        >
+          {data.replyTo && (
+            <div className={clsx('mb-1', data.image && 'm-1')}>
+              <MessageQuote message={data.replyTo} isOwn />
+            </div>
+          )}
+          {data.image ? (
+            <Image
+              alt="Image"
+              height="288"
+              width="288"
+              src={data.image}
+              className="object-cover"
+            />
+          ) : (
+            <div>{data.body}</div>
+          )}
+        </div>
+        {isFailed ? (
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-rose-500">Not sent</span>
+            <button
+              type="button"
+              onClick={retry}
+              className="font-semibold text-sky-600 hover:underline"
+            >
+              Retry
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(data.id)}
+              className="font-semibold text-gray-500 hover:underline"
+            >
+              Discard
+            </button>
+          </div>
+        ) : (
+          <div className="text-xs font-light text-gray-500">Sending…</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutboxMessageBox;
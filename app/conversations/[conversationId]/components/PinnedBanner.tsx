@@ -0,0 +1,106 @@
+/**
+ * Pinned Banner Component for Dex Real-Time Messenger
+ *
+ * This file provides the PinnedBanner component for our Next.js 14 real-time
+ * messaging application. Rendered under the conversation Header, it shows one
+ * pinned message at a time; clicking it scrolls the timeline to that message
+ * and moves the banner on to the next pin, so repeated clicks walk through
+ * all of them.
+ *
+ * Key Features:
+ * - Position among several pins ("Pinned message 2 of 3")
+ * - Jump to the message through the same mechanism as search results
+ * - Cycles from the most recent pin back to the oldest, then starts over
+ * - Hidden while nothing is pinned
+ *
+ * @fileoverview Pinned banner component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { FullMessageType } from '@/app/types';
+import { useState } from 'react';
+import { IoPin } from 'react-icons/io5';
+
+/**
+ * Pinned Banner Props Interface
+ *
+ * @interface PinnedBannerProps
+ * @property {FullMessageType[]} pinnedMessages - Pins, most recent first
+ * @property {(messageId: string) => void} onJumpToMessage - Scrolls the timeline to a message
+ */
+interface PinnedBannerProps {
+  pinnedMessages: FullMessageType[];
+  onJumpToMessage: (messageId: string) => void;
+}
+
+/**
+ * Pinned Banner Component
+ *
+ * @param {PinnedBannerProps} props - Component props
+ * @returns {JSX.Element | null} Banner, or nothing without pins
+ *
+ * @example
+ * ```tsx
+ * <PinnedBanner
+ *   pinnedMessages={pinnedMessages}
+ *   onJumpToMessage={jumpToMessage}
+ * />
+ * ```
+ */
+const PinnedBanner: React.FC<PinnedBannerProps> = ({
+  pinnedMessages,
+  onJumpToMessage,
+}) => {
+  const [index, setIndex] = useState(0);
+
+  // A pin removed elsewhere can leave the index past the end of the list
+  const position = index < pinnedMessages.length ? index : 0;
+  const message = pinnedMessages[position];
+
+  if (!message) {
+    return null;
+  }
+
+  const handleClick = () => {
+    onJumpToMessage(message.id);
+    setIndex((position + 1) % pinnedMessages.length);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="
+        flex
+        w-full
+        items-center
+        gap-3
+        border-b-[1px]
+        bg-white
+        px-4
+        py-2
+        text-left
+        hover:bg-neutral-50
+        transition
+        lg:px-6
+      "
+    >
+      <IoPin size={18} className="shrink-0 text-sky-500" />
+      <div className="min-w-0">
+        <div className="text-xs font-semibold text-sky-600">
+          {pinnedMessages.length > 1
+            ? `Pinned message ${position + 1} of ${pinnedMessages.length}`
+            : 'Pinned message'}
+        </div>
+        <div className="truncate text-sm text-gray-700">
+          {message.image ? 'Photo' : message.body}
+        </div>
+      </div>
+    </button>
+  );
+};
+
+export default PinnedBanner;
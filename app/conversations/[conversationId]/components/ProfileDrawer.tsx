@@ -12,6 +12,11 @@
  * - Conversation participant information display (individual and group)
  * - Real-time presence tracking with active/offline status
  * - Conversation management with deletion functionality
+ * - Group membership: add members, remove members and leave
+ * - Role badges and role changes for the group's owner and admins
+ * - Group settings: name, photo and description
+ * - Invite links for the group's owner and admins
+ * - Pinned messages, opening the message in the timeline
  * - Responsive design with mobile and desktop optimization
  * - Accessibility features with Headless UI Dialog
  *
@@ -42,9 +47,41 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Conversation, User } from '@prisma/client';
 import { format } from 'date-fns';
 import { Fragment, useMemo, useState } from 'react';
-import { IoClose, IoTrash } from 'react-icons/io5';
+import {
+  IoClose,
+  IoExitOutline,
+  IoLink,
+  IoPersonAdd,
+  IoSettingsOutline,
+  IoTrash,
+} from 'react-icons/io5';
+import { useSession } from 'next-auth/react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
 import ConfirmModal from './ConfirmModal';
+import AddMembersModal from './AddMembersModal';
+import LeaveGroupModal from './LeaveGroupModal';
+import GroupSettingsModal from './GroupSettingsModal';
+import InviteLinksModal from './InviteLinksModal';
 import useActiveList from '@/app/hooks/useActiveList';
+import useLastSeen from '@/app/hooks/useLastSeen';
+import useUserStatus from '@/app/hooks/useUserStatus';
+import { AVAILABILITY_LABELS } from '@/app/libs/userStatus';
+import {
+  canManageGroup,
+  canRemoveMember,
+  getMemberRole,
+  ROLE_LABELS,
+} from '@/app/libs/conversationRoles';
+import MessageMenu, { MessageMenuAction } from './MessageMenu';
+import clsx from 'clsx';
+import { FullMessageType } from '@/app/types';
+import {
+  HiOutlineKey,
+  HiOutlineShieldCheck,
+  HiOutlineShieldExclamation,
+  HiOutlineUserMinus,
+} from 'react-icons/hi2';
 
 /**
  * Profile Drawer Props Interface
@@ -56,6 +93,9 @@ import useActiveList from '@/app/hooks/useActiveList';
  * @property {boolean} isOpen - Whether the drawer is currently open and visible
  * @property {() => void} onClose - Callback function to close the drawer
  * @property {Conversation & { users: User[] }} data - Conversation data with user information
+ * @property {FullMessageType[]} [pinnedMessages] - Pins, most recent first
+ * @property {boolean} [canPin] - Whether the current user may unpin messages
+ * @property {(messageId: string) => void} [onJumpToMessage] - Scrolls the timeline to a pinned message
  */
 interface ProfileDrawerProps {
   isOpen: boolean;
@@ -63,6 +103,9 @@ interface ProfileDrawerProps {
   data: Conversation & {
     users: User[];
   };
+  pinnedMessages?: FullMessageType[];
+  canPin?: boolean;
+  onJumpToMessage?: (messageId: string) => void;
 }
 
 /**
@@ -80,6 +123,7 @@ interface ProfileDrawerProps {
  * - Conversation participant information display (individual and group)
  * - Real-time presence tracking with active/offline status
  * - Conversation management with deletion functionality
+ * - Group membership: add members, remove members and leave
  * - Responsive design with mobile and desktop optimization
  * - Accessibility features with Headless UI Dialog
  *
@@ -140,6 +184,9 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
   isOpen,
   onClose,
   data,
+  pinnedMessages = [],
+  canPin,
+  onJumpToMessage,
 }) => {
   /**
    * Other User Identification
@@ -195,6 +242,127 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
    */
   const [confirmOpen, setConfirmOpen] = useState(false);
 
+  /**
+   * Group Membership Management
+   *
+   * Anyone can leave; the owner and admins add and remove people, edit
+   * the group's settings and share invite links, and only the owner changes
+   * roles or deletes the group. The API enforces the same rules, so this
+   * only hides what would be refused. The member list and
+   * roles are refreshed by the conversation:update that follows each change,
+   * so the drawer only tracks which row is busy.
+   */
+  const session = useSession();
+  const [addMembersOpen, setAddMembersOpen] = useState(false);
+  const [leaveOpen, setLeaveOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [invitesOpen, setInvitesOpen] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const currentMember = useMemo(
+    () => data.users.find((user) => user.email === session.data?.user?.email),
+    [data.users, session.data?.user?.email]
+  );
+
+  const currentRole = getMemberRole(data, currentMember?.id);
+
+  const changeMember = (userId: string, role?: string) => {
+    const url = `/api/conversations/${data.id}/members/${userId}`;
+
+    setPendingId(userId);
+
+    (role ? axios.patch(url, { role }) : axios.delete(url))
+      .catch(() => toast.error('Something went wrong!'))
+      .finally(() => setPendingId(null));
+  };
+
+  const unpinMessage = (message: FullMessageType) => {
+    axios
+      .delete(`/api/messages/${data.id}/${message.id}/pin`)
+      .catch(() => toast.error('Something went wrong!'));
+  };
+
+  const getMemberActions = (user: User): MessageMenuAction[] => {
+    const role = getMemberRole(data, user.id);
+    const memberActions: MessageMenuAction[] = [];
+
+    if (user.id === currentMember?.id || pendingId === user.id) {
+      return memberActions;
+    }
+
+    if (currentRole === 'OWNER') {
+      memberActions.push(
+        role === 'ADMIN'
+          ? {
+              label: 'Remove as admin',
+              icon: HiOutlineShieldExclamation,
+              onClick: () => changeMember(user.id, 'MEMBER'),
+            }
+          : {
+              label: 'Make admin',
+              icon: HiOutlineShieldCheck,
+              onClick: () => changeMember(user.id, 'ADMIN'),
+            },
+        {
+          label: 'Make owner',
+          icon: HiOutlineKey,
+          onClick: () => changeMember(user.id, 'OWNER'),
+        }
+      );
+    }
+
+    if (canRemoveMember(currentRole, role)) {
+      memberActions.push({
+        label: 'Remove',
+        icon: HiOutlineUserMinus,
+        onClick: () => changeMember(user.id),
+        danger: true,
+      });
+    }
+
+    return memberActions;
+  };
+
+  const actions = [
+    ...(data.isGroup && canManageGroup(currentRole)
+      ? [
+          {
+            label: 'Add',
+            icon: IoPersonAdd,
+            onClick: () => setAddMembersOpen(true),
+          },
+          {
+            label: 'Edit',
+            icon: IoSettingsOutline,
+            onClick: () => setSettingsOpen(true),
+          },
+          {
+            label: 'Invite',
+            icon: IoLink,
+            onClick: () => setInvitesOpen(true),
+          },
+        ]
+      : []),
+    ...(data.isGroup
+      ? [
+          {
+            label: 'Leave',
+            icon: IoExitOutline,
+            onClick: () => setLeaveOpen(true),
+          },
+        ]
+      : []),
+    ...(currentRole === 'OWNER'
+      ? [
+          {
+            label: 'Delete',
+            icon: IoTrash,
+            onClick: () => setConfirmOpen(true),
+          },
+        ]
+      : []),
+  ];
+
   /**
    * Active User List Integration
    *
@@ -255,6 +423,8 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
    * see live participant status throughout the messaging interface.
    */
   const isActive = members.indexOf(otherUser?.email!) !== -1;
+  const lastSeenText = useLastSeen(otherUser);
+  const { availability, customStatus } = useUserStatus(otherUser);
 
   /**
    * Joined Date Formatting
@@ -353,6 +523,8 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
    * Status Text Logic:
    * - Group conversation: Shows member count (e.g., "3 members")
    * - Individual conversation: Shows active/offline status based on presence
+   * - Last seen: Replaces "Offline" when the user allows it
+   * - Availability and custom status: Same wording as the conversation header
    * - Real-time updates: Updates automatically when presence changes
    * - Memoization: Caches result until dependencies change
    * - Performance: Efficient status generation with memoization
@@ -366,8 +538,12 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
       return `${data.users.length} members`;
     }
 
-    return isActive ? 'Active' : 'Offline';
-  }, [data, isActive]);
+    const presenceText = isActive
+      ? AVAILABILITY_LABELS[availability]
+      : (lastSeenText ?? 'Offline');
+
+    return customStatus ? `${presenceText} · ${customStatus}` : presenceText;
+  }, [data, isActive, lastSeenText, availability, customStatus]);
 
   return (
     <>
@@ -375,6 +551,31 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
         isOpen={confirmOpen}
         onClose={() => setConfirmOpen(false)}
       />
+      {data.isGroup && (
+        <>
+          <AddMembersModal
+            isOpen={addMembersOpen}
+            onClose={() => setAddMembersOpen(false)}
+            conversationId={data.id}
+            members={data.users}
+          />
+          <LeaveGroupModal
+            isOpen={leaveOpen}
+            onClose={() => setLeaveOpen(false)}
+            currentUserId={currentMember?.id}
+          />
+          <GroupSettingsModal
+            isOpen={settingsOpen}
+            onClose={() => setSettingsOpen(false)}
+            conversation={data}
+          />
+          <InviteLinksModal
+            isOpen={invitesOpen}
+            onClose={() => setInvitesOpen(false)}
+            conversationId={data.id}
+          />
+        </>
+      )}
       <Transition.Root show={isOpen} as={Fragment}>
         <Dialog as="div" className="relative z-50" onClose={onClose}>
           <Transition.Child
@@ -492,7 +693,10 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                         <div className="flex flex-col items-center">
                           <div className="mb-2">
                             {data.isGroup ? (
-                              <AvatarGroup users={data.users} />
+                              <AvatarGroup
+                                users={data.users}
+                                image={data.image}
+                              />
                             ) : (
                               <Avatar user={otherUser} />
                             )}
@@ -502,9 +706,11 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                             {statusText}
                           </div>
                           <div className="flex gap-10 my-8">
-                            <div
-                              onClick={() => setConfirmOpen(true)}
-                              className="
+                            {actions.map((action) => (
+                              <div
+                                key={action.label}
+                                onClick={action.onClick}
+                                className="
                                 flex
                                 flex-col
                                 gap-3
@@ -512,9 +718,9 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                                 cursor-pointer
                                 hover:opacity-75
                               "
-                            >
-                              <div
-                                className="
+                              >
+                                <div
+                                  className="
                                   w-10
                                   h-10
                                   bg-neutral-100
@@ -523,19 +729,20 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                                   items-center
                                   justify-center
                                 "
-                              >
-                                <IoTrash size={20} />
-                              </div>
-                              <div
-                                className="
+                                >
+                                  <action.icon size={20} />
+                                </div>
+                                <div
+                                  className="
                                   text-sm
                                   font-light
                                   text-neutral-600
                                 "
-                              >
-                                Delete
+                                >
+                                  {action.label}
+                                </div>
                               </div>
-                            </div>
+                            ))}
                           </div>
                           <div
                             className="
@@ -554,6 +761,33 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                                 sm:px-6
                               "
                             >
+                              {data.isGroup && data.description && (
+                                <div>
+                                  <dt
+                                    className="
+                                      text-sm
+                                      font-medium
+                                      text-gray-500
+                                      sm:w-40
+                                      sm:flex-shrink-0
+                                    "
+                                  >
+                                    Description
+                                  </dt>
+                                  <dd
+                                    className="
+                                      mt-1
+                                      whitespace-pre-wrap
+                                      break-words
+                                      text-sm
+                                      text-gray-900
+                                      sm:col-span-2
+                                    "
+                                  >
+                                    {data.description}
+                                  </dd>
+                                </div>
+                              )}
                               {data.isGroup && (
                                 <div>
                                   <dt
@@ -565,20 +799,56 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                                       sm:flex-shrink-0
                                     "
                                   >
-                                    Emails
+                                    Members
                                   </dt>
-                                  {data.users.map((user, index) => {
+                                  {data.users.map((user) => {
+                                    const role = getMemberRole(data, user.id);
+
                                     return (
                                       <dd
-                                        key={index}
+                                        key={user.id}
                                         className="
                                           mt-1
+                                          flex
+                                          items-center
+                                          justify-between
+                                          gap-2
                                           text-sm
                                           text-gray-900
                                           sm:col-span-2
                                         "
                                       >
-                                        {user.email}
+                                        <span className="truncate">
+                                          {user.name}
+                                          <span className="ml-1 text-gray-500">
+                                            {user.email}
+                                          </span>
+                                        </span>
+                                        <span className="flex shrink-0 items-center gap-1">
+                                          {role !== 'MEMBER' && (
+                                            <span
+                                              className={clsx(
+                                                `
+                                                rounded-full
+                                                px-2
+                                                py-0.5
+                                                text-xs
+                                                font-medium
+                                                `,
+                                                role === 'OWNER'
+                                                  ? 'bg-sky-100 text-sky-700'
+                                                  : 'bg-gray-100 text-gray-600'
+                                              )}
+                                            >
+                                              {ROLE_LABELS[role]}
+                                            </span>
+                                          )}
+                                          <MessageMenu
+                                            isOwn
+                                            label={`Actions for ${user.name ?? user.email}`}
+                                            actions={getMemberActions(user)}
+                                          />
+                                        </span>
                                       </dd>
                                     );
                                   })}
@@ -639,6 +909,84 @@ const ProfileDrawer: React.FC<ProfileDrawerProps> = ({
                                   </div>
                                 </>
                               )}
+                              {pinnedMessages.length > 0 && (
+                                <div>
+                                  <dt
+                                    className="
+                                      text-sm
+                                      font-medium
+                                      text-gray-500
+                                      sm:w-40
+                                      sm:flex-shrink-0
+                                    "
+                                  >
+                                    Pinned messages
+                                  </dt>
+                                  {pinnedMessages.map((message) => {
+                                    const pinnedBy = data.users.find(
+                                      (user) => user.id === message.pinnedById
+                                    );
+
+                                    return (
+                                      <dd
+                                        key={message.id}
+                                        className="
+                                          mt-2
+                                          flex
+                                          items-start
+                                          justify-between
+                                          gap-2
+                                          text-sm
+                                          text-gray-900
+                                          sm:col-span-2
+                                        "
+                                      >
+                                        <button
+                                          type="button"
+                                          onClick={() => {
+                                            onJumpToMessage?.(message.id);
+                                            onClose();
+                                          }}
+                                          className="min-w-0 text-left hover:opacity-80"
+                                        >
+                                          <span className="block text-xs font-semibold text-sky-600">
+                                            {message.sender.name}
+                                          </span>
+                                          <span className="block truncate">
+                                            {message.image
+                                              ? 'Photo'
+                                              : message.body}
+                                          </span>
+                                          {message.pinnedAt && (
+                                            <span className="block text-xs text-gray-500">
+                                              {`Pinned ${format(new Date(message.pinnedAt), 'PP')}`}
+                                              {pinnedBy &&
+                                                ` by ${pinnedBy.name ?? pinnedBy.email}`}
+                                            </span>
+                                          )}
+                                        </button>
+                                        {canPin && (
+                                          <button
+                                            type="button"
+                                            onClick={() =>
+                                              unpinMessage(message)
+                                            }
+                                            className="
+                                              shrink-0
+                                              text-xs
+                                              font-semibold
+                                              text-rose-500
+                                              hover:text-rose-600
+                                            "
+                                          >
+                                            Unpin
+                                          </button>
+                                        )}
+                                      </dd>
+                                    );
+                                  })}
+                                </div>
+                              )}
                             </dl>
                           </div>
                         </div>
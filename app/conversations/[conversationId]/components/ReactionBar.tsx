@@ -0,0 +1,95 @@
+/**
+ * Reaction Bar Component for Dex Real-Time Messenger
+ *
+ * This file provides the row of reaction chips shown under a message bubble
+ * in our Next.js 14 real-time messaging application. Each chip shows an emoji
+ * with its count, lists who reacted on hover and toggles the current user's
+ * reaction when clicked.
+ *
+ * Key Features:
+ * - One chip per emoji, in the order each emoji was first used
+ * - Highlighted chips for emoji the current user has reacted with
+ * - Native tooltip listing the names of everyone who reacted
+ * - Renders nothing for messages without reactions
+ *
+ * @fileoverview Reaction bar component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { ReactionSummary } from '@/app/libs/reactions';
+import clsx from 'clsx';
+
+/**
+ * Reaction Bar Props Interface
+ *
+ * @interface ReactionBarProps
+ * @property {ReactionSummary[]} reactions - Per-emoji reaction summaries
+ * @property {(emoji: string) => void} onToggle - Adds or removes the current user's reaction
+ * @property {boolean} [disabled] - Disables the chips while a toggle is in flight
+ */
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Reaction Bar Component
+ *
+ * @param {ReactionBarProps} props - Component props for the reaction bar
+ * @returns {JSX.Element | null} Row of reaction chips
+ *
+ * @example
+ * ```tsx
+ * <ReactionBar reactions={reactionSummaries} onToggle={toggleReaction} />
+ * ```
+ */
+const ReactionBar: React.FC<ReactionBarProps> = ({
+  reactions,
+  onToggle,
+  disabled,
+}) => {
+  if (reactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {reactions.map(({ emoji, users, reactedByMe }) => (
+        <button
+          key={emoji}
+          type="button"
+          disabled={disabled}
+          onClick={() => onToggle(emoji)}
+          title={users.map((user) => user.name || 'Unknown user').join(', ')}
+          aria-pressed={reactedByMe}
+          className={clsx(
+            `
+            flex
+            items-center
+            gap-1
+            rounded-full
+            border
+            px-2
+            py-0.5
+            text-xs
+            transition
+            disabled:cursor-default
+            `,
+            reactedByMe
+              ? 'bg-sky-50 border-sky-300 text-sky-700 hover:bg-sky-100'
+              : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-100'
+          )}
+        >
+          <span>{emoji}</span>
+          <span>{users.length}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ReactionBar;
@@ -0,0 +1,126 @@
+/**
+ * Reaction Picker Component for Dex Real-Time Messenger
+ *
+ * This file provides the emoji picker shown next to a message bubble in our
+ * Next.js 14 real-time messaging application. It opens a small popover with
+ * the shared reaction palette and reports the chosen emoji to MessageBox.
+ *
+ * Key Features:
+ * - Headless UI Popover for accessible keyboard and screen reader support
+ * - Palette shared with the reactions API route via REACTION_EMOJIS
+ * - Alignment that follows message ownership, like MessageMenu
+ *
+ * @fileoverview Reaction picker component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import { REACTION_EMOJIS } from '@/app/libs/reactions';
+import { Popover, Transition } from '@headlessui/react';
+import clsx from 'clsx';
+import { Fragment } from 'react';
+import { HiOutlineFaceSmile } from 'react-icons/hi2';
+
+/**
+ * Reaction Picker Props Interface
+ *
+ * @interface ReactionPickerProps
+ * @property {(emoji: string) => void} onSelect - Called with the chosen emoji
+ * @property {boolean} [isOwn] - Whether the message belongs to the current user
+ */
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  isOwn?: boolean;
+}
+
+/**
+ * Reaction Picker Component
+ *
+ * @param {ReactionPickerProps} props - Component props for the picker
+ * @returns {JSX.Element} Smiley button that opens the reaction palette
+ *
+ * @example
+ * ```tsx
+ * <ReactionPicker isOwn={isOwn} onSelect={toggleReaction} />
+ * ```
+ */
+const ReactionPicker: React.FC<ReactionPickerProps> = ({ onSelect, isOwn }) => {
+  return (
+    <Popover className="relative inline-block">
+      <Popover.Button
+        className="
+          rounded-full
+          p-1
+          text-gray-400
+          hover:text-gray-600
+          hover:bg-gray-100
+          focus:outline-none
+          transition
+        "
+      >
+        <span className="sr-only">Add reaction</span>
+        <HiOutlineFaceSmile size={18} />
+      </Popover.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Popover.Panel
+          className={clsx(
+            `
+            absolute
+            z-20
+            mt-1
+            flex
+            gap-1
+            rounded-full
+            bg-white
+            px-2
+            py-1
+            shadow-lg
+            ring-1
+            ring-black
+            ring-opacity-5
+            `,
+            isOwn ? 'right-0 origin-top-right' : 'left-0 origin-top-left'
+          )}
+        >
+          {({ close }) => (
+            <>
+              {REACTION_EMOJIS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => {
+                    onSelect(emoji);
+                    close();
+                  }}
+                  className="
+                    rounded-full
+                    p-1
+                    text-lg
+                    leading-none
+                    hover:bg-gray-100
+                    hover:scale-125
+                    transition
+                  "
+                >
+                  {emoji}
+                </button>
+              ))}
+            </>
+          )}
+        </Popover.Panel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default ReactionPicker;
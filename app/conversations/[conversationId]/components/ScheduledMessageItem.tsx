@@ -0,0 +1,218 @@
+/**
+ * Scheduled Message Item Component for Dex Real-Time Messenger
+ *
+ * This file provides the ScheduledMessageItem component for our Next.js 14
+ * real-time messaging application. It shows one pending scheduled message
+ * in the ScheduledMessagesModal and lets its sender change the text and send
+ * time in place, or cancel it.
+ *
+ * Key Features:
+ * - Send time and content preview
+ * - Inline editing through PATCH .../scheduled/[scheduledId]
+ * - Cancel through DELETE on the same route
+ * - List updates arrive through useScheduledMessages
+ *
+ * @fileoverview Scheduled message item component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Button from '@/app/components/Button';
+import { toDateTimeLocal } from '@/app/libs/scheduleTime';
+import { ScheduledMessage } from '@prisma/client';
+import axios from 'axios';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+
+/**
+ * Scheduled Message Item Props Interface
+ *
+ * @interface ScheduledMessageItemProps
+ * @property {ScheduledMessage} scheduledMessage - Pending message to show
+ */
+interface ScheduledMessageItemProps {
+  scheduledMessage: ScheduledMessage;
+}
+
+/**
+ * Scheduled Message Error Toast
+ *
+ * @param {any} error - Axios error from an edit or cancel request
+ */
+const toastScheduledError = (error: any) => {
+  const status = error?.response?.status;
+
+  toast.error(
+    status === 409
+      ? 'This message is already being sent'
+      : status === 400
+        ? 'Pick a time in the future'
+        : 'Something went wrong!'
+  );
+};
+
+/**
+ * Scheduled Message Item Component
+ *
+ * @param {ScheduledMessageItemProps} props - Component props
+ * @returns {JSX.Element} List item with preview or edit form
+ *
+ * @example
+ * ```tsx
+ * {scheduledMessages.map((scheduledMessage) => (
+ *   <ScheduledMessageItem
+ *     key={scheduledMessage.id}
+ *     scheduledMessage={scheduledMessage}
+ *   />
+ * ))}
+ * ```
+ */
+const ScheduledMessageItem: React.FC<ScheduledMessageItemProps> = ({
+  scheduledMessage,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const url = `/api/conversations/${scheduledMessage.conversationId}/scheduled/${scheduledMessage.id}`;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FieldValues>();
+
+  const startEditing = () => {
+    reset({
+      message: scheduledMessage.body || '',
+      sendAt: toDateTimeLocal(scheduledMessage.sendAt),
+    });
+    setIsEditing(true);
+  };
+
+  const onSubmit: SubmitHandler<FieldValues> = (data) => {
+    setIsLoading(true);
+
+    axios
+      .patch(url, {
+        message: data.message,
+        sendAt: new Date(data.sendAt).toISOString(),
+      })
+      .then(() => setIsEditing(false))
+      .catch(toastScheduledError)
+      .finally(() => setIsLoading(false));
+  };
+
+  const handleCancelMessage = () => {
+    setIsLoading(true);
+
+    axios
+      .delete(url)
+      .catch(toastScheduledError)
+      .finally(() => setIsLoading(false));
+  };
+
+  const fieldClasses = (hasError: boolean) =>
+    clsx(
+      `
+      block
+      w-full
+      rounded-md
+      border-0
+      py-1.5
+      text-gray-900
+      shadow-sm
+      ring-1
+      ring-inset
+      focus:ring-2
+      focus:ring-inset
+      focus:ring-sky-600
+      sm:text-sm
+      sm:leading-6`,
+      hasError ? 'ring-rose-500' : 'ring-gray-300'
+    );
+
+  if (isEditing) {
+    return (
+      <li className="py-4">
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+          <textarea
+            disabled={isLoading}
+            {...register('message', {
+              validate: (value: string) =>
+                !!scheduledMessage.image || value.trim().length > 0,
+            })}
+            maxLength={4096}
+            rows={3}
+            placeholder={scheduledMessage.image ? 'Add a caption' : undefined}
+            className={clsx(
+              'form-textarea resize-none',
+              fieldClasses(!!errors.message)
+            )}
+          />
+          <input
+            type="datetime-local"
+            disabled={isLoading}
+            {...register('sendAt', { required: true })}
+            className={clsx('form-input', fieldClasses(!!errors.sendAt))}
+          />
+          <div className="flex items-center justify-end gap-x-6">
+            <Button
+              type="button"
+              disabled={isLoading}
+              secondary
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex items-start gap-3 py-4">
+      <div className="min-w-0 flex-1">
+        <div className="text-xs font-semibold text-sky-600">
+          {format(new Date(scheduledMessage.sendAt), 'PPp')}
+        </div>
+        <div className="mt-1 break-words text-sm text-gray-700">
+          {scheduledMessage.image && (
+            <span className="italic text-gray-500">
+              Photo{scheduledMessage.body ? ' · ' : ''}
+            </span>
+          )}
+          {scheduledMessage.body}
+        </div>
+      </div>
+      <div className="flex shrink-0 items-center gap-3 text-sm font-semibold">
+        <button
+          type="button"
+          disabled={isLoading}
+          onClick={startEditing}
+          className="text-sky-600 hover:text-sky-700"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          disabled={isLoading}
+          onClick={handleCancelMessage}
+          className="text-rose-500 hover:text-rose-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export default ScheduledMessageItem;
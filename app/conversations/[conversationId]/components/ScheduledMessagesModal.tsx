@@ -0,0 +1,101 @@
+/**
+ * Scheduled Messages Modal Component for Dex Real-Time Messenger
+ *
+ * This file provides the ScheduledMessagesModal component for our Next.js 14
+ * real-time messaging application. Opened from the message form, it lists
+ * the current user's pending scheduled messages in the conversation, next to
+ * be sent first, each of which can be edited or cancelled.
+ *
+ * Key Features:
+ * - One ScheduledMessageItem per pending message
+ * - Closes itself once the last pending message is sent or cancelled
+ *
+ * @fileoverview Scheduled messages modal component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Modal from '@/app/components/Modal';
+import { ScheduledMessage } from '@prisma/client';
+import { useEffect } from 'react';
+import ScheduledMessageItem from './ScheduledMessageItem';
+
+/**
+ * Scheduled Messages Modal Props Interface
+ *
+ * @interface ScheduledMessagesModalProps
+ * @property {ScheduledMessage[]} scheduledMessages - Pending messages, next to be sent first
+ * @property {boolean} [isOpen] - Whether the modal is visible
+ * @property {() => void} onClose - Closes the modal
+ */
+interface ScheduledMessagesModalProps {
+  scheduledMessages: ScheduledMessage[];
+  isOpen?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Scheduled Messages Modal Component
+ *
+ * @param {ScheduledMessagesModalProps} props - Component props
+ * @returns {JSX.Element} Modal with the pending messages
+ *
+ * @example
+ * ```tsx
+ * <ScheduledMessagesModal
+ *   scheduledMessages={scheduledMessages}
+ *   isOpen={scheduledOpen}
+ *   onClose={() => setScheduledOpen(false)}
+ * />
+ * ```
+ */
+const ScheduledMessagesModal: React.FC<ScheduledMessagesModalProps> = ({
+  scheduledMessages,
+  isOpen,
+  onClose,
+}) => {
+  const isEmpty = scheduledMessages.length === 0;
+
+  useEffect(() => {
+    if (isOpen && isEmpty) {
+      onClose();
+    }
+  }, [isOpen, isEmpty, onClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2
+        className="
+          text-base
+          font-semibold
+          leading-7
+          text-gray-900
+        "
+      >
+        Scheduled messages
+      </h2>
+      <p
+        className="
+          mt-1
+          text-sm
+          leading-6
+          text-gray-600
+        "
+      >
+        Only you can see these until they are sent.
+      </p>
+      <ul className="mt-4 divide-y divide-gray-200">
+        {scheduledMessages.map((scheduledMessage) => (
+          <ScheduledMessageItem
+            key={scheduledMessage.id}
+            scheduledMessage={scheduledMessage}
+          />
+        ))}
+      </ul>
+    </Modal>
+  );
+};
+
+export default ScheduledMessagesModal;
@@ -2,23 +2,28 @@
  * Message Search Component for Dex Real-Time Messenger
  *
  * This file provides a specialized message search component for our Next.js 14 real-time
- * messaging application. It implements message search functionality with regex-based
- * filtering, smooth animations, and search targeting that ensures optimal user
- * experience for finding and navigating to specific messages within conversations.
+ * messaging application. It implements message search functionality with literal
+ * keyword matching, result navigation, smooth animations, and search targeting that
+ * ensures optimal user experience for finding and navigating to specific messages
+ * within conversations.
  *
  * Key Features:
- * - Message search with regex-based keyword filtering
+ * - Message search with literal, case-insensitive keyword matching
+ * - Result counter ("3 of 17") with next/previous buttons
+ * - Keyboard shortcuts: Enter for the next (older) result, Shift+Enter for
+ *   the previous one, Escape to clear and close
+ * - Matched terms highlighted in message bubbles while the query is active
  * - Smooth search bar animations with opacity and transform transitions
  * - Search targeting with automatic scroll to found messages
- * - Click-outside-to-close functionality for better UX
+ * - Click-outside-to-close functionality while no query is entered
  * - Auto-focus on search bar open for immediate typing
  * - React Hook Form integration for form state management
  *
  * Search Features:
- * - Multi-keyword search with regex pattern matching
+ * - Multi-keyword search; special characters such as "(" or "+" match literally
  * - Case-insensitive search for better user experience
- * - Search targeting with smooth scroll to first match
- * - Form validation and state management
+ * - Search targeting with smooth scroll to the newest match as the user types
+ * - Query kept while stepping through results
  * - Search bar visibility control with animations
  * - Search icon positioning with smooth transitions
  *
@@ -34,9 +39,19 @@
 
 'use client';
 
-import { FullMessageType } from '@/app/types';
-import { Dispatch, SetStateAction, useEffect, useRef } from 'react';
+import { matchesSearchTerms, splitSearchTerms } from '@/app/libs/messageSearch';
+import { ConversationSearchState, FullMessageType } from '@/app/types';
+import {
+  Dispatch,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { FieldValues, SubmitHandler, useForm } from 'react-hook-form';
+import { HiChevronDown, HiChevronUp } from 'react-icons/hi2';
 import { IoSearch } from 'react-icons/io5';
 
 /**
@@ -51,6 +66,7 @@ import { IoSearch } from 'react-icons/io5';
  * @property {() => void} onClose - Callback function to close the search bar
  * @property {FullMessageType[]} messages - Array of messages to search through
  * @property {Dispatch<SetStateAction<string>>} setSearchTargetId - Function to set the target message ID for search targeting
+ * @property {(search: ConversationSearchState) => void} onSearchChange - Reports the terms and current result for highlighting
  */
 interface SearchProps {
   searchBarOpen: boolean;
@@ -58,30 +74,32 @@ interface SearchProps {
   onClose: () => void;
   messages: FullMessageType[];
   setSearchTargetId: Dispatch<SetStateAction<string>>;
+  onSearchChange: (search: ConversationSearchState) => void;
 }
 
 /**
  * Message Search Component
  *
  * A specialized message search component that provides message search functionality
- * with regex-based filtering, smooth animations, and search targeting for our
+ * with literal keyword matching, result navigation, and search targeting for our
  * messaging application. This component implements search features with form
  * integration and user interaction that ensures optimal user experience for
  * finding and navigating to specific messages within conversations.
  *
  * Key Capabilities:
- * - Message search with regex-based keyword filtering
+ * - Message search with literal, case-insensitive keyword matching
+ * - Result counter with next/previous buttons and keyboard shortcuts
  * - Smooth search bar animations with opacity and transform transitions
  * - Search targeting with automatic scroll to found messages
- * - Click-outside-to-close functionality for better UX
+ * - Click-outside-to-close functionality while no query is entered
  * - Auto-focus on search bar open for immediate typing
  * - React Hook Form integration for form state management
  *
  * Search Features:
- * - Multi-keyword search with regex pattern matching
+ * - Multi-keyword search; special characters such as "(" or "+" match literally
  * - Case-insensitive search for better user experience
- * - Search targeting with smooth scroll to first match
- * - Form validation and state management
+ * - Search targeting with smooth scroll to the newest match as the user types
+ * - Query kept while stepping through results
  * - Search bar visibility control with animations
  * - Search icon positioning with smooth transitions
  *
@@ -117,6 +135,7 @@ interface SearchProps {
  * @param {() => void} props.onClose - Callback function to close the search bar
  * @param {FullMessageType[]} props.messages - Array of messages to search through
  * @param {Dispatch<SetStateAction<string>>} props.setSearchTargetId - Function to set the target message ID for search targeting
+ * @param {(search: ConversationSearchState) => void} props.onSearchChange - Reports the terms and current result for highlighting
  * @returns {JSX.Element} Search component with search input and icon
  *
  * @example
@@ -128,6 +147,7 @@ interface SearchProps {
  *   onClose={() => setSearchBarOpen(false)}
  *   messages={messages}
  *   setSearchTargetId={setSearchTargetId}
+ *   onSearchChange={setConversationSearch}
  * />
  *
  * // With search state management
@@ -140,6 +160,7 @@ const Search: React.FC<SearchProps> = ({
   onClose,
   messages,
   setSearchTargetId,
+  onSearchChange,
 }) => {
   /**
    * Search Input Reference
@@ -166,7 +187,8 @@ const Search: React.FC<SearchProps> = ({
    * it provides the DOM access that enables proper focus management
    * and user interaction throughout the search functionality.
    */
-  const inputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
 
   /**
    * React Hook Form Configuration
@@ -200,65 +222,166 @@ const Search: React.FC<SearchProps> = ({
    * it provides the form state management that enables proper search
    * query handling and user interaction throughout the search functionality.
    */
-  const {
-    register,
-    handleSubmit,
-    setValue,
-    formState: { errors },
-  } = useForm<FieldValues>({
+  const { register, handleSubmit, setValue, watch } = useForm<FieldValues>({
     defaultValues: {
       searchQuery: '',
     },
   });
 
   /**
-   * Search Submission Handler
+   * Search Results
    *
-   * Handles search form submission with regex-based message filtering,
-   * search targeting, and form cleanup. This handler provides
-   * complete search functionality with proper message targeting.
+   * Loaded, non-deleted messages containing any term, newest first, so the
+   * first result is the one closest to where the user is reading. Timeline
+   * events are skipped, matching the server-side search. The
+   * current result is tracked by message ID rather than position, so new
+   * messages arriving mid-search do not shift the counter to another hit.
+   */
+  const searchQuery: string = watch('searchQuery') || '';
+  const terms = useMemo(() => splitSearchTerms(searchQuery), [searchQuery]);
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+
+  const results = useMemo(
+    () =>
+      terms.length === 0
+        ? []
+        : messages
+            .filter(
+              (message) =>
+                !message.deletedAt &&
+                message.type !== 'SYSTEM' &&
+                matchesSearchTerms(message.body, terms)
+            )
+            .reverse(),
+    [messages, terms]
+  );
+
+  const activeIndex = results.findIndex(
+    (message) => message.id === activeMessageId
+  );
+
+  /**
+   * Result Navigation
    *
-   * What this handler does:
-   * - Clears search query after submission
-   * - Splits search query into keywords
-   * - Creates regex pattern for multi-keyword search
-   * - Filters messages using case-insensitive regex matching
-   * - Sets search target to first matching message
-   * - Provides search targeting functionality
+   * Moves to the result at `index`, wrapping around at both ends, and
+   * scrolls the message list to it.
    *
-   * Why async for onSubmit:
-   * - Form handling: Proper form submission handling
-   * - Search processing: Efficient search query processing
-   * - User experience: Smooth search interaction
-   * - Performance: Non-blocking search operations
-   * - Integration: Works with React Hook Form submission
+   * @param {number} index - Position in the newest-first result list
+   */
+  const goToResult = useCallback(
+    (index: number) => {
+      if (results.length === 0) {
+        return;
+      }
+
+      const target = results[(index + results.length) % results.length];
+
+      setActiveMessageId(target.id);
+      setSearchTargetId(target.id);
+    },
+    [results, setSearchTargetId]
+  );
+
+  const goToNextResult = useCallback(
+    () => goToResult(activeIndex + 1),
+    [goToResult, activeIndex]
+  );
+
+  const goToPreviousResult = useCallback(
+    () => goToResult(activeIndex < 0 ? 0 : activeIndex - 1),
+    [goToResult, activeIndex]
+  );
+
+  /**
+   * Query Change Handler
    *
-   * Search Logic:
-   * - Query splitting: Splits search query into individual keywords
-   * - Regex creation: Creates case-insensitive regex pattern with OR logic
-   * - Message filtering: Filters messages that contain any of the keywords
-   * - Target setting: Sets first matching message as search target
-   * - Form cleanup: Clears search query after successful search
+   * Jumps to the newest match of the query being typed, like find-in-page.
    *
-   * This search submission handler is essential for our messaging app because
-   * it provides the search functionality that enables users to find
-   * and navigate to specific messages throughout the conversation.
+   * @param {React.ChangeEvent<HTMLInputElement>} event - Input change event
    */
-  const onSubmit: SubmitHandler<FieldValues> = async (data) => {
-    setValue('searchQuery', '', { shouldValidate: true });
+  const handleQueryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const nextTerms = splitSearchTerms(event.target.value);
+    const newestMatch =
+      nextTerms.length > 0
+        ? [...messages]
+            .reverse()
+            .find(
+              (message) =>
+                !message.deletedAt &&
+                message.type !== 'SYSTEM' &&
+                matchesSearchTerms(message.body, nextTerms)
+            )
+        : undefined;
 
-    if (data.searchQuery) {
-      const keywords = data.searchQuery.split(' ');
-      const regexPattern = keywords.join('|');
-      const regex = new RegExp(regexPattern, 'i');
+    setActiveMessageId(newestMatch?.id ?? null);
 
-      let filteredMessages = messages.filter(
-        (message) => message.body && regex.test(message.body)
-      );
+    if (newestMatch) {
+      setSearchTargetId(newestMatch.id);
+    }
+  };
 
-      if (filteredMessages.length != 0) {
-        setSearchTargetId(filteredMessages[0].id);
-      }
+  const { ref: registerRef, ...searchField } = register('searchQuery', {
+    onChange: handleQueryChange,
+  });
+
+  /**
+   * Clear Search
+   *
+   * Empties the query, which also removes the highlights from the messages.
+   */
+  const clearSearch = useCallback(() => {
+    setValue('searchQuery', '');
+    setActiveMessageId(null);
+  }, [setValue]);
+
+  /**
+   * Search State Reporting
+   *
+   * Lets the message list highlight the terms and mark the current result.
+   */
+  useEffect(() => {
+    onSearchChange({ terms, activeMessageId });
+  }, [terms, activeMessageId, onSearchChange]);
+
+  /**
+   * Closed Search Bar Reset
+   *
+   * Closing the bar from the header icon ends the search.
+   */
+  useEffect(() => {
+    if (!searchBarOpen) {
+      clearSearch();
+    }
+  }, [searchBarOpen, clearSearch]);
+
+  /**
+   * Search Submission Handler
+   *
+   * Enter steps to the next (older) result. The query is kept so the user
+   * can keep pressing Enter to walk through every match.
+   */
+  const onSubmit: SubmitHandler<FieldValues> = () => {
+    goToNextResult();
+  };
+
+  /**
+   * Keyboard Shortcuts
+   *
+   * Shift+Enter steps back to the previous (newer) result; Escape clears the
+   * query and closes the search bar.
+   *
+   * @param {React.KeyboardEvent<HTMLInputElement>} event - Key event from the input
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && event.shiftKey) {
+      event.preventDefault();
+      goToPreviousResult();
+    }
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      clearSearch();
+      onClose();
     }
   };
 
@@ -335,8 +458,9 @@ const Search: React.FC<SearchProps> = ({
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (
-        inputRef.current &&
-        !inputRef.current.contains(event.target as Node)
+        formRef.current &&
+        !formRef.current.contains(event.target as Node) &&
+        !inputRef.current?.value
       ) {
         onClose();
       }
@@ -346,10 +470,11 @@ const Search: React.FC<SearchProps> = ({
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [inputRef, onClose]);
+  }, [onClose]);
 
   return (
     <form
+      ref={formRef}
       onSubmit={handleSubmit(onSubmit)}
       className="
         flex
@@ -361,9 +486,8 @@ const Search: React.FC<SearchProps> = ({
       "
     >
       <div
-        id="searchQuery"
-        {...register('searchQuery')}
         className={`
+          relative
           flex
           items-center
           w-full
@@ -374,11 +498,17 @@ const Search: React.FC<SearchProps> = ({
         <input
           id="searchQuery"
           autoComplete="searchQuery"
-          {...register('searchQuery')}
-          ref={inputRef}
+          {...searchField}
+          ref={(element) => {
+            registerRef(element);
+            inputRef.current = element;
+          }}
+          onKeyDown={handleKeyDown}
           placeholder="Search"
+          aria-label="Search this conversation"
           className={`
             pl-10
+            ${terms.length > 0 ? 'pr-36' : 'pr-3'}
             text-gray-800
             bg-gray-100
             font-light
@@ -398,6 +528,48 @@ const Search: React.FC<SearchProps> = ({
           style={{ visibility: searchBarOpen ? 'visible' : 'hidden' }}
         />
 
+        {searchBarOpen && terms.length > 0 && (
+          <div
+            className="
+              absolute
+              right-6
+              top-1/2
+              flex
+              -translate-y-1/2
+              items-center
+              gap-1
+              text-xs
+              text-gray-500
+            "
+          >
+            <span aria-live="polite" className="mr-1 whitespace-nowrap">
+              {results.length === 0
+                ? 'No results'
+                : `${activeIndex + 1} of ${results.length}`}
+            </span>
+            <button
+              type="button"
+              onClick={goToNextResult}
+              disabled={results.length === 0}
+              aria-label="Next result"
+              title="Next result (Enter)"
+              className="rounded p-0.5 hover:bg-gray-200 disabled:opacity-40"
+            >
+              <HiChevronUp size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={goToPreviousResult}
+              disabled={results.length === 0}
+              aria-label="Previous result"
+              title="Previous result (Shift+Enter)"
+              className="rounded p-0.5 hover:bg-gray-200 disabled:opacity-40"
+            >
+              <HiChevronDown size={16} />
+            </button>
+          </div>
+        )}
+
         <div
           className={`
             relative
@@ -0,0 +1,85 @@
+/**
+ * System Message Component for Dex Real-Time Messenger
+ *
+ * This file provides the SystemMessage component for our Next.js 14
+ * real-time messaging application. Events such as members joining, leaving
+ * or renaming the group are part of the timeline but were not written by
+ * anyone, so instead of a chat bubble they get a centered, muted row.
+ *
+ * Key Features:
+ * - Text rendered from the structured event payload
+ * - Time of the event on hover
+ * - Search term highlighting like in MessageBox
+ *
+ * @fileoverview System message component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import HighlightedText from '@/app/components/HighlightedText';
+import { formatSystemEvent } from '@/app/libs/systemEvents';
+import { FullMessageType } from '@/app/types';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+
+/**
+ * System Message Props Interface
+ *
+ * @interface SystemMessageProps
+ * @property {FullMessageType} data - SYSTEM message to render
+ * @property {string[]} [highlightTerms] - Search terms to highlight
+ * @property {boolean} [isSearchResult] - Whether this is the search result currently selected
+ */
+interface SystemMessageProps {
+  data: FullMessageType;
+  highlightTerms?: string[];
+  isSearchResult?: boolean;
+}
+
+/**
+ * System Message Component
+ *
+ * Falls back to the stored body for events without a payload.
+ *
+ * @param {SystemMessageProps} props - Component props
+ * @returns {JSX.Element} Centered event row
+ *
+ * @example
+ * ```tsx
+ * <SystemMessage data={message} highlightTerms={search?.terms} />
+ * ```
+ */
+const SystemMessage: React.FC<SystemMessageProps> = ({
+  data,
+  highlightTerms = [],
+  isSearchResult,
+}) => {
+  const text = data.event ? formatSystemEvent(data.event) : (data.body ?? '');
+
+  return (
+    <div className="flex justify-center px-4 py-2">
+      <p
+        title={format(new Date(data.createdAt), 'PPp')}
+        className={clsx(
+          `
+          max-w-[80%]
+          rounded-full
+          bg-gray-100
+          px-3
+          py-1
+          text-center
+          text-xs
+          text-gray-500
+          `,
+          isSearchResult && 'ring-2 ring-yellow-300 ring-offset-2'
+        )}
+      >
+        <HighlightedText text={text} terms={highlightTerms} />
+      </p>
+    </div>
+  );
+};
+
+export default SystemMessage;
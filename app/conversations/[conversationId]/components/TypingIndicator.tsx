@@ -0,0 +1,74 @@
+/**
+ * Typing Indicator Component for Dex Real-Time Messenger
+ *
+ * This file provides the typing indicator shown above the message form in
+ * our Next.js 14 real-time messaging application. It reads the open
+ * conversation's typists from the useTypingList store, which
+ * useTypingChannels keeps current from the conversation's private channel.
+ *
+ * Key Features:
+ * - "Alice is typing…", "Alice and Bob are typing…", "3 people are typing…"
+ * - Animated dots next to the label
+ * - Nothing rendered while nobody is typing
+ *
+ * @fileoverview Typing indicator component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useConversation from '@/app/hooks/useConversation';
+import useTypingList, { NO_TYPISTS } from '@/app/hooks/useTypingList';
+import { formatTypingLabel } from '@/app/libs/typing';
+
+/**
+ * Typing Indicator Component
+ *
+ * @returns {JSX.Element | null} Typing label, or null when nobody is typing
+ *
+ * @example
+ * ```tsx
+ * // In the conversation page, between Body and Form
+ * <TypingIndicator />
+ * ```
+ */
+const TypingIndicator = () => {
+  const { conversationId } = useConversation();
+  const typists = useTypingList(
+    (state) => state.typists[conversationId] ?? NO_TYPISTS
+  );
+
+  if (typists.length === 0) {
+    return null;
+  }
+
+  const label = formatTypingLabel(
+    typists.map((typist) => typist.name || 'Someone')
+  );
+
+  return (
+    <div
+      aria-live="polite"
+      className="
+        flex
+        items-center
+        gap-2
+        bg-white
+        px-4
+        py-1
+        text-xs
+        text-gray-500
+      "
+    >
+      <span className="flex gap-0.5" aria-hidden="true">
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:-0.3s]" />
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:-0.15s]" />
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" />
+      </span>
+      {label}
+    </div>
+  );
+};
+
+export default TypingIndicator;
@@ -11,6 +11,7 @@
  * - Real-time messaging with Header, Body, and Form components
  * - Comprehensive error handling and loading states
  * - Search functionality with message targeting
+ * - Pinned messages banner under the header
  * - Responsive layout with desktop and mobile optimization
  * - Integration with conversation management system
  *
@@ -38,10 +39,27 @@ import EmptyState from '@/app/components/EmptyState';
 import Header from './components/Header';
 import Body from './components/Body';
 import Form from './components/Form';
-import { useEffect, useState } from 'react';
-import { FullMessageType } from '@/app/types';
+import TypingIndicator from './components/TypingIndicator';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ConversationSearchState,
+  FullMessageType,
+  GroupSettingsUpdate,
+  MembershipUpdate,
+  MessagePage,
+  ReadWatermark,
+} from '@/app/types';
+import axios from 'axios';
+import { useRouter, useSearchParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import { Conversation, User } from '@prisma/client';
 import useConversationCache from '@/app/hooks/useConversationCache';
+import { pusherClient } from '@/app/libs/pusher';
+import { isEmpty, pick } from 'lodash';
+import { useSession } from 'next-auth/react';
+import usePinnedMessages from '@/app/hooks/usePinnedMessages';
+import { canPinMessages, getMemberRole } from '@/app/libs/conversationRoles';
+import PinnedBanner from './components/PinnedBanner';
 
 /**
  * Conversation Page Parameters Interface
@@ -141,10 +159,23 @@ const ConversationId = ({ params }: { params: IParams }) => {
   const {
     getCachedConversation,
     setCachedConversation,
-    getCachedMessages,
-    setCachedMessages,
+    getCachedMessagePages,
+    addCachedMessagePage,
+    clearCachedMessagePages,
   } = useConversationCache();
 
+  /**
+   * Deep Link Target
+   *
+   * Message search results link to /conversations/{id}?messageId={messageId}.
+   * The parameter is consumed once the conversation has loaded and then
+   * removed from the URL, so a refresh does not jump back to the hit.
+   */
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const linkedMessageId = searchParams?.get('messageId') ?? null;
+  const handledLinkRef = useRef<string | null>(null);
+
   /**
    * Message State Management
    *
@@ -172,6 +203,25 @@ const ConversationId = ({ params }: { params: IParams }) => {
    */
   const [messages, setMessages] = useState<FullMessageType[]>([]);
 
+  /**
+   * Older Messages Availability
+   *
+   * Mirrors hasMoreBefore of the oldest loaded page. Body only asks for an
+   * older page while this is true, so scrolling to the very first message
+   * of a conversation stops issuing requests.
+   */
+  const [hasMoreBefore, setHasMoreBefore] = useState(false);
+
+  /**
+   * Newer Messages Availability
+   *
+   * False while the latest page is loaded. It only becomes true after
+   * jumping to a message outside the loaded pages, when the loaded window
+   * ends before the newest message; Body then loads newer pages as the user
+   * scrolls down and holds back live messages until the window reaches the end.
+   */
+  const [hasMoreAfter, setHasMoreAfter] = useState(false);
+
   /**
    * Conversation State Management
    *
@@ -198,9 +248,17 @@ const ConversationId = ({ params }: { params: IParams }) => {
    * user interaction throughout the messaging interface.
    */
   const [conversation, setConversation] = useState<
-    (Conversation & { users: User[] }) | null
+    (Conversation & { users: User[]; readStates: ReadWatermark[] }) | null
   >(null);
 
+  /**
+   * Read Watermark State
+   *
+   * Seeded from the conversation and kept current by Body, which replaces it
+   * with the seen route's response and applies message:seen broadcasts.
+   */
+  const [readStates, setReadStates] = useState<ReadWatermark[]>([]);
+
   /**
    * Search Target State Management
    *
@@ -228,6 +286,49 @@ const ConversationId = ({ params }: { params: IParams }) => {
    */
   const [searchTargetId, setSearchTargetId] = useState<string>('');
 
+  /**
+   * In-Conversation Search State
+   *
+   * Reported by the header search bar and handed to Body, which highlights
+   * the terms in message bubbles and marks the result the counter points at.
+   */
+  const [conversationSearch, setConversationSearch] =
+    useState<ConversationSearchState>({ terms: [], activeMessageId: null });
+
+  /**
+   * Reply Target State Management
+   *
+   * Holds the message the user chose to reply to. Body sets it from the
+   * message actions menu and Form shows it as a preview above the input,
+   * sending its id with the next message and clearing it afterwards.
+   */
+  const [replyTo, setReplyTo] = useState<FullMessageType | null>(null);
+
+  /**
+   * Reply Target Reset
+   *
+   * A pending reply belongs to the conversation it was started in, so it is
+   * dropped whenever the user switches to another conversation.
+   */
+  useEffect(() => {
+    setReplyTo(null);
+  }, [params.conversationId]);
+
+  /**
+   * Pinned Messages
+   *
+   * Shared by the banner and the profile drawer. Whether the pin actions are
+   * offered follows the current user's role, which the pin route enforces.
+   */
+  const session = useSession();
+  const pinnedMessages = usePinnedMessages(params.conversationId);
+  const currentUser = conversation?.users.find(
+    (user) => user.email === session.data?.user?.email
+  );
+  const canPin =
+    !!conversation &&
+    canPinMessages(getMemberRole(conversation, currentUser?.id));
+
   /**
    * Loading State Management
    *
@@ -337,12 +438,15 @@ const ConversationId = ({ params }: { params: IParams }) => {
 
         // Check cache first for better performance
         const cachedConversation = getCachedConversation(params.conversationId);
-        const cachedMessages = getCachedMessages(params.conversationId);
+        const cachedPages = getCachedMessagePages(params.conversationId);
 
         // If both are cached, use cached data immediately
-        if (cachedConversation && cachedMessages) {
+        if (cachedConversation && cachedPages) {
           setConversation(cachedConversation);
-          setMessages(cachedMessages);
+          setReadStates(cachedConversation.readStates ?? []);
+          setMessages(cachedPages.flatMap((page) => page.messages));
+          setHasMoreBefore(cachedPages[0].hasMoreBefore);
+          setHasMoreAfter(cachedPages[cachedPages.length - 1].hasMoreAfter);
           setIsLoading(false);
           return;
         }
@@ -360,7 +464,7 @@ const ConversationId = ({ params }: { params: IParams }) => {
           );
         }
 
-        if (!cachedMessages) {
+        if (!cachedPages) {
           promises.push(
             fetch(`/api/messages/${params.conversationId}`).then((res) => {
               if (!res.ok)
@@ -374,7 +478,7 @@ const ConversationId = ({ params }: { params: IParams }) => {
         const results = await Promise.all(promises);
 
         let fetchedConversation = cachedConversation;
-        let fetchedMessages = cachedMessages;
+        let fetchedPages = cachedPages;
 
         // Assign fetched data based on what was missing
         let resultIndex = 0;
@@ -382,8 +486,8 @@ const ConversationId = ({ params }: { params: IParams }) => {
           fetchedConversation = results[resultIndex];
           resultIndex++;
         }
-        if (!cachedMessages) {
-          fetchedMessages = results[resultIndex];
+        if (!cachedPages) {
+          fetchedPages = [results[resultIndex] as MessagePage];
         }
 
         // Cache the fetched data
@@ -391,16 +495,19 @@ const ConversationId = ({ params }: { params: IParams }) => {
           setCachedConversation(params.conversationId, fetchedConversation);
         }
 
-        if (!cachedMessages && fetchedMessages) {
-          setCachedMessages(params.conversationId, fetchedMessages);
+        if (!cachedPages && fetchedPages) {
+          addCachedMessagePage(params.conversationId, fetchedPages[0]);
         }
 
         // Update state with the data
         if (fetchedConversation) {
           setConversation(fetchedConversation);
+          setReadStates(fetchedConversation.readStates ?? []);
         }
-        if (fetchedMessages) {
-          setMessages(fetchedMessages);
+        if (fetchedPages) {
+          setMessages(fetchedPages.flatMap((page) => page.messages));
+          setHasMoreBefore(fetchedPages[0].hasMoreBefore);
+          setHasMoreAfter(false);
         }
       } catch (error) {
         const errorMessage =
@@ -416,7 +523,10 @@ const ConversationId = ({ params }: { params: IParams }) => {
 
         // Reset state on error
         setConversation(null);
+        setReadStates([]);
         setMessages([]);
+        setHasMoreBefore(false);
+        setHasMoreAfter(false);
       } finally {
         setIsLoading(false);
       }
@@ -426,8 +536,206 @@ const ConversationId = ({ params }: { params: IParams }) => {
     params.conversationId,
     getCachedConversation,
     setCachedConversation,
-    getCachedMessages,
-    setCachedMessages,
+    getCachedMessagePages,
+    addCachedMessagePage,
+  ]);
+
+  /**
+   * Live Group Details
+   *
+   * Members being added, removed or given new roles, and changes to the
+   * group's name, photo or description, arrive as conversation:update on the
+   * user's personal channel, which ConversationList keeps subscribed; the
+   * header, drawer and cache pick up whichever fields were sent from here.
+   */
+  useEffect(() => {
+    const updateHandler = (
+      update: Pick<MembershipUpdate, 'id'> &
+        Partial<MembershipUpdate & GroupSettingsUpdate>
+    ) => {
+      const changes = pick(update, [
+        'users',
+        'ownerId',
+        'adminIds',
+        'name',
+        'image',
+        'description',
+      ]);
+
+      if (update.id !== params.conversationId || isEmpty(changes)) {
+        return;
+      }
+
+      setConversation((current) => {
+        if (!current) {
+          return current;
+        }
+
+        const updated = { ...current, ...changes };
+        setCachedConversation(params.conversationId, updated);
+
+        return updated;
+      });
+    };
+
+    pusherClient.bind('conversation:update', updateHandler);
+
+    return () => {
+      pusherClient.unbind('conversation:update', updateHandler);
+    };
+  }, [params.conversationId, setCachedConversation]);
+
+  /**
+   * Older Page Loader
+   *
+   * Fetches the page before the oldest loaded message and prepends it. Body
+   * calls this when the user scrolls near the top and takes care of keeping
+   * the scroll position steady while the page is inserted. Messages that
+   * already arrived through Pusher are skipped, so overlapping pages never
+   * produce duplicates.
+   */
+  const loadOlderMessages = useCallback(async () => {
+    const oldestMessage = messages[0];
+
+    if (!hasMoreBefore || !oldestMessage) {
+      return;
+    }
+
+    const { data: page } = await axios.get<MessagePage>(
+      `/api/messages/${params.conversationId}`,
+      { params: { before: oldestMessage.id } }
+    );
+
+    addCachedMessagePage(params.conversationId, page, 'older');
+    setMessages((current) => {
+      const loadedIds = new Set(current.map((message) => message.id));
+
+      return [
+        ...page.messages.filter((message) => !loadedIds.has(message.id)),
+        ...current,
+      ];
+    });
+    setHasMoreBefore(page.hasMoreBefore);
+  }, [messages, hasMoreBefore, params.conversationId, addCachedMessagePage]);
+
+  /**
+   * Newer Page Loader
+   *
+   * Counterpart of loadOlderMessages for a window opened around a search
+   * hit: fetches the page after the newest loaded message and appends it.
+   */
+  const loadNewerMessages = useCallback(async () => {
+    const newestMessage = messages[messages.length - 1];
+
+    if (!hasMoreAfter || !newestMessage) {
+      return;
+    }
+
+    const { data: page } = await axios.get<MessagePage>(
+      `/api/messages/${params.conversationId}`,
+      { params: { after: newestMessage.id } }
+    );
+
+    addCachedMessagePage(params.conversationId, page, 'newer');
+    setMessages((current) => {
+      const loadedIds = new Set(current.map((message) => message.id));
+
+      return [
+        ...current,
+        ...page.messages.filter((message) => !loadedIds.has(message.id)),
+      ];
+    });
+    setHasMoreAfter(page.hasMoreAfter);
+  }, [messages, hasMoreAfter, params.conversationId, addCachedMessagePage]);
+
+  /**
+   * Loaded Window Replacement
+   *
+   * Swaps the loaded messages (and their cached pages) for a single page,
+   * used when jumping to a distant message or back to the latest messages.
+   *
+   * @param {MessagePage} page - Page that becomes the only loaded page
+   */
+  const replaceLoadedPages = useCallback(
+    (page: MessagePage) => {
+      clearCachedMessagePages(params.conversationId);
+      addCachedMessagePage(params.conversationId, page);
+      setMessages(page.messages);
+      setHasMoreBefore(page.hasMoreBefore);
+      setHasMoreAfter(page.hasMoreAfter);
+    },
+    [params.conversationId, clearCachedMessagePages, addCachedMessagePage]
+  );
+
+  /**
+   * Jump To Message
+   *
+   * Scrolls to a message through the searchTargetId flow. When the message
+   * is not among the loaded pages, the window around it is fetched first and
+   * replaces them, so search hits and quotes of old messages always resolve.
+   *
+   * @param {string} messageId - Message to scroll to
+   */
+  const jumpToMessage = useCallback(
+    async (messageId: string) => {
+      if (messages.some((message) => message.id === messageId)) {
+        setSearchTargetId(messageId);
+        return;
+      }
+
+      try {
+        const { data: page } = await axios.get<MessagePage>(
+          `/api/messages/${params.conversationId}`,
+          { params: { around: messageId } }
+        );
+
+        replaceLoadedPages(page);
+        setSearchTargetId(messageId);
+      } catch (error) {
+        toast.error('Message is no longer available');
+      }
+    },
+    [messages, params.conversationId, replaceLoadedPages]
+  );
+
+  /**
+   * Jump To Latest
+   *
+   * Replaces a window opened around an older message with the latest page.
+   */
+  const jumpToLatest = useCallback(async () => {
+    const { data: page } = await axios.get<MessagePage>(
+      `/api/messages/${params.conversationId}`
+    );
+
+    replaceLoadedPages(page);
+  }, [params.conversationId, replaceLoadedPages]);
+
+  /**
+   * Deep Link Handling
+   *
+   * Runs once per linked message after the initial load, then drops the
+   * query parameter from the URL.
+   */
+  useEffect(() => {
+    if (!linkedMessageId) {
+      handledLinkRef.current = null;
+      return;
+    }
+
+    if (isLoading || handledLinkRef.current === linkedMessageId) {
+      return;
+    }
+
+    handledLinkRef.current = linkedMessageId;
+    jumpToMessage(linkedMessageId);
+    router.replace(`/conversations/${params.conversationId}`);
+  }, [
+    isLoading,
+    linkedMessageId,
+    jumpToMessage,
+    router,
+    params.conversationId,
   ]);
 
   /**
@@ -602,6 +910,7 @@ const ConversationId = ({ params }: { params: IParams }) => {
    * - Responsive layout with sidebar spacing (lg:pl-80)
    * - Header component with conversation metadata and search functionality
    * - Body component with message display and real-time updates
+   * - Typing indicator for other participants composing a reply
    * - Form component with message composition and sending
    * - Full height layout for proper positioning
    *
@@ -631,14 +940,35 @@ const ConversationId = ({ params }: { params: IParams }) => {
           conversation={conversation}
           messages={messages}
           setSearchTargetId={setSearchTargetId}
+          onSearchChange={setConversationSearch}
+          pinnedMessages={pinnedMessages}
+          canPin={canPin}
+          onJumpToMessage={jumpToMessage}
+        />
+        <PinnedBanner
+          pinnedMessages={pinnedMessages}
+          onJumpToMessage={jumpToMessage}
         />
         <Body
           messages={messages}
           setMessages={setMessages}
+          readStates={readStates}
+          setReadStates={setReadStates}
           setSearchTargetId={setSearchTargetId}
           searchTargetId={searchTargetId}
+          onReply={setReplyTo}
+          hasMoreBefore={hasMoreBefore}
+          onLoadOlder={loadOlderMessages}
+          hasMoreAfter={hasMoreAfter}
+          onLoadNewer={loadNewerMessages}
+          onJumpToMessage={jumpToMessage}
+          onJumpToLatest={jumpToLatest}
+          search={conversationSearch}
+          canPin={canPin}
+          currentUser={currentUser}
         />
-        <Form />
+        <TypingIndicator />
+        <Form replyTo={replyTo} onCancelReply={() => setReplyTo(null)} />
       </div>
     </div>
   );
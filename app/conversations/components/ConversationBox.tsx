@@ -9,10 +9,13 @@
  * Key Features:
  * - Individual conversation display with navigation functionality
  * - Read receipt tracking and visual indicators
+ * - "typing…" hint in place of the preview while someone is typing
+ * - "Draft: …" in red in place of the preview while the user has a draft
  * - Group and direct conversation support with Avatar/AvatarGroup
  * - Last message display with timestamp formatting
  * - Responsive design with hover states and selection indicators
  * - User session management with NextAuth.js integration
+ * - Unread message count badge from the unread counts store
  *
  * Conversation Display Features:
  * - Conversation navigation: Click-to-navigate conversation selection
@@ -43,6 +46,13 @@ import { FullConversationType } from '@/app/types';
 import useOtherUser from '@/app/hooks/useOtherUser';
 import Avatar from '@/app/components/Avatar';
 import AvatarGroup from '@/app/components/AvatarGroup';
+import UnreadBadge from '@/app/components/UnreadBadge';
+import useUnreadCounts from '@/app/hooks/useUnreadCounts';
+import { hasSeenMessage } from '@/app/libs/seenReceipts';
+import useTypingList, { NO_TYPISTS } from '@/app/hooks/useTypingList';
+import useDrafts from '@/app/hooks/useDrafts';
+import { formatTypingLabel } from '@/app/libs/typing';
+import { formatSystemEvent, getMessageType } from '@/app/libs/systemEvents';
 
 /**
  * Conversation Box Props Interface
@@ -75,6 +85,7 @@ interface ConversationBoxProps {
  * - Last message display with timestamp formatting
  * - Responsive design with hover states and selection indicators
  * - User session management with NextAuth.js integration
+ * - Unread message count badge from the unread counts store
  *
  * Conversation Display Features:
  * - Conversation navigation: Click-to-navigate conversation selection
@@ -253,7 +264,7 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
    * - Last message object from conversation messages array
    * - Message content for preview display
    * - Message timestamp for time display
-   * - Message read receipt data for status tracking
+   * - Message time and sender for the read watermark check
    * - Performance optimization with useMemo
    *
    * Why useMemo for lastMessage:
@@ -318,9 +329,8 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
    *
    * Read Receipt Logic:
    * - Checks if last message exists
-   * - Extracts seen array from last message
-   * - Verifies current user email is available
-   * - Filters seen array for current user email
+   * - Own messages always count as seen
+   * - Otherwise compares the message time with the user's read watermark
    * - Returns true if user has seen the message
    *
    * Why useMemo for hasSeen:
@@ -339,14 +349,49 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
       return false;
     }
 
-    const seenArray = lastMessage.seen || [];
+    const userId = data.users.find((user) => user.email === userEmail)?.id;
 
-    if (!userEmail) {
-      return false;
+    return hasSeenMessage(lastMessage, data.readStates || [], userId);
+  }, [userEmail, lastMessage, data.readStates, data.users]);
+
+  /**
+   * Unread Count
+   *
+   * Maintained server-side per user and conversation, so unlike hasSeen it
+   * counts every message received since the conversation was last opened.
+   */
+  const unreadCount = useUnreadCounts((state) => state.counts[data.id] ?? 0);
+
+  /**
+   * Typing Hint
+   *
+   * Replaces the preview while someone is typing. Direct conversations only
+   * have one other person, so their name is left out there.
+   */
+  const typists = useTypingList(
+    (state) => state.typists[data.id] ?? NO_TYPISTS
+  );
+
+  const typingText = useMemo(() => {
+    if (typists.length === 0) {
+      return null;
     }
 
-    return seenArray.filter((user) => user.email === userEmail).length !== 0;
-  }, [userEmail, lastMessage]);
+    if (!data.isGroup) {
+      return 'typing…';
+    }
+
+    return formatTypingLabel(typists.map((typist) => typist.name || 'Someone'));
+  }, [typists, data.isGroup]);
+
+  /**
+   * Draft Preview
+   *
+   * The user's unsent text, shown instead of the last message. Hidden for
+   * the open conversation, where the draft is already in the input.
+   */
+  const draft = useDrafts((state) => state.drafts[data.id]?.body.trim());
+  const draftText = draft && !selected ? draft : null;
 
   /**
    * Last Message Text Display
@@ -363,6 +408,8 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
    * - Performance optimization with useMemo
    *
    * Message Text Logic:
+   * - Deleted messages: "Message deleted" for tombstones
+   * - System events: the event itself, e.g. "Alice added Bob"
    * - Image messages: "Sent an Image" for image content
    * - Text messages: Message body content for text messages
    * - Empty conversations: "Started a conversation" fallback
@@ -381,7 +428,15 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
    * content and activity at a glance without opening the conversation.
    */
   const lastMessageText = useMemo(() => {
-    if (lastMessage?.image) {
+    if (lastMessage?.deletedAt) {
+      return 'Message deleted';
+    }
+
+    if (lastMessage?.type === 'SYSTEM' && lastMessage.event) {
+      return formatSystemEvent(lastMessage.event);
+    }
+
+    if (lastMessage && getMessageType(lastMessage) === 'IMAGE') {
       return 'Sent an Image';
     }
 
@@ -412,7 +467,7 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
       )}
     >
       {data.isGroup ? (
-        <AvatarGroup users={data.users} />
+        <AvatarGroup users={data.users} image={data.image} />
       ) : (
         <Avatar user={otherUser} />
       )}
@@ -447,17 +502,32 @@ const ConversationBox: React.FC<ConversationBoxProps> = ({
               </p>
             )}
           </div>
-          <p
-            className={clsx(
-              `
-              truncate
-              text-sm
-            `,
-              hasSeen ? 'text-gray-500' : 'text-black font-medium'
+          <div className="flex items-center justify-between gap-2">
+            {typingText ? (
+              <p className="truncate text-sm italic text-sky-500">
+                {typingText}
+              </p>
+            ) : draftText ? (
+              <p className="truncate text-sm text-rose-500">
+                Draft: {draftText}
+              </p>
+            ) : (
+              <p
+                className={clsx(
+                  `
+                  truncate
+                  text-sm
+                `,
+                  hasSeen && unreadCount === 0
+                    ? 'text-gray-500'
+                    : 'text-black font-medium'
+                )}
+              >
+                {lastMessageText}
+              </p>
             )}
-          >
-            {lastMessageText}
-          </p>
+            <UnreadBadge count={unreadCount} className="shrink-0" />
+          </div>
         </div>
       </div>
     </div>
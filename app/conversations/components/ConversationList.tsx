@@ -13,11 +13,13 @@
  * - Conversation state management with useConversation hook
  * - Conversation display with ConversationBox components
  * - User session management with NextAuth.js integration
+ * - Server-side message search across all conversations via MessageSearch
  *
  * Real-Time Features:
  * - Conversation creation: Real-time new conversation updates
  * - Conversation updates: Real-time message updates and changes
  * - Conversation removal: Real-time conversation deletion
+ * - Typing: Private conversation channels feeding the typing indicators
  * - Pusher integration: WebSocket-based real-time communication
  * - State synchronization: Automatic UI updates from server events
  *
@@ -34,17 +36,20 @@
 'use client';
 
 import useConversation from '@/app/hooks/useConversation';
-import { FullConversationType } from '@/app/types';
+import { FullConversationType, SeenUpdate } from '@/app/types';
 import clsx from 'clsx';
 import { useRouter } from 'next/navigation';
 import { useEffect, useMemo, useState } from 'react';
 import { MdOutlineGroupAdd } from 'react-icons/md';
 import ConversationBox from './ConversationBox';
 import GroupChatModal from './GroupChatModal';
+import MessageSearch from './MessageSearch';
 import { User } from '@prisma/client';
 import { useSession } from 'next-auth/react';
 import { pusherClient } from '@/app/libs/pusher';
-import { find } from 'lodash';
+import { find, pick } from 'lodash';
+import { applySeenUpdate } from '@/app/libs/seenReceipts';
+import useTypingChannels from '@/app/hooks/useTypingChannels';
 
 /**
  * Conversation List Props Interface
@@ -296,6 +301,16 @@ const ConversationList: React.FC<ConversationListProps> = ({
     return session.data?.user?.email;
   }, [session.data?.user?.email]);
 
+  /**
+   * Typing Channels
+   *
+   * Listens for typing on every listed conversation, which feeds both the
+   * previews in this list and the indicator of the open conversation.
+   */
+  const conversationIds = useMemo(() => items.map((item) => item.id), [items]);
+
+  useTypingChannels(conversationIds);
+
   /**
    * Real-Time Conversation Updates
    *
@@ -381,6 +396,7 @@ const ConversationList: React.FC<ConversationListProps> = ({
      * - Receives conversation:update events from Pusher
      * - Finds the conversation to update by ID
      * - Updates the conversation with new message data
+     * - Applies the user's read watermark from the seen route
      * - Preserves other conversation properties
      * - Updates UI with new conversation data immediately
      *
@@ -395,13 +411,42 @@ const ConversationList: React.FC<ConversationListProps> = ({
      * it provides the real-time conversation updates that enable users to
      * see conversation changes immediately without manual refresh.
      */
-    const updateHandler = (conversation: FullConversationType) => {
+    const updateHandler = (
+      conversation: Pick<FullConversationType, 'id'> &
+        Partial<
+          Pick<
+            FullConversationType,
+            | 'messages'
+            | 'users'
+            | 'ownerId'
+            | 'adminIds'
+            | 'name'
+            | 'image'
+            | 'description'
+          >
+        > & {
+          seen?: SeenUpdate;
+        }
+    ) => {
       setItems((current) =>
         current.map((currentConversation) => {
           if (currentConversation.id === conversation.id) {
+            // Seen updates carry the user's new watermark, membership changes
+            // the new member list and roles, settings changes the group's
+            // details, instead of messages
             return {
               ...currentConversation,
-              messages: conversation.messages,
+              ...pick(conversation, ['name', 'image', 'description']),
+              messages: conversation.messages ?? currentConversation.messages,
+              users: conversation.users ?? currentConversation.users,
+              ownerId: conversation.ownerId ?? currentConversation.ownerId,
+              adminIds: conversation.adminIds ?? currentConversation.adminIds,
+              readStates: conversation.seen
+                ? applySeenUpdate(
+                    currentConversation.readStates || [],
+                    conversation.seen
+                  )
+                : currentConversation.readStates,
             };
           }
 
@@ -531,13 +576,15 @@ const ConversationList: React.FC<ConversationListProps> = ({
               <MdOutlineGroupAdd size={20} />
             </div>
           </div>
-          {items.map((item) => (
-            <ConversationBox
-              key={item.id}
-              data={item}
-              selected={conversationId === item.id}
-            />
-          ))}
+          <MessageSearch>
+            {items.map((item) => (
+              <ConversationBox
+                key={item.id}
+                data={item}
+                selected={conversationId === item.id}
+              />
+            ))}
+          </MessageSearch>
         </div>
       </aside>
     </>
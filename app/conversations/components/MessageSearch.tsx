@@ -0,0 +1,244 @@
+/**
+ * Message Search Component for Dex Real-Time Messenger
+ *
+ * This file provides the sidebar message search for our Next.js 14 real-time
+ * messaging application. It queries the server-side /api/search endpoint
+ * across every conversation the user belongs to and shows ranked results in
+ * place of the conversation list while a query is entered.
+ *
+ * Key Features:
+ * - Debounced search as the user types, with stale responses discarded
+ * - Operator hints for from:, in:, has:image, before: and after:
+ * - Result rows with sender avatar, conversation name, date and highlighted snippet
+ * - Opening a result navigates to the conversation scrolled to the hit,
+ *   loading the surrounding messages when the hit is not loaded yet
+ * - Conversation list rendered unchanged when the query is empty
+ *
+ * @fileoverview Message search component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Avatar from '@/app/components/Avatar';
+import HighlightedText from '@/app/components/HighlightedText';
+import { MessageSearchResponse, MessageSearchResult } from '@/app/types';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { HiXMark } from 'react-icons/hi2';
+import { IoSearch } from 'react-icons/io5';
+
+/**
+ * Debounce Delay
+ *
+ * Milliseconds to wait after the last keystroke before querying the server.
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Message Search Props Interface
+ *
+ * @interface MessageSearchProps
+ * @property {React.ReactNode} children - Content shown while no query is entered
+ */
+interface MessageSearchProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Message Search Component
+ *
+ * @param {MessageSearchProps} props - Component props for the sidebar search
+ * @returns {JSX.Element} Search input with either results or the wrapped content
+ *
+ * @example
+ * ```tsx
+ * <MessageSearch>
+ *   {items.map((item) => (
+ *     <ConversationBox key={item.id} data={item} />
+ *   ))}
+ * </MessageSearch>
+ * ```
+ */
+const MessageSearch: React.FC<MessageSearchProps> = ({ children }) => {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<MessageSearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  const trimmedQuery = query.trim();
+
+  /**
+   * Debounced Server Search
+   *
+   * Each keystroke cancels the pending timer and any request in flight, so
+   * only the response for the latest query is ever shown.
+   */
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResponse(null);
+      setIsLoading(false);
+      setError(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    const timeout = setTimeout(() => {
+      axios
+        .get<MessageSearchResponse>('/api/search', {
+          params: { q: trimmedQuery },
+          signal: controller.signal,
+        })
+        .then(({ data }) => {
+          setResponse(data);
+          setError(false);
+        })
+        .catch((requestError) => {
+          if (!axios.isCancel(requestError)) {
+            setResponse(null);
+            setError(true);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setIsLoading(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  /**
+   * Result Navigation
+   *
+   * The conversation page reads messageId from the URL and feeds it into
+   * the same setSearchTargetId flow used by in-conversation search.
+   */
+  const openResult = useCallback(
+    (result: MessageSearchResult) => {
+      router.push(
+        `/conversations/${result.conversation.id}?messageId=${result.message.id}`
+      );
+    },
+    [router]
+  );
+
+  return (
+    <>
+      <div className="relative mb-3">
+        <IoSearch
+          size={18}
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+        />
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') {
+              setQuery('');
+            }
+          }}
+          placeholder="Search messages"
+          aria-label="Search messages"
+          className="
+            w-full
+            rounded-2xl
+            bg-gray-100
+            py-2
+            pl-9
+            pr-9
+            text-sm
+            font-light
+            text-gray-800
+            focus:outline-none
+            [&::-webkit-search-cancel-button]:hidden
+          "
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => setQuery('')}
+            aria-label="Clear search"
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          >
+            <HiXMark size={18} />
+          </button>
+        )}
+      </div>
+      {!trimmedQuery ? (
+        children
+      ) : (
+        <div className="flex flex-col gap-1">
+          <p className="px-1 pb-2 text-xs text-gray-400">
+            Try from:name, in:conversation, has:image, before:2025-01-31 or
+            after:2025-01-01
+          </p>
+          {isLoading && !response && (
+            <p className="px-1 py-4 text-sm text-gray-500">Searching…</p>
+          )}
+          {error && (
+            <p className="px-1 py-4 text-sm text-rose-500">
+              Search failed. Please try again.
+            </p>
+          )}
+          {response && response.results.length === 0 && !isLoading && (
+            <p className="px-1 py-4 text-sm text-gray-500">No messages found</p>
+          )}
+          {response?.results.map((result) => (
+            <button
+              key={result.message.id}
+              type="button"
+              onClick={() => openResult(result)}
+              className="
+                flex
+                w-full
+                items-start
+                gap-3
+                rounded-lg
+                p-3
+                text-left
+                hover:bg-neutral-100
+                transition
+              "
+            >
+              <Avatar user={result.message.sender} />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate text-sm font-medium text-gray-900">
+                    {result.message.sender.name}
+                    <span className="font-light text-gray-500">
+                      {' in '}
+                      {result.conversation.name}
+                    </span>
+                  </p>
+                  <p className="shrink-0 text-xs font-light text-gray-400">
+                    {format(new Date(result.message.createdAt), 'PP')}
+                  </p>
+                </div>
+                <p className="line-clamp-2 text-sm text-gray-600">
+                  <HighlightedText
+                    text={result.snippet}
+                    terms={response.terms}
+                  />
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MessageSearch;
@@ -36,6 +36,7 @@ import { useEffect, useState } from 'react';
 import useActiveList from './useActiveList';
 import { Channel, Members } from 'pusher-js';
 import { pusherClient } from '../libs/pusher';
+import { PRESENCE_CHANNEL } from '../libs/lastSeen';
 
 /**
  * Real-Time Presence Channel Hook
@@ -216,7 +217,7 @@ const useActiveChannel = () => {
     let channel = activeChannel;
 
     if (!channel) {
-      channel = pusherClient.subscribe('presence-dex-messenger');
+      channel = pusherClient.subscribe(PRESENCE_CHANNEL);
       setActiveChannel(channel);
     }
 
@@ -343,7 +344,7 @@ const useActiveChannel = () => {
      */
     return () => {
       if (activeChannel) {
-        pusherClient.unsubscribe('presence-dex-messenger');
+        pusherClient.unsubscribe(PRESENCE_CHANNEL);
         setActiveChannel(null);
       }
     };
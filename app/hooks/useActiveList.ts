@@ -13,6 +13,7 @@
  * - Type-safe user ID management with string array storage
  * - Performance optimization with immutable state updates
  * - Integration with Avatar components for online status indicators
+ * - Local record of when watched users went offline, for "Last seen" labels
  *
  * Active User List Usage Patterns:
  * - useActiveChannel: Real-time presence event handling and user list updates
@@ -41,12 +42,14 @@ import { create } from 'zustand';
  *
  * @interface ActiveListStore
  * @property {string[]} members - Array of active user IDs (email addresses)
+ * @property {Record<string, number>} lastSeen - When users left the list while this client watched, keyed by email
  * @property {(id: string) => void} add - Function to add a user ID to the active list
  * @property {(id: string) => void} remove - Function to remove a user ID from the active list
  * @property {(ids: string[]) => void} set - Function to set the entire active user list
  */
 interface ActiveListStore {
   members: string[];
+  lastSeen: Record<string, number>;
   add: (id: string) => void;
   remove: (id: string) => void;
   set: (ids: string[]) => void;
@@ -152,6 +155,14 @@ const useActiveList = create<ActiveListStore>((set) => ({
    */
   members: [],
 
+  /**
+   * Locally Observed Last Seen Times
+   *
+   * The stored lastSeenAt only reaches this client on the next page load,
+   * so the moment a watched user drops out is kept here in the meantime.
+   */
+  lastSeen: {},
+
   /**
    * Add User to Active List
    *
@@ -194,6 +205,7 @@ const useActiveList = create<ActiveListStore>((set) => ({
    *
    * What this does:
    * - Removes user ID: Filters out user ID from members array
+   * - Last seen: Records the current time for the user
    * - Immutable update: Creates new array to prevent state mutation
    * - Real-time sync: Updates active list when user goes offline
    * - Performance: Efficient array filter operation
@@ -216,6 +228,7 @@ const useActiveList = create<ActiveListStore>((set) => ({
   remove: (id) =>
     set((state) => ({
       members: state.members.filter((memberId) => memberId !== id),
+      lastSeen: { ...state.lastSeen, [id]: Date.now() },
     })),
 
   /**
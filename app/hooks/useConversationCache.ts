@@ -14,7 +14,7 @@
  *
  * Cache Features:
  * - Conversation data caching with user information
- * - Message data caching with sender and read receipt data
+ * - Message caching as an ordered list of cursor pages, not one flat array
  * - TTL-based expiration (5 minutes for conversations, 2 minutes for messages)
  * - Automatic cache cleanup and memory management
  * - Cache hit/miss tracking for performance monitoring
@@ -32,7 +32,7 @@
 
 import { useCallback, useRef } from 'react';
 import { Conversation, User } from '@prisma/client';
-import { FullMessageType } from '@/app/types';
+import { MessagePage, ReadWatermark } from '@/app/types';
 
 /**
  * Cache Entry Interface
@@ -66,7 +66,8 @@ interface CacheEntry<T> {
  *
  * Cache Types:
  * - Conversations: Cached conversation data with user information
- * - Messages: Cached message data with sender and read receipt information
+ * - Messages: Cached message pages, oldest page first, as returned by the
+ *   cursor-paginated messages API
  * - TTL Management: Different TTL values for different data types
  * - Memory Management: Automatic cleanup of expired entries
  *
@@ -91,7 +92,7 @@ interface CacheEntry<T> {
  *
  * @example
  * ```tsx
- * const { getCachedConversation, setCachedConversation, getCachedMessages, setCachedMessages } = useConversationCache();
+ * const { getCachedConversation, setCachedConversation, getCachedMessagePages, addCachedMessagePage } = useConversationCache();
  *
  * // Cache conversation data
  * setCachedConversation('conv-123', conversationData);
@@ -103,6 +104,9 @@ interface CacheEntry<T> {
  * } else {
  *   // Fetch from API
  * }
+ *
+ * // Cache an older page loaded while scrolling up
+ * addCachedMessagePage('conv-123', olderPage, 'older');
  * ```
  */
 const useConversationCache = () => {
@@ -115,28 +119,33 @@ const useConversationCache = () => {
    *
    * Cache Structure:
    * - Key: conversationId (string)
-   * - Value: CacheEntry<Conversation & { users: User[] }>
+   * - Value: CacheEntry<Conversation & { users: User[]; readStates: ReadWatermark[] }>
    * - TTL: 5 minutes (300,000ms) for conversation data
    * - Automatic cleanup: Expired entries are removed on access
    */
   const conversationCache = useRef<
-    Map<string, CacheEntry<Conversation & { users: User[] }>>
+    Map<
+      string,
+      CacheEntry<Conversation & { users: User[]; readStates: ReadWatermark[] }>
+    >
   >(new Map());
 
   /**
-   * Messages Cache Storage
+   * Message Pages Cache Storage
    *
-   * Stores message data with TTL functionality using a Map for efficient
-   * key-value operations. This cache provides fast access to message data
-   * while maintaining data freshness through TTL expiration.
+   * Stores the pages of a conversation's timeline that have been loaded so
+   * far, oldest page first. Keeping pages rather than one merged array lets
+   * the page boundaries and their hasMoreBefore/hasMoreAfter flags survive
+   * a cache hit, so infinite scrolling resumes exactly where it stopped.
    *
    * Cache Structure:
    * - Key: conversationId (string)
-   * - Value: CacheEntry<FullMessageType[]>
-   * - TTL: 2 minutes (120,000ms) for message data
+   * - Value: CacheEntry<MessagePage[]>
+   * - TTL: 2 minutes (120,000ms), counted from the first cached page so all
+   *   pages of a conversation expire together
    * - Automatic cleanup: Expired entries are removed on access
    */
-  const messagesCache = useRef<Map<string, CacheEntry<FullMessageType[]>>>(
+  const messagesCache = useRef<Map<string, CacheEntry<MessagePage[]>>>(
     new Map()
   );
 
@@ -185,10 +194,14 @@ const useConversationCache = () => {
    * data freshness through TTL validation.
    *
    * @param {string} conversationId - The conversation ID to retrieve
-   * @returns {Conversation & { users: User[] } | null} Cached conversation data or null if not found/expired
+   * @returns {Conversation & { users: User[]; readStates: ReadWatermark[] } | null} Cached conversation data or null if not found/expired
    */
   const getCachedConversation = useCallback(
-    (conversationId: string): (Conversation & { users: User[] }) | null => {
+    (
+      conversationId: string
+    ):
+      | (Conversation & { users: User[]; readStates: ReadWatermark[] })
+      | null => {
       cleanupExpiredEntries(conversationCache.current);
 
       const entry = conversationCache.current.get(conversationId);
@@ -207,10 +220,13 @@ const useConversationCache = () => {
    * enables fast access to conversation data for subsequent requests.
    *
    * @param {string} conversationId - The conversation ID to cache
-   * @param {Conversation & { users: User[] }} data - The conversation data to cache
+   * @param {Conversation & { users: User[]; readStates: ReadWatermark[] }} data - The conversation data to cache
    */
   const setCachedConversation = useCallback(
-    (conversationId: string, data: Conversation & { users: User[] }) => {
+    (
+      conversationId: string,
+      data: Conversation & { users: User[]; readStates: ReadWatermark[] }
+    ) => {
       conversationCache.current.set(conversationId, {
         data,
         timestamp: Date.now(),
@@ -221,17 +237,16 @@ const useConversationCache = () => {
   );
 
   /**
-   * Get Cached Messages
+   * Get Cached Message Pages
    *
-   * Retrieves message data from the cache if it exists and hasn't expired.
-   * This function provides fast access to message data while ensuring
-   * data freshness through TTL validation.
+   * Retrieves the cached pages of a conversation if they exist and haven't
+   * expired, oldest page first.
    *
-   * @param {string} conversationId - The conversation ID to retrieve messages for
-   * @returns {FullMessageType[] | null} Cached message data or null if not found/expired
+   * @param {string} conversationId - The conversation ID to retrieve pages for
+   * @returns {MessagePage[] | null} Cached pages or null if not found/expired
    */
-  const getCachedMessages = useCallback(
-    (conversationId: string): FullMessageType[] | null => {
+  const getCachedMessagePages = useCallback(
+    (conversationId: string): MessagePage[] | null => {
       cleanupExpiredEntries(messagesCache.current);
 
       const entry = messagesCache.current.get(conversationId);
@@ -244,25 +259,51 @@ const useConversationCache = () => {
   );
 
   /**
-   * Set Cached Messages
+   * Add Cached Message Page
    *
-   * Stores message data in the cache with TTL expiration. This function
-   * enables fast access to message data for subsequent requests.
+   * Adds a page to a conversation's cached timeline. Older pages are
+   * prepended and newer pages appended, so the cached list always reads
+   * oldest first. The first page added starts the TTL.
    *
-   * @param {string} conversationId - The conversation ID to cache messages for
-   * @param {FullMessageType[]} data - The message data to cache
+   * @param {string} conversationId - The conversation ID to cache the page for
+   * @param {MessagePage} page - The page returned by the messages API
+   * @param {'older' | 'newer'} [position] - Which end of the timeline the page extends
    */
-  const setCachedMessages = useCallback(
-    (conversationId: string, data: FullMessageType[]) => {
-      messagesCache.current.set(conversationId, {
-        data,
-        timestamp: Date.now(),
-        ttl: 120000, // 2 minutes
-      });
+  const addCachedMessagePage = useCallback(
+    (
+      conversationId: string,
+      page: MessagePage,
+      position: 'older' | 'newer' = 'newer'
+    ) => {
+      const entry = messagesCache.current.get(conversationId);
+
+      if (!entry) {
+        messagesCache.current.set(conversationId, {
+          data: [page],
+          timestamp: Date.now(),
+          ttl: 120000, // 2 minutes
+        });
+        return;
+      }
+
+      entry.data =
+        position === 'older' ? [page, ...entry.data] : [...entry.data, page];
     },
     []
   );
 
+  /**
+   * Clear Cached Message Pages
+   *
+   * Drops the cached pages of a single conversation, for example when the
+   * timeline has to be reloaded around a different message.
+   *
+   * @param {string} conversationId - The conversation ID to clear pages for
+   */
+  const clearCachedMessagePages = useCallback((conversationId: string) => {
+    messagesCache.current.delete(conversationId);
+  }, []);
+
   /**
    * Clear Cache
    *
@@ -286,6 +327,10 @@ const useConversationCache = () => {
     return {
       conversationCacheSize: conversationCache.current.size,
       messagesCacheSize: messagesCache.current.size,
+      messagePageCount: Array.from(messagesCache.current.values()).reduce(
+        (count, entry) => count + entry.data.length,
+        0
+      ),
       totalCacheSize:
         conversationCache.current.size + messagesCache.current.size,
     };
@@ -294,8 +339,9 @@ const useConversationCache = () => {
   return {
     getCachedConversation,
     setCachedConversation,
-    getCachedMessages,
-    setCachedMessages,
+    getCachedMessagePages,
+    addCachedMessagePage,
+    clearCachedMessagePages,
     clearCache,
     getCacheStats,
   };
@@ -0,0 +1,105 @@
+/**
+ * Draft Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useDraft hook for our Next.js 14 real-time
+ * messaging application. The message form uses it to restore the draft of
+ * the open conversation and to save what the user types: the useDrafts
+ * store (and with it localStorage) is updated on every keystroke, the
+ * server once typing pauses.
+ *
+ * Key Features:
+ * - Immediate local save, debounced server sync
+ * - Pending sync flushed when the conversation changes or the form unmounts
+ * - Clearing after send, without a late sync bringing the text back
+ *
+ * @fileoverview Draft hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import axios from 'axios';
+import { debounce } from 'lodash';
+import { DraftEntry } from '../types';
+import useDrafts from './useDrafts';
+
+/**
+ * Server Sync Delay
+ *
+ * Pause in typing after which the draft is sent to the server.
+ */
+const DRAFT_SYNC_DELAY_MS = 1000;
+
+/**
+ * Draft Sync Request
+ *
+ * Failures are ignored: the local copy is kept and the next save retries.
+ *
+ * @param {string} conversationId - Conversation the draft belongs to
+ * @param {DraftEntry} draft - Draft to store
+ */
+const syncDraft = (conversationId: string, draft: DraftEntry) => {
+  axios
+    .put(`/api/conversations/${conversationId}/draft`, draft)
+    .catch(() => null);
+};
+
+/**
+ * Draft Hook
+ *
+ * @param {string} conversationId - Open conversation
+ * @returns {Object} draft (the stored text, kept current), getDraft, saveDraft
+ *   and clearDraft for the conversation
+ *
+ * @example
+ * ```typescript
+ * const { getDraft, saveDraft, clearDraft } = useDraft(conversationId);
+ *
+ * useEffect(() => {
+ *   setValue('message', getDraft());
+ * }, [getDraft, setValue]);
+ * ```
+ */
+const useDraft = (conversationId: string) => {
+  const setDraft = useDrafts((state) => state.setDraft);
+  const draft = useDrafts((state) => state.drafts[conversationId]?.body ?? '');
+
+  const debouncedSync = useMemo(
+    () => debounce(syncDraft, DRAFT_SYNC_DELAY_MS),
+    []
+  );
+
+  useEffect(() => () => debouncedSync.flush(), [conversationId, debouncedSync]);
+
+  const getDraft = useCallback(
+    () => useDrafts.getState().drafts[conversationId]?.body ?? '',
+    [conversationId]
+  );
+
+  const saveDraft = useCallback(
+    (body: string) => {
+      const draft = { body, updatedAt: new Date().toISOString() };
+
+      setDraft(conversationId, draft);
+      debouncedSync(conversationId, draft);
+    },
+    [conversationId, setDraft, debouncedSync]
+  );
+
+  const clearDraft = useCallback(() => {
+    debouncedSync.cancel();
+
+    if (!getDraft()) {
+      return;
+    }
+
+    const draft = { body: '', updatedAt: new Date().toISOString() };
+
+    setDraft(conversationId, draft);
+    syncDraft(conversationId, draft);
+  }, [conversationId, getDraft, setDraft, debouncedSync]);
+
+  return { draft, getDraft, saveDraft, clearDraft };
+};
+
+export default useDraft;
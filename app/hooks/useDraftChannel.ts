@@ -0,0 +1,97 @@
+/**
+ * Draft Channel Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useDraftChannel hook for our Next.js 14 real-time
+ * messaging application. It seeds the useDrafts store from the drafts kept
+ * in this browser and those synced to the server, mirrors every change back
+ * into localStorage, and applies drafts saved on the user's other devices.
+ *
+ * Key Features:
+ * - Local and server drafts merged, newest copy winning
+ * - Store written through to localStorage
+ * - Live updates from draft:update events
+ *
+ * @fileoverview Draft channel hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import { mergeDrafts, readLocalDrafts, writeLocalDrafts } from '../libs/drafts';
+import { DraftUpdate } from '../types';
+import useDrafts from './useDrafts';
+
+/**
+ * Draft Channel Hook
+ *
+ * Local drafts are keyed by email, so nothing is loaded until the session
+ * is known.
+ *
+ * @param {DraftUpdate[]} initialDrafts - Drafts rendered by the server
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In DraftStatus
+ * useDraftChannel(initialDrafts);
+ * ```
+ */
+const useDraftChannel = (initialDrafts: DraftUpdate[]) => {
+  const session = useSession();
+  const { set, setDraft } = useDrafts();
+
+  const pusherKey = useMemo(
+    () => session.data?.user?.email,
+    [session.data?.user?.email]
+  );
+
+  useEffect(() => {
+    if (!pusherKey) {
+      return;
+    }
+
+    set(
+      mergeDrafts(
+        readLocalDrafts(pusherKey),
+        Object.fromEntries(
+          initialDrafts.map(({ conversationId, body, updatedAt }) => [
+            conversationId,
+            { body, updatedAt },
+          ])
+        )
+      )
+    );
+
+    return useDrafts.subscribe((state) =>
+      writeLocalDrafts(pusherKey, state.drafts)
+    );
+  }, [pusherKey, initialDrafts, set]);
+
+  /**
+   * Live Draft Updates
+   *
+   * The user's own saves come back on this channel too; setDraft ignores
+   * them, since they are never newer than the copy already held.
+   */
+  useEffect(() => {
+    if (!pusherKey) {
+      return;
+    }
+
+    pusherClient.subscribe(pusherKey);
+
+    const draftHandler = ({ conversationId, body, updatedAt }: DraftUpdate) => {
+      setDraft(conversationId, { body, updatedAt });
+    };
+
+    pusherClient.bind('draft:update', draftHandler);
+
+    return () => {
+      pusherClient.unbind('draft:update', draftHandler);
+    };
+  }, [pusherKey, setDraft]);
+};
+
+export default useDraftChannel;
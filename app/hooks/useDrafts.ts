@@ -0,0 +1,56 @@
+/**
+ * Drafts Store for Dex Real-Time Messenger
+ *
+ * This file provides the useDrafts store for our Next.js 14 real-time
+ * messaging application. It holds the current user's unsent text for every
+ * conversation, read by the message form to restore a draft and by
+ * ConversationBox to show it in the conversation list.
+ *
+ * Key Features:
+ * - Seeded by DraftStatus from localStorage and the server
+ * - Kept current by the form and by draft:update events
+ * - Older copies never replace newer ones
+ *
+ * @fileoverview Drafts store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+import { DraftEntry } from '../types';
+import { isNewerDraft } from '../libs/drafts';
+
+/**
+ * Drafts Store Interface
+ *
+ * @interface DraftsStore
+ * @property {Record<string, DraftEntry>} drafts - Drafts by conversation ID
+ * @property {(drafts: Record<string, DraftEntry>) => void} set - Replaces all drafts
+ * @property {(conversationId: string, draft: DraftEntry) => void} setDraft - Stores a draft unless a newer one is held
+ */
+interface DraftsStore {
+  drafts: Record<string, DraftEntry>;
+  set: (drafts: Record<string, DraftEntry>) => void;
+  setDraft: (conversationId: string, draft: DraftEntry) => void;
+}
+
+/**
+ * Drafts Store
+ *
+ * @example
+ * ```typescript
+ * const draft = useDrafts((state) => state.drafts[conversationId]?.body);
+ * ```
+ */
+const useDrafts = create<DraftsStore>((set) => ({
+  drafts: {},
+  set: (drafts) => set({ drafts }),
+  setDraft: (conversationId, draft) =>
+    set((state) =>
+      isNewerDraft(draft, state.drafts[conversationId])
+        ? { drafts: { ...state.drafts, [conversationId]: draft } }
+        : state
+    ),
+}));
+
+export default useDrafts;
@@ -0,0 +1,71 @@
+/**
+ * Last Seen Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useLastSeen hook for our Next.js 14 real-time
+ * messaging application. It turns a user's stored lastSeenAt, and any
+ * disconnect this client watched since, into a "Last seen …" label that
+ * stays current while the conversation is open.
+ *
+ * Key Features:
+ * - Combines the stored timestamp with the useActiveList record
+ * - Re-renders once a minute while the label is shown
+ * - Returns null for online users and users who hide their last seen time
+ *
+ * @fileoverview Last seen hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { User } from '@prisma/client';
+import {
+  LAST_SEEN_REFRESH_MS,
+  formatLastSeen,
+  getLastSeenAt,
+} from '../libs/lastSeen';
+import useActiveList from './useActiveList';
+
+/**
+ * Last Seen Hook
+ *
+ * @param {User | undefined} user - User whose status is shown
+ * @returns {string | null} "Last seen 10 minutes ago", or null when there is nothing to show
+ *
+ * @example
+ * ```typescript
+ * const lastSeenText = useLastSeen(otherUser);
+ * const statusText = isActive ? 'Active' : lastSeenText ?? 'Offline';
+ * ```
+ */
+const useLastSeen = (user?: User) => {
+  const isActive = useActiveList(
+    (state) => !!user?.email && state.members.includes(user.email)
+  );
+  const observedAt = useActiveList((state) =>
+    user?.email ? state.lastSeen[user.email] : undefined
+  );
+  // Only ticks to re-render; formatDistanceToNow reads the clock itself
+  const [, setTick] = useState(0);
+
+  const lastSeenAt = useMemo(
+    () => (user && !isActive ? getLastSeenAt(user, observedAt) : null),
+    [user, isActive, observedAt]
+  );
+
+  useEffect(() => {
+    if (!lastSeenAt) {
+      return;
+    }
+
+    const timer = setInterval(
+      () => setTick((tick) => tick + 1),
+      LAST_SEEN_REFRESH_MS
+    );
+
+    return () => clearInterval(timer);
+  }, [lastSeenAt]);
+
+  return lastSeenAt ? formatLastSeen(lastSeenAt) : null;
+};
+
+export default useLastSeen;
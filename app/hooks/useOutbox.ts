@@ -0,0 +1,67 @@
+/**
+ * Outbox Store for Dex Real-Time Messenger
+ *
+ * This file provides the useOutbox store for our Next.js 14 real-time
+ * messaging application. It holds the messages the user has sent that the
+ * server has not confirmed yet: the message form adds them, OutboxStatus
+ * sends them, and the timeline shows them until their real copy arrives.
+ *
+ * Key Features:
+ * - Optimistic messages across all conversations
+ * - Status and retry bookkeeping per message
+ * - Removal once the server's copy is in the timeline
+ *
+ * @fileoverview Outbox store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+import { OutboxMessage } from '../types';
+
+/**
+ * Outbox Store Interface
+ *
+ * @interface OutboxStore
+ * @property {OutboxMessage[]} outbox - Unconfirmed messages, oldest first
+ * @property {(outbox: OutboxMessage[]) => void} set - Replaces the outbox
+ * @property {(outboxMessage: OutboxMessage) => void} add - Queues a new message
+ * @property {(id: string, changes: Partial<OutboxMessage>) => void} update - Changes a queued message
+ * @property {(id: string) => void} remove - Drops a message from the outbox
+ */
+interface OutboxStore {
+  outbox: OutboxMessage[];
+  set: (outbox: OutboxMessage[]) => void;
+  add: (outboxMessage: OutboxMessage) => void;
+  update: (id: string, changes: Partial<OutboxMessage>) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Outbox Store
+ *
+ * @example
+ * ```typescript
+ * const outbox = useOutbox((state) => state.outbox);
+ * ```
+ */
+const useOutbox = create<OutboxStore>((set) => ({
+  outbox: [],
+  set: (outbox) => set({ outbox }),
+  add: (outboxMessage) =>
+    set((state) => ({ outbox: [...state.outbox, outboxMessage] })),
+  update: (id, changes) =>
+    set((state) => ({
+      outbox: state.outbox.map((outboxMessage) =>
+        outboxMessage.id === id
+          ? { ...outboxMessage, ...changes }
+          : outboxMessage
+      ),
+    })),
+  remove: (id) =>
+    set((state) => ({
+      outbox: state.outbox.filter((outboxMessage) => outboxMessage.id !== id),
+    })),
+}));
+
+export default useOutbox;
@@ -0,0 +1,185 @@
+/**
+ * Outbox Sender Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useOutboxSender hook for our Next.js 14 real-time
+ * messaging application. It restores the unsent messages saved in this
+ * browser, keeps the saved copy current, and sends every pending message
+ * through POST /api/messages, retrying with backoff until it goes through
+ * or runs out of attempts.
+ *
+ * Key Features:
+ * - Outbox restored from and written through to localStorage
+ * - One request per message at a time
+ * - Backoff between attempts, skipped as soon as the browser is back online
+ * - Nothing is attempted while the browser reports being offline
+ * - The outbox ID doubles as clientMessageId, so a retry never duplicates
+ *
+ * @fileoverview Outbox sender hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import axios from 'axios';
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  getRetryDelay,
+  isRetryableError,
+  mergeOutbox,
+  readLocalOutbox,
+  writeLocalOutbox,
+} from '../libs/outbox';
+import { FullMessageType, OutboxMessage } from '../types';
+import useOutbox from './useOutbox';
+
+/**
+ * Outbox Sender Hook
+ *
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In OutboxStatus
+ * useOutboxSender();
+ * ```
+ */
+const useOutboxSender = () => {
+  const session = useSession();
+  const { outbox, set, update } = useOutbox();
+  const inFlightRef = useRef(new Set<string>());
+  const [wakeUps, setWakeUps] = useState(0);
+
+  const email = useMemo(
+    () => session.data?.user?.email,
+    [session.data?.user?.email]
+  );
+
+  useEffect(() => {
+    if (!email) {
+      return;
+    }
+
+    // Messages can be queued before the session has loaded
+    set(mergeOutbox(useOutbox.getState().outbox, readLocalOutbox(email)));
+
+    return useOutbox.subscribe((state) =>
+      writeLocalOutbox(email, state.outbox)
+    );
+  }, [email, set]);
+
+  /**
+   * Reconnect Handling
+   *
+   * Pending messages waiting out a backoff are retried right away once the
+   * connection returns.
+   */
+  useEffect(() => {
+    const onlineHandler = () => {
+      useOutbox.getState().outbox.forEach((outboxMessage) => {
+        if (outboxMessage.status === 'pending') {
+          update(outboxMessage.id, { nextAttemptAt: null });
+        }
+      });
+    };
+
+    window.addEventListener('online', onlineHandler);
+
+    return () => {
+      window.removeEventListener('online', onlineHandler);
+    };
+  }, [update]);
+
+  /**
+   * Send Attempt
+   *
+   * The message may have been discarded, or confirmed by its messages:new
+   * echo, while the request was under way; update then simply finds
+   * nothing to change.
+   */
+  const attemptSend = useCallback(
+    (outboxMessage: OutboxMessage) => {
+      inFlightRef.current.add(outboxMessage.id);
+
+      axios
+        .post<FullMessageType>('/api/messages', {
+          message: outboxMessage.body,
+          image: outboxMessage.image,
+          conversationId: outboxMessage.conversationId,
+          replyToId: outboxMessage.replyTo?.id,
+          clientMessageId: outboxMessage.id,
+        })
+        .then(({ data }) => {
+          update(outboxMessage.id, { status: 'sent', message: data });
+        })
+        .catch((error) => {
+          const attempts = outboxMessage.attempts + 1;
+
+          update(
+            outboxMessage.id,
+            isRetryableError(error) && attempts < OUTBOX_MAX_ATTEMPTS
+              ? {
+                  attempts,
+                  nextAttemptAt: new Date(
+                    Date.now() + getRetryDelay(attempts)
+                  ).toISOString(),
+                }
+              : { status: 'failed', attempts, nextAttemptAt: null }
+          );
+        })
+        .finally(() => {
+          inFlightRef.current.delete(outboxMessage.id);
+          setWakeUps((count) => count + 1);
+        });
+    },
+    [update]
+  );
+
+  /**
+   * Queue Processing
+   *
+   * Runs whenever the outbox changes or a request settles, and sets a
+   * timer for the next message still waiting out its backoff.
+   */
+  useEffect(() => {
+    if (!navigator.onLine) {
+      return;
+    }
+
+    const now = Date.now();
+    let nextAttemptAt = Infinity;
+
+    outbox.forEach((outboxMessage) => {
+      if (
+        outboxMessage.status !== 'pending' ||
+        inFlightRef.current.has(outboxMessage.id)
+      ) {
+        return;
+      }
+
+      const dueAt = outboxMessage.nextAttemptAt
+        ? new Date(outboxMessage.nextAttemptAt).getTime()
+        : now;
+
+      if (dueAt > now) {
+        nextAttemptAt = Math.min(nextAttemptAt, dueAt);
+        return;
+      }
+
+      attemptSend(outboxMessage);
+    });
+
+    if (nextAttemptAt === Infinity) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => setWakeUps((count) => count + 1),
+      nextAttemptAt - now
+    );
+
+    return () => clearTimeout(timer);
+  }, [outbox, wakeUps, attemptSend]);
+};
+
+export default useOutboxSender;
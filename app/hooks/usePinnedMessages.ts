@@ -0,0 +1,110 @@
+/**
+ * Pinned Messages Hook for Dex Real-Time Messenger
+ *
+ * This file provides the usePinnedMessages hook for our Next.js 14 real-time
+ * messaging application. It loads the pins of the open conversation and
+ * keeps them current from the events the timeline already receives, so the
+ * banner and the profile drawer show the same list.
+ *
+ * Key Features:
+ * - Pins loaded from GET /api/conversations/[conversationId]/pins
+ * - message:update pins, unpins or refreshes a message in the list
+ * - message:remove drops a message the user deleted for themselves
+ * - Most recently pinned first
+ *
+ * @fileoverview Pinned messages hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { pusherClient } from '../libs/pusher';
+import { FullMessageType } from '../types';
+
+/**
+ * Pin Order
+ *
+ * @param {FullMessageType} a - First message
+ * @param {FullMessageType} b - Second message
+ * @returns {number} Negative when a was pinned more recently
+ */
+const byPinnedAtDesc = (a: FullMessageType, b: FullMessageType) =>
+  new Date(b.pinnedAt!).getTime() - new Date(a.pinnedAt!).getTime();
+
+/**
+ * Pinned Messages Hook
+ *
+ * The conversation channel itself is subscribed by Body.tsx; this hook only
+ * binds its own handlers.
+ *
+ * @param {string} conversationId - Open conversation
+ * @returns {FullMessageType[]} Pinned messages, most recently pinned first
+ *
+ * @example
+ * ```typescript
+ * const pinnedMessages = usePinnedMessages(params.conversationId);
+ * ```
+ */
+const usePinnedMessages = (conversationId: string) => {
+  const [pinnedMessages, setPinnedMessages] = useState<FullMessageType[]>([]);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    setPinnedMessages([]);
+
+    axios
+      .get<FullMessageType[]>(`/api/conversations/${conversationId}/pins`)
+      .then(({ data }) => {
+        if (isCurrent) {
+          setPinnedMessages(data);
+        }
+      })
+      .catch(() => null);
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    const updateHandler = (message: FullMessageType) => {
+      if (message.conversationId !== conversationId) {
+        return;
+      }
+
+      setPinnedMessages((current) => {
+        const others = current.filter((pinned) => pinned.id !== message.id);
+
+        if (!message.pinnedAt || message.deletedAt) {
+          return others.length === current.length ? current : others;
+        }
+
+        return [...others, message].sort(byPinnedAtDesc);
+      });
+    };
+
+    const removeHandler = (removed: { id: string; conversationId: string }) => {
+      if (removed.conversationId !== conversationId) {
+        return;
+      }
+
+      setPinnedMessages((current) =>
+        current.filter((pinned) => pinned.id !== removed.id)
+      );
+    };
+
+    pusherClient.bind('message:update', updateHandler);
+    pusherClient.bind('message:remove', removeHandler);
+
+    return () => {
+      pusherClient.unbind('message:update', updateHandler);
+      pusherClient.unbind('message:remove', removeHandler);
+    };
+  }, [conversationId]);
+
+  return pinnedMessages;
+};
+
+export default usePinnedMessages;
@@ -14,6 +14,8 @@
  * - React Icons integration for visual navigation indicators
  * - NextAuth.js signOut integration for authentication logout
  * - useMemo optimization for performance and re-render prevention
+ * - Unread message total as a badge on the Chat route
+ * - Saved route for the user's starred messages
  *
  * Navigation Routes Usage Patterns:
  * - DesktopSidebar: Desktop navigation with route items and active states
@@ -35,9 +37,10 @@
 import { useMemo } from 'react';
 import { usePathname } from 'next/navigation';
 import { HiChat } from 'react-icons/hi';
-import { HiArrowLeftOnRectangle, HiUsers } from 'react-icons/hi2';
+import { HiArrowLeftOnRectangle, HiStar, HiUsers } from 'react-icons/hi2';
 import { signOut } from 'next-auth/react';
 import useConversation from './useConversation';
+import useUnreadCounts, { selectTotalUnread } from './useUnreadCounts';
 
 /**
  * Navigation Routes Hook
@@ -59,6 +62,7 @@ import useConversation from './useConversation';
  * Navigation Route Types Supported:
  * - Chat route: /conversations with conversation awareness
  * - Users route: /users with user management functionality
+ * - Saved route: /saved with the user's starred messages
  * - Logout route: # with NextAuth.js signOut integration
  * - Active routes: Current page highlighting and conversation awareness
  * - Icon routes: React Icons integration for visual navigation
@@ -105,6 +109,7 @@ import useConversation from './useConversation';
  *   href: '/conversations',
  *   icon: HiChat,
  *   active: pathname === '/conversations' || !!conversationId,
+ *   badge: totalUnread,
  * }
  * ```
  */
@@ -138,6 +143,13 @@ const useRoutes = () => {
   const pathname = usePathname();
   const { conversationId } = useConversation();
 
+  /**
+   * Unread Total
+   *
+   * Sum of the per-conversation counters, shown as a badge on the Chat item.
+   */
+  const totalUnread = useUnreadCounts(selectTotalUnread);
+
   /**
    * Memoized Navigation Routes Generation
    *
@@ -148,6 +160,7 @@ const useRoutes = () => {
    * What this generates:
    * - Chat route: /conversations with conversation awareness
    * - Users route: /users with user management functionality
+   * - Saved route: /saved with the user's starred messages
    * - Logout route: # with NextAuth.js signOut integration
    * - Active states: Current page highlighting and conversation awareness
    * - Icon integration: React Icons for visual navigation indicators
@@ -171,6 +184,7 @@ const useRoutes = () => {
         href: '/conversations',
         icon: HiChat,
         active: pathname === '/conversations' || !!conversationId,
+        badge: totalUnread,
       },
       {
         label: 'Users',
@@ -178,6 +192,12 @@ const useRoutes = () => {
         icon: HiUsers,
         active: pathname === '/users',
       },
+      {
+        label: 'Saved',
+        href: '/saved',
+        icon: HiStar,
+        active: pathname === '/saved',
+      },
       {
         label: 'Logout',
         href: '#',
@@ -185,7 +205,7 @@ const useRoutes = () => {
         icon: HiArrowLeftOnRectangle,
       },
     ],
-    [pathname, conversationId]
+    [pathname, conversationId, totalUnread]
   );
 
   return routes;
@@ -0,0 +1,74 @@
+/**
+ * Saved Channel Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useSavedChannel hook for our Next.js 14 real-time
+ * messaging application. It seeds the useSavedMessages store with the saved
+ * message IDs rendered by the server and keeps it current from the user's
+ * personal Pusher channel, so a star set in one tab shows up in the others.
+ *
+ * Key Features:
+ * - Store seeded from server-rendered IDs
+ * - Live updates from saved:update events
+ *
+ * @fileoverview Saved channel hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import { SavedUpdate } from '../types';
+import useSavedMessages from './useSavedMessages';
+
+/**
+ * Saved Channel Hook
+ *
+ * @param {string[]} initialIds - Saved message IDs rendered by the server
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In SavedStatus
+ * useSavedChannel(initialIds);
+ * ```
+ */
+const useSavedChannel = (initialIds: string[]) => {
+  const session = useSession();
+  const { set, setSaved } = useSavedMessages();
+
+  useEffect(() => {
+    set(initialIds);
+  }, [initialIds, set]);
+
+  const pusherKey = useMemo(
+    () => session.data?.user?.email,
+    [session.data?.user?.email]
+  );
+
+  /**
+   * Live Saved Updates
+   *
+   * Like useUnreadChannel, this shares the personal channel with
+   * ConversationList and only removes its own handler on cleanup.
+   */
+  useEffect(() => {
+    if (!pusherKey) {
+      return;
+    }
+
+    pusherClient.subscribe(pusherKey);
+
+    const savedHandler = (update: SavedUpdate) => {
+      setSaved(update.messageId, update.saved);
+    };
+
+    pusherClient.bind('saved:update', savedHandler);
+
+    return () => {
+      pusherClient.unbind('saved:update', savedHandler);
+    };
+  }, [pusherKey, setSaved]);
+};
+
+export default useSavedChannel;
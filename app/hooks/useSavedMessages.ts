@@ -0,0 +1,67 @@
+/**
+ * Saved Messages Store for Dex Real-Time Messenger
+ *
+ * This file provides the useSavedMessages Zustand store for our Next.js 14
+ * real-time messaging application. It holds which messages the current user
+ * has saved, so every MessageBox and the Saved page agree on whether a
+ * message is starred.
+ *
+ * Key Features:
+ * - Saved flag keyed by message ID
+ * - Seeded from the server when the sidebar renders
+ * - Updated from saved:update events by useSavedChannel
+ *
+ * @fileoverview Saved messages store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+
+/**
+ * Saved Messages Store Interface
+ *
+ * @interface SavedMessagesStore
+ * @property {Record<string, boolean>} savedIds - Saved flag keyed by message ID; false once unsaved
+ * @property {(messageIds: string[]) => void} set - Replaces every flag
+ * @property {(messageId: string, saved: boolean) => void} setSaved - Updates one flag
+ */
+interface SavedMessagesStore {
+  savedIds: Record<string, boolean>;
+  set: (messageIds: string[]) => void;
+  setSaved: (messageId: string, saved: boolean) => void;
+}
+
+/**
+ * Saved Messages Store
+ *
+ * Unsaving records false instead of dropping the entry, which lets the
+ * Saved page tell "unsaved just now" apart from "not seeded yet".
+ *
+ * @returns {SavedMessagesStore} Zustand store with the saved flags and their setters
+ *
+ * @example
+ * ```typescript
+ * const isSaved = useSavedMessages((state) => !!state.savedIds[data.id]);
+ * ```
+ */
+const useSavedMessages = create<SavedMessagesStore>((set) => ({
+  savedIds: {},
+
+  set: (messageIds) =>
+    set({
+      savedIds: Object.fromEntries(
+        messageIds.map((messageId) => [messageId, true])
+      ),
+    }),
+
+  setSaved: (messageId, saved) =>
+    set((state) => ({
+      savedIds: {
+        ...state.savedIds,
+        [messageId]: saved,
+      },
+    })),
+}));
+
+export default useSavedMessages;
@@ -0,0 +1,109 @@
+/**
+ * Scheduled Messages Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useScheduledMessages hook for our Next.js 14
+ * real-time messaging application. It loads the current user's pending
+ * scheduled messages in the open conversation and keeps them current, so a
+ * message edited in another tab, or sent by the dispatcher, updates the list.
+ *
+ * Key Features:
+ * - Pending messages loaded from GET /api/conversations/[conversationId]/scheduled
+ * - scheduled:update adds or refreshes a message
+ * - scheduled:remove drops a cancelled or sent message
+ * - Next to be sent first
+ *
+ * @fileoverview Scheduled messages hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { ScheduledMessage } from '@prisma/client';
+import { pusherClient } from '../libs/pusher';
+
+/**
+ * Send Order
+ *
+ * @param {ScheduledMessage} a - First message
+ * @param {ScheduledMessage} b - Second message
+ * @returns {number} Negative when a is sent first
+ */
+const bySendAtAsc = (a: ScheduledMessage, b: ScheduledMessage) =>
+  new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime();
+
+/**
+ * Scheduled Messages Hook
+ *
+ * The user's own channel is subscribed by ConversationList; this hook only
+ * binds its own handlers.
+ *
+ * @param {string} conversationId - Open conversation
+ * @returns {ScheduledMessage[]} Pending messages, next to be sent first
+ *
+ * @example
+ * ```typescript
+ * const scheduledMessages = useScheduledMessages(conversationId);
+ * ```
+ */
+const useScheduledMessages = (conversationId: string) => {
+  const [scheduledMessages, setScheduledMessages] = useState<
+    ScheduledMessage[]
+  >([]);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    setScheduledMessages([]);
+
+    axios
+      .get<ScheduledMessage[]>(`/api/conversations/${conversationId}/scheduled`)
+      .then(({ data }) => {
+        if (isCurrent) {
+          setScheduledMessages(data);
+        }
+      })
+      .catch(() => null);
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    const updateHandler = (scheduledMessage: ScheduledMessage) => {
+      if (scheduledMessage.conversationId !== conversationId) {
+        return;
+      }
+
+      setScheduledMessages((current) =>
+        [
+          ...current.filter((pending) => pending.id !== scheduledMessage.id),
+          scheduledMessage,
+        ].sort(bySendAtAsc)
+      );
+    };
+
+    const removeHandler = (removed: { id: string; conversationId: string }) => {
+      if (removed.conversationId !== conversationId) {
+        return;
+      }
+
+      setScheduledMessages((current) =>
+        current.filter((pending) => pending.id !== removed.id)
+      );
+    };
+
+    pusherClient.bind('scheduled:update', updateHandler);
+    pusherClient.bind('scheduled:remove', removeHandler);
+
+    return () => {
+      pusherClient.unbind('scheduled:update', updateHandler);
+      pusherClient.unbind('scheduled:remove', removeHandler);
+    };
+  }, [conversationId]);
+
+  return scheduledMessages;
+};
+
+export default useScheduledMessages;
@@ -0,0 +1,119 @@
+/**
+ * Typing Channels Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useTypingChannels hook for our Next.js 14 real-time
+ * messaging application. It subscribes to the private channel of every
+ * conversation in the list and turns the typing client events arriving there
+ * into the useTypingList store.
+ *
+ * Key Features:
+ * - One private channel per conversation, resubscribed only when the set of
+ *   conversations changes, not when the list is reordered
+ * - Typists expire when no event arrives for TYPING_EXPIRY_MS
+ * - Events from the user's own other tabs are ignored
+ *
+ * @fileoverview Typing channels hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import {
+  TYPING_EVENT,
+  TYPING_EXPIRY_MS,
+  getConversationChannelName,
+} from '../libs/typing';
+import { TypingEvent } from '../types';
+import useTypingList from './useTypingList';
+
+/**
+ * Typing Channels Hook
+ *
+ * Pusher shares one channel object per name, so these subscriptions are the
+ * only ones for conversation channels; useTypingEmitter sends on them but
+ * never subscribes or unsubscribes itself.
+ *
+ * @param {string[]} conversationIds - Conversations to listen to
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In ConversationList
+ * useTypingChannels(items.map((item) => item.id));
+ * ```
+ */
+const useTypingChannels = (conversationIds: string[]) => {
+  const session = useSession();
+  const currentUserEmail = session.data?.user?.email;
+  const { add, remove, clear } = useTypingList();
+
+  const channelKey = useMemo(
+    () => Array.from(new Set(conversationIds)).sort().join(','),
+    [conversationIds]
+  );
+
+  useEffect(() => {
+    if (!channelKey || !currentUserEmail) {
+      return;
+    }
+
+    const ids = channelKey.split(',');
+    const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const clearExpiry = (key: string) => {
+      clearTimeout(expiryTimers.get(key));
+      expiryTimers.delete(key);
+    };
+
+    // The conversation comes from the channel, not from the sender's payload
+    const handleTyping = (conversationId: string, event: TypingEvent) => {
+      if (!event?.email || event.email === currentUserEmail) {
+        return;
+      }
+
+      const key = `${conversationId}:${event.email}`;
+      clearExpiry(key);
+
+      if (!event.isTyping) {
+        remove(conversationId, event.email);
+        return;
+      }
+
+      add(conversationId, { email: event.email, name: event.name });
+      expiryTimers.set(
+        key,
+        setTimeout(() => {
+          expiryTimers.delete(key);
+          remove(conversationId, event.email);
+        }, TYPING_EXPIRY_MS)
+      );
+    };
+
+    const subscriptions = ids.map((conversationId) => {
+      const channel = pusherClient.subscribe(
+        getConversationChannelName(conversationId)
+      );
+      const handler = (event: TypingEvent) =>
+        handleTyping(conversationId, event);
+
+      channel.bind(TYPING_EVENT, handler);
+
+      return { channel, handler };
+    });
+
+    return () => {
+      expiryTimers.forEach((timer) => clearTimeout(timer));
+
+      subscriptions.forEach(({ channel, handler }) => {
+        channel.unbind(TYPING_EVENT, handler);
+        pusherClient.unsubscribe(channel.name);
+      });
+
+      ids.forEach((conversationId) => clear(conversationId));
+    };
+  }, [channelKey, currentUserEmail, add, remove, clear]);
+};
+
+export default useTypingChannels;
@@ -0,0 +1,104 @@
+/**
+ * Typing Emitter Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useTypingEmitter hook for our Next.js 14 real-time
+ * messaging application. MessageInput calls it on every keystroke; the hook
+ * turns those calls into a throttled stream of typing client events on the
+ * conversation's private channel, followed by a stop event once the user
+ * goes idle, sends or clears the message, or leaves the conversation.
+ *
+ * Key Features:
+ * - Start events throttled to one per TYPING_THROTTLE_MS
+ * - Stop event after TYPING_IDLE_MS without a keystroke
+ * - Nothing sent until the channel subscription has succeeded
+ *
+ * @fileoverview Typing emitter hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import {
+  TYPING_EVENT,
+  TYPING_IDLE_MS,
+  TYPING_THROTTLE_MS,
+  getConversationChannelName,
+} from '../libs/typing';
+import { TypingEvent } from '../types';
+
+/**
+ * Typing Emitter Hook
+ *
+ * @param {string} conversationId - Conversation being typed in
+ * @returns {{ notifyTyping: () => void, stopTyping: () => void }} Keystroke and stop callbacks
+ *
+ * @example
+ * ```typescript
+ * const { notifyTyping, stopTyping } = useTypingEmitter(conversationId);
+ *
+ * value.trim() ? notifyTyping() : stopTyping();
+ * ```
+ */
+const useTypingEmitter = (conversationId: string) => {
+  const session = useSession();
+  const email = session.data?.user?.email;
+  const name = session.data?.user?.name ?? null;
+
+  const lastSentAtRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Client Event Sender
+   *
+   * The channel is owned by useTypingChannels; if it is not subscribed yet,
+   * e.g. right after the conversation was created, the event is dropped.
+   */
+  const send = useCallback(
+    (isTyping: boolean) => {
+      const channel = pusherClient.channel(
+        getConversationChannelName(conversationId)
+      );
+
+      if (!email || !channel?.subscribed) {
+        return;
+      }
+
+      const event: TypingEvent = { email, name, isTyping };
+      channel.trigger(TYPING_EVENT, event);
+    },
+    [conversationId, email, name]
+  );
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = undefined;
+
+    if (lastSentAtRef.current === 0) {
+      return;
+    }
+
+    lastSentAtRef.current = 0;
+    send(false);
+  }, [send]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+
+    if (now - lastSentAtRef.current >= TYPING_THROTTLE_MS) {
+      lastSentAtRef.current = now;
+      send(true);
+    }
+
+    clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [send, stopTyping]);
+
+  // Leaving the conversation, or switching to another one, ends typing
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+};
+
+export default useTypingEmitter;
@@ -0,0 +1,109 @@
+/**
+ * Typing List Store for Dex Real-Time Messenger
+ *
+ * This file provides the useTypingList Zustand store for our Next.js 14
+ * real-time messaging application. It holds who is typing in each of the
+ * user's conversations, so the indicator above the message form and the
+ * previews in the conversation list read the same state.
+ *
+ * Key Features:
+ * - Typists keyed by conversation ID, identified by email
+ * - Filled from client events by useTypingChannels
+ * - Conversations dropped when their channel is left
+ *
+ * @fileoverview Typing list store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+
+/**
+ * Typist Interface
+ *
+ * @interface Typist
+ * @property {string} email - Typist's email, unique per participant
+ * @property {string | null} name - Display name for the indicator
+ */
+export interface Typist {
+  email: string;
+  name: string | null;
+}
+
+/**
+ * Typing List Store Interface
+ *
+ * @interface TypingListStore
+ * @property {Record<string, Typist[]>} typists - People typing keyed by conversation ID
+ * @property {(conversationId: string, typist: Typist) => void} add - Marks someone as typing
+ * @property {(conversationId: string, email: string) => void} remove - Marks someone as no longer typing
+ * @property {(conversationId: string) => void} clear - Forgets a conversation
+ */
+interface TypingListStore {
+  typists: Record<string, Typist[]>;
+  add: (conversationId: string, typist: Typist) => void;
+  remove: (conversationId: string, email: string) => void;
+  clear: (conversationId: string) => void;
+}
+
+/**
+ * Typing List Store
+ *
+ * @example
+ * ```typescript
+ * const typists = useTypingList(
+ *   (state) => state.typists[conversationId] ?? NO_TYPISTS
+ * );
+ * ```
+ */
+const useTypingList = create<TypingListStore>((set) => ({
+  typists: {},
+  add: (conversationId, typist) =>
+    set((state) => {
+      const current = state.typists[conversationId] ?? [];
+
+      if (current.some((existing) => existing.email === typist.email)) {
+        return state;
+      }
+
+      return {
+        typists: {
+          ...state.typists,
+          [conversationId]: [...current, typist],
+        },
+      };
+    }),
+  remove: (conversationId, email) =>
+    set((state) => {
+      const current = state.typists[conversationId] ?? [];
+
+      if (!current.some((existing) => existing.email === email)) {
+        return state;
+      }
+
+      return {
+        typists: {
+          ...state.typists,
+          [conversationId]: current.filter(
+            (existing) => existing.email !== email
+          ),
+        },
+      };
+    }),
+  clear: (conversationId) =>
+    set((state) => {
+      const { [conversationId]: _cleared, ...typists } = state.typists;
+
+      return { typists };
+    }),
+}));
+
+/**
+ * Empty Typist List
+ *
+ * Stable fallback for selectors, so components re-render only when the
+ * conversation's list actually changes.
+ */
+export const NO_TYPISTS: Typist[] = [];
+
+export default useTypingList;
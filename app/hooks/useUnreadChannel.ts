@@ -0,0 +1,145 @@
+/**
+ * Unread Channel Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useUnreadChannel hook for our Next.js 14 real-time
+ * messaging application. It seeds the useUnreadCounts store with the counters
+ * rendered by the server, keeps them current from the user's personal Pusher
+ * channel, and mirrors the total in the browser tab title.
+ *
+ * Key Features:
+ * - Store seeded from server-rendered counters
+ * - Live updates from conversation:update events carrying unreadCount
+ * - Counters dropped on conversation:remove
+ * - Open conversation always treated as read
+ * - "(3) Dex-Real-Time-Messenger" style tab title
+ *
+ * @fileoverview Unread channel hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import useConversation from './useConversation';
+import useUnreadCounts, { selectTotalUnread } from './useUnreadCounts';
+
+/**
+ * Tab Title Prefix Pattern
+ *
+ * Matches a "(n) " prefix added earlier, so the base title is recovered even
+ * after the page set its own title.
+ */
+const TITLE_COUNT_PREFIX = /^\(\d+\)\s/;
+
+/**
+ * Unread Channel Hook
+ *
+ * @param {Record<string, number>} initialCounts - Counters rendered by the server
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In UnreadStatus
+ * useUnreadChannel(initialCounts);
+ * ```
+ */
+const useUnreadChannel = (initialCounts: Record<string, number>) => {
+  const session = useSession();
+  const { conversationId } = useConversation();
+  const { set, setCount, remove } = useUnreadCounts();
+  const totalUnread = useUnreadCounts(selectTotalUnread);
+
+  /**
+   * Open Conversation Reference
+   *
+   * The conversation being viewed is marked as seen as soon as messages
+   * arrive, but the counter update for the new message can overtake the
+   * reset. Reading the open conversation through a ref keeps the handlers
+   * bound once while still ignoring counters for it.
+   */
+  const openConversationRef = useRef(conversationId);
+
+  useEffect(() => {
+    openConversationRef.current = conversationId;
+
+    if (conversationId) {
+      setCount(conversationId, 0);
+    }
+  }, [conversationId, setCount]);
+
+  /**
+   * Server Seed
+   *
+   * Runs whenever the sidebar is rendered again by the server with fresh
+   * counters, e.g. after navigating between /users and /conversations.
+   */
+  useEffect(() => {
+    set({
+      ...initialCounts,
+      ...(openConversationRef.current && {
+        [openConversationRef.current]: 0,
+      }),
+    });
+  }, [initialCounts, set]);
+
+  const pusherKey = useMemo(
+    () => session.data?.user?.email,
+    [session.data?.user?.email]
+  );
+
+  /**
+   * Live Counter Updates
+   *
+   * The personal channel is shared with ConversationList, which unsubscribes
+   * from it when unmounted, so this hook subscribes again but never
+   * unsubscribes itself; it only removes its own handlers.
+   */
+  useEffect(() => {
+    if (!pusherKey) {
+      return;
+    }
+
+    pusherClient.subscribe(pusherKey);
+
+    const updateHandler = (conversation: {
+      id: string;
+      unreadCount?: number;
+    }) => {
+      if (typeof conversation.unreadCount !== 'number') {
+        return;
+      }
+
+      setCount(
+        conversation.id,
+        conversation.id === openConversationRef.current
+          ? 0
+          : conversation.unreadCount
+      );
+    };
+
+    const removeHandler = (conversation: { id: string }) => {
+      remove(conversation.id);
+    };
+
+    pusherClient.bind('conversation:update', updateHandler);
+    pusherClient.bind('conversation:remove', removeHandler);
+
+    return () => {
+      pusherClient.unbind('conversation:update', updateHandler);
+      pusherClient.unbind('conversation:remove', removeHandler);
+    };
+  }, [pusherKey, setCount, remove]);
+
+  /**
+   * Browser Tab Title
+   */
+  useEffect(() => {
+    const baseTitle = document.title.replace(TITLE_COUNT_PREFIX, '');
+
+    document.title =
+      totalUnread > 0 ? `(${totalUnread}) ${baseTitle}` : baseTitle;
+  }, [totalUnread]);
+};
+
+export default useUnreadChannel;
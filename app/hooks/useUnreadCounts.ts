@@ -0,0 +1,79 @@
+/**
+ * Unread Counts Store for Dex Real-Time Messenger
+ *
+ * This file provides the useUnreadCounts Zustand store for our Next.js 14
+ * real-time messaging application. It holds the current user's unread
+ * counter for every conversation so ConversationBox, the sidebar Chat item
+ * and the browser tab title all read the same numbers.
+ *
+ * Key Features:
+ * - Unread count keyed by conversation ID
+ * - Seeded from the server when the sidebar renders
+ * - Updated from conversation:update events by useUnreadChannel
+ * - Total unread selector for the Chat badge and tab title
+ *
+ * @fileoverview Unread counts store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+
+/**
+ * Unread Counts Store Interface
+ *
+ * @interface UnreadCountsStore
+ * @property {Record<string, number>} counts - Unread count keyed by conversation ID
+ * @property {(counts: Record<string, number>) => void} set - Replaces every counter
+ * @property {(conversationId: string, count: number) => void} setCount - Updates one counter
+ * @property {(conversationId: string) => void} remove - Drops the counter of a conversation the user left
+ */
+interface UnreadCountsStore {
+  counts: Record<string, number>;
+  set: (counts: Record<string, number>) => void;
+  setCount: (conversationId: string, count: number) => void;
+  remove: (conversationId: string) => void;
+}
+
+/**
+ * Unread Counts Store
+ *
+ * @returns {UnreadCountsStore} Zustand store with the counters and their setters
+ *
+ * @example
+ * ```typescript
+ * const unreadCount = useUnreadCounts((state) => state.counts[data.id] ?? 0);
+ * const totalUnread = useUnreadCounts(selectTotalUnread);
+ * ```
+ */
+const useUnreadCounts = create<UnreadCountsStore>((set) => ({
+  counts: {},
+
+  set: (counts) => set({ counts }),
+
+  setCount: (conversationId, count) =>
+    set((state) => ({
+      counts: {
+        ...state.counts,
+        [conversationId]: count,
+      },
+    })),
+
+  remove: (conversationId) =>
+    set((state) => {
+      const { [conversationId]: _removed, ...counts } = state.counts;
+
+      return { counts };
+    }),
+}));
+
+/**
+ * Total Unread Selector
+ *
+ * @param {UnreadCountsStore} state - Store state
+ * @returns {number} Sum of all unread counters
+ */
+export const selectTotalUnread = (state: UnreadCountsStore) =>
+  Object.values(state.counts).reduce((total, count) => total + count, 0);
+
+export default useUnreadCounts;
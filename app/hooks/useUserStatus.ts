@@ -0,0 +1,86 @@
+/**
+ * User Status Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useUserStatus hook for our Next.js 14 real-time
+ * messaging application. It resolves the availability mode and custom status
+ * a user currently shows, from the user object the component was rendered
+ * with or a newer live update.
+ *
+ * Key Features:
+ * - Live updates from useUserStatuses take precedence over server data
+ * - Custom statuses disappear by themselves when they expire
+ * - AVAILABLE for users who never picked a mode
+ *
+ * @fileoverview User status hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useState } from 'react';
+import { User } from '@prisma/client';
+import {
+  formatCustomStatus,
+  getAvailability,
+  getCustomStatus,
+} from '../libs/userStatus';
+import useUserStatuses from './useUserStatuses';
+
+/**
+ * Longest Timer Delay
+ *
+ * setTimeout fires immediately for delays above a signed 32-bit integer, so
+ * statuses expiring further out are only re-checked on the next render.
+ */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * User Status Hook
+ *
+ * @param {User | undefined} user - User whose status is shown
+ * @returns {{ availability: Availability; customStatus: string | null }} Mode and "🌴 On vacation" style label
+ *
+ * @example
+ * ```typescript
+ * const { availability, customStatus } = useUserStatus(otherUser);
+ * ```
+ */
+const useUserStatus = (user?: User) => {
+  const liveStatus = useUserStatuses((state) =>
+    user?.email ? state.statuses[user.email] : undefined
+  );
+  // Only ticks to re-render once the custom status expires
+  const [, setExpiryTick] = useState(0);
+
+  const source = liveStatus ?? user;
+
+  const expiresAt = source?.statusExpiresAt
+    ? new Date(source.statusExpiresAt).getTime()
+    : null;
+
+  useEffect(() => {
+    if (!expiresAt) {
+      return;
+    }
+
+    const delay = expiresAt - Date.now();
+
+    if (delay <= 0 || delay > MAX_TIMEOUT_MS) {
+      return;
+    }
+
+    const timer = setTimeout(() => setExpiryTick((tick) => tick + 1), delay);
+
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
+
+  const customStatus = source ? getCustomStatus(source) : null;
+
+  return {
+    availability: getAvailability({
+      availability: source?.availability ?? null,
+    }),
+    customStatus: customStatus ? formatCustomStatus(customStatus) : null,
+  };
+};
+
+export default useUserStatus;
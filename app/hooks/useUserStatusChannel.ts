@@ -0,0 +1,66 @@
+/**
+ * User Status Channel Hook for Dex Real-Time Messenger
+ *
+ * This file provides the useUserStatusChannel hook for our Next.js 14
+ * real-time messaging application. It listens for user:update events on the
+ * current user's personal Pusher channel and stores them in useUserStatuses.
+ *
+ * Key Features:
+ * - Status changes of everyone the user shares a conversation with
+ * - The user's own changes from other tabs
+ * - Bound once for the whole app from ActiveStatus
+ *
+ * @fileoverview User status channel hook for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { pusherClient } from '../libs/pusher';
+import { UserStatusUpdate } from '../types';
+import useUserStatuses from './useUserStatuses';
+
+/**
+ * User Status Channel Hook
+ *
+ * Like useUnreadChannel, this subscribes to the shared personal channel but
+ * never unsubscribes from it; it only removes its own handler.
+ *
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * // In ActiveStatus
+ * useUserStatusChannel();
+ * ```
+ */
+const useUserStatusChannel = () => {
+  const session = useSession();
+  const set = useUserStatuses((state) => state.set);
+
+  const pusherKey = useMemo(
+    () => session.data?.user?.email,
+    [session.data?.user?.email]
+  );
+
+  useEffect(() => {
+    if (!pusherKey) {
+      return;
+    }
+
+    pusherClient.subscribe(pusherKey);
+
+    const updateHandler = (update: UserStatusUpdate) => {
+      set(update);
+    };
+
+    pusherClient.bind('user:update', updateHandler);
+
+    return () => {
+      pusherClient.unbind('user:update', updateHandler);
+    };
+  }, [pusherKey, set]);
+};
+
+export default useUserStatusChannel;
@@ -0,0 +1,53 @@
+/**
+ * User Status Store for Dex Real-Time Messenger
+ *
+ * This file provides the useUserStatuses Zustand store for our Next.js 14
+ * real-time messaging application. It holds the custom statuses and
+ * availability modes received live since the page loaded, so avatars,
+ * headers and user lists can show them without refetching the users they
+ * were rendered with.
+ *
+ * Key Features:
+ * - Status updates keyed by email, like the active list
+ * - Filled from user:update events by useUserStatusChannel
+ * - Read through useUserStatus, which prefers them over server data
+ *
+ * @fileoverview User status store for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { create } from 'zustand';
+import { UserStatusUpdate } from '../types';
+
+/**
+ * User Status Store Interface
+ *
+ * @interface UserStatusesStore
+ * @property {Record<string, UserStatusUpdate>} statuses - Latest status per user email
+ * @property {(update: UserStatusUpdate) => void} set - Stores a user's new status
+ */
+interface UserStatusesStore {
+  statuses: Record<string, UserStatusUpdate>;
+  set: (update: UserStatusUpdate) => void;
+}
+
+/**
+ * User Status Store
+ *
+ * @example
+ * ```typescript
+ * const liveStatus = useUserStatuses((state) => state.statuses[email]);
+ * ```
+ */
+const useUserStatuses = create<UserStatusesStore>((set) => ({
+  statuses: {},
+  set: (update) =>
+    set((state) =>
+      update.email
+        ? { statuses: { ...state.statuses, [update.email]: update } }
+        : state
+    ),
+}));
+
+export default useUserStatuses;
@@ -0,0 +1,152 @@
+/**
+ * Join Invite Component for Dex Real-Time Messenger
+ *
+ * This file provides the JoinInvite component for our Next.js 14 real-time
+ * messaging application. It shows the group an invite link belongs to and
+ * lets the signed-in user join it, or explains why the link no longer works.
+ *
+ * Key Features:
+ * - Group photo, name, description and member count
+ * - Join through POST /api/invites/[token], then straight into the group
+ * - Shortcut into the group for people who already belong to it
+ * - Messages for unknown, expired, used-up and revoked links
+ *
+ * @fileoverview Join invite component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import AvatarGroup from '@/app/components/AvatarGroup';
+import Button from '@/app/components/Button';
+import { InviteStatus } from '@/app/libs/inviteLinks';
+import { InvitePreview } from '@/app/types';
+import axios from 'axios';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+/**
+ * Join Invite Props Interface
+ *
+ * @interface JoinInviteProps
+ * @property {string} token - Invite token from the link
+ * @property {InvitePreview | null} invite - Preview from getInvite, null for unknown links
+ */
+interface JoinInviteProps {
+  token: string;
+  invite: InvitePreview | null;
+}
+
+const UNAVAILABLE_TEXT: Record<Exclude<InviteStatus, 'ACTIVE'>, string> = {
+  EXPIRED: 'This invite link has expired.',
+  USED_UP: 'This invite link has reached its limit.',
+  REVOKED: 'This invite link has been revoked.',
+};
+
+/**
+ * Join Invite Component
+ *
+ * @param {JoinInviteProps} props - Component props
+ * @returns {JSX.Element} Invite card
+ *
+ * @example
+ * ```tsx
+ * <JoinInvite token={params.token} invite={invite} />
+ * ```
+ */
+const JoinInvite: React.FC<JoinInviteProps> = ({ token, invite }) => {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const openConversation = (conversationId: string) => {
+    router.push(`/conversations/${conversationId}`);
+    router.refresh();
+  };
+
+  const onJoin = () => {
+    setIsLoading(true);
+
+    axios
+      .post(`/api/invites/${token}`)
+      .then((response) => openConversation(response.data.id))
+      .catch((error) => {
+        toast.error(
+          error?.response?.status === 410
+            ? 'This invite link is no longer valid'
+            : 'Something went wrong!'
+        );
+        setIsLoading(false);
+      });
+  };
+
+  if (!invite) {
+    return (
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white px-4 py-8 text-center shadow sm:rounded-lg sm:px-10">
+          <p className="text-sm text-gray-500">
+            This invite link does not exist.
+          </p>
+          <div className="mt-6">
+            <Button fullWidth onClick={() => router.push('/conversations')}>
+              Go to conversations
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { conversation, status, isMember } = invite;
+
+  return (
+    <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+      <div
+        className="
+          flex
+          flex-col
+          items-center
+          bg-white
+          px-4
+          py-8
+          text-center
+          shadow
+          sm:rounded-lg
+          sm:px-10
+        "
+      >
+        <p className="text-sm text-gray-500">You have been invited to join</p>
+        <div className="mt-4">
+          <AvatarGroup users={conversation.users} image={conversation.image} />
+        </div>
+        <h2 className="mt-2 text-xl font-bold tracking-tight text-gray-900">
+          {conversation.name}
+        </h2>
+        <p className="text-sm text-gray-500">
+          {conversation.memberCount} members
+        </p>
+        {conversation.description && (
+          <p className="mt-4 whitespace-pre-wrap break-words text-sm text-gray-700">
+            {conversation.description}
+          </p>
+        )}
+        <div className="mt-6 w-full">
+          {isMember ? (
+            <Button fullWidth onClick={() => openConversation(conversation.id)}>
+              Open conversation
+            </Button>
+          ) : status === 'ACTIVE' ? (
+            <Button fullWidth disabled={isLoading} onClick={onJoin}>
+              Join group
+            </Button>
+          ) : (
+            <p className="text-sm text-rose-500">{UNAVAILABLE_TEXT[status]}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinInvite;
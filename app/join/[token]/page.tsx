@@ -0,0 +1,70 @@
+/**
+ * Join Group Page for Dex Real-Time Messenger
+ *
+ * This file provides the /join/[token] page of our Next.js 14 real-time
+ * messaging application, where group invite links lead. The middleware sends
+ * signed-out visitors through sign-in first and back here afterwards, so the
+ * page always has a user who can join.
+ *
+ * Key Features:
+ * - Server-side invite lookup through getInvite
+ * - Group preview and Join button rendered by JoinInvite
+ * - Same centered card layout as the sign-in page
+ *
+ * @fileoverview Join group page for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getInvite from '@/app/actions/getInvite';
+import Image from 'next/image';
+import JoinInvite from './components/JoinInvite';
+
+/**
+ * Join Page Parameters Interface
+ *
+ * @interface IParams
+ * @property {string} token - Invite token from the link
+ */
+interface IParams {
+  token: string;
+}
+
+/**
+ * Join Group Page Component
+ *
+ * @param {Object} props - Page props
+ * @param {IParams} props.params - Route parameters
+ * @returns {Promise<JSX.Element>} Invite preview page
+ */
+const JoinPage = async ({ params }: { params: IParams }) => {
+  const invite = await getInvite(params.token);
+
+  return (
+    <div
+      className="
+        flex
+        min-h-full
+        flex-col
+        justify-center
+        py-12
+        sm:px-6
+        lg:px-8
+        bg-gray-100
+      "
+    >
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <Image
+          height="48"
+          width="48"
+          className="mx-auto w-auto"
+          src="/images/logo.png"
+          alt="Logo"
+        />
+      </div>
+      <JoinInvite token={params.token} invite={invite} />
+    </div>
+  );
+};
+
+export default JoinPage;
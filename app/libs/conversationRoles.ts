@@ -0,0 +1,153 @@
+/**
+ * Conversation Roles for Dex Real-Time Messenger
+ *
+ * This file defines the group roles of our Next.js 14 real-time messaging
+ * application and what each of them may do. Roles are derived from the
+ * conversation's ownerId and adminIds, so the same checks run in the API
+ * routes, which enforce them, and in the ProfileDrawer, which only offers
+ * what the current user is allowed to do.
+ *
+ * Key Features:
+ * - OWNER, ADMIN and MEMBER, ranked in that order
+ * - Permission checks for membership, settings, pins and deletion
+ * - Successor choice when the owner leaves
+ *
+ * @fileoverview Conversation roles for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Conversation } from '@prisma/client';
+
+/**
+ * Conversation Role
+ *
+ * - OWNER: everything, including deleting the group and managing admins
+ * - ADMIN: adds and removes members, changes the group's settings
+ * - MEMBER: sends messages and leaves
+ */
+export type ConversationRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+/**
+ * Role Labels
+ *
+ * Badges in the member list; plain members get none.
+ */
+export const ROLE_LABELS: Record<ConversationRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+const ROLE_RANK: Record<ConversationRole, number> = {
+  OWNER: 2,
+  ADMIN: 1,
+  MEMBER: 0,
+};
+
+/**
+ * Fields Roles Are Derived From
+ */
+type RoleFields = Pick<Conversation, 'isGroup' | 'ownerId' | 'adminIds'>;
+
+/**
+ * Member Role
+ *
+ * Both participants of a direct conversation are owners of it, which keeps
+ * deleting a direct conversation open to either of them.
+ *
+ * @param {RoleFields} conversation - Conversation the user belongs to
+ * @param {string | undefined} userId - Participant to look up
+ * @returns {ConversationRole} The participant's role
+ */
+export const getMemberRole = (
+  conversation: RoleFields,
+  userId?: string
+): ConversationRole => {
+  if (!conversation.isGroup) {
+    return 'OWNER';
+  }
+
+  if (userId && userId === conversation.ownerId) {
+    return 'OWNER';
+  }
+
+  if (userId && (conversation.adminIds ?? []).includes(userId)) {
+    return 'ADMIN';
+  }
+
+  return 'MEMBER';
+};
+
+/**
+ * Role Comparison
+ *
+ * @param {ConversationRole} role - Role held
+ * @param {ConversationRole} minimum - Role required
+ * @returns {boolean} Whether the role is at least the required one
+ */
+export const hasRole = (role: ConversationRole, minimum: ConversationRole) =>
+  ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+/**
+ * Add Members / Change Settings Permission
+ *
+ * @param {ConversationRole} role - Acting user's role
+ * @returns {boolean} Whether the user manages the group
+ */
+export const canManageGroup = (role: ConversationRole) =>
+  hasRole(role, 'ADMIN');
+
+/**
+ * Pin Message Permission
+ *
+ * Either participant of a direct conversation counts as its owner, so only
+ * groups actually restrict pinning to the owner and admins.
+ *
+ * @param {ConversationRole} role - Acting user's role
+ * @returns {boolean} Whether the user may pin and unpin messages
+ */
+export const canPinMessages = (role: ConversationRole) =>
+  hasRole(role, 'ADMIN');
+
+/**
+ * Remove Member Permission
+ *
+ * Admins remove plain members; only the owner removes admins. Nobody removes
+ * the owner, and removing oneself is leaving, which anyone may do.
+ *
+ * @param {ConversationRole} actorRole - Acting user's role
+ * @param {ConversationRole} targetRole - Role of the member being removed
+ * @returns {boolean} Whether the removal is allowed
+ */
+export const canRemoveMember = (
+  actorRole: ConversationRole,
+  targetRole: ConversationRole
+) => canManageGroup(actorRole) && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+
+/**
+ * Next Owner
+ *
+ * The longest-standing admin takes over; without admins, the longest-standing
+ * member does. Membership order is the order of userIds.
+ *
+ * @param {RoleFields & Pick<Conversation, 'userIds'>} conversation - Group the owner leaves
+ * @param {string} leavingId - Owner who leaves
+ * @returns {string | null} The new owner's ID, or null when nobody is left
+ */
+export const pickNextOwner = (
+  conversation: RoleFields & Pick<Conversation, 'userIds'>,
+  leavingId: string
+) => {
+  const remaining = conversation.userIds.filter(
+    (userId) => userId !== leavingId
+  );
+
+  return (
+    remaining.find((userId) =>
+      (conversation.adminIds ?? []).includes(userId)
+    ) ??
+    remaining[0] ??
+    null
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * Draft Helpers for Dex Real-Time Messenger
+ *
+ * This file holds the browser side of per-conversation drafts in our
+ * Next.js 14 real-time messaging application: the localStorage copy and the
+ * rule for choosing between two copies of the same draft. Drafts are stored
+ * per signed-in user, so two accounts in one browser never see each other's
+ * text.
+ *
+ * Key Features:
+ * - localStorage copy keyed by the user's email
+ * - Newest copy wins, cleared drafts included
+ * - Storage failures (private mode, full quota) are ignored
+ *
+ * @fileoverview Draft helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { DraftEntry } from '@/app/types';
+
+/**
+ * Storage Key
+ *
+ * @param {string} email - Signed-in user
+ * @returns {string} localStorage key holding the user's drafts
+ */
+const storageKey = (email: string) => `dex-drafts:${email}`;
+
+/**
+ * Newer Draft Check
+ *
+ * @param {DraftEntry} candidate - Incoming copy
+ * @param {DraftEntry} [current] - Copy already held
+ * @returns {boolean} Whether candidate should replace current
+ */
+export const isNewerDraft = (candidate: DraftEntry, current?: DraftEntry) =>
+  !current ||
+  new Date(candidate.updatedAt).getTime() >
+    new Date(current.updatedAt).getTime();
+
+/**
+ * Merge Drafts
+ *
+ * @param {Record<string, DraftEntry>} base - Drafts by conversation ID
+ * @param {Record<string, DraftEntry>} incoming - Other copies by conversation ID
+ * @returns {Record<string, DraftEntry>} The newest copy of every draft
+ */
+export const mergeDrafts = (
+  base: Record<string, DraftEntry>,
+  incoming: Record<string, DraftEntry>
+) => {
+  const merged = { ...base };
+
+  Object.entries(incoming).forEach(([conversationId, draft]) => {
+    if (isNewerDraft(draft, merged[conversationId])) {
+      merged[conversationId] = draft;
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Read Local Drafts
+ *
+ * @param {string} email - Signed-in user
+ * @returns {Record<string, DraftEntry>} Drafts saved in this browser
+ */
+export const readLocalDrafts = (email: string): Record<string, DraftEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(email)) || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+/**
+ * Write Local Drafts
+ *
+ * @param {string} email - Signed-in user
+ * @param {Record<string, DraftEntry>} drafts - Drafts by conversation ID
+ */
+export const writeLocalDrafts = (
+  email: string,
+  drafts: Record<string, DraftEntry>
+) => {
+  try {
+    localStorage.setItem(storageKey(email), JSON.stringify(drafts));
+  } catch (error) {
+    // Drafts still work for this session, they just do not survive a reload
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Group Membership Broadcasts for Dex Real-Time Messenger
+ *
+ * This file sends the live membership updates of group conversations in our
+ * Next.js 14 real-time messaging application. Every route that changes who
+ * is in a group, or which role they hold, ends with the same broadcast.
+ *
+ * Key Features:
+ * - One MembershipUpdate payload carrying members, owner and admins
+ * - Delivered on each member's personal channel as conversation:update
+ *
+ * @fileoverview Group membership broadcasts for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Conversation, User } from '@prisma/client';
+import { pusherServer } from '@/app/libs/pusher';
+import { MembershipUpdate } from '@/app/types';
+
+/**
+ * Broadcast Membership
+ *
+ * @param {Conversation & { users: User[] }} conversation - Group after the change
+ * @param {string[]} [skipUserIds] - Members who get conversation:new instead
+ * @returns {void}
+ *
+ * @example
+ * ```typescript
+ * broadcastMembership(updatedConversation, newMemberIds);
+ * ```
+ */
+export const broadcastMembership = (
+  conversation: Conversation & { users: User[] },
+  skipUserIds: string[] = []
+) => {
+  const update: MembershipUpdate = {
+    id: conversation.id,
+    ownerId: conversation.ownerId,
+    adminIds: conversation.adminIds,
+    users: conversation.users,
+  };
+
+  conversation.users.forEach((user) => {
+    if (user.email && !skipUserIds.includes(user.id)) {
+      pusherServer.trigger(user.email, 'conversation:update', update);
+    }
+  });
+};
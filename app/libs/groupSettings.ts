@@ -0,0 +1,83 @@
+/**
+ * Group Settings for Dex Real-Time Messenger
+ *
+ * This file holds the rules for the editable details of a group conversation
+ * in our Next.js 14 real-time messaging application: its name, photo and
+ * description. The limits are shared by the group settings form and the API
+ * route that enforces them, and the detected changes become the system
+ * messages posted into the group's timeline.
+ *
+ * Key Features:
+ * - Length limits for the name and description
+ * - Input normalization: trimmed text, empty values cleared
+ * - One system event per changed field
+ *
+ * @fileoverview Group settings for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Conversation, SystemEvent } from '@prisma/client';
+
+export const GROUP_NAME_MAX_LENGTH = 100;
+export const GROUP_DESCRIPTION_MAX_LENGTH = 500;
+
+/**
+ * Editable Group Fields
+ */
+export type GroupSettings = Pick<
+  Conversation,
+  'name' | 'image' | 'description'
+>;
+
+/**
+ * Optional Text Normalization
+ *
+ * Whitespace-only text and empty strings clear the field.
+ *
+ * @param {string | null | undefined} value - Submitted text
+ * @returns {string | null} Trimmed text, or null to clear the field
+ */
+export const normalizeOptionalText = (value?: string | null) =>
+  value?.trim() || null;
+
+/**
+ * Group Settings Change Events
+ *
+ * One event per changed field, in the order name, photo, description. The
+ * description itself is not copied into the event; "set" marks it as changed
+ * rather than removed.
+ *
+ * @param {GroupSettings} before - Settings before the change
+ * @param {GroupSettings} after - Settings after the change
+ * @returns {Pick<SystemEvent, 'kind' | 'value'>[]} Events to record, empty when nothing changed
+ *
+ * @example
+ * ```typescript
+ * getGroupSettingsEvents(before, after);
+ * // [{ kind: 'GROUP_RENAMED', value: 'Weekend trip' }]
+ * ```
+ */
+export const getGroupSettingsEvents = (
+  before: GroupSettings,
+  after: GroupSettings
+) => {
+  const events: Pick<SystemEvent, 'kind' | 'value'>[] = [];
+
+  if (after.name !== before.name) {
+    events.push({ kind: 'GROUP_RENAMED', value: after.name });
+  }
+
+  if (after.image !== before.image) {
+    events.push({ kind: 'GROUP_PHOTO_CHANGED', value: after.image });
+  }
+
+  if (after.description !== before.description) {
+    events.push({
+      kind: 'GROUP_DESCRIPTION_CHANGED',
+      value: after.description ? 'set' : null,
+    });
+  }
+
+  return events;
+};
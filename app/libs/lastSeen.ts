@@ -0,0 +1,75 @@
+/**
+ * Last Seen Helpers for Dex Real-Time Messenger
+ *
+ * This file contains the shared pieces of the "Last seen" status in our
+ * Next.js 14 real-time messaging application. Presence itself comes from the
+ * presence channel; when a user drops out of it, the Pusher webhook stores
+ * the time on the user, and clients that were watching remember it locally
+ * until the next page load brings the stored value.
+ *
+ * Key Features:
+ * - Presence channel name shared by the client hook and the webhook
+ * - Privacy check honouring the user's hideLastSeen setting
+ * - "Last seen 10 minutes ago" labels
+ *
+ * @fileoverview Last seen helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { User } from '@prisma/client';
+import { formatDistanceToNow } from 'date-fns';
+
+/**
+ * Presence Channel
+ *
+ * Every signed-in user joins this channel; its member IDs are emails.
+ */
+export const PRESENCE_CHANNEL = 'presence-dex-messenger';
+
+/**
+ * Label Refresh Interval
+ *
+ * Relative labels change at most once a minute, so re-rendering more often
+ * would not change the text.
+ */
+export const LAST_SEEN_REFRESH_MS = 60 * 1000;
+
+/**
+ * Last Seen Time
+ *
+ * Picks the newer of the stored timestamp and one observed by this client,
+ * or null when the user hides their last seen time.
+ *
+ * @param {Pick<User, 'lastSeenAt' | 'hideLastSeen'>} user - User to describe
+ * @param {number} [observedAt] - When this client saw the user go offline
+ * @returns {Date | null} When the user was last seen
+ */
+export const getLastSeenAt = (
+  user: Pick<User, 'lastSeenAt' | 'hideLastSeen'>,
+  observedAt?: number
+) => {
+  if (user.hideLastSeen) {
+    return null;
+  }
+
+  // Dates arrive as strings when users come through Pusher payloads
+  const storedAt = user.lastSeenAt ? new Date(user.lastSeenAt).getTime() : 0;
+  const lastSeenAt = Math.max(storedAt, observedAt ?? 0);
+
+  return lastSeenAt ? new Date(lastSeenAt) : null;
+};
+
+/**
+ * Last Seen Label
+ *
+ * @param {Date} lastSeenAt - When the user was last seen
+ * @returns {string} Label for conversation headers
+ *
+ * @example
+ * ```typescript
+ * formatLastSeen(tenMinutesAgo); // 'Last seen 10 minutes ago'
+ * ```
+ */
+export const formatLastSeen = (lastSeenAt: Date) =>
+  `Last seen ${formatDistanceToNow(lastSeenAt, { addSuffix: true })}`;
@@ -0,0 +1,490 @@
+/**
+ * Message Delivery for Dex Real-Time Messenger
+ *
+ * This file creates a user's message and delivers it to the conversation in
+ * our Next.js 14 real-time messaging application. POST /api/messages calls it
+ * for messages sent right away, and the scheduled message dispatcher calls it
+ * when a scheduled message falls due, so both arrive identically.
+ *
+ * Key Features:
+ * - Message creation with retry on transaction conflicts
+ * - Conversation last message tracking
+ * - Same Pusher events for every sent message (messages:new, conversation:update)
+ * - Unread counters and the sender's read watermark kept in step
+ * - Client message IDs that make retried sends return the first message
+ *
+ * @fileoverview Message delivery for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { pusherServer } from '@/app/libs/pusher';
+import { incrementUnreadCounts } from '@/app/libs/unreadCounts';
+import { setReadWatermark } from '@/app/libs/readWatermarks';
+
+/**
+ * Outgoing Message Content
+ *
+ * @interface OutgoingMessage
+ * @property {string | null} [body] - Text content
+ * @property {string | null} [image] - Cloudinary image URL
+ * @property {string | null} [replyToId] - Message being replied to
+ * @property {string | null} [forwardedFromId] - Message this one was forwarded from
+ * @property {string | null} [clientMessageId] - Idempotency key chosen by the sender's client
+ */
+export interface OutgoingMessage {
+  body?: string | null;
+  image?: string | null;
+  replyToId?: string | null;
+  forwardedFromId?: string | null;
+  clientMessageId?: string | null;
+}
+
+/**
+ * Find Message by Client Message ID
+ *
+ * A key can outlive its message, e.g. when the conversation was deleted.
+ * Such a stale key is removed so the ID can be claimed again, and the
+ * lookup reports no message.
+ *
+ * @param {string} senderId - ID of the sending user
+ * @param {string} clientMessageId - Idempotency key from the sender's client
+ * @returns {Promise<FullMessageType | null>} Message created for the key, if any
+ *
+ * @example
+ * ```typescript
+ * const existingMessage = await findMessageByClientId(
+ *   currentUser.id,
+ *   clientMessageId
+ * );
+ * ```
+ */
+export const findMessageByClientId = async (
+  senderId: string,
+  clientMessageId: string
+) => {
+  const key = await prisma.clientMessageKey.findUnique({
+    where: {
+      senderId_clientMessageId: {
+        senderId,
+        clientMessageId,
+      },
+    },
+    select: {
+      id: true,
+      messageId: true,
+    },
+  });
+
+  if (!key) {
+    return null;
+  }
+
+  const message = await prisma.message.findUnique({
+    where: {
+      id: key.messageId,
+    },
+    include: fullMessageInclude,
+  });
+
+  if (!message) {
+    await prisma.clientMessageKey.deleteMany({
+      where: {
+        id: key.id,
+      },
+    });
+  }
+
+  return message;
+};
+
+/**
+ * Claim Client Message ID
+ *
+ * Records that messageId is the message sent for the key. When the key is
+ * already taken, the message it points to is returned instead; a stale key
+ * has been cleared by then, so the claim is tried once more.
+ *
+ * @param {string} senderId - ID of the sending user
+ * @param {string} clientMessageId - Idempotency key from the sender's client
+ * @param {string} messageId - Message just created for the key
+ * @returns {Promise<FullMessageType | null>} Earlier message for the key, or null once claimed
+ */
+const claimClientMessageId = async (
+  senderId: string,
+  clientMessageId: string,
+  messageId: string
+) => {
+  const claim = () =>
+    prisma.clientMessageKey.create({
+      data: {
+        senderId,
+        clientMessageId,
+        messageId,
+      },
+    });
+
+  try {
+    await claim();
+    return null;
+  } catch (error: any) {
+    if (error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const existingMessage = await findMessageByClientId(
+    senderId,
+    clientMessageId
+  );
+
+  if (existingMessage) {
+    return existingMessage;
+  }
+
+  await claim();
+  return null;
+};
+
+/**
+ * Message Creation with Retry Logic
+ *
+ * Implements a robust message creation function with retry logic and exponential
+ * backoff to handle transaction conflicts in high-concurrency scenarios. This
+ * function ensures message creation reliability even under heavy load.
+ *
+ * What this function provides:
+ * - Message creation with Prisma ORM integration
+ * - Retry logic for transaction conflicts (P2034 error code)
+ * - Exponential backoff for retry delays
+ * - Error handling for non-retryable errors
+ * - Fallback error handling for maximum retry exhaustion
+ *
+ * Why retry logic is essential:
+ * - Concurrency handling: Manages transaction conflicts in high-traffic scenarios
+ * - Reliability: Ensures message creation success under load
+ * - User experience: Prevents message loss during temporary conflicts
+ * - Performance: Exponential backoff prevents overwhelming the database
+ * - Data integrity: Ensures consistent message creation across retries
+ *
+ * Retry Logic Features:
+ * - Transaction conflict detection: P2034 error code from Prisma
+ * - Exponential backoff: 100ms * 2^retries delay between attempts
+ * - Maximum retries: 3 attempts before giving up
+ * - Error propagation: Non-retryable errors are immediately thrown
+ * - Fallback handling: Clear error message after maximum retries
+ *
+ * This retry logic is essential for our messaging app because it provides
+ * the reliability that ensures message creation success even under
+ * high-concurrency scenarios throughout our messaging platform.
+ *
+ * @param {any} data - Prisma message creation data object
+ * @param {number} maxRetries - Maximum number of retry attempts (default: 3)
+ * @returns {Promise<any>} Created message object or throws error
+ */
+const createMessageWithRetry = async (
+  data: any,
+  maxRetries = 3
+): Promise<any> => {
+  let retries = 0;
+
+  while (retries < maxRetries) {
+    try {
+      return await prisma.message.create(data);
+    } catch (error: any) {
+      // Only retry on transaction conflicts (P2034)
+      if (error.code === 'P2034' && retries < maxRetries - 1) {
+        retries++;
+        // Wait a bit before retrying (exponential backoff)
+        await new Promise((resolve) =>
+          setTimeout(resolve, 100 * Math.pow(2, retries))
+        );
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  // Fallback in case we exhaust retries without returning or throwing
+  throw new Error('Failed to create message after maximum retries');
+};
+
+/**
+ * Deliver Message
+ *
+ * This only creates and broadcasts. It does not check that the sender is
+ * in the conversation: POST /api/messages rejects non-members up front and
+ * the scheduled message dispatcher drops messages whose sender has left,
+ * and both validate the reply target before calling it. When the
+ * client message ID turns out to be taken, nothing is broadcast and the
+ * message created for it first is returned instead.
+ *
+ * @param {string} conversationId - Conversation the message is sent to
+ * @param {string} senderId - ID of the sending user
+ * @param {OutgoingMessage} content - What is sent
+ * @returns {Promise<FullMessageType>} The created (or earlier) message
+ *
+ * @example
+ * ```typescript
+ * const newMessage = await deliverMessage(conversationId, currentUser.id, {
+ *   body: 'Hello',
+ * });
+ * ```
+ */
+export const deliverMessage = async (
+  conversationId: string,
+  senderId: string,
+  content: OutgoingMessage
+) => {
+  /**
+   * Message Creation with Database Integration
+   *
+   * Creates a new message in the database with proper relationships to conversation,
+   * sender, and read receipt tracking. This creation includes comprehensive data
+   * relationships and ensures proper message context for real-time updates.
+   *
+   * What this creates:
+   * - Message record with body and image content
+   * - Conversation relationship via conversationId
+   * - Sender relationship via senderId
+   * - Sender's read watermark, set right after creation
+   * - Complete message data with sender information
+   *
+   * Why comprehensive relationships are essential:
+   * - Data integrity: Ensures proper message-conversation relationships
+   * - User context: Provides sender information for message display
+   * - Read receipts: Creation time becomes the sender's watermark
+   * - Real-time updates: Provides complete message data for Pusher events
+   * - Query efficiency: Includes related data to avoid additional queries
+   *
+   * Message Creation Logic:
+   * - Body content: Text message content from request body
+   * - Image content: Image URL from Cloudinary upload (optional)
+   * - Conversation connection: Links message to specific conversation
+   * - Sender connection: Links message to current user as sender
+   * - Include relationships: Fetches sender, quote and reaction data
+   *
+   * This message creation is essential for our messaging app because it provides
+   * the message data that enables proper message display, real-time updates,
+   * and read receipt tracking throughout our messaging platform.
+   */
+  const newMessage = await createMessageWithRetry({
+    data: {
+      type: content.image ? 'IMAGE' : 'TEXT',
+      body: content.body,
+      image: content.image,
+      forwardedFromId: content.forwardedFromId || undefined,
+      clientMessageId: content.clientMessageId || undefined,
+      conversation: {
+        connect: {
+          id: conversationId,
+        },
+      },
+      sender: {
+        connect: {
+          id: senderId,
+        },
+      },
+      ...(content.replyToId && {
+        replyTo: {
+          connect: {
+            id: content.replyToId,
+          },
+        },
+      }),
+    },
+    include: fullMessageInclude,
+  });
+
+  if (!newMessage) {
+    throw new Error('Failed to create message');
+  }
+
+  /**
+   * Client Message ID Claim
+   *
+   * Two requests with the same ID can both get past the route's replay
+   * check. Whichever claims the key first keeps its message; the other
+   * removes its own, which nobody has been told about yet, and returns the
+   * first one. A claim that fails outright removes the new message as well,
+   * so a retry starts clean.
+   */
+  if (content.clientMessageId) {
+    let existingMessage: Awaited<ReturnType<typeof findMessageByClientId>>;
+
+    try {
+      existingMessage = await claimClientMessageId(
+        senderId,
+        content.clientMessageId,
+        newMessage.id
+      );
+    } catch (error) {
+      await prisma.message.delete({
+        where: {
+          id: newMessage.id,
+        },
+      });
+      throw error;
+    }
+
+    if (existingMessage) {
+      await prisma.message.delete({
+        where: {
+          id: newMessage.id,
+        },
+      });
+      return existingMessage;
+    }
+  }
+
+  /**
+   * Conversation Update with Last Message Tracking
+   *
+   * Updates the conversation record with the new message and updates the
+   * lastMessageAt timestamp to reflect the most recent activity. This update
+   * ensures conversation ordering and provides context for conversation lists.
+   *
+   * What this updates:
+   * - Conversation lastMessageAt timestamp to current time
+   * - Conversation messages relationship with new message
+   * - Complete conversation data with users and messages
+   * - Conversation state for real-time updates
+   *
+   * Why conversation updates are essential:
+   * - Conversation ordering: Enables proper conversation list sorting
+   * - Last message display: Shows most recent message in conversation lists
+   * - Real-time updates: Provides conversation context for Pusher events
+   * - Data consistency: Maintains conversation-message relationships
+   * - User experience: Enables proper conversation state management
+   *
+   * Conversation Update Logic:
+   * - lastMessageAt: Updates to current timestamp for sorting
+   * - Messages connection: Links new message to conversation
+   * - messagesIds: Appends the new message ID to the live message list
+   * - Users inclusion: Fetches all conversation participants
+   * - Complete data: Provides full conversation context for updates
+   *
+   * This conversation update is essential for our messaging app because it provides
+   * the conversation state that enables proper conversation ordering and
+   * real-time updates throughout our messaging platform.
+   */
+  const updatedConversation = await prisma.conversation.update({
+    where: {
+      id: conversationId,
+    },
+    data: {
+      lastMessageAt: new Date(),
+      messages: {
+        connect: {
+          id: newMessage.id,
+        },
+      },
+      messagesIds: {
+        push: newMessage.id,
+      },
+    },
+    include: {
+      users: true,
+    },
+  });
+
+  /**
+   * Real-Time Message Broadcasting
+   *
+   * Broadcasts the new message to all conversation participants via Pusher
+   * for real-time message delivery. This broadcasting ensures immediate
+   * message visibility across all connected clients.
+   *
+   * What this broadcasts:
+   * - New message event to conversation channel
+   * - Message data with sender, quote and reaction data
+   * - Real-time message delivery to all participants
+   * - Immediate message visibility across clients
+   * - Live message updates in conversation views
+   *
+   * Why real-time broadcasting is essential:
+   * - User experience: Provides immediate message delivery
+   * - Real-time updates: Enables live conversation functionality
+   * - Multi-client sync: Keeps all clients in sync with new messages
+   * - Live messaging: Provides instant communication experience
+   * - Engagement: Maintains real-time conversation flow
+   *
+   * Broadcasting Logic:
+   * - Channel targeting: Uses conversationId as Pusher channel
+   * - Event type: 'messages:new' for new message events
+   * - Message data: Complete message object with relationships
+   * - Real-time delivery: Immediate broadcast to all subscribers
+   * - Client integration: Works with Body component message handlers
+   *
+   * This real-time broadcasting is essential for our messaging app because
+   * it provides the live messaging experience that enables instant
+   * communication and real-time updates throughout our messaging platform.
+   */
+  await pusherServer.trigger(conversationId, 'messages:new', newMessage);
+
+  /**
+   * Recipient Unread Counters
+   *
+   * Every participant except the sender has one more unread message; the
+   * new values travel with each user's conversation:update below.
+   */
+  const unreadCounts = await incrementUnreadCounts(
+    conversationId,
+    updatedConversation.userIds.filter((userId) => userId !== senderId)
+  );
+
+  /**
+   * Sender Read Watermark
+   *
+   * Sending a message means having read the conversation up to it, so the
+   * sender's watermark moves to the new message and their counter is
+   * cleared. Clients already treat own messages as seen, so nothing is
+   * broadcast for it.
+   */
+  await setReadWatermark(conversationId, senderId, newMessage, 0);
+
+  /**
+   * Individual User Conversation Updates
+   *
+   * Sends individual conversation update events to each conversation participant
+   * via Pusher for real-time conversation list updates. This ensures each user
+   * receives personalized conversation updates with their specific context.
+   *
+   * What this sends:
+   * - Individual conversation:update events to each user
+   * - User-specific conversation updates via email channels
+   * - Last message data for conversation list updates
+   * - Real-time conversation state synchronization
+   * - Personalized conversation updates for each participant
+   *
+   * Why individual updates are essential:
+   * - User experience: Provides personalized conversation updates
+   * - Real-time sync: Keeps individual conversation lists updated
+   * - Multi-user support: Handles different user contexts and states
+   * - Conversation management: Enables proper conversation list ordering
+   * - Live updates: Provides immediate conversation state changes
+   *
+   * Individual Update Logic:
+   * - User iteration: Maps through all conversation participants
+   * - Email targeting: Uses user.email as Pusher channel identifier
+   * - Event type: 'conversation:update' for conversation list updates
+   * - Message data: Sends last message for conversation display
+   * - Unread count: Sends each user's own counter (0 for the sender)
+   * - Real-time delivery: Immediate updates to each user's conversation list
+   *
+   * This individual user conversation updates are essential for our messaging app because
+   * it provides the personalized real-time updates that enable proper
+   * conversation list management and user-specific synchronization throughout our messaging platform.
+   */
+  updatedConversation.users.map((user) => {
+    pusherServer.trigger(user.email!, 'conversation:update', {
+      id: conversationId,
+      messages: [newMessage],
+      unreadCount: unreadCounts.get(user.id) ?? 0,
+    });
+  });
+
+  return newMessage;
+};
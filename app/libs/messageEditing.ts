@@ -0,0 +1,67 @@
+/**
+ * Message Editing Rules for Dex Real-Time Messenger
+ *
+ * This file centralizes the rules that decide whether a message can still be
+ * edited. It is shared by the message PATCH API route, which enforces the
+ * rules, and the MessageBox component, which uses them to decide whether the
+ * "Edit" action should be offered at all.
+ *
+ * Key Features:
+ * - Configurable edit window via NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES
+ * - Sensible 15 minute default when the variable is missing or invalid
+ * - Pure helpers that are safe to import from server and client code
+ *
+ * Keeping these rules in one place guarantees the UI never offers an edit
+ * that the API would reject, and vice versa.
+ *
+ * @fileoverview Message editing rules for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+/**
+ * Default Edit Window (minutes)
+ *
+ * Used when NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES is not set or is not a
+ * positive number.
+ */
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Configured Edit Window (milliseconds)
+ *
+ * The NEXT_PUBLIC_ prefix is intentional: Next.js inlines the value into the
+ * client bundle so MessageBox and the API route always agree on the window.
+ */
+const configuredMinutes = Number(
+  process.env.NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES
+);
+
+export const MESSAGE_EDIT_WINDOW_MS =
+  (configuredMinutes > 0 ? configuredMinutes : DEFAULT_EDIT_WINDOW_MINUTES) *
+  60 *
+  1000;
+
+/**
+ * Edit Window Check
+ *
+ * Returns true while a message created at `createdAt` is still inside the
+ * configured edit window.
+ *
+ * @param {Date | string} createdAt - Message creation timestamp
+ * @param {number} [now] - Reference time in milliseconds (defaults to Date.now())
+ * @returns {boolean} Whether the message can still be edited
+ *
+ * @example
+ * ```typescript
+ * if (!isWithinEditWindow(message.createdAt)) {
+ *   return new NextResponse('Edit window has expired', { status: 403 });
+ * }
+ * ```
+ */
+export const isWithinEditWindow = (
+  createdAt: Date | string,
+  now: number = Date.now()
+) => {
+  return now - new Date(createdAt).getTime() <= MESSAGE_EDIT_WINDOW_MS;
+};
@@ -0,0 +1,59 @@
+/**
+ * Message Query Filters for Dex Real-Time Messenger
+ *
+ * This file provides reusable Prisma where-clauses for message queries in our
+ * Next.js 14 real-time messaging application. They keep message lists,
+ * conversation previews and deletion bookkeeping in agreement about which
+ * messages a user should see.
+ *
+ * Key Features:
+ * - Live message filter that excludes "deleted for everyone" tombstones
+ * - Per-user visibility filter that excludes "deleted for me" messages
+ * - MongoDB-aware null handling for documents created before a field existed
+ *
+ * @fileoverview Message query filters for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Live Message Filter
+ *
+ * Matches messages that have not been deleted for everyone. MongoDB treats a
+ * missing field differently from an explicit null, so messages created
+ * before deletedAt existed are matched with isSet: false.
+ *
+ * Used for:
+ * - Conversation previews and lastMessageAt recalculation
+ * - Conversation.messagesIds bookkeeping
+ */
+export const liveMessageFilter: Prisma.MessageWhereInput = {
+  OR: [{ deletedAt: null }, { deletedAt: { isSet: false } }],
+};
+
+/**
+ * Visible-To-User Filter
+ *
+ * Matches messages the given user has not hidden with "delete for me".
+ *
+ * @param {string} userId - ID of the user the messages are loaded for
+ * @returns {Prisma.MessageWhereInput} Where-clause excluding hidden messages
+ *
+ * @example
+ * ```typescript
+ * const messages = await prisma.message.findMany({
+ *   where: { conversationId, ...visibleToUserFilter(currentUser.id) },
+ * });
+ * ```
+ */
+export const visibleToUserFilter = (
+  userId: string
+): Prisma.MessageWhereInput => ({
+  NOT: {
+    hiddenForIds: {
+      has: userId,
+    },
+  },
+});
@@ -0,0 +1,56 @@
+/**
+ * Message Include Configuration for Dex Real-Time Messenger
+ *
+ * This file defines the Prisma include used whenever a message is loaded for
+ * display in our Next.js 14 real-time messaging application. Every API route,
+ * server action and Pusher payload that produces a FullMessageType uses it, so
+ * messages look identical whether they arrive from a fetch or a live event.
+ *
+ * Key Features:
+ * - Sender for attribution (readers come from the read watermarks instead)
+ * - Quoted reply target with its sender for rendering reply quotes
+ * - Emoji reactions with their users for the reaction bar
+ * - Quote senders and reacting users limited to their public fields
+ * - Single source of truth that keeps FullMessageType payloads consistent
+ *
+ * @fileoverview Message include configuration for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Prisma } from '@prisma/client';
+import { publicUserSelect } from '@/app/libs/publicUser';
+
+/**
+ * Full Message Include
+ *
+ * Prisma include object matching the relations declared on FullMessageType.
+ *
+ * @example
+ * ```typescript
+ * const message = await prisma.message.findUnique({
+ *   where: { id: messageId },
+ *   include: fullMessageInclude,
+ * });
+ * ```
+ */
+export const fullMessageInclude = {
+  sender: true,
+  replyTo: {
+    include: {
+      sender: {
+        select: publicUserSelect,
+      },
+    },
+  },
+  reactions: {
+    include: {
+      user: {
+        select: publicUserSelect,
+      },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  },
+} satisfies Prisma.MessageInclude;
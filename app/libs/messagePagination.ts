@@ -0,0 +1,235 @@
+/**
+ * Message Pagination for Dex Real-Time Messenger
+ *
+ * This file implements cursor-based message pagination for our Next.js 14
+ * real-time messaging application. It is shared by the conversation messages
+ * API route and the getMessages server action so both return identical pages.
+ *
+ * Key Features:
+ * - Latest page when no cursor is given
+ * - Older messages with a `before` message ID cursor
+ * - Newer messages with an `after` message ID cursor
+ * - A window centred on an `around` message ID, for jumping to search hits
+ * - Page size clamped to a safe maximum
+ * - Stable ordering by createdAt then id, so equal timestamps never repeat
+ *   or skip messages between pages
+ * - Messages always returned oldest first, ready to render
+ *
+ * @fileoverview Message pagination for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { visibleToUserFilter } from '@/app/libs/messageFilters';
+import { MessagePage } from '@/app/types';
+
+/**
+ * Page Size Limits
+ *
+ * DEFAULT_MESSAGE_PAGE_SIZE is used when the caller does not ask for a size;
+ * MAX_MESSAGE_PAGE_SIZE caps what a client may request in one call.
+ */
+export const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+/**
+ * Message Page Options
+ *
+ * @interface MessagePageOptions
+ * @property {string} conversationId - Conversation to page through
+ * @property {string} userId - User the page is loaded for
+ * @property {string | null} [before] - Return messages older than this message
+ * @property {string | null} [after] - Return messages newer than this message
+ * @property {string | null} [around] - Return a window centred on this message
+ * @property {number | string | null} [limit] - Requested page size
+ */
+export interface MessagePageOptions {
+  conversationId: string;
+  userId: string;
+  before?: string | null;
+  after?: string | null;
+  around?: string | null;
+  limit?: number | string | null;
+}
+
+/**
+ * Page Size Parsing
+ *
+ * Accepts numbers or query string values and falls back to the default for
+ * anything that is not a positive integer.
+ *
+ * @param {number | string | null} [limit] - Requested page size
+ * @returns {number} Page size between 1 and MAX_MESSAGE_PAGE_SIZE
+ */
+export const parsePageSize = (limit?: number | string | null) => {
+  const parsed = Math.floor(Number(limit));
+
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_MESSAGE_PAGE_SIZE;
+  }
+
+  return Math.min(parsed, MAX_MESSAGE_PAGE_SIZE);
+};
+
+/**
+ * Message Page Query
+ *
+ * Loads one page of messages the user can see. One extra row is fetched to
+ * find out whether more messages exist in the paging direction without a
+ * separate count query.
+ *
+ * Returns null when the conversation is not one the user participates in,
+ * when more than one cursor is given, or when the cursor message does not
+ * belong to the conversation (for `around`, is not visible to the user).
+ *
+ * @param {MessagePageOptions} options - Conversation, user, cursor and page size
+ * @returns {Promise<MessagePage | null>} Page of messages, oldest first, or null
+ *
+ * @example
+ * ```typescript
+ * // Latest page
+ * const page = await getMessagePage({ conversationId, userId });
+ *
+ * // The page before the oldest loaded message
+ * const older = await getMessagePage({
+ *   conversationId,
+ *   userId,
+ *   before: page.messages[0].id,
+ * });
+ * ```
+ */
+export const getMessagePage = async ({
+  conversationId,
+  userId,
+  before,
+  after,
+  around,
+  limit,
+}: MessagePageOptions): Promise<MessagePage | null> => {
+  if ([before, after, around].filter(Boolean).length > 1) {
+    return null;
+  }
+
+  const conversation = await prisma.conversation.findUnique({
+    where: {
+      id: conversationId,
+      userIds: {
+        has: userId,
+      },
+    },
+    select: { id: true },
+  });
+
+  if (!conversation) {
+    return null;
+  }
+
+  if (around) {
+    return getMessageWindow(conversationId, userId, around, limit);
+  }
+
+  const cursorId = before || after;
+
+  if (cursorId) {
+    const cursorMessage = await prisma.message.findFirst({
+      where: {
+        id: cursorId,
+        conversationId,
+      },
+      select: { id: true },
+    });
+
+    if (!cursorMessage) {
+      return null;
+    }
+  }
+
+  const pageSize = parsePageSize(limit);
+
+  /**
+   * Paging Direction
+   *
+   * A negative take walks backwards from the cursor (or from the end of the
+   * conversation when there is no cursor), which is how older pages and the
+   * latest page are loaded. A positive take walks forwards for `after`.
+   */
+  const take = after ? pageSize + 1 : -(pageSize + 1);
+
+  const rows = await prisma.message.findMany({
+    where: {
+      conversationId,
+      ...visibleToUserFilter(userId),
+    },
+    include: fullMessageInclude,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    ...(cursorId && {
+      cursor: { id: cursorId },
+      skip: 1,
+    }),
+    take,
+  });
+
+  const hasMore = rows.length > pageSize;
+
+  if (after) {
+    return {
+      messages: hasMore ? rows.slice(0, pageSize) : rows,
+      hasMoreBefore: true,
+      hasMoreAfter: hasMore,
+    };
+  }
+
+  return {
+    messages: hasMore ? rows.slice(1) : rows,
+    hasMoreBefore: hasMore,
+    hasMoreAfter: !!before,
+  };
+};
+
+/**
+ * Message Window Query
+ *
+ * Loads the target message with up to half a page of messages on each side,
+ * built from one `before` and one `after` page so both edges keep accurate
+ * hasMoreBefore/hasMoreAfter flags.
+ *
+ * @param {string} conversationId - Conversation to page through
+ * @param {string} userId - User the page is loaded for
+ * @param {string} messageId - Message to centre the window on
+ * @param {number | string | null} [limit] - Requested page size
+ * @returns {Promise<MessagePage | null>} Window of messages, oldest first, or null
+ */
+const getMessageWindow = async (
+  conversationId: string,
+  userId: string,
+  messageId: string,
+  limit?: number | string | null
+): Promise<MessagePage | null> => {
+  const target = await prisma.message.findFirst({
+    where: {
+      id: messageId,
+      conversationId,
+      ...visibleToUserFilter(userId),
+    },
+    include: fullMessageInclude,
+  });
+
+  if (!target) {
+    return null;
+  }
+
+  const half = Math.max(1, Math.floor(parsePageSize(limit) / 2));
+
+  const [older, newer] = await Promise.all([
+    getMessagePage({ conversationId, userId, before: target.id, limit: half }),
+    getMessagePage({ conversationId, userId, after: target.id, limit: half }),
+  ]);
+
+  return {
+    messages: [...(older?.messages ?? []), target, ...(newer?.messages ?? [])],
+    hasMoreBefore: !!older?.hasMoreBefore,
+    hasMoreAfter: !!newer?.hasMoreAfter,
+  };
+};
@@ -0,0 +1,300 @@
+/**
+ * Message Search Helpers for Dex Real-Time Messenger
+ *
+ * This file contains the query parsing, ranking and snippet helpers behind
+ * the server-side message search of our Next.js 14 real-time messaging
+ * application. The helpers are pure so the /api/search route can rank results
+ * and the search UI can highlight the same terms in snippets.
+ *
+ * Key Features:
+ * - Query parsing with from:, in:, has:image, before: and after: operators
+ * - Quoted values and phrases, e.g. from:"Jane Doe" "release notes"
+ * - Relevance scoring by term coverage, whole-word hits, phrase hits and recency
+ * - Snippets centred on the first match with ellipses
+ * - Highlight ranges for rendering matched terms
+ * - Literal term matching for the in-conversation search bar
+ *
+ * @fileoverview Message search helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { escapeRegExp } from 'lodash';
+
+/**
+ * Parsed Search Query
+ *
+ * @interface ParsedSearchQuery
+ * @property {string[]} terms - Free-text words and quoted phrases
+ * @property {string} [from] - Sender name or email fragment, or "me"
+ * @property {string} [in] - Conversation name or direct-message partner fragment
+ * @property {boolean} hasImage - Restrict results to image messages
+ * @property {Date} [before] - Only messages sent before this day
+ * @property {Date} [after] - Only messages sent after this day
+ */
+export interface ParsedSearchQuery {
+  terms: string[];
+  from?: string;
+  in?: string;
+  hasImage: boolean;
+  before?: Date;
+  after?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Query Tokenizer
+ *
+ * Splits on whitespace while keeping double-quoted sections together, both
+ * as plain phrases ("release notes") and as operator values (from:"Jane Doe").
+ */
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+/**
+ * Date Operator Parsing
+ *
+ * Accepts ISO dates (YYYY-MM-DD), interpreted as the start of that day in UTC.
+ *
+ * @param {string} value - Operator value
+ * @returns {Date | undefined} Parsed day or undefined when invalid
+ */
+const parseDay = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Search Query Parser
+ *
+ * Recognised operators are removed from the free-text terms. Unknown
+ * operators and invalid dates are kept as ordinary terms, so nothing the user
+ * typed is silently dropped. `before:` excludes the given day and everything
+ * after it; `after:` excludes the given day and everything before it.
+ *
+ * @param {string} raw - Query as typed by the user
+ * @returns {ParsedSearchQuery} Terms and filters
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('from:"Jane Doe" in:design has:image after:2025-01-01 logo');
+ * // { terms: ['logo'], from: 'Jane Doe', in: 'design', hasImage: true, after: 2025-01-02 }
+ * ```
+ */
+export const parseSearchQuery = (raw: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], hasImage: false };
+
+  Array.from(raw.matchAll(TOKEN_PATTERN)).forEach((match) => {
+    const [token, quotedKey, quotedValue, key, value, phrase, word] = match;
+    const operator = (quotedKey || key)?.toLowerCase();
+    const operand = (quotedValue ?? value ?? '').trim();
+
+    if (operator && operand) {
+      if (operator === 'from') {
+        parsed.from = operand;
+        return;
+      }
+
+      if (operator === 'in') {
+        parsed.in = operand;
+        return;
+      }
+
+      if (operator === 'has' && operand.toLowerCase() === 'image') {
+        parsed.hasImage = true;
+        return;
+      }
+
+      if (operator === 'before' && parseDay(operand)) {
+        parsed.before = parseDay(operand);
+        return;
+      }
+
+      if (operator === 'after' && parseDay(operand)) {
+        parsed.after = new Date(parseDay(operand)!.getTime() + DAY_MS);
+        return;
+      }
+    }
+
+    const term = (phrase ?? word ?? token).trim();
+
+    if (term) {
+      parsed.terms.push(term);
+    }
+  });
+
+  return parsed;
+};
+
+/**
+ * Empty Query Check
+ *
+ * @param {ParsedSearchQuery} query - Parsed query
+ * @returns {boolean} True when the query has neither terms nor filters
+ */
+export const isEmptySearchQuery = (query: ParsedSearchQuery) =>
+  query.terms.length === 0 &&
+  !query.from &&
+  !query.in &&
+  !query.hasImage &&
+  !query.before &&
+  !query.after;
+
+/**
+ * Relevance Score
+ *
+ * Higher is better. Each term found adds to the score, whole-word hits and
+ * an exact phrase hit (all terms in order) add more, and a recency bonus that
+ * halves roughly every month breaks ties between equally relevant messages.
+ *
+ * @param {string | null} body - Message body
+ * @param {Date | string} createdAt - Message creation time
+ * @param {string[]} terms - Search terms
+ * @param {number} [now] - Reference time in milliseconds
+ * @returns {number} Relevance score
+ */
+export const scoreMessage = (
+  body: string | null,
+  createdAt: Date | string,
+  terms: string[],
+  now: number = Date.now()
+) => {
+  const text = (body || '').toLowerCase();
+  let score = 0;
+
+  terms.forEach((term) => {
+    const needle = term.toLowerCase();
+
+    if (!text.includes(needle)) {
+      return;
+    }
+
+    score += 10;
+
+    if (new RegExp(`\\b${escapeRegExp(needle)}\\b`).test(text)) {
+      score += 5;
+    }
+  });
+
+  if (terms.length > 1 && text.includes(terms.join(' ').toLowerCase())) {
+    score += 15;
+  }
+
+  const ageDays = Math.max(0, now - new Date(createdAt).getTime()) / DAY_MS;
+
+  return score + 5 * Math.pow(0.5, ageDays / 30);
+};
+
+/**
+ * Snippet Builder
+ *
+ * Returns up to `length` characters of the body centred on the first term
+ * found, with ellipses where text was cut.
+ *
+ * @param {string | null} body - Message body
+ * @param {string[]} terms - Search terms
+ * @param {number} [length] - Maximum snippet length
+ * @returns {string} Snippet text
+ */
+export const buildSnippet = (
+  body: string | null,
+  terms: string[],
+  length = 140
+) => {
+  const text = (body || '').replace(/\s+/g, ' ').trim();
+
+  if (text.length <= length) {
+    return text;
+  }
+
+  const lower = text.toLowerCase();
+  const firstHit = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  const start = Math.max(
+    0,
+    Math.min((firstHit ?? 0) - Math.floor(length / 3), text.length - length)
+  );
+  const end = start + length;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+    end < text.length ? '…' : ''
+  }`;
+};
+
+/**
+ * Conversation Search Terms
+ *
+ * The in-conversation search bar has no operators, so its query is simply
+ * split on whitespace.
+ *
+ * @param {string} query - Query as typed by the user
+ * @returns {string[]} Non-empty terms
+ */
+export const splitSearchTerms = (query: string) =>
+  query.split(/\s+/).filter(Boolean);
+
+/**
+ * Term Matching
+ *
+ * Case-insensitive test for any of the terms, matched literally.
+ *
+ * @param {string | null} text - Text to test
+ * @param {string[]} terms - Search terms
+ * @returns {boolean} Whether the text contains at least one term
+ */
+export const matchesSearchTerms = (text: string | null, terms: string[]) => {
+  const haystack = (text || '').toLowerCase();
+
+  return terms.some((term) => term && haystack.includes(term.toLowerCase()));
+};
+
+/**
+ * Highlight Ranges
+ *
+ * Finds every case-insensitive occurrence of the terms in a text. Terms are
+ * matched literally, so characters such as "(" or "+" never break the search.
+ * Overlapping matches are merged.
+ *
+ * @param {string} text - Text to scan
+ * @param {string[]} terms - Terms to highlight
+ * @returns {[number, number][]} Sorted [start, end) ranges
+ *
+ * @example
+ * ```typescript
+ * highlightRanges('C++ or c#', ['c++']); // [[0, 3]]
+ * ```
+ */
+export const highlightRanges = (text: string, terms: string[]) => {
+  const needles = terms.filter(Boolean).map(escapeRegExp);
+
+  if (!text || needles.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(needles.join('|'), 'gi');
+  const ranges: [number, number][] = Array.from(text.matchAll(pattern))
+    .filter((match) => match[0].length > 0)
+    .map((match) => [match.index!, match.index! + match[0].length]);
+
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+
+    return merged;
+  }, []);
+};
@@ -0,0 +1,135 @@
+/**
+ * Outbox Helpers for Dex Real-Time Messenger
+ *
+ * This file holds the rules of the message outbox in our Next.js 14
+ * real-time messaging application: how often a send is retried, how long to
+ * wait between attempts, which failures are worth retrying, and how unsent
+ * messages survive a reload in localStorage.
+ *
+ * Key Features:
+ * - Exponential backoff capped at one minute
+ * - Client errors fail at once, network and server errors are retried
+ * - localStorage copy keyed by the user's email, merged with messages
+ *   queued before it was read
+ *
+ * @fileoverview Outbox helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { OutboxMessage } from '@/app/types';
+
+/**
+ * Maximum Attempts
+ *
+ * Automatic attempts before a message is marked as failed.
+ */
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+/**
+ * Retry Delay
+ *
+ * @param {number} attempts - Attempts made so far
+ * @returns {number} Milliseconds to wait before the next attempt
+ */
+export const getRetryDelay = (attempts: number) =>
+  Math.min(1000 * Math.pow(2, attempts), 60 * 1000);
+
+/**
+ * Retryable Failure Check
+ *
+ * No response means the network failed. Any other 4xx would be rejected
+ * again, except timeouts and rate limiting.
+ *
+ * @param {any} error - Axios error from POST /api/messages
+ * @returns {boolean} Whether another attempt may succeed
+ */
+export const isRetryableError = (error: any) => {
+  const status = error?.response?.status;
+
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+/**
+ * Outbox Message ID
+ *
+ * crypto.randomUUID only exists in secure contexts, so a plain-HTTP
+ * deployment or a LAN dev host falls back to a timestamp with a random
+ * suffix. Either way the ID stays short enough to be a clientMessageId.
+ *
+ * @returns {string} New ID for an outbox message
+ */
+export const createOutboxId = () => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * Merge Outbox
+ *
+ * Messages present in both keep their in-memory copy, which is the more
+ * recent one.
+ *
+ * @param {OutboxMessage[]} current - Messages already in the store
+ * @param {OutboxMessage[]} stored - Messages read from localStorage
+ * @returns {OutboxMessage[]} Every message once, oldest first
+ */
+export const mergeOutbox = (
+  current: OutboxMessage[],
+  stored: OutboxMessage[]
+) => {
+  const currentIds = new Set(current.map((outboxMessage) => outboxMessage.id));
+
+  return [
+    ...stored.filter((outboxMessage) => !currentIds.has(outboxMessage.id)),
+    ...current,
+  ].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
+
+/**
+ * Storage Key
+ *
+ * @param {string} email - Signed-in user
+ * @returns {string} localStorage key holding the user's outbox
+ */
+const storageKey = (email: string) => `dex-outbox:${email}`;
+
+/**
+ * Read Local Outbox
+ *
+ * @param {string} email - Signed-in user
+ * @returns {OutboxMessage[]} Unsent messages saved in this browser
+ */
+export const readLocalOutbox = (email: string): OutboxMessage[] => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(email)) || '[]');
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Write Local Outbox
+ *
+ * Sent messages are left out; they are already on the server.
+ *
+ * @param {string} email - Signed-in user
+ * @param {OutboxMessage[]} outbox - Current outbox
+ */
+export const writeLocalOutbox = (email: string, outbox: OutboxMessage[]) => {
+  try {
+    localStorage.setItem(
+      storageKey(email),
+      JSON.stringify(
+        outbox.filter((outboxMessage) => outboxMessage.status !== 'sent')
+      )
+    );
+  } catch (error) {
+    // Unsent messages still go out from this tab, they just do not survive a reload
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * Public User Select for Dex Real-Time Messenger
+ *
+ * This file defines which fields of another user may travel with a message
+ * in our Next.js 14 real-time messaging application. Pusher channels are
+ * shared by every participant, so users attached to reactions and quotes
+ * carry only what the bubbles render.
+ *
+ * Key Features:
+ * - ID, name and avatar only
+ * - No email, password hash or account settings
+ *
+ * @fileoverview Public user select for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Public User Select
+ *
+ * Matches the PublicUser type.
+ *
+ * @example
+ * ```typescript
+ * reactions: { include: { user: { select: publicUserSelect } } }
+ * ```
+ */
+export const publicUserSelect = {
+  id: true,
+  name: true,
+  image: true,
+} satisfies Prisma.UserSelect;
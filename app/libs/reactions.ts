@@ -0,0 +1,94 @@
+/**
+ * Message Reaction Helpers for Dex Real-Time Messenger
+ *
+ * This file defines the emoji palette offered for message reactions and the
+ * helpers used to display them. The palette is shared by the reactions API
+ * route, which rejects anything outside it, and the ReactionPicker component
+ * that offers it.
+ *
+ * Key Features:
+ * - Fixed reaction palette shared by server and client
+ * - Grouping of reaction records into per-emoji summaries for the bar
+ * - Pure helpers that are safe to import from server and client code
+ *
+ * @fileoverview Message reaction helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Reaction } from '@prisma/client';
+import { PublicUser } from '@/app/types';
+
+/**
+ * Reaction Palette
+ *
+ * Emoji offered in the reaction picker, in display order.
+ */
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
+
+/**
+ * Palette Membership Check
+ *
+ * @param {unknown} emoji - Value received from a request body or query string
+ * @returns {boolean} Whether the value is one of the supported reactions
+ */
+export const isSupportedReaction = (emoji: unknown): emoji is string =>
+  typeof emoji === 'string' &&
+  (REACTION_EMOJIS as readonly string[]).includes(emoji);
+
+/**
+ * Reaction Summary
+ *
+ * One chip of the reaction bar: an emoji, the users who used it and whether
+ * the current user is among them.
+ */
+export interface ReactionSummary {
+  emoji: string;
+  users: PublicUser[];
+  reactedByMe: boolean;
+}
+
+/**
+ * Reaction Grouping
+ *
+ * Collapses individual reaction records into one summary per emoji, keeping
+ * the order in which each emoji was first used.
+ *
+ * @param {(Reaction & { user: PublicUser })[]} reactions - Reactions of a message
+ * @param {string | null} [currentUserId] - ID of the signed-in user
+ * @returns {ReactionSummary[]} Per-emoji summaries for the reaction bar
+ *
+ * @example
+ * ```typescript
+ * const summaries = summarizeReactions(data.reactions, currentUserId);
+ * ```
+ */
+export const summarizeReactions = (
+  reactions: (Reaction & { user: PublicUser })[],
+  currentUserId?: string | null
+): ReactionSummary[] => {
+  const summaries = new Map<string, ReactionSummary>();
+
+  [...reactions]
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+    .forEach((reaction) => {
+      const summary = summaries.get(reaction.emoji) ?? {
+        emoji: reaction.emoji,
+        users: [],
+        reactedByMe: false,
+      };
+
+      summary.users.push(reaction.user);
+
+      if (currentUserId && reaction.userId === currentUserId) {
+        summary.reactedByMe = true;
+      }
+
+      summaries.set(reaction.emoji, summary);
+    });
+
+  return Array.from(summaries.values());
+};
@@ -0,0 +1,127 @@
+/**
+ * Read Watermarks for Dex Real-Time Messenger
+ *
+ * This file maintains the per-user, per-conversation read watermarks of our
+ * Next.js 14 real-time messaging application. A watermark is the newest
+ * message a user has read; every message created at or before it counts as
+ * seen. Watermarks live in the same ReadState rows as the unread counters.
+ *
+ * Key Features:
+ * - Shared select for the public part of a read state (no unread counter)
+ * - Readers limited to the ID and name "Seen by" needs
+ * - Forward-only watermark updates, so an older window never unreads anything
+ * - Lazy row creation by upsert, like the unread counters
+ *
+ * @fileoverview Read watermarks for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/app/libs/prismadb';
+
+/**
+ * Reader Select
+ *
+ * Matches the Reader type.
+ */
+export const readerSelect = {
+  id: true,
+  name: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Read Watermark Select
+ *
+ * Selects the fields of ReadWatermark. Used wherever conversations are sent
+ * to participants, so other users' unread counters never leave the server.
+ *
+ * @example
+ * ```typescript
+ * const conversation = await prisma.conversation.findUnique({
+ *   where: { id: conversationId },
+ *   include: { users: true, readStates: { select: readWatermarkSelect } },
+ * });
+ * ```
+ */
+export const readWatermarkSelect = {
+  userId: true,
+  lastReadMessageId: true,
+  lastReadAt: true,
+  user: {
+    select: readerSelect,
+  },
+} satisfies Prisma.ReadStateSelect;
+
+/**
+ * Get Read Watermark
+ *
+ * @param {string} conversationId - Conversation being read
+ * @param {string} userId - Reader
+ * @returns {Promise<Date | null>} Creation time of the newest message read, or null
+ */
+export const getReadWatermark = async (
+  conversationId: string,
+  userId: string
+) => {
+  const readState = await prisma.readState.findUnique({
+    where: {
+      userId_conversationId: {
+        userId,
+        conversationId,
+      },
+    },
+    select: {
+      lastReadAt: true,
+    },
+  });
+
+  return readState?.lastReadAt ?? null;
+};
+
+/**
+ * Set Read Watermark
+ *
+ * Moves the reader's watermark to the given message. Callers check that the
+ * message is newer than the current watermark first; the unread counter is
+ * only touched when a new value is passed.
+ *
+ * @param {string} conversationId - Conversation being read
+ * @param {string} userId - Reader
+ * @param {{ id: string; createdAt: Date }} message - Newest message read
+ * @param {number} [unreadCount] - Messages left unread after it
+ * @returns {Promise<void>}
+ *
+ * @example
+ * ```typescript
+ * // The sender has read their own message
+ * await setReadWatermark(conversationId, currentUser.id, newMessage);
+ * ```
+ */
+export const setReadWatermark = async (
+  conversationId: string,
+  userId: string,
+  message: { id: string; createdAt: Date },
+  unreadCount?: number
+) => {
+  await prisma.readState.upsert({
+    where: {
+      userId_conversationId: {
+        userId,
+        conversationId,
+      },
+    },
+    create: {
+      userId,
+      conversationId,
+      lastReadMessageId: message.id,
+      lastReadAt: message.createdAt,
+      unreadCount: unreadCount ?? 0,
+    },
+    update: {
+      lastReadMessageId: message.id,
+      lastReadAt: message.createdAt,
+      ...(unreadCount !== undefined && { unreadCount }),
+    },
+  });
+};
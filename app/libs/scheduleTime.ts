@@ -0,0 +1,35 @@
+/**
+ * Schedule Time Helpers for Dex Real-Time Messenger
+ *
+ * This file converts between send times and the value of a
+ * datetime-local input in our Next.js 14 real-time messaging application.
+ * The input works in the browser's local time without a zone, so values are
+ * formatted locally and turned into an ISO string before being sent.
+ *
+ * Key Features:
+ * - Formatting for datetime-local inputs
+ * - Default send time at the start of the next hour
+ *
+ * @fileoverview Schedule time helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { addHours, format, startOfHour } from 'date-fns';
+
+/**
+ * Datetime-Local Value
+ *
+ * @param {Date | string} date - Send time
+ * @returns {string} Value for a datetime-local input, e.g. "2025-06-01T09:00"
+ */
+export const toDateTimeLocal = (date: Date | string) =>
+  format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Default Send Time
+ *
+ * @returns {string} Start of the next hour as a datetime-local value
+ */
+export const defaultSendAt = () =>
+  toDateTimeLocal(startOfHour(addHours(new Date(), 1)));
@@ -0,0 +1,257 @@
+/**
+ * Scheduled Messages for Dex Real-Time Messenger
+ *
+ * This file holds the server side of scheduled messages in our Next.js 14
+ * real-time messaging application: validating a requested send time and
+ * dispatching the messages that have fallen due. Dispatching goes through
+ * deliverMessage, so recipients cannot tell a scheduled message from one
+ * sent by hand.
+ *
+ * Key Features:
+ * - Send times must lie in the future
+ * - Claim before delivery, so overlapping dispatcher runs never send twice
+ * - Abandoned claims are taken over after SCHEDULED_CLAIM_TIMEOUT_MS
+ * - One failed message never stops the rest of a batch
+ * - scheduled:update and scheduled:remove on the sender's own channel
+ *
+ * @fileoverview Scheduled messages for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Prisma, ScheduledMessage } from '@prisma/client';
+import prisma from '@/app/libs/prismadb';
+import { pusherServer } from '@/app/libs/pusher';
+import { deliverMessage } from '@/app/libs/messageDelivery';
+
+/**
+ * Claim Timeout
+ *
+ * A dispatcher run that crashed mid-delivery leaves its claim behind; after
+ * this long another run may pick the message up again.
+ */
+export const SCHEDULED_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Dispatch Batch Size
+ *
+ * Due messages handled per dispatcher run; the rest wait for the next run.
+ */
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Unclaimed Filter
+ *
+ * Matches scheduled messages no dispatcher run is currently delivering.
+ * Like deletedAt on messages, claimedAt may be missing rather than null.
+ *
+ * @param {Date} now - Reference time for abandoned claims
+ * @returns {Prisma.ScheduledMessageWhereInput} Filter for unclaimed rows
+ */
+export const unclaimedFilter = (
+  now: Date = new Date()
+): Prisma.ScheduledMessageWhereInput => ({
+  OR: [
+    { claimedAt: null },
+    { claimedAt: { isSet: false } },
+    {
+      claimedAt: {
+        lt: new Date(now.getTime() - SCHEDULED_CLAIM_TIMEOUT_MS),
+      },
+    },
+  ],
+});
+
+/**
+ * Send Time Parser
+ *
+ * @param {unknown} value - Send time from a request body
+ * @returns {Date | null} The send time, or null when invalid or not in the future
+ *
+ * @example
+ * ```typescript
+ * const sendAt = parseSendAt(body.sendAt);
+ *
+ * if (!sendAt) {
+ *   return new NextResponse('Invalid send time', { status: 400 });
+ * }
+ * ```
+ */
+export const parseSendAt = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const sendAt = new Date(value);
+
+  if (Number.isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return sendAt;
+};
+
+/**
+ * Scheduled Message Update Broadcast
+ *
+ * Only the sender knows about their scheduled messages, so their events go
+ * to the sender's own channel and keep the pending list in step across tabs.
+ *
+ * @param {string} email - The sender's own channel
+ * @param {ScheduledMessage} scheduledMessage - Created or edited message
+ * @returns {Promise<void>}
+ */
+export const broadcastScheduledUpdate = async (
+  email: string,
+  scheduledMessage: ScheduledMessage
+) => {
+  await pusherServer.trigger(email, 'scheduled:update', scheduledMessage);
+};
+
+/**
+ * Scheduled Message Removal Broadcast
+ *
+ * Sent when the message is cancelled or has just been sent.
+ *
+ * @param {string} email - The sender's own channel
+ * @param {Pick<ScheduledMessage, 'id' | 'conversationId'>} scheduledMessage - Removed message
+ * @returns {Promise<void>}
+ */
+export const broadcastScheduledRemove = async (
+  email: string,
+  { id, conversationId }: Pick<ScheduledMessage, 'id' | 'conversationId'>
+) => {
+  await pusherServer.trigger(email, 'scheduled:remove', { id, conversationId });
+};
+
+/**
+ * Dispatch Scheduled Message
+ *
+ * The scheduled message ID is passed as the client message ID, so when a
+ * run fails after the message was created and the claim later times out,
+ * delivering it again returns the first message instead of a duplicate.
+ *
+ * @param {string} id - Due scheduled message
+ * @param {Date} now - Current time, recorded as the claim
+ * @returns {Promise<boolean>} Whether a message was sent
+ */
+const dispatchScheduledMessage = async (id: string, now: Date) => {
+  const claim = await prisma.scheduledMessage.updateMany({
+    where: {
+      AND: [{ id }, unclaimedFilter(now)],
+    },
+    data: {
+      claimedAt: now,
+    },
+  });
+
+  if (claim.count === 0) {
+    return false;
+  }
+
+  const scheduledMessage = await prisma.scheduledMessage.findUnique({
+    where: {
+      id,
+    },
+    include: {
+      conversation: {
+        select: {
+          userIds: true,
+        },
+      },
+      sender: {
+        select: {
+          email: true,
+        },
+      },
+    },
+  });
+
+  if (!scheduledMessage) {
+    return false;
+  }
+
+  const { conversationId, senderId, replyToId } = scheduledMessage;
+  const isMember = scheduledMessage.conversation.userIds.includes(senderId);
+
+  if (isMember) {
+    const replyTarget = replyToId
+      ? await prisma.message.findFirst({
+          where: {
+            id: replyToId,
+            conversationId,
+          },
+          select: { id: true },
+        })
+      : null;
+
+    await deliverMessage(conversationId, senderId, {
+      body: scheduledMessage.body,
+      image: scheduledMessage.image,
+      replyToId: replyTarget?.id,
+      clientMessageId: scheduledMessage.id,
+    });
+  }
+
+  await prisma.scheduledMessage.delete({
+    where: {
+      id,
+    },
+  });
+
+  if (scheduledMessage.sender.email) {
+    await broadcastScheduledRemove(
+      scheduledMessage.sender.email,
+      scheduledMessage
+    );
+  }
+
+  return isMember;
+};
+
+/**
+ * Dispatch Due Scheduled Messages
+ *
+ * Each due message is claimed with a conditional update first; a run that
+ * loses the race for it simply moves on. Messages whose sender has left the
+ * conversation are dropped, and a reply to a message that no longer exists
+ * goes out as a plain message. A message that fails to send does not hold
+ * up the rest of the batch; it keeps its claim and is retried once the
+ * claim times out.
+ *
+ * @param {Date} [now] - Current time
+ * @returns {Promise<number>} Number of messages sent
+ *
+ * @example
+ * ```typescript
+ * const sent = await dispatchDueScheduledMessages();
+ * ```
+ */
+export const dispatchDueScheduledMessages = async (now: Date = new Date()) => {
+  const due = await prisma.scheduledMessage.findMany({
+    where: {
+      AND: [{ sendAt: { lte: now } }, unclaimedFilter(now)],
+    },
+    select: {
+      id: true,
+    },
+    orderBy: {
+      sendAt: 'asc',
+    },
+    take: DISPATCH_BATCH_SIZE,
+  });
+
+  let sent = 0;
+
+  for (const { id } of due) {
+    try {
+      if (await dispatchScheduledMessage(id, now)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error('Scheduled message dispatch error:', id, error);
+    }
+  }
+
+  return sent;
+};
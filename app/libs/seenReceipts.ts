@@ -0,0 +1,152 @@
+/**
+ * Seen Receipt Helpers for Dex Real-Time Messenger
+ *
+ * This file contains the client-side helpers for read watermarks in our
+ * Next.js 14 real-time messaging application. Messages do not carry their
+ * readers; instead each conversation has one watermark per participant, and
+ * these helpers derive read receipts from it and keep it current from the
+ * compact SeenUpdate the seen route broadcasts.
+ *
+ * Key Features:
+ * - Watermark updates applied to the conversation's read states
+ * - Seen check for a single message, used for conversation previews
+ * - Last seen message per reader, for "Seen by" under the right message
+ *
+ * @fileoverview Seen receipt helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import {
+  FullMessageType,
+  ReadWatermark,
+  Reader,
+  SeenUpdate,
+} from '@/app/types';
+
+/**
+ * Timestamp Helper
+ *
+ * Dates arrive as strings from JSON and Pusher but as Date objects from
+ * server components, so both are compared as milliseconds.
+ */
+const toTime = (value: Date | string | null | undefined) =>
+  value ? new Date(value).getTime() : -Infinity;
+
+/**
+ * Apply Seen Update
+ *
+ * Moves the reader's watermark to the broadcast one, adding an entry for
+ * readers seen for the first time. An update older than the known watermark
+ * is ignored, and the original array is returned when nothing changed, so
+ * React state setters can skip the re-render.
+ *
+ * @param {ReadWatermark[]} readStates - Known watermarks of the conversation
+ * @param {SeenUpdate} update - Watermark broadcast by the seen route
+ * @returns {ReadWatermark[]} Watermarks with the reader's one moved forward
+ *
+ * @example
+ * ```typescript
+ * setReadStates((current) => applySeenUpdate(current, update));
+ * ```
+ */
+export const applySeenUpdate = (
+  readStates: ReadWatermark[],
+  update: SeenUpdate
+): ReadWatermark[] => {
+  const watermark: ReadWatermark = {
+    userId: update.user.id,
+    user: update.user,
+    lastReadMessageId: update.messageId,
+    lastReadAt: new Date(update.seenAt),
+  };
+  const existing = readStates.find(
+    (readState) => readState.userId === update.user.id
+  );
+
+  if (!existing) {
+    return [...readStates, watermark];
+  }
+
+  if (toTime(existing.lastReadAt) >= toTime(update.seenAt)) {
+    return readStates;
+  }
+
+  return readStates.map((readState) =>
+    readState.userId === update.user.id ? watermark : readState
+  );
+};
+
+/**
+ * Has Seen Message
+ *
+ * People have always seen their own messages; anything else is seen once
+ * the user's watermark is at or after it.
+ *
+ * @param {FullMessageType} message - Message to check
+ * @param {ReadWatermark[]} readStates - Watermarks of the message's conversation
+ * @param {string | null} [userId] - User to check for
+ * @returns {boolean} Whether the user has seen the message
+ */
+export const hasSeenMessage = (
+  message: Pick<FullMessageType, 'createdAt' | 'senderId'>,
+  readStates: ReadWatermark[],
+  userId?: string | null
+) => {
+  if (!userId) {
+    return false;
+  }
+
+  if (message.senderId === userId) {
+    return true;
+  }
+
+  const readState = readStates.find((readState) => readState.userId === userId);
+
+  return toTime(readState?.lastReadAt) >= toTime(message.createdAt);
+};
+
+/**
+ * Readers by Message
+ *
+ * For every reader, finds the newest loaded message they have seen and
+ * groups readers by that message. A reader's own messages count as seen even
+ * before their watermark catches up with them. The current user is left out,
+ * and so is a reader whose newest seen message is their own, so the result is
+ * exactly who to list as "Seen by" under each message.
+ *
+ * @param {FullMessageType[]} messages - Loaded messages, oldest first
+ * @param {ReadWatermark[]} readStates - Watermarks of the conversation
+ * @param {string | null} [currentUserId] - Viewer, never listed
+ * @returns {Map<string, Reader[]>} Readers keyed by the message they have read up to
+ */
+export const getReadersByMessage = (
+  messages: FullMessageType[],
+  readStates: ReadWatermark[],
+  currentUserId?: string | null
+) => {
+  const readers = new Map<string, Reader[]>();
+
+  readStates.forEach(({ user, lastReadAt }) => {
+    if (!user || user.id === currentUserId) {
+      return;
+    }
+
+    const readUpTo = toTime(lastReadAt);
+
+    for (let index = messages.length - 1; index >= 0; index--) {
+      const message = messages[index];
+
+      if (message.senderId === user.id) {
+        return;
+      }
+
+      if (toTime(message.createdAt) <= readUpTo) {
+        readers.set(message.id, [...(readers.get(message.id) || []), user]);
+        return;
+      }
+    }
+  });
+
+  return readers;
+};
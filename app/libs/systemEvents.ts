@@ -0,0 +1,104 @@
+/**
+ * System Events for Dex Real-Time Messenger
+ *
+ * This file turns the structured payload of system messages into the text
+ * shown in the timelines of our Next.js 14 real-time messaging application.
+ * It is free of server imports, so the API routes that record events and the
+ * components that render them share the same wording.
+ *
+ * Key Features:
+ * - Message type lookup, with TEXT or IMAGE inferred for older messages
+ * - One sentence per event kind: "Alice added Bob and Carol", "Carol left", …
+ * - Name helpers for capturing who took part in an event
+ *
+ * @fileoverview System events for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Message, MessageType, SystemEvent, User } from '@prisma/client';
+
+/**
+ * Message Type
+ *
+ * @param {Pick<Message, 'type' | 'image'>} message - Message to classify
+ * @returns {MessageType} The stored type, or TEXT / IMAGE for older messages
+ */
+export const getMessageType = (
+  message: Pick<Message, 'type' | 'image'>
+): MessageType => message.type ?? (message.image ? 'IMAGE' : 'TEXT');
+
+/**
+ * Display Name
+ *
+ * @param {Pick<User, 'name' | 'email'>} user - User named in the event
+ * @returns {string} Name for system message text
+ */
+export const getDisplayName = (user: Pick<User, 'name' | 'email'>) =>
+  user.name || user.email || 'Someone';
+
+/**
+ * Name List
+ *
+ * @param {string[]} names - Names to join
+ * @returns {string} "Bob", "Bob and Carol" or "Bob, Carol and Dan"
+ */
+export const formatNameList = (names: string[]) =>
+  names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : (names[0] ?? '');
+
+const ROLE_CHANGE_TEXT: Record<string, (target: string) => string> = {
+  OWNER: (target) => `made ${target} the owner`,
+  ADMIN: (target) => `made ${target} an admin`,
+  MEMBER: (target) => `removed ${target} as admin`,
+};
+
+/**
+ * System Event Text
+ *
+ * @param {SystemEvent} event - Payload of a SYSTEM message
+ * @returns {string} The sentence shown in the timeline
+ *
+ * @example
+ * ```typescript
+ * formatSystemEvent({
+ *   kind: 'MEMBERS_ADDED',
+ *   actorName: 'Alice',
+ *   targetNames: ['Bob', 'Carol'],
+ *   ...
+ * });
+ * // 'Alice added Bob and Carol'
+ * ```
+ */
+export const formatSystemEvent = (event: SystemEvent) => {
+  const { actorName, value } = event;
+  const targets = formatNameList(event.targetNames);
+
+  switch (event.kind) {
+    case 'MEMBERS_ADDED':
+      return `${actorName} added ${targets}`;
+    case 'MEMBER_REMOVED':
+      return `${actorName} removed ${targets}`;
+    case 'MEMBER_LEFT':
+      return targets
+        ? `${actorName} left and made ${targets} the owner`
+        : `${actorName} left`;
+    case 'MEMBER_JOINED':
+      return `${actorName} joined using an invite link`;
+    case 'ROLE_CHANGED':
+      return `${actorName} ${(ROLE_CHANGE_TEXT[value ?? ''] ?? ROLE_CHANGE_TEXT.MEMBER)(targets)}`;
+    case 'GROUP_RENAMED':
+      return `${actorName} renamed the group to "${value}"`;
+    case 'GROUP_PHOTO_CHANGED':
+      return value
+        ? `${actorName} changed the group photo`
+        : `${actorName} removed the group photo`;
+    case 'GROUP_DESCRIPTION_CHANGED':
+      return value
+        ? `${actorName} changed the group description`
+        : `${actorName} removed the group description`;
+    default:
+      return `${actorName} updated the group`;
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * System Messages for Dex Real-Time Messenger
+ *
+ * This file posts conversation events, such as members being added or
+ * leaving, into the timeline of our Next.js 14 real-time messaging
+ * application. They are stored as SYSTEM messages carrying a structured
+ * event, and delivered exactly like a message sent through POST
+ * /api/messages, so they arrive live and count towards unread badges.
+ *
+ * Key Features:
+ * - Message creation attributed to the user who caused the event
+ * - Event payload with names captured at the time, plus its text as body
+ * - Same Pusher events as sent messages (messages:new, conversation:update)
+ * - Unread counters and the actor's read watermark kept in step
+ *
+ * @fileoverview System messages for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { SystemEventKind, User } from '@prisma/client';
+import prisma from '@/app/libs/prismadb';
+import { fullMessageInclude } from '@/app/libs/messageInclude';
+import { pusherServer } from '@/app/libs/pusher';
+import { incrementUnreadCounts } from '@/app/libs/unreadCounts';
+import { setReadWatermark } from '@/app/libs/readWatermarks';
+import { formatSystemEvent, getDisplayName } from '@/app/libs/systemEvents';
+
+/**
+ * System Event Input
+ *
+ * @interface SystemEventInput
+ * @property {SystemEventKind} kind - What happened
+ * @property {User[]} [targets] - Members the event is about
+ * @property {string | null} [value] - New name, role or photo, see SystemEvent
+ */
+interface SystemEventInput {
+  kind: SystemEventKind;
+  targets?: Pick<User, 'id' | 'name' | 'email'>[];
+  value?: string | null;
+}
+
+/**
+ * Create System Message
+ *
+ * Posts the event into the conversation and notifies its current members.
+ * The actor may no longer be a member, e.g. after leaving; they then get no
+ * read watermark, since read states only exist for members.
+ *
+ * @param {string} conversationId - Conversation the event happened in
+ * @param {User} actor - User who caused the event
+ * @param {SystemEventInput} input - The event
+ * @returns {Promise<FullMessageType>} The created message
+ *
+ * @example
+ * ```typescript
+ * await createSystemMessage(conversationId, currentUser, {
+ *   kind: 'MEMBER_REMOVED',
+ *   targets: [member],
+ * });
+ * ```
+ */
+export const createSystemMessage = async (
+  conversationId: string,
+  actor: User,
+  { kind, targets = [], value = null }: SystemEventInput
+) => {
+  const event = {
+    kind,
+    actorId: actor.id,
+    actorName: getDisplayName(actor),
+    targetIds: targets.map((target) => target.id),
+    targetNames: targets.map(getDisplayName),
+    value,
+  };
+
+  const message = await prisma.message.create({
+    data: {
+      type: 'SYSTEM',
+      event,
+      body: formatSystemEvent(event),
+      conversation: {
+        connect: {
+          id: conversationId,
+        },
+      },
+      sender: {
+        connect: {
+          id: actor.id,
+        },
+      },
+    },
+    include: fullMessageInclude,
+  });
+
+  const conversation = await prisma.conversation.update({
+    where: {
+      id: conversationId,
+    },
+    data: {
+      lastMessageAt: message.createdAt,
+      messagesIds: {
+        push: message.id,
+      },
+    },
+    include: {
+      users: true,
+    },
+  });
+
+  await pusherServer.trigger(conversationId, 'messages:new', message);
+
+  const unreadCounts = await incrementUnreadCounts(
+    conversationId,
+    conversation.userIds.filter((userId) => userId !== actor.id)
+  );
+
+  if (conversation.userIds.includes(actor.id)) {
+    await setReadWatermark(conversationId, actor.id, message, 0);
+  }
+
+  conversation.users.forEach((user) => {
+    if (user.email) {
+      pusherServer.trigger(user.email, 'conversation:update', {
+        id: conversationId,
+        messages: [message],
+        unreadCount: unreadCounts.get(user.id) ?? 0,
+      });
+    }
+  });
+
+  return message;
+};
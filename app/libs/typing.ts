@@ -0,0 +1,90 @@
+/**
+ * Typing Indicator Helpers for Dex Real-Time Messenger
+ *
+ * This file contains the shared pieces of the typing indicators in our
+ * Next.js 14 real-time messaging application. Typing signals never touch the
+ * server: they are Pusher client events sent straight between browsers over
+ * a private channel per conversation, which the auth endpoint only grants to
+ * the conversation's participants.
+ *
+ * Key Features:
+ * - Private conversation channel naming and parsing
+ * - Timing for throttled start events, idle stop and receiver-side expiry
+ * - "Alice is typing…" / "3 people are typing…" labels
+ *
+ * @fileoverview Typing indicator helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+/**
+ * Typing Client Event
+ *
+ * Pusher only relays client events whose name starts with "client-", and
+ * only on private or presence channels.
+ */
+export const TYPING_EVENT = 'client-typing';
+
+/**
+ * Typing Timing
+ *
+ * - THROTTLE: a start event is re-sent at most this often while typing
+ * - IDLE: the sender sends a stop event after this long without a keystroke
+ * - EXPIRY: receivers drop a typist they have not heard from for this long,
+ *   covering closed tabs and lost stop events; longer than the throttle, so
+ *   an active typist never flickers
+ */
+export const TYPING_THROTTLE_MS = 2500;
+export const TYPING_IDLE_MS = 4000;
+export const TYPING_EXPIRY_MS = 6000;
+
+const CONVERSATION_CHANNEL_PREFIX = 'private-conversation-';
+
+/**
+ * Conversation Channel Name
+ *
+ * @param {string} conversationId - Conversation ID
+ * @returns {string} Private channel carrying the conversation's client events
+ */
+export const getConversationChannelName = (conversationId: string) =>
+  `${CONVERSATION_CHANNEL_PREFIX}${conversationId}`;
+
+/**
+ * Conversation ID from Channel Name
+ *
+ * @param {string} channelName - Channel name from a Pusher auth request
+ * @returns {string | null} Conversation ID, or null for other channels
+ */
+export const parseConversationChannelName = (channelName: string) =>
+  channelName.startsWith(CONVERSATION_CHANNEL_PREFIX)
+    ? channelName.slice(CONVERSATION_CHANNEL_PREFIX.length)
+    : null;
+
+/**
+ * Typing Label
+ *
+ * @param {string[]} names - Names of the people typing
+ * @returns {string} Label for the indicator, empty when nobody is typing
+ *
+ * @example
+ * ```typescript
+ * formatTypingLabel(['Alice']); // 'Alice is typing…'
+ * formatTypingLabel(['Alice', 'Bob']); // 'Alice and Bob are typing…'
+ * formatTypingLabel(['Alice', 'Bob', 'Carol']); // '3 people are typing…'
+ * ```
+ */
+export const formatTypingLabel = (names: string[]) => {
+  if (names.length === 0) {
+    return '';
+  }
+
+  if (names.length === 1) {
+    return `${names[0]} is typing…`;
+  }
+
+  if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing…`;
+  }
+
+  return `${names.length} people are typing…`;
+};
@@ -0,0 +1,231 @@
+/**
+ * Unread Counters for Dex Real-Time Messenger
+ *
+ * This file maintains the per-user, per-conversation unread counters of our
+ * Next.js 14 real-time messaging application. The counters live in the
+ * ReadState model and are updated on write, so badges and the browser tab
+ * title never have to count messages.
+ *
+ * Key Features:
+ * - Counters incremented for every recipient when a message is created
+ * - Counter recalculated when a user marks a conversation as seen
+ * - Counter recalculated when an unread message is deleted or hidden
+ * - Lazy row creation by upsert, so no setup is needed when users join
+ * - Lookup of all counters of a user for the initial sidebar render
+ *
+ * @fileoverview Unread counters for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prisma from '@/app/libs/prismadb';
+import {
+  liveMessageFilter,
+  visibleToUserFilter,
+} from '@/app/libs/messageFilters';
+
+/**
+ * Increment Unread Counters
+ *
+ * Adds one unread message for each recipient. The sender is never passed in,
+ * because people do not need to be told about their own messages.
+ *
+ * @param {string} conversationId - Conversation that received the message
+ * @param {string[]} recipientIds - Users other than the sender
+ * @returns {Promise<Map<string, number>>} New counter value for each recipient
+ *
+ * @example
+ * ```typescript
+ * const counts = await incrementUnreadCounts(conversationId, recipientIds);
+ * counts.get(user.id); // 3
+ * ```
+ */
+export const incrementUnreadCounts = async (
+  conversationId: string,
+  recipientIds: string[]
+) => {
+  const readStates = await Promise.all(
+    recipientIds.map((userId) =>
+      prisma.readState.upsert({
+        where: {
+          userId_conversationId: {
+            userId,
+            conversationId,
+          },
+        },
+        create: {
+          userId,
+          conversationId,
+          unreadCount: 1,
+        },
+        update: {
+          unreadCount: {
+            increment: 1,
+          },
+        },
+      })
+    )
+  );
+
+  return new Map(
+    readStates.map((readState) => [readState.userId, readState.unreadCount])
+  );
+};
+
+/**
+ * Set Unread Counter
+ *
+ * Called when the user marks the conversation as seen. The count is the
+ * number of messages still after the user's read watermark, which is zero
+ * unless they only read up to an older message.
+ *
+ * @param {string} conversationId - Conversation that was read
+ * @param {string} userId - Reader
+ * @param {number} unreadCount - Messages left unread
+ * @returns {Promise<void>}
+ */
+export const setUnreadCount = async (
+  conversationId: string,
+  userId: string,
+  unreadCount: number
+) => {
+  await prisma.readState.upsert({
+    where: {
+      userId_conversationId: {
+        userId,
+        conversationId,
+      },
+    },
+    create: {
+      userId,
+      conversationId,
+      unreadCount,
+    },
+    update: {
+      unreadCount,
+    },
+  });
+};
+
+/**
+ * Count Unread Messages
+ *
+ * Messages from others after the read watermark that the user can still
+ * see; tombstones and messages they deleted for themselves do not count.
+ *
+ * @param {string} conversationId - Conversation to count in
+ * @param {string} userId - Reader
+ * @param {Date | null} readUpTo - The reader's watermark, null if they never read
+ * @returns {Promise<number>} Number of unread messages
+ */
+export const countUnreadMessages = (
+  conversationId: string,
+  userId: string,
+  readUpTo: Date | null
+) =>
+  prisma.message.count({
+    where: {
+      conversationId,
+      ...(readUpTo && {
+        createdAt: {
+          gt: readUpTo,
+        },
+      }),
+      NOT: {
+        senderId: userId,
+      },
+      AND: [liveMessageFilter, visibleToUserFilter(userId)],
+    },
+  });
+
+/**
+ * Recount Unread Counters
+ *
+ * Called after a message is deleted for everyone or hidden by one user.
+ * Only users who had not read up to the message yet can have counted it, so
+ * the others are skipped.
+ *
+ * @param {string} conversationId - Conversation the message belonged to
+ * @param {{ createdAt: Date }} message - The deleted or hidden message
+ * @param {string[]} userIds - Users who may have counted it as unread
+ * @returns {Promise<Map<string, number>>} New counter value for each recounted user
+ *
+ * @example
+ * ```typescript
+ * const counts = await recountUnreadCounts(conversationId, message, [userId]);
+ * ```
+ */
+export const recountUnreadCounts = async (
+  conversationId: string,
+  message: { createdAt: Date },
+  userIds: string[]
+) => {
+  const readStates = await prisma.readState.findMany({
+    where: {
+      conversationId,
+      userId: {
+        in: userIds,
+      },
+    },
+    select: {
+      userId: true,
+      lastReadAt: true,
+    },
+  });
+
+  const lastReadAtByUser = new Map(
+    readStates.map((readState) => [readState.userId, readState.lastReadAt])
+  );
+  const unreadCounts = new Map<string, number>();
+
+  await Promise.all(
+    userIds.map(async (userId) => {
+      const lastReadAt = lastReadAtByUser.get(userId) ?? null;
+
+      if (lastReadAt && lastReadAt >= message.createdAt) {
+        return;
+      }
+
+      const unreadCount = await countUnreadMessages(
+        conversationId,
+        userId,
+        lastReadAt
+      );
+
+      await setUnreadCount(conversationId, userId, unreadCount);
+      unreadCounts.set(userId, unreadCount);
+    })
+  );
+
+  return unreadCounts;
+};
+
+/**
+ * Unread Counters of a User
+ *
+ * Conversations without unread messages are left out of the result.
+ *
+ * @param {string} userId - User whose counters are loaded
+ * @returns {Promise<Record<string, number>>} Unread count keyed by conversation ID
+ */
+export const getUnreadCountsForUser = async (userId: string) => {
+  const readStates = await prisma.readState.findMany({
+    where: {
+      userId,
+      unreadCount: {
+        gt: 0,
+      },
+    },
+    select: {
+      conversationId: true,
+      unreadCount: true,
+    },
+  });
+
+  return Object.fromEntries(
+    readStates.map((readState) => [
+      readState.conversationId,
+      readState.unreadCount,
+    ])
+  );
+};
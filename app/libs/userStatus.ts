@@ -0,0 +1,158 @@
+/**
+ * User Status Helpers for Dex Real-Time Messenger
+ *
+ * This file contains the shared pieces of custom statuses and availability
+ * modes in our Next.js 14 real-time messaging application. A custom status
+ * is an emoji plus a short text that may expire; availability colours the
+ * presence dot while the user is online.
+ *
+ * Key Features:
+ * - Labels and dot colours per availability mode
+ * - Expiry presets for the settings form
+ * - Resolution of the status a user currently shows, honouring expiry
+ *
+ * @fileoverview User status helpers for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { Availability, User } from '@prisma/client';
+import { endOfDay, endOfWeek } from 'date-fns';
+
+/**
+ * Status Limits
+ *
+ * Emoji allow several code units, since flags and skin tones are sequences.
+ */
+export const STATUS_TEXT_MAX_LENGTH = 100;
+export const STATUS_EMOJI_MAX_LENGTH = 16;
+
+/**
+ * Availability Labels
+ *
+ * Shown instead of "Active" for online users who picked another mode.
+ */
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  AVAILABLE: 'Active',
+  BUSY: 'Busy',
+  DO_NOT_DISTURB: 'Do not disturb',
+  AWAY: 'Away',
+};
+
+/**
+ * Availability Dot Colours
+ *
+ * Tailwind background classes for the presence dot on avatars.
+ */
+export const AVAILABILITY_DOT_CLASSES: Record<Availability, string> = {
+  AVAILABLE: 'bg-green-500',
+  BUSY: 'bg-rose-500',
+  DO_NOT_DISTURB: 'bg-red-700',
+  AWAY: 'bg-amber-400',
+};
+
+/**
+ * Availability Options
+ *
+ * Choices for the settings form, worded as modes rather than presence.
+ */
+export const AVAILABILITY_OPTIONS: { value: Availability; label: string }[] = [
+  { value: Availability.AVAILABLE, label: 'Available' },
+  { value: Availability.BUSY, label: 'Busy' },
+  { value: Availability.DO_NOT_DISTURB, label: 'Do not disturb' },
+  { value: Availability.AWAY, label: 'Away' },
+];
+
+/**
+ * Status Expiry Presets
+ *
+ * Values for the "Clear after" field of the settings form.
+ */
+export const STATUS_EXPIRY_OPTIONS = [
+  { value: 'never', label: "Don't clear" },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+];
+
+/**
+ * Status Expiry from Preset
+ *
+ * @param {string} preset - Value from STATUS_EXPIRY_OPTIONS
+ * @param {Date} [now] - Reference time
+ * @returns {Date | null} When the status clears, or null to keep it
+ */
+export const getStatusExpiry = (preset: string, now = new Date()) => {
+  switch (preset) {
+    case '30m':
+      return new Date(now.getTime() + 30 * 60 * 1000);
+    case '1h':
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case '4h':
+      return new Date(now.getTime() + 4 * 60 * 60 * 1000);
+    case 'today':
+      return endOfDay(now);
+    case 'week':
+      return endOfWeek(now);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Availability Mode
+ *
+ * @param {Pick<User, 'availability'>} user - User to describe
+ * @returns {Availability} The user's mode, AVAILABLE when never set
+ */
+export const getAvailability = (user: Pick<User, 'availability'>) =>
+  user.availability ?? Availability.AVAILABLE;
+
+/**
+ * Custom Status Fields
+ *
+ * The expiry is a string when users come through Pusher payloads.
+ */
+type CustomStatusFields = Pick<User, 'statusText' | 'statusEmoji'> & {
+  statusExpiresAt: Date | string | null;
+};
+
+/**
+ * Custom Status
+ *
+ * @param {CustomStatusFields} user - User or status update to describe
+ * @param {Date} [now] - Reference time
+ * @returns {{ emoji: string | null; text: string | null } | null} Status to show, or null when unset or expired
+ */
+export const getCustomStatus = (user: CustomStatusFields, now = new Date()) => {
+  if (!user.statusText && !user.statusEmoji) {
+    return null;
+  }
+
+  if (user.statusExpiresAt && new Date(user.statusExpiresAt) <= now) {
+    return null;
+  }
+
+  return {
+    emoji: user.statusEmoji,
+    text: user.statusText,
+  };
+};
+
+/**
+ * Custom Status Label
+ *
+ * @param {{ emoji: string | null; text: string | null }} status - Status from getCustomStatus
+ * @returns {string} Emoji and text joined for a single line
+ *
+ * @example
+ * ```typescript
+ * formatCustomStatus({ emoji: '🌴', text: 'On vacation' }); // '🌴 On vacation'
+ * ```
+ */
+export const formatCustomStatus = (status: {
+  emoji: string | null;
+  text: string | null;
+}) => [status.emoji, status.text].filter(Boolean).join(' ');
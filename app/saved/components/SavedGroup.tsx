@@ -0,0 +1,132 @@
+/**
+ * Saved Group Component for Dex Real-Time Messenger
+ *
+ * This file provides the SavedGroup component for our Next.js 14 real-time
+ * messaging application. It renders the saved messages of one conversation
+ * on the Saved page under the conversation's name and avatar. Each message
+ * links back into its conversation, which opens scrolled to it.
+ *
+ * Key Features:
+ * - Conversation heading named like ConversationBox names it
+ * - Deep links to /conversations/[conversationId]?messageId=[messageId]
+ * - Unstar button per message
+ *
+ * @fileoverview Saved group component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import Avatar from '@/app/components/Avatar';
+import AvatarGroup from '@/app/components/AvatarGroup';
+import useOtherUser from '@/app/hooks/useOtherUser';
+import useSavedMessages from '@/app/hooks/useSavedMessages';
+import { SavedMessageWithContext, SavedUpdate } from '@/app/types';
+import { Conversation, User } from '@prisma/client';
+import axios from 'axios';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { HiStar } from 'react-icons/hi2';
+
+/**
+ * Saved Group Props Interface
+ *
+ * @interface SavedGroupProps
+ * @property {Conversation & { users: User[] }} conversation - Conversation the messages belong to
+ * @property {SavedMessageWithContext[]} items - Saved messages of that conversation
+ */
+interface SavedGroupProps {
+  conversation: Conversation & { users: User[] };
+  items: SavedMessageWithContext[];
+}
+
+/**
+ * Saved Group Component
+ *
+ * @param {SavedGroupProps} props - Component props
+ * @returns {JSX.Element} Conversation heading followed by its saved messages
+ *
+ * @example
+ * ```tsx
+ * <SavedGroup conversation={conversation} items={items} />
+ * ```
+ */
+const SavedGroup: React.FC<SavedGroupProps> = ({ conversation, items }) => {
+  const otherUser = useOtherUser(conversation);
+  const setSaved = useSavedMessages((state) => state.setSaved);
+
+  const unsave = (item: SavedMessageWithContext) => {
+    axios
+      .delete<SavedUpdate>(
+        `/api/messages/${conversation.id}/${item.messageId}/save`
+      )
+      .then(({ data }) => setSaved(data.messageId, data.saved))
+      .catch(() => toast.error('Something went wrong!'));
+  };
+
+  return (
+    <section className="pb-4">
+      <div className="flex items-center gap-3 py-2">
+        {conversation.isGroup ? (
+          <AvatarGroup users={conversation.users} image={conversation.image} />
+        ) : (
+          <Avatar user={otherUser} />
+        )}
+        <p className="truncate text-md font-medium text-gray-900">
+          {conversation.name || otherUser?.name}
+        </p>
+      </div>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className="
+              flex
+              items-start
+              gap-2
+              rounded-lg
+              p-2
+              hover:bg-neutral-100
+              transition
+            "
+          >
+            <Link
+              href={`/conversations/${conversation.id}?messageId=${item.messageId}`}
+              className="min-w-0 flex-1"
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="truncate text-xs font-semibold text-sky-600">
+                  {item.message.sender.name}
+                </span>
+                <span className="shrink-0 text-xs text-gray-400">
+                  {format(new Date(item.message.createdAt), 'PP')}
+                </span>
+              </div>
+              <p className="truncate text-sm text-gray-700">
+                {item.message.image ? 'Photo' : item.message.body}
+              </p>
+            </Link>
+            <button
+              type="button"
+              onClick={() => unsave(item)}
+              aria-label="Remove from saved"
+              title="Remove from saved"
+              className="
+                shrink-0
+                text-amber-400
+                hover:text-amber-500
+                transition
+              "
+            >
+              <HiStar size={18} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default SavedGroup;
@@ -0,0 +1,122 @@
+/**
+ * Saved List Component for Dex Real-Time Messenger
+ *
+ * This file provides the SavedList component for our Next.js 14 real-time
+ * messaging application. It is the list panel of the /saved route, showing
+ * the messages the user starred grouped by the conversation they belong to,
+ * with the conversation of the most recent save first.
+ *
+ * Key Features:
+ * - One SavedGroup per conversation
+ * - Messages unstarred here or in another tab disappear straight away
+ * - Empty hint when nothing is saved
+ *
+ * @fileoverview Saved list component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+'use client';
+
+import useSavedMessages from '@/app/hooks/useSavedMessages';
+import { SavedMessageWithContext } from '@/app/types';
+import { useMemo } from 'react';
+import SavedGroup from './SavedGroup';
+
+/**
+ * Saved List Props Interface
+ *
+ * @interface SavedListProps
+ * @property {SavedMessageWithContext[]} items - Saved messages, most recently saved first
+ */
+interface SavedListProps {
+  items: SavedMessageWithContext[];
+}
+
+/**
+ * Saved List Component
+ *
+ * @param {SavedListProps} props - Component props
+ * @returns {JSX.Element} Panel with the saved messages grouped by conversation
+ *
+ * @example
+ * ```tsx
+ * // In saved/layout.tsx
+ * <SavedList items={savedMessages} />
+ * ```
+ */
+const SavedList: React.FC<SavedListProps> = ({ items }) => {
+  const savedIds = useSavedMessages((state) => state.savedIds);
+
+  /**
+   * Conversation Groups
+   *
+   * Map keeps insertion order, so groups follow their most recent save and
+   * messages within a group stay most recently saved first.
+   */
+  const groups = useMemo(() => {
+    const byConversation = new Map<string, SavedMessageWithContext[]>();
+
+    items
+      .filter((item) => savedIds[item.messageId] !== false)
+      .forEach((item) => {
+        const conversationId = item.message.conversationId;
+
+        byConversation.set(conversationId, [
+          ...(byConversation.get(conversationId) ?? []),
+          item,
+        ]);
+      });
+
+    return Array.from(byConversation.values());
+  }, [items, savedIds]);
+
+  return (
+    <aside
+      className="
+        fixed
+        inset-y-0
+        pb-20
+        lg:pb-0
+        lg:left-20
+        lg:w-80
+        lg:block
+        overflow-y-auto
+        border-r
+        border-gray-200
+        block
+        w-full
+        left-0
+      "
+    >
+      <div className="px-5">
+        <div className="flex-col">
+          <div
+            className="
+              text-2xl
+              font-bold
+              text-neutral-800
+              py-4
+            "
+          >
+            Saved
+          </div>
+        </div>
+        {groups.length === 0 && (
+          <p className="py-4 text-sm text-gray-500">
+            Star a message to keep it here.
+          </p>
+        )}
+        {groups.map((group) => (
+          <SavedGroup
+            key={group[0].message.conversationId}
+            conversation={group[0].message.conversation}
+            items={group}
+          />
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default SavedList;
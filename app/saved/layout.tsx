@@ -0,0 +1,51 @@
+/**
+ * Saved Layout Component for Dex Real-Time Messenger
+ *
+ * This file provides the saved messages layout for our Next.js 14 real-time
+ * messaging application. Like the users layout, it renders the Sidebar with
+ * a list panel next to it; here the panel holds the messages the user
+ * starred, grouped by the conversation they came from.
+ *
+ * Key Features:
+ * - Server-side loading of the user's saved messages with getSavedMessages
+ * - SavedList panel alongside the page content
+ * - Sidebar navigation shared with the rest of the app
+ *
+ * @fileoverview Saved layout component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import getSavedMessages from '../actions/getSavedMessages';
+import Sidebar from '../components/sidebar/Sidebar';
+import SavedList from './components/SavedList';
+
+/**
+ * Saved Layout Component
+ *
+ * @param {Object} props - Component props containing children to render
+ * @param {React.ReactNode} props.children - Child components to render in main content area
+ * @returns {Promise<JSX.Element>} Saved layout with sidebar, saved list, and content area
+ *
+ * @example
+ * ```tsx
+ * // Route: /saved
+ * // Renders the saved messages list next to the empty state
+ * ```
+ */
+export default async function SavedLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const savedMessages = await getSavedMessages();
+
+  return (
+    <Sidebar>
+      <div className="h-full">
+        <SavedList items={savedMessages} />
+        {children}
+      </div>
+    </Sidebar>
+  );
+}
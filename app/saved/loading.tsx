@@ -0,0 +1,23 @@
+/**
+ * Saved Loading Component for Dex Real-Time Messenger
+ *
+ * This file provides the loading state shown while the saved messages
+ * layout loads on the server, matching the /users loading state.
+ *
+ * @fileoverview Saved loading component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import LoadingModal from '../components/LoadingModal';
+
+/**
+ * Saved Loading Component
+ *
+ * @returns {JSX.Element} Loading modal
+ */
+const Loading = () => {
+  return <LoadingModal />;
+};
+
+export default Loading;
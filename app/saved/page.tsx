@@ -0,0 +1,36 @@
+/**
+ * Saved Page Component for Dex Real-Time Messenger
+ *
+ * This file provides the /saved page of our Next.js 14 real-time messaging
+ * application. The saved messages themselves are listed by the layout's
+ * SavedList; on large screens the page fills the remaining space with the
+ * same empty state as /users until a message is opened.
+ *
+ * @fileoverview Saved page component for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import EmptyState from '../components/EmptyState';
+
+/**
+ * Saved Page Component
+ *
+ * @returns {JSX.Element} Empty state, hidden on small screens
+ */
+const Saved = () => {
+  return (
+    <div
+      className="
+        hidden 
+        lg:block 
+        lg:pl-80 
+        h-full
+      "
+    >
+      <EmptyState />
+    </div>
+  );
+};
+
+export default Saved;
@@ -14,27 +14,45 @@
  *
  * These types are essential for our messaging app because they ensure type
  * safety when working with complex relational data from our MongoDB database,
- * particularly for messages with sender information and read receipts, and
- * conversations with participant lists and message threads.
+ * particularly for messages with sender information and reactions, and
+ * conversations with participant lists, message threads and read watermarks.
  *
  * @fileoverview TypeScript type definitions for Next.js 14 real-time messaging application
  * @author Dayle Cortes
  * @since 2025
  */
 
-import { Conversation, Message, User } from '@prisma/client';
+import {
+  Conversation,
+  InviteLink,
+  Message,
+  Reaction,
+  ReadState,
+  SavedMessage,
+  User,
+} from '@prisma/client';
+import { InviteStatus } from '@/app/libs/inviteLinks';
+
+/**
+ * Public User Type - Another User as Sent Along with Messages
+ *
+ * The fields selected by publicUserSelect: enough to show a name and an
+ * avatar, nothing that identifies the account.
+ */
+export type PublicUser = Pick<User, 'id' | 'name' | 'image'>;
 
 /**
  * Full Message Type - Complete Message Data with Relations
  *
  * Extends the base Prisma Message model with essential relational data
  * needed for displaying messages in our real-time messaging interface.
- * This type represents a message with all its associated user information
- * and read receipt data.
+ * This type represents a message with all its associated user information.
+ * Read receipts are not part of it: who has seen a message is derived from
+ * the conversation's read watermarks (see ReadWatermark).
  *
  * Key Features:
  * - Includes sender information for message attribution
- * - Contains read receipt data for message status tracking
+ * - Includes the quoted message and emoji reactions
  * - Supports both text and image messages
  * - Enables real-time message updates and notifications
  *
@@ -56,7 +74,7 @@ import { Conversation, Message, User } from '@prisma/client';
  * // Used in message display components
  * interface MessageBoxProps {
  *   data: FullMessageType;
- *   isLast?: boolean;
+ *   seenBy?: User[];
  * }
  * ```
  */
@@ -77,19 +95,30 @@ export type FullMessageType = Message & {
   sender: User;
 
   /**
-   * Read Receipt Data
+   * Quoted Reply Target
+   *
+   * The message this one replies to, with its sender, or null when the
+   * message is not a reply. Only one level is loaded: a quote never renders
+   * the quote of its own target.
+   *
+   * Used for:
+   * - Rendering the quote block inside reply bubbles
+   * - Scrolling back to the original message when the quote is clicked
+   */
+  replyTo?: (Message & { sender: PublicUser }) | null;
+
+  /**
+   * Emoji Reactions
    *
-   * Array of User objects representing who has seen this message.
-   * This enables read receipt functionality, unread message indicators,
-   * and message status tracking across all conversation participants.
+   * Every reaction left on this message together with the reacting user,
+   * oldest first. Grouped per emoji by summarizeReactions for display.
    *
    * Used for:
-   * - Read receipt indicators in message bubbles
-   * - Unread message counts in conversation lists
-   * - Message status tracking (sent, delivered, read)
-   * - Real-time read receipt updates via Pusher
+   * - Reaction chips with counts under message bubbles
+   * - "Reacted by" tooltips and highlighting the current user's reactions
+   * - Live reaction updates via the message:update Pusher event
    */
-  seen: User[];
+  reactions: (Reaction & { user: PublicUser })[];
 };
 
 /**
@@ -102,7 +131,8 @@ export type FullMessageType = Message & {
  *
  * Key Features:
  * - Includes all conversation participants
- * - Contains complete message threads with sender and read receipt data
+ * - Contains complete message threads with sender data
+ * - Carries every participant's read watermark
  * - Supports both direct and group conversations
  * - Enables efficient conversation list rendering
  *
@@ -160,4 +190,326 @@ export type FullConversationType = Conversation & {
    * - Message history and pagination
    */
   messages: FullMessageType[];
+
+  /**
+   * Read Watermarks
+   *
+   * How far each participant has read. Participants who never opened the
+   * conversation have no entry.
+   *
+   * Used for:
+   * - Bold previews in the conversation list until the user has seen the
+   *   latest message
+   * - "Seen by" under the message each participant has read up to
+   */
+  readStates: ReadWatermark[];
+};
+
+/**
+ * Reader Type - A Participant as Listed under "Seen by"
+ *
+ * The fields selected by readerSelect. Watermarks are broadcast to every
+ * participant, so the reader carries only an ID and the name shown.
+ */
+export type Reader = Pick<User, 'id' | 'name'>;
+
+/**
+ * Read Watermark Type - How Far a Participant Has Read
+ *
+ * The public part of a ReadState row: the reader and the newest message
+ * they have seen. The unread counter is left out, as it only concerns the
+ * reader. A message counts as seen when it was created at or before
+ * lastReadAt, or when the reader sent it.
+ */
+export type ReadWatermark = Pick<
+  ReadState,
+  'userId' | 'lastReadMessageId' | 'lastReadAt'
+> & {
+  user: Reader;
+};
+
+/**
+ * Message Page Type - One Page of a Conversation Timeline
+ *
+ * Returned by the cursor-paginated messages API and the getMessages server
+ * action. Messages are ordered oldest first so pages can be concatenated
+ * directly; the flags tell the client whether another page exists on either
+ * side of this one.
+ *
+ * @example
+ * ```typescript
+ * const { data } = await axios.get<MessagePage>(
+ *   `/api/messages/${conversationId}`,
+ *   { params: { before: messages[0].id } }
+ * );
+ * ```
+ */
+export type MessagePage = {
+  /**
+   * Messages in this page, oldest first.
+   */
+  messages: FullMessageType[];
+
+  /**
+   * Whether older messages exist before the first message of this page.
+   */
+  hasMoreBefore: boolean;
+
+  /**
+   * Whether newer messages exist after the last message of this page.
+   */
+  hasMoreAfter: boolean;
+};
+
+/**
+ * Message Search Result Type - One Ranked Hit from /api/search
+ *
+ * Carries just enough of the message and its conversation to render a result
+ * row and to open the conversation scrolled to the hit.
+ */
+export type MessageSearchResult = {
+  /**
+   * Matching message with its sender, for the avatar and attribution.
+   */
+  message: Message & { sender: User };
+
+  /**
+   * Conversation the message belongs to. `name` is the group name, or the
+   * other participants' names for direct conversations.
+   */
+  conversation: {
+    id: string;
+    name: string;
+    isGroup: boolean;
+  };
+
+  /**
+   * Excerpt of the body centred on the first matching term.
+   */
+  snippet: string;
+
+  /**
+   * Relevance score; results are returned highest first.
+   */
+  score: number;
+};
+
+/**
+ * Message Search Response Type
+ *
+ * The free-text terms are echoed back so the client highlights exactly what
+ * the server matched, after operators such as from: were stripped.
+ */
+export type MessageSearchResponse = {
+  results: MessageSearchResult[];
+  terms: string[];
+};
+
+/**
+ * Conversation Search State Type
+ *
+ * Shared by the header search bar, which owns the query, and the message
+ * list, which highlights the terms and marks the current result.
+ */
+export type ConversationSearchState = {
+  /**
+   * Terms of the current query; empty when the search bar is cleared.
+   */
+  terms: string[];
+
+  /**
+   * Message the result counter currently points at, if any.
+   */
+  activeMessageId: string | null;
+};
+
+/**
+ * Seen Update Type - Compact Read Watermark Broadcast
+ *
+ * Sent as message:seen on the conversation channel (and with
+ * conversation:update on the reader's own channel) when a user marks
+ * messages as seen. Instead of full message objects it carries the reader
+ * and the watermark: every message up to and including `messageId`, i.e.
+ * created at or before `seenAt`, is now seen by that user.
+ */
+export type SeenUpdate = {
+  /**
+   * Conversation the watermark belongs to.
+   */
+  conversationId: string;
+
+  /**
+   * Reader whose watermark moved.
+   */
+  user: Reader;
+
+  /**
+   * Newest message the reader has seen.
+   */
+  messageId: string;
+
+  /**
+   * Creation time of that message; messages created at or before it are seen.
+   */
+  seenAt: Date | string;
+};
+
+/**
+ * Seen Response Type - Result of Marking a Conversation as Seen
+ *
+ * Returned by the seen route. `seen` is the watermark broadcast to the other
+ * participants, or null when the reader's watermark did not move; the read
+ * states replace the client's copy of everyone's watermarks.
+ */
+export type SeenResponse = {
+  seen: SeenUpdate | null;
+  readStates: ReadWatermark[];
+};
+
+/**
+ * Typing Event Type - Typing Indicator Client Event
+ *
+ * Sent by the person typing over the conversation's private channel, without
+ * going through the server. The conversation is the one the channel belongs
+ * to, and participants are identified by email, which is what the client
+ * session knows about the current user.
+ */
+export type TypingEvent = {
+  email: string;
+  name: string | null;
+
+  /**
+   * False when the sender stopped typing, sent or cleared the message.
+   */
+  isTyping: boolean;
+};
+
+/**
+ * User Status Update Type - Live Custom Status and Availability
+ *
+ * Sent as user:update on the personal channel of everyone who shares a
+ * conversation with the user, including the user's own other tabs. Only the
+ * status fields are carried, keyed by email like presence.
+ */
+export type UserStatusUpdate = Pick<
+  User,
+  'id' | 'email' | 'statusText' | 'statusEmoji' | 'availability'
+> & {
+  statusExpiresAt: Date | string | null;
+};
+
+/**
+ * Membership Update Type - Live Group Membership and Roles
+ *
+ * Sent as conversation:update to the members of a group whenever people
+ * join, leave or change roles, so member lists and role badges stay current
+ * without refetching the conversation.
+ */
+export type MembershipUpdate = Pick<
+  Conversation,
+  'id' | 'ownerId' | 'adminIds'
+> & {
+  users: User[];
+};
+
+/**
+ * Group Settings Update Type - Live Group Name, Photo and Description
+ *
+ * Sent as conversation:update to the members of a group when its settings
+ * change, so headers, drawers and the conversation list show the new details.
+ */
+export type GroupSettingsUpdate = Pick<
+  Conversation,
+  'id' | 'name' | 'image' | 'description'
+>;
+
+/**
+ * Invite Link Type - Group Invite with Its Creator
+ *
+ * Listed to a group's owner and admins; only the creator's name and email
+ * are included.
+ */
+export type InviteLinkWithCreator = InviteLink & {
+  createdBy: Pick<User, 'name' | 'email'>;
+};
+
+/**
+ * Invite Preview Type - What the /join Page Shows Before Joining
+ *
+ * Limited to what someone outside the group may see: the group's name,
+ * photo, description, size and a few member photos.
+ */
+export type InvitePreview = {
+  status: InviteStatus;
+  isMember: boolean;
+  conversation: Pick<Conversation, 'id' | 'name' | 'image' | 'description'> & {
+    memberCount: number;
+    users: Pick<User, 'id' | 'image'>[];
+  };
+};
+
+/**
+ * Saved Message Type - Bookmark with Its Message and Conversation
+ *
+ * Listed on the Saved page, which groups bookmarks by conversation and needs
+ * the members to name direct conversations.
+ */
+export type SavedMessageWithContext = SavedMessage & {
+  message: Message & {
+    sender: User;
+    conversation: Conversation & { users: User[] };
+  };
+};
+
+/**
+ * Saved Update Type - Payload of saved:update Events
+ *
+ * Sent on the user's own channel when they star or unstar a message.
+ */
+export type SavedUpdate = {
+  messageId: string;
+  saved: boolean;
+};
+
+/**
+ * Draft Entry Type - Unsent Text of One Conversation
+ *
+ * updatedAt is an ISO string set by the device that wrote the draft; the
+ * newest entry wins when local and server copies meet. An empty body means
+ * the draft was cleared, and is kept so an older copy cannot bring it back.
+ */
+export type DraftEntry = {
+  body: string;
+  updatedAt: string;
+};
+
+/**
+ * Draft Update Type - Payload of draft:update Events
+ *
+ * Sent on the user's own channel whenever a draft is saved or cleared.
+ */
+export type DraftUpdate = DraftEntry & {
+  conversationId: string;
+};
+
+/**
+ * Outbox Message Type - Message Not Yet Confirmed by the Server
+ *
+ * Created by the message form and shown in the timeline straight away.
+ * pending messages are being sent or wait for their next attempt; failed
+ * ones gave up and wait for the user to retry or discard them. A sent
+ * message carries the server's copy until the timeline has picked it up.
+ * id is generated in the browser and sent as the clientMessageId.
+ */
+export type OutboxMessage = {
+  id: string;
+  conversationId: string;
+  body: string | null;
+  image: string | null;
+  replyTo: FullMessageType | null;
+  createdAt: string;
+  status: 'pending' | 'failed' | 'sent';
+  attempts: number;
+  nextAttemptAt: string | null;
+  message?: FullMessageType;
 };
@@ -9,6 +9,7 @@
  * Key Features:
  * - Individual user selection and conversation creation
  * - Avatar component integration for user identification
+ * - Custom status line under the user's name
  * - LoadingModal integration for conversation creation feedback
  * - API integration with /api/conversations endpoint
  * - Next.js router integration for navigation
@@ -35,6 +36,7 @@
 
 import Avatar from '@/app/components/Avatar';
 import LoadingModal from '@/app/components/LoadingModal';
+import useUserStatus from '@/app/hooks/useUserStatus';
 import { User } from '@prisma/client';
 import axios from 'axios';
 import { useRouter } from 'next/navigation';
@@ -168,6 +170,13 @@ const UserBox: React.FC<UserBoxProps> = ({ data }) => {
    */
   const router = useRouter();
 
+  /**
+   * Custom Status
+   *
+   * Shown under the name while set and not expired, updated live.
+   */
+  const { customStatus } = useUserStatus(data);
+
   /**
    * Conversation Creation Loading State
    *
@@ -289,6 +298,9 @@ const UserBox: React.FC<UserBoxProps> = ({ data }) => {
                 {data.name}
               </p>
             </div>
+            {customStatus && (
+              <p className="truncate text-xs text-gray-500">{customStatus}</p>
+            )}
           </div>
         </div>
       </div>
@@ -14,6 +14,8 @@
  * Protected Routes:
  * - /users/*: User management and user selection for conversations
  * - /conversations/*: All conversation-related pages and messaging functionality
+ * - /join/*: Group invite links, reopened after sign-in through callbackUrl
+ * - /saved/*: The user's saved messages
  *
  * This middleware is essential for our messaging app because it ensures that sensitive
  * user data and conversations are only accessible to authenticated users, maintaining
@@ -81,14 +83,24 @@ export default withAuth({
  * Route Patterns Explained:
  * - '/users/:path*': Matches /users and any sub-routes (e.g., /users/settings)
  * - '/conversations/:path*': Matches /conversations and any sub-routes (e.g., /conversations/123)
+ * - '/join/:path*': Matches invite links (e.g., /join/abc123)
+ * - '/saved/:path*': Matches the saved messages page
  *
  * Why these specific routes?
  * - /users/*: Contains user management, user selection, and user discovery features
  * - /conversations/*: Contains all messaging functionality, conversation lists, and chat interfaces
+ * - /join/*: Needs a signed-in user to join with; the sign-in page sends
+ *   visitors back to the invite through the callbackUrl withAuth adds
+ * - /saved/*: Lists bookmarks that belong to the signed-in user
  *
  * These are the core features of our messaging app that require authentication
  * to protect user privacy and ensure proper access control.
  */
 export const config = {
-  matcher: ['/users/:path*', '/conversations/:path*'],
+  matcher: [
+    '/users/:path*',
+    '/conversations/:path*',
+    '/join/:path*',
+    '/saved/:path*',
+  ],
 };
@@ -11,6 +11,7 @@
  * - Pusher authorization token generation for private channels
  * - User identification and authentication for channel access
  * - Support for both conversation and presence channels
+ * - Conversation channels limited to the conversation's participants
  * - Comprehensive error handling and security validation
  *
  * Channel Authorization Features:
@@ -34,6 +35,8 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth';
 import { pusherServer } from '@/app/libs/pusher';
 import { authOptions } from '@/app/libs/authOptions';
+import prisma from '@/app/libs/prismadb';
+import { parseConversationChannelName } from '@/app/libs/typing';
 
 /**
  * Pusher Channel Authorization Handler
@@ -203,6 +206,41 @@ export default async function handler(
   const socketId = request.body.socket_id;
   const channel = request.body.channel_name;
 
+  /**
+   * Conversation Channel Membership
+   *
+   * Private conversation channels carry client events such as typing, which
+   * Pusher relays without asking the server again, so only participants may
+   * subscribe. Malformed conversation IDs make Prisma throw and are refused
+   * the same way as conversations the user is not part of. Private channels
+   * are signed without user data; only presence channels take it.
+   */
+  const conversationId = parseConversationChannelName(channel);
+
+  if (conversationId) {
+    const conversation = await prisma.conversation
+      .findFirst({
+        where: {
+          id: conversationId,
+          users: {
+            some: {
+              email: session.user.email,
+            },
+          },
+        },
+        select: {
+          id: true,
+        },
+      })
+      .catch(() => null);
+
+    if (!conversation) {
+      return response.status(403).send('Forbidden');
+    }
+
+    return response.send(pusherServer.authorizeChannel(socketId, channel));
+  }
+
   /**
    * User Context Data for Channel Authorization
    *
@@ -0,0 +1,136 @@
+/**
+ * Pusher Presence Webhook API Route for Dex Real-Time Messenger
+ *
+ * This file provides the endpoint Pusher calls with presence webhooks for our
+ * Next.js 14 real-time messaging application. When a user's last connection
+ * leaves the presence channel, their lastSeenAt is stored, so conversation
+ * headers can show "Last seen 10 minutes ago" after they go offline.
+ *
+ * Key Features:
+ * - Signature validation with the app's Pusher secret
+ * - member_removed events on the presence channel only
+ * - Users who hide their last seen time are skipped
+ *
+ * The webhook must be enabled in the Pusher dashboard with the "Presence"
+ * event type, pointing at /api/pusher/webhook.
+ *
+ * @fileoverview Pusher presence webhook API route for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { pusherServer } from '@/app/libs/pusher';
+import prisma from '@/app/libs/prismadb';
+import { PRESENCE_CHANNEL } from '@/app/libs/lastSeen';
+
+/**
+ * Route Config
+ *
+ * The signature covers the exact request body, so Next.js must not parse it.
+ */
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+/**
+ * Presence Webhook Event
+ *
+ * Presence events carry the member's user_id, which the pusher typings omit.
+ */
+interface PresenceWebhookEvent {
+  name: string;
+  channel: string;
+  user_id: string;
+}
+
+/**
+ * Raw Body Reader
+ *
+ * @param {NextApiRequest} request - Incoming webhook request
+ * @returns {Promise<string>} Request body as sent by Pusher
+ */
+const readRawBody = (request: NextApiRequest) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+/**
+ * Pusher Presence Webhook Handler
+ *
+ * Pusher batches events, so one request may report several users leaving.
+ * Member IDs on the presence channel are emails, as set by the auth route.
+ * The webhook's own timestamp is used rather than the time of arrival, since
+ * Pusher waits a few seconds before reporting a member as removed.
+ *
+ * @param {NextApiRequest} request - Webhook request signed by Pusher
+ * @param {NextApiResponse} response - Empty 200 once processed
+ * @returns {Promise<void>}
+ */
+export default async function handler(
+  request: NextApiRequest,
+  response: NextApiResponse
+) {
+  if (request.method !== 'POST') {
+    return response.status(405).end();
+  }
+
+  try {
+    const webhook = pusherServer.webhook({
+      headers: request.headers,
+      rawBody: await readRawBody(request),
+    });
+
+    if (!webhook.isValid()) {
+      return response.status(401).end();
+    }
+
+    const emails = (webhook.getEvents() as unknown as PresenceWebhookEvent[])
+      .filter(
+        (event) =>
+          event.name === 'member_removed' && event.channel === PRESENCE_CHANNEL
+      )
+      .map((event) => event.user_id);
+
+    if (emails.length > 0) {
+      // hideLastSeen is missing on older users, so it cannot be filtered on
+      const users = await prisma.user.findMany({
+        where: {
+          email: {
+            in: emails,
+          },
+        },
+        select: {
+          id: true,
+          hideLastSeen: true,
+        },
+      });
+
+      await prisma.user.updateMany({
+        where: {
+          id: {
+            in: users
+              .filter((user) => !user.hideLastSeen)
+              .map((user) => user.id),
+          },
+        },
+        data: {
+          lastSeenAt: webhook.getTime(),
+        },
+      });
+    }
+
+    return response.status(200).end();
+  } catch (error: any) {
+    return response.status(500).end();
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Group Roles Migration for Dex Real-Time Messenger
+ *
+ * One-off script that gives every group created before roles existed an
+ * owner. Until it runs, everyone in such a group is a plain member, so
+ * nobody can add or remove people or delete the group. The owner is
+ * whoever sent the group's first message and is still in it; for groups
+ * without such a message, the first member in userIds.
+ *
+ * Usage:
+ * - npm run migrate:group-roles            Assign owners
+ * - npm run migrate:group-roles -- --dry-run   Only report what would change
+ *
+ * Groups that already have an owner are skipped, so the script is safe to
+ * run more than once.
+ *
+ * @fileoverview Group roles migration for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prismaClient from '@prisma/client';
+
+const { PrismaClient } = prismaClient;
+const prisma = new PrismaClient();
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * Owner Choice
+ *
+ * @param {{ id: string, userIds: string[] }} conversation - Ownerless group
+ * @returns {Promise<string | undefined>} ID of the member who becomes owner
+ */
+const pickOwner = async (conversation) => {
+  const firstMessage = await prisma.message.findFirst({
+    where: {
+      conversationId: conversation.id,
+      senderId: {
+        in: conversation.userIds,
+      },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+    select: {
+      senderId: true,
+    },
+  });
+
+  return firstMessage?.senderId ?? conversation.userIds[0];
+};
+
+const main = async () => {
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      isGroup: true,
+      OR: [{ ownerId: null }, { ownerId: { isSet: false } }],
+    },
+    select: {
+      id: true,
+      userIds: true,
+    },
+  });
+
+  let assigned = 0;
+
+  for (const conversation of conversations) {
+    const ownerId = await pickOwner(conversation);
+
+    if (!ownerId) {
+      continue;
+    }
+
+    if (!isDryRun) {
+      await prisma.conversation.update({
+        where: {
+          id: conversation.id,
+        },
+        data: {
+          ownerId,
+        },
+      });
+    }
+
+    assigned++;
+  }
+
+  console.log(
+    `${isDryRun ? 'Would assign' : 'Assigned'} owners to ${assigned} of ${conversations.length} groups without one`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error('Group roles migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,190 @@
+/**
+ * Read Watermark Migration for Dex Real-Time Messenger
+ *
+ * One-off script that converts the legacy per-message read receipts
+ * (Message.seenIds and User.seenMessageIds) into ReadState watermarks. For
+ * every user and conversation, the newest message the user had seen becomes
+ * their watermark; afterwards the legacy arrays are removed from the
+ * documents. The Prisma schema no longer declares those fields, so they are
+ * read and removed with raw MongoDB commands.
+ *
+ * Usage:
+ * - npm run migrate:read-watermarks            Convert and remove legacy arrays
+ * - npm run migrate:read-watermarks -- --dry-run   Only report what would change
+ *
+ * The script is safe to run more than once: watermarks only move forward and
+ * documents without legacy arrays are skipped.
+ *
+ * @fileoverview Read watermark migration for Next.js 14 real-time messaging application
+ * @author Dayle Cortes
+ * @since 2025
+ */
+
+import prismaClient from '@prisma/client';
+
+const { PrismaClient } = prismaClient;
+const prisma = new PrismaClient();
+const isDryRun = process.argv.includes('--dry-run');
+
+/**
+ * Newest Seen Message per User and Conversation
+ *
+ * Unwinds every seenIds array and keeps the newest message per reader and
+ * conversation. IDs and dates are converted to strings in the pipeline, so
+ * the result does not depend on MongoDB's extended JSON output.
+ */
+const findLegacyWatermarks = () =>
+  prisma.message.aggregateRaw({
+    pipeline: [
+      { $match: { seenIds: { $exists: true, $ne: [] } } },
+      { $sort: { createdAt: -1 } },
+      { $unwind: '$seenIds' },
+      {
+        $group: {
+          _id: { userId: '$seenIds', conversationId: '$conversationId' },
+          messageId: { $first: '$_id' },
+          createdAt: { $first: '$createdAt' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          userId: { $toString: '$_id.userId' },
+          conversationId: { $toString: '$_id.conversationId' },
+          messageId: { $toString: '$messageId' },
+          lastReadAt: { $dateToString: { date: '$createdAt' } },
+        },
+      },
+    ],
+  });
+
+/**
+ * Watermark Upsert
+ *
+ * Skips readers who have left the conversation and watermarks that are not
+ * newer than the one already stored, e.g. when the seen route ran since.
+ *
+ * @returns {Promise<boolean>} Whether a watermark was written
+ */
+const applyWatermark = async (watermark, membersByConversation) => {
+  const members = membersByConversation.get(watermark.conversationId);
+
+  if (!members || !members.includes(watermark.userId)) {
+    return false;
+  }
+
+  const lastReadAt = new Date(watermark.lastReadAt);
+  const existing = await prisma.readState.findUnique({
+    where: {
+      userId_conversationId: {
+        userId: watermark.userId,
+        conversationId: watermark.conversationId,
+      },
+    },
+    select: {
+      lastReadAt: true,
+    },
+  });
+
+  if (existing?.lastReadAt && existing.lastReadAt >= lastReadAt) {
+    return false;
+  }
+
+  if (isDryRun) {
+    return true;
+  }
+
+  await prisma.readState.upsert({
+    where: {
+      userId_conversationId: {
+        userId: watermark.userId,
+        conversationId: watermark.conversationId,
+      },
+    },
+    create: {
+      userId: watermark.userId,
+      conversationId: watermark.conversationId,
+      lastReadMessageId: watermark.messageId,
+      lastReadAt,
+    },
+    update: {
+      lastReadMessageId: watermark.messageId,
+      lastReadAt,
+    },
+  });
+
+  return true;
+};
+
+/**
+ * Legacy Field Removal
+ *
+ * @param {string} collection - Collection name (the Prisma model name)
+ * @param {string} field - Legacy array to remove
+ * @returns {Promise<number>} Number of documents changed
+ */
+const unsetLegacyField = async (collection, field) => {
+  const result = await prisma.$runCommandRaw({
+    update: collection,
+    updates: [
+      {
+        q: { [field]: { $exists: true } },
+        u: { $unset: { [field]: '' } },
+        multi: true,
+      },
+    ],
+  });
+
+  return Number(result.nModified ?? 0);
+};
+
+const main = async () => {
+  const watermarks = await findLegacyWatermarks();
+
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      id: {
+        in: [
+          ...new Set(watermarks.map((watermark) => watermark.conversationId)),
+        ],
+      },
+    },
+    select: {
+      id: true,
+      userIds: true,
+    },
+  });
+  const membersByConversation = new Map(
+    conversations.map((conversation) => [conversation.id, conversation.userIds])
+  );
+
+  let written = 0;
+
+  for (const watermark of watermarks) {
+    if (await applyWatermark(watermark, membersByConversation)) {
+      written++;
+    }
+  }
+
+  console.log(
+    `${isDryRun ? 'Would write' : 'Wrote'} ${written} of ${watermarks.length} read watermarks`
+  );
+
+  if (isDryRun) {
+    return;
+  }
+
+  const messages = await unsetLegacyField('Message', 'seenIds');
+  const users = await unsetLegacyField('User', 'seenMessageIds');
+
+  console.log(
+    `Removed seenIds from ${messages} messages and seenMessageIds from ${users} users`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error('Read watermark migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());